@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import path from 'path';
 import { MonitorController, MonitorStatus } from '../services/MonitorController';
 import { ConfigurationManager } from '../services/ConfigurationManager';
 import { DataInspectionService } from '../services/DataInspectionService';
@@ -10,7 +11,20 @@ import { InteractiveConfigPrompts } from './InteractiveConfigPrompts';
 import { StatusDisplay } from './StatusDisplay';
 import { LogViewer } from './LogViewer';
 import { DetectionValidationCommand } from './DetectionValidationCommand';
-import { MonitorConfig, ValidationResult } from '../models/types';
+import { HtmlFixtureSource } from '../services/ScrapeSource';
+import { getProvider } from '../services/providers';
+import { ProxyPool } from '../services/ProxyPool';
+import { ReviewQueueService, ReviewLabel, REVIEW_LABELS } from '../services/ReviewQueueService';
+import { EvidenceArchiveService } from '../services/EvidenceArchiveService';
+import { FilterOptionDiscovery } from '../services/FilterOptionDiscovery';
+import { AvailabilityAnalyticsService, DurationBreakdown, DurationStats } from '../services/AvailabilityAnalyticsService';
+import { DEFAULT_PROFILE_DATA_DIRECTORY, WatchProfileService } from '../services/WatchProfileService';
+import { AdminAlert, MonitorConfig, MonthCalendar, NotificationSettings, ScraperBackend, ValidationResult, WatchProfile, WatchProfileStatus } from '../models/types';
+import { getJalaliMonthName, jalaliMonthsToGregorianMonths } from '../models/jalali';
+import { describeAppointmentAttributes, describeAttributeFilter, formatFee } from '../models/attributes';
+import { describeDateFilter, parseDateFilterExpression } from '../models/dateFilters';
+import { PROFILE_CHANNELS, getCombinedScrapeFilters, getProfileNotificationSettings } from '../models/profiles';
+import { validateWatchProfiles } from '../models/validation';
 
 /**
  * CLI Controller handles all command-line interface operations
@@ -406,7 +420,7 @@ export class CLIController {
   /**
    * Handle config-validate command - validate configuration
    */
-  async configValidateCommand(options: { file?: string; fix?: boolean }): Promise<void> {
+  async configValidateCommand(options: { file?: string; fix?: boolean; refreshOptions?: boolean }): Promise<void> {
     console.log(chalk.blue('🔍 Configuration Validation\n'));
 
     try {
@@ -434,6 +448,8 @@ export class CLIController {
         
         // Additional server-specific validations
         await this.performServerValidations(config);
+
+        await this.validateAgainstSiteOptions(config, options.refreshOptions === true);
         
       } else {
         console.log(chalk.red('\n❌ Configuration validation failed'));
@@ -475,6 +491,8 @@ export class CLIController {
     city?: string;
     examModel?: string;
     months?: string;
+    fromHtml?: string;
+    backend?: string;
   }): Promise<void> {
     console.log(chalk.blue('🔍 Manual Appointment Scan\n'));
 
@@ -492,24 +510,50 @@ export class CLIController {
       const scanFilters = {
         city: options.city ? options.city.split(',').map(c => c.trim()) : config.city,
         examModel: options.examModel ? options.examModel.split(',').map(e => e.trim()) : config.examModel,
-        months: options.months ? options.months.split(',').map(m => parseInt(m.trim())) : config.months
+        months: options.months ? options.months.split(',').map(m => parseInt(m.trim())) : config.months,
+        monthCalendar: config.monthCalendar,
+        attributes: config.attributeFilters,
+        dates: config.dateFilters
       };
 
       console.log(chalk.blue('📋 Scan Parameters:'));
       console.log(`   Cities: ${scanFilters.city.join(', ')}`);
       console.log(`   Exam Models: ${scanFilters.examModel.join(', ')}`);
-      console.log(`   Months: ${scanFilters.months.map(m => this.getMonthName(m)).join(', ')}`);
-      console.log(`   Base URL: ${config.baseUrl || 'https://irsafam.org/ielts/timetable'}\n`);
+      console.log(`   Months: ${scanFilters.months.map(m => this.getMonthName(m, scanFilters.monthCalendar)).join(', ')}`);
+      if (describeAttributeFilter(scanFilters.attributes)) {
+        console.log(`   Attribute Filters: ${describeAttributeFilter(scanFilters.attributes)}`);
+      }
+      if (describeDateFilter(scanFilters.dates)) {
+        console.log(`   Date Filters: ${describeDateFilter(scanFilters.dates)}`);
+      }
+      const backend = this.resolveScraperBackend(options.backend, config);
+      console.log(`   Scraper Backend: ${backend}`);
+      const webScraper = new (await import('../services/WebScraperService')).WebScraperService(config.baseUrl, {
+        provider: config.provider,
+        backend,
+        concurrency: config.scrapeConcurrency,
+        proxy: config.proxy
+      });
+      console.log(`   Provider: ${webScraper.getProvider().name}`);
+      console.log(`   Concurrency: ${webScraper.getConcurrencyConfig().maxPages} requests at once`);
+      if (config.proxy?.proxies.length) {
+        console.log(`   Proxies: ${config.proxy.proxies.length} (${config.proxy.rotation || 'per-check'} rotation)`);
+      }
+      const fixtureSource = options.fromHtml ? new HtmlFixtureSource(options.fromHtml) : undefined;
+      if (fixtureSource) {
+        console.log(`   HTML Fixtures: ${fixtureSource.describe()}\n`);
+      } else {
+        console.log(`   Base URL: ${config.baseUrl || webScraper.getProvider().defaultBaseUrl}\n`);
+      }
 
       // Initialize web scraper
-      const webScraper = new (await import('../services/WebScraperService')).WebScraperService(config.baseUrl);
       await webScraper.initialize();
 
       console.log(chalk.blue('🔄 Scanning for appointments...'));
       const startTime = Date.now();
 
       try {
-        const checkResult = await webScraper.fetchAppointmentsWithStatus(scanFilters);
+        const checkResult = await webScraper.fetchAppointmentsWithStatus(scanFilters, fixtureSource);
         const duration = Date.now() - startTime;
 
         if (options.json) {
@@ -529,6 +573,30 @@ export class CLIController {
         console.log(`   Available: ${chalk.green(checkResult.availableCount.toString())}`);
         console.log(`   Filled: ${chalk.yellow(checkResult.filledCount.toString())}`);
 
+        if (checkResult.pageIssues && checkResult.pageIssues.length > 0) {
+          console.log(chalk.red('\n🚫 Page Issues:'));
+          checkResult.pageIssues.forEach(issue => {
+            console.log(`   ${issue.kind}: ${issue.reason} - ${issue.url}`);
+            if (options.detailed) {
+              console.log(chalk.gray(`      Title: ${issue.pageTitle || '(none)'}${issue.indicators.length > 0 ? ` | Indicators: ${issue.indicators.join(', ')}` : ''}`));
+              console.log(chalk.gray(`      Text: ${issue.textSample || '(empty)'}`));
+            }
+          });
+        }
+
+        if (options.detailed && checkResult.urlResults && checkResult.urlResults.length > 1) {
+          console.log(chalk.blue('\n🌐 Per-Request Breakdown:'));
+          checkResult.urlResults.forEach(urlResult => {
+            const outcome = !urlResult.success
+              ? chalk.red(`failed: ${urlResult.error || 'Unknown error'}`)
+              : urlResult.pageIssue
+                ? chalk.red(`${urlResult.pageIssue} page`)
+                : `${urlResult.appointmentCount} appointments (${urlResult.availableCount} available)`;
+            const source = `${urlResult.extractionPath === 'network-json' ? ', from JSON payload' : ''}${urlResult.proxy ? `, via ${urlResult.proxy}` : ''}`;
+            console.log(`   ${urlResult.label}: ${outcome} - ${urlResult.durationMs}ms, ${urlResult.attempts} attempt(s)${source}`);
+          });
+        }
+
         if (checkResult.appointments.length > 0) {
           console.log(chalk.blue('\n📅 Found Appointments:'));
           
@@ -542,8 +610,13 @@ export class CLIController {
               if (options.detailed && apt.location) {
                 console.log(`      Location: ${apt.location}`);
               }
-              if (options.detailed && apt.price) {
-                console.log(`      Price: ${apt.price.toLocaleString()} Toman`);
+              const attributes = describeAppointmentAttributes(apt);
+              const fee = formatFee(apt);
+              if (options.detailed && attributes.length > 0) {
+                console.log(`      Format: ${attributes.join(', ')}`);
+              }
+              if (options.detailed && fee) {
+                console.log(`      Price: ${fee}`);
               }
             });
           }
@@ -557,6 +630,8 @@ export class CLIController {
               console.log(`   ... and ${filledAppointments.length - 5} more filled appointments`);
             }
           }
+        } else if (checkResult.pageIssues && checkResult.pageIssues.length > 0) {
+          console.log(chalk.yellow(`\n⚠️  The site served a ${checkResult.type} page, so availability could not be checked`));
         } else {
           console.log(chalk.yellow('\n📭 No appointments found for the specified criteria'));
         }
@@ -595,6 +670,8 @@ export class CLIController {
     json?: boolean;
     showHtml?: boolean;
     testServer?: boolean;
+    fromHtml?: string;
+    backend?: string;
   }): Promise<void> {
     console.log(chalk.blue('🔍 Appointment Detection Debug Mode\n'));
 
@@ -610,14 +687,18 @@ export class CLIController {
 
       // Determine target URL
       let targetUrl: string;
-      if (options.testServer) {
+      const fixtureSource = options.fromHtml ? new HtmlFixtureSource(options.fromHtml) : undefined;
+      if (fixtureSource) {
+        targetUrl = config.baseUrl || getProvider(config.provider).defaultBaseUrl;
+        console.log(chalk.blue(`📁 Using saved HTML fixtures: ${fixtureSource.describe()}`));
+      } else if (options.testServer) {
         targetUrl = 'http://localhost:3001';
         console.log(chalk.blue('🧪 Using test simulation server'));
       } else if (options.url) {
         targetUrl = options.url;
         console.log(chalk.blue(`🌐 Using custom URL: ${targetUrl}`));
       } else {
-        targetUrl = config.baseUrl || 'https://irsafam.org/ielts/timetable';
+        targetUrl = config.baseUrl || getProvider(config.provider).defaultBaseUrl;
         console.log(chalk.blue(`🌐 Using configured URL: ${targetUrl}`));
       }
 
@@ -625,19 +706,23 @@ export class CLIController {
       const scanFilters = {
         city: options.city ? options.city.split(',').map(c => c.trim()) : config.city,
         examModel: options.examModel ? options.examModel.split(',').map(e => e.trim()) : config.examModel,
-        months: options.months ? options.months.split(',').map(m => parseInt(m.trim())) : config.months
+        months: options.months ? options.months.split(',').map(m => parseInt(m.trim())) : config.months,
+        monthCalendar: config.monthCalendar,
+        attributes: config.attributeFilters
       };
 
       console.log(chalk.blue('📋 Debug Parameters:'));
-      console.log(`   Target URL: ${targetUrl}`);
+      console.log(`   Target: ${fixtureSource ? fixtureSource.describe() : targetUrl}`);
       console.log(`   Cities: ${scanFilters.city.join(', ')}`);
       console.log(`   Exam Models: ${scanFilters.examModel.join(', ')}`);
-      console.log(`   Months: ${scanFilters.months.map(m => this.getMonthName(m)).join(', ')}`);
+      console.log(`   Months: ${scanFilters.months.map(m => this.getMonthName(m, scanFilters.monthCalendar)).join(', ')}`);
+      const backend = this.resolveScraperBackend(options.backend, config);
+      console.log(`   Scraper Backend: ${backend}`);
       console.log(`   Show HTML: ${options.showHtml ? 'Yes' : 'No'}`);
       console.log(`   Detailed Analysis: ${options.detailed ? 'Yes' : 'No'}\n`);
 
-      // Check browser availability first (unless using test server)
-      if (!options.testServer && !targetUrl.includes('localhost')) {
+      // Check browser availability first (unless using test server or the HTTP backend)
+      if (backend === 'puppeteer' && (fixtureSource || (!options.testServer && !targetUrl.includes('localhost')))) {
         console.log(chalk.blue('🔍 Checking browser availability...'));
         const { WebScraperService } = await import('../services/WebScraperService');
         const browserCheck = await WebScraperService.checkBrowserAvailability();
@@ -656,7 +741,7 @@ export class CLIController {
       }
 
       // Initialize web scraper with debug URL
-      const webScraper = new (await import('../services/WebScraperService')).WebScraperService(targetUrl);
+      const webScraper = new (await import('../services/WebScraperService')).WebScraperService(targetUrl, { provider: config.provider, backend, proxy: config.proxy });
       
       try {
         await webScraper.initialize();
@@ -671,20 +756,24 @@ export class CLIController {
 
       try {
         // Use the enhanced detection method to get detailed results
-        const checkResult = await webScraper.fetchAppointmentsWithStatus(scanFilters);
+        const checkResult = await webScraper.fetchAppointmentsWithStatus(scanFilters, fixtureSource);
         const duration = Date.now() - startTime;
 
         // Get the latest inspection data for detailed analysis
         const latestInspection = await this.dataInspectionService.getLatestInspectionData();
+        const ruleSetInfo = webScraper.getDetectionRuleSetInfo();
 
         if (options.json) {
           const debugOutput = {
             debugInfo: {
               targetUrl,
+              source: fixtureSource ? { kind: fixtureSource.kind, path: fixtureSource.describe() } : { kind: 'live' },
               scanFilters,
               duration,
-              timestamp: new Date().toISOString()
+              timestamp: new Date().toISOString(),
+              proxies: webScraper.getProxyHealth()
             },
+            detectionRules: ruleSetInfo,
             detectionResults: checkResult,
             inspectionData: latestInspection?.data
           };
@@ -703,6 +792,16 @@ export class CLIController {
         console.log(`${chalk.cyan('Available Appointments:')} ${chalk.green(checkResult.availableCount.toString())}`);
         console.log(`${chalk.cyan('Filled Appointments:')} ${chalk.yellow(checkResult.filledCount.toString())}`);
         console.log(`${chalk.cyan('Processing Time:')} ${duration}ms`);
+        console.log(`${chalk.cyan('Detection Rules:')} v${ruleSetInfo.version} (${ruleSetInfo.source === 'file' ? ruleSetInfo.rulesFile : 'built-in'}, ${ruleSetInfo.ruleCount} rules)`);
+        if (ruleSetInfo.lastError) {
+          console.log(chalk.yellow(`⚠️  Rule file rejected: ${ruleSetInfo.lastError}`));
+        }
+        const usedProxies = Array.from(new Set((checkResult.urlResults || []).map(urlResult => urlResult.proxy || 'direct')));
+        console.log(`${chalk.cyan('Proxy:')} ${usedProxies.length > 0 ? usedProxies.join(', ') : 'direct'}`);
+        webScraper.getProxyHealth().filter(health => health.failures > 0 || health.evictedUntil).forEach(health => {
+          const evicted = health.evictedUntil ? chalk.red(` evicted until ${health.evictedUntil.toLocaleTimeString()}`) : '';
+          console.log(chalk.gray(`   ${health.label}: score ${health.score.toFixed(2)}, ${health.failures} failure(s)${health.lastError ? ` (${health.lastError})` : ''}`) + evicted);
+        });
 
         // Show detection strategy details if inspection data is available
         if (latestInspection?.data && options.detailed) {
@@ -730,6 +829,9 @@ export class CLIController {
               console.log(`   ${index + 1}. ${statusColor(decision.finalStatus.toUpperCase())}`);
               console.log(`      Indicators: ${decision.indicators?.join(', ') || 'none'}`);
               console.log(`      Reasoning: ${decision.reasoning || 'No reasoning provided'}`);
+              if (decision.ruleId) {
+                console.log(`      Matched Rule: ${decision.ruleId} (v${ruleSetInfo.version})`);
+              }
               console.log(`      Confidence: ${Math.round((decision.confidenceScore || 0) * 100)}%`);
             });
           }
@@ -757,8 +859,13 @@ export class CLIController {
             availableAppointments.forEach((apt, index) => {
               console.log(`   ${index + 1}. ${apt.date} ${apt.time} - ${apt.city} (${apt.examType})`);
               console.log(`      Location: ${apt.location}`);
-              if (apt.price) {
-                console.log(`      Price: ${apt.price.toLocaleString()} Toman`);
+              const attributes = describeAppointmentAttributes(apt);
+              const fee = formatFee(apt);
+              if (attributes.length > 0) {
+                console.log(`      Format: ${attributes.join(', ')}`);
+              }
+              if (fee) {
+                console.log(`      Price: ${fee}`);
               }
               if (options.detailed && 'statusIndicators' in apt) {
                 console.log(`      Status Indicators: ${(apt as any).statusIndicators?.join(', ') || 'none'}`);
@@ -856,7 +963,7 @@ export class CLIController {
     format?: 'json' | 'text' | 'csv';
     limit?: string;
     id?: string;
-  }): Promise<void> {
+  }, evidenceArchive: EvidenceArchiveService = new EvidenceArchiveService()): Promise<void> {
     console.log(chalk.blue('🔍 IELTS Appointment Data Inspection\n'));
 
     try {
@@ -887,7 +994,22 @@ export class CLIController {
         const record = await this.dataInspectionService.getInspectionDataById(options.id);
         
         if (!record) {
-          console.log(chalk.yellow(`⚠️  No inspection record found with ID: ${options.id}`));
+          // Failed page loads have evidence but no inspection record
+          const evidence = await evidenceArchive.get(options.id);
+          if (evidence) {
+            console.log(chalk.blue(`📎 Evidence ${evidence.id}`));
+            console.log(chalk.gray('─'.repeat(50)));
+            console.log(`${chalk.cyan('Saved:')} ${new Date(evidence.createdAt).toLocaleString()}`);
+            console.log(`${chalk.cyan('URL:')} ${evidence.url}`);
+            console.log(`${chalk.cyan('Reason:')} ${evidence.reason}`);
+            if (evidence.inspectionId) {
+              console.log(`${chalk.cyan('Inspection Record:')} ${evidence.inspectionId}`);
+            }
+            evidence.files.forEach(file => console.log(`  ${path.join(evidenceArchive.getDirectory(evidence.id), file)}`));
+            return;
+          }
+
+          console.log(chalk.yellow(`⚠️  No inspection record or evidence found with ID: ${options.id}`));
           return;
         }
 
@@ -940,6 +1062,7 @@ export class CLIController {
       console.log(chalk.gray('  • Use --detailed for comprehensive analysis'));
       console.log(chalk.gray('  • Use --export <file> to save data'));
       console.log(chalk.gray('  • Use --id <inspection-id> to view specific record'));
+      console.log(chalk.gray('  • Use --id <evidence-id> to locate saved screenshots, DOM and network logs'));
 
     } catch (error) {
       throw new Error(`Failed to inspect data: ${error instanceof Error ? error.message : error}`);
@@ -954,9 +1077,26 @@ export class CLIController {
     console.log(chalk.gray('─'.repeat(40)));
     console.log(`${chalk.cyan('Cities:')} ${config.city.join(', ')}`);
     console.log(`${chalk.cyan('Exam Models:')} ${config.examModel.join(', ')}`);
-    console.log(`${chalk.cyan('Months:')} ${config.months.map(m => this.getMonthName(m)).join(', ')}`);
+    console.log(`${chalk.cyan('Months:')} ${config.months.map(m => this.getMonthName(m, config.monthCalendar)).join(', ')}${config.monthCalendar === 'jalali' ? ' (Solar Hijri)' : ''}`);
     console.log(`${chalk.cyan('Check Interval:')} ${config.checkInterval / 1000} seconds`);
-    console.log(`${chalk.cyan('Base URL:')} ${config.baseUrl || 'https://irsafam.org/ielts/timetable'}`);
+    console.log(`${chalk.cyan('Provider:')} ${getProvider(config.provider).name}`);
+    console.log(`${chalk.cyan('Base URL:')} ${config.baseUrl || getProvider(config.provider).defaultBaseUrl}`);
+    console.log(`${chalk.cyan('Scraper Backend:')} ${config.scraperBackend || 'puppeteer'}`);
+    if (config.scrapeConcurrency) {
+      console.log(`${chalk.cyan('Scrape Concurrency:')} ${config.scrapeConcurrency.maxPages ?? 3} requests, ${config.scrapeConcurrency.maxPerHost ?? 2} per host`);
+    }
+    if (describeAttributeFilter(config.attributeFilters)) {
+      console.log(`${chalk.cyan('Attribute Filters:')} ${describeAttributeFilter(config.attributeFilters)}`);
+    }
+    if (describeDateFilter(config.dateFilters)) {
+      console.log(`${chalk.cyan('Date Filters:')} ${describeDateFilter(config.dateFilters)}`);
+    }
+    if (config.profiles && config.profiles.length > 0) {
+      console.log(`${chalk.cyan('Watch Profiles:')} ${config.profiles.map(profile => profile.enabled === false ? `${profile.name} (disabled)` : profile.name).join(', ')}`);
+    }
+    if (config.proxy?.proxies.length) {
+      console.log(`${chalk.cyan('Proxies:')} ${config.proxy.proxies.map(proxyUrl => ProxyPool.mask(proxyUrl)).join(', ')} (${config.proxy.rotation || 'per-check'} rotation)`);
+    }
     console.log(`${chalk.cyan('Notifications:')}`);
     console.log(`  • Desktop: ${config.notificationSettings.desktop ? chalk.green('✓') : chalk.red('✗')}`);
     console.log(`  • Audio: ${config.notificationSettings.audio ? chalk.green('✓') : chalk.red('✗')}`);
@@ -981,10 +1121,24 @@ export class CLIController {
     }
   }
 
+  /**
+   * Resolve the scraper backend from the command line option or configuration
+   */
+  private resolveScraperBackend(option: string | undefined, config: MonitorConfig): ScraperBackend {
+    const backend = option || config.scraperBackend || 'puppeteer';
+    if (backend !== 'puppeteer' && backend !== 'http') {
+      throw new Error(`Invalid scraper backend "${backend}". Use "puppeteer" or "http"`);
+    }
+    return backend;
+  }
+
   /**
    * Get month name from number
    */
-  private getMonthName(month: number): string {
+  private getMonthName(month: number, calendar: MonthCalendar = 'gregorian'): string {
+    if (calendar === 'jalali') {
+      return getJalaliMonthName(month);
+    }
     const months = [
       'January', 'February', 'March', 'April', 'May', 'June',
       'July', 'August', 'September', 'October', 'November', 'December'
@@ -1015,6 +1169,12 @@ export class CLIController {
         console.log(`${chalk.gray('[' + new Date().toLocaleTimeString() + ']')} ${chalk.red('❌ Error:')} ${error.message}`);
       }
     });
+
+    this.monitorController.on('admin-alert', (alert: AdminAlert) => {
+      if (process.stdout.isTTY) {
+        console.log(`${chalk.gray('[' + new Date().toLocaleTimeString() + ']')} ${chalk.magenta('🛠️  Admin alert:')} ${alert.title}`);
+      }
+    });
   }
 
   /**
@@ -1081,6 +1241,36 @@ export class CLIController {
       console.log(`${chalk.cyan('Available Appointments:')} ${status.statistics.availableAppointments}`);
     }
 
+    if (status.nextCheck) {
+      console.log(chalk.blue('\n⏰ Next Check:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      this.statusDisplay.displayNextCheck(status.nextCheck);
+    }
+
+    if (status.quietHours) {
+      console.log(chalk.blue('\n🌙 Quiet Hours:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      this.statusDisplay.displayQuietHours(status.quietHours);
+    }
+
+    if (status.profiles && status.profiles.length > 0) {
+      console.log(chalk.blue('\n👥 Watch Profiles:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      this.statusDisplay.displayWatchProfiles(status.profiles);
+    }
+
+    if (status.circuitBreakers && status.circuitBreakers.length > 0) {
+      console.log(chalk.blue('\n🔌 Circuit Breakers:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      this.statusDisplay.displayCircuitBreakers(status.circuitBreakers);
+    }
+
+    if (status.browser) {
+      console.log(chalk.blue('\n🌐 Browser:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      this.statusDisplay.displayBrowserMetrics(status.browser);
+    }
+
     if (enhancedStats.trackingStats) {
       console.log(chalk.blue('\n🎯 Appointment Tracking:'));
       console.log(chalk.gray('─'.repeat(50)));
@@ -1191,6 +1381,49 @@ export class CLIController {
     }
   }
 
+  /**
+   * Check the configured cities, exam models and months against the options the site currently offers
+   */
+  private async validateAgainstSiteOptions(config: MonitorConfig, refresh: boolean): Promise<void> {
+    console.log(chalk.blue('\n🏙️  Site Filter Options:'));
+
+    const provider = getProvider(config.provider);
+    const options = await new FilterOptionDiscovery(provider).getOptions(config.baseUrl || provider.defaultBaseUrl, { refresh });
+    if (options.source === 'built-in') {
+      console.log(`${chalk.yellow('⚠️ ')} Could not read the site's filters (${options.error}); checking against the built-in lists`);
+    } else if (options.source === 'stale-cache') {
+      console.log(`${chalk.yellow('⚠️ ')} Could not read the site's filters (${options.error}); checking against the options from ${options.discoveredAt!.toLocaleString()}`);
+    } else {
+      console.log(`${chalk.green('✅')} Read ${options.cities.length} cities, ${options.examModels.length} exam models and ${options.months.length} months from the site${options.source === 'cache' ? ` (cached ${options.discoveredAt!.toLocaleString()})` : ''}`);
+    }
+
+    const cityIds = options.cities.map(city => city.id);
+    const unknownCities = config.city.filter(city => !cityIds.includes(city.toLowerCase()));
+    if (unknownCities.length > 0) {
+      console.log(`${chalk.yellow('⚠️ ')} Cities not offered by the site: ${unknownCities.join(', ')} (available: ${cityIds.join(', ')})`);
+    } else {
+      console.log(`${chalk.green('✅')} All configured cities are offered`);
+    }
+
+    const unknownModels = config.examModel.filter(model => !options.examModels.includes(model.toLowerCase()));
+    if (unknownModels.length > 0) {
+      console.log(`${chalk.yellow('⚠️ ')} Exam models not offered by the site: ${unknownModels.join(', ')} (available: ${options.examModels.join(', ')})`);
+    } else {
+      console.log(`${chalk.green('✅')} All configured exam models are offered`);
+    }
+
+    // The site lists Gregorian months; Jalali months are requested as the Gregorian months they overlap
+    if (options.months.length > 0) {
+      const requestedMonths = config.monthCalendar === 'jalali' ? jalaliMonthsToGregorianMonths(config.months) : config.months;
+      const missingMonths = requestedMonths.filter(month => !options.months.includes(month));
+      if (missingMonths.length > 0) {
+        console.log(`${chalk.yellow('⚠️ ')} Months without a timetable on the site yet: ${missingMonths.map(month => this.getMonthName(month)).join(', ')}`);
+      } else {
+        console.log(`${chalk.green('✅')} All configured months have a timetable`);
+      }
+    }
+  }
+
   /**
    * Attempt to fix common configuration issues
    */
@@ -1266,6 +1499,19 @@ export class CLIController {
       console.log(`Errors: ${status.session.errors.length}`);
     }
 
+    if (status.nextCheck) {
+      console.log(`Next Check: ${new Date(status.nextCheck.nextCheckAt).toLocaleTimeString()} (${status.nextCheck.reason})`);
+      console.log(`Schedule Rule: ${status.nextCheck.rule || 'none'}`);
+    }
+
+    if (status.quietHours) {
+      console.log(`Quiet Hours: ${status.quietHours.name} (${status.quietHours.notifications}, ${status.quietHours.heldNotifications} held)`);
+    }
+
+    if (status.profiles && status.profiles.length > 0) {
+      console.log(`Profiles: ${status.profiles.map((profile: WatchProfileStatus) => `${profile.name} (${profile.availableAppointments} available, ${profile.notificationsSent} sent)`).join(', ')}`);
+    }
+
     if (status.statistics) {
       console.log(`Success Rate: ${status.statistics.successRate}%`);
       console.log(`Available Appointments: ${status.statistics.availableAppointments}`);
@@ -1552,6 +1798,9 @@ export class CLIController {
         throw error;
       }
     }
+
+    // Evidence is linked from inspection records, so it goes with them
+    await new EvidenceArchiveService().clear();
   }
 
   /**
@@ -1590,22 +1839,333 @@ export class CLIController {
       return `${days}d ${hours % 24}h ${minutes % 60}m`;
     } else if (hours > 0) {
       return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
-    } else if (minutes > 60) {
+    } else if (minutes > 0) {
       return `${minutes}m ${seconds % 60}s`;
     } else {
       return `${seconds}s`;
     }
   }
 
+  /**
+   * Handle analytics command - time-to-fill, reopen and publication statistics from the status history
+   */
+  async analyticsCommand(options: {
+    days?: string;
+    city?: string;
+    json?: boolean;
+  }, appointmentDetectionService?: any, analytics: AvailabilityAnalyticsService = new AvailabilityAnalyticsService()): Promise<void> {
+    try {
+      const days = parseInt(options.days || '30', 10);
+      if (isNaN(days) || days < 1) {
+        throw new Error('--days must be a positive number');
+      }
+
+      let appointmentDetection = appointmentDetectionService;
+      if (!appointmentDetection) {
+        const { AppointmentDetectionService } = await import('../services/AppointmentDetectionService');
+        appointmentDetection = new AppointmentDetectionService();
+        await appointmentDetection.initialize();
+      }
+
+      const cities = options.city ? options.city.split(',').map(city => city.trim().toLowerCase()) : null;
+      const records = appointmentDetection.getStatusHistoryRecords()
+        .filter((record: any) => !cities || cities.includes(String(record.appointment.city).toLowerCase()));
+      const report = analytics.analyze(records, { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000) });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue('📈 Appointment Availability Analytics\n'));
+
+      if (report.slotsAnalyzed === 0) {
+        console.log(chalk.yellow('⚠️  No appointment history yet. Analytics appear after the monitor has run for a while.'));
+        return;
+      }
+
+      console.log(`${chalk.cyan('Period:')} last ${days} day(s)${cities ? ` | Cities: ${cities.join(', ')}` : ''}`);
+      console.log(`${chalk.cyan('Monitoring Since:')} ${report.monitoringSince!.toLocaleString()}`);
+      console.log(`${chalk.cyan('Slots Analyzed:')} ${report.slotsAnalyzed} | ${chalk.cyan('Available Now:')} ${chalk.green(report.stillAvailable.toString())}`);
+
+      console.log(chalk.blue('\n⏱️  Time to Fill:'));
+      if (!report.timeToFill.overall) {
+        console.log(chalk.gray('   No slot has filled after being seen available yet'));
+      } else {
+        console.log(`   Overall: ${this.formatDurationStats(report.timeToFill.overall)}`);
+        this.displayDurationBreakdown('By city', report.timeToFill.byCity);
+        this.displayDurationBreakdown('By exam type', report.timeToFill.byExamType);
+        this.displayDurationBreakdown('By exam weekday', report.timeToFill.byWeekday);
+        this.displayDurationBreakdown('By exam start hour', report.timeToFill.byHour);
+      }
+
+      const { reopens } = report;
+      console.log(chalk.blue('\n🔁 Reopened Slots:'));
+      console.log(`   ${reopens.slotsReopened} of ${reopens.slotsClosed} full or removed slot(s) became available again (${Math.round(reopens.reopenRate * 100)}%, ${reopens.reopenEvents} time(s))`);
+      if (reopens.medianTimeToReopenMs !== null) {
+        console.log(`   Median time until a slot reopened: ${this.formatDuration(reopens.medianTimeToReopenMs)}`);
+      }
+      if (report.delistedWhileAvailable > 0) {
+        console.log(chalk.gray(`   ${report.delistedWhileAvailable} slot(s) disappeared from the timetable while still available`));
+      }
+
+      const { publication } = report;
+      console.log(chalk.blue(`\n📢 New Slot Publication (${report.timeZone}):`));
+      if (publication.newSlots === 0) {
+        console.log(chalk.gray('   No new slots were published since monitoring started'));
+      } else {
+        console.log(`   ${publication.newSlots} new slot(s); busiest hours: ${publication.peakHours.map(hour => `${hour.key} (${hour.count})`).join(', ')}`);
+        console.log(`   By weekday: ${publication.byWeekday.map(day => `${day.key} ${day.count}`).join(', ')}`);
+      }
+
+      console.log(chalk.gray('\n💡 Times are measured between checks, so they are only as precise as the check interval.'));
+      console.log(chalk.gray('   Slots already listed when monitoring started are left out of the time to fill.'));
+
+    } catch (error) {
+      throw new Error(`Failed to build availability analytics: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private formatDurationStats(stats: DurationStats): string {
+    return `median ${this.formatDuration(stats.medianMs)}, 90% within ${this.formatDuration(stats.p90Ms)}, fastest ${this.formatDuration(stats.fastestMs)} (${stats.count} slot(s))`;
+  }
+
+  private displayDurationBreakdown(title: string, breakdown: DurationBreakdown[]): void {
+    if (breakdown.length < 2) {
+      return; // A single group repeats the overall numbers
+    }
+    console.log(`   ${title}:`);
+    breakdown.forEach(({ key, stats }) => {
+      console.log(`     ${key.padEnd(12)} ${this.formatDurationStats(stats)}`);
+    });
+  }
+
+  /**
+   * Handle review command - list low-confidence detections and label them for the test corpus
+   */
+  async reviewCommand(options: {
+    label?: string;
+    as?: string;
+    discard?: string;
+    showHtml?: boolean;
+    json?: boolean;
+  }, reviewQueue: ReviewQueueService = new ReviewQueueService()): Promise<void> {
+    try {
+      if (options.label) {
+        if (!options.as || !REVIEW_LABELS.includes(options.as as ReviewLabel)) {
+          throw new Error(`Use --as with one of: ${REVIEW_LABELS.join(', ')}`);
+        }
+
+        const labeled = await reviewQueue.label(options.label, options.as as ReviewLabel);
+        console.log(chalk.green(`✅ Labeled ${labeled.id} as ${labeled.label} (detected: ${labeled.detectedStatus})`));
+        console.log(chalk.gray(`   Saved to ${reviewQueue.getCorpusFile(labeled.providerId)}`));
+        return;
+      }
+
+      if (options.discard) {
+        if (!await reviewQueue.discard(options.discard)) {
+          throw new Error(`No review entry with ID ${options.discard}`);
+        }
+        console.log(chalk.green(`🗑️  Discarded ${options.discard}`));
+        return;
+      }
+
+      const entries = await reviewQueue.list();
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue('🧐 Low-Confidence Detection Review\n'));
+
+      if (entries.length === 0) {
+        console.log(chalk.green('✅ No slots are waiting for review'));
+        return;
+      }
+
+      console.log(chalk.gray(`${entries.length} slot(s) waiting for review, oldest first`));
+      console.log(chalk.gray('─'.repeat(60)));
+
+      entries.forEach((entry, index) => {
+        const { appointment } = entry;
+        console.log(`\n${index + 1}. ${chalk.cyan(entry.id)}`);
+        console.log(`   ${appointment.date} ${appointment.time} - ${appointment.city} (${appointment.examType})`);
+        console.log(`   Detected: ${chalk.yellow(entry.detectedStatus)} | Confidence: ${Math.round(entry.confidence * 100)}%${entry.fallbackUsed ? ' | fallback detection' : ''}${entry.ruleId ? ` | rule: ${entry.ruleId}` : ''}`);
+        console.log(`   Indicators: ${entry.indicators.length > 0 ? entry.indicators.join(', ') : 'none'}`);
+        console.log(`   Reasoning: ${entry.reasoning}`);
+        console.log(chalk.gray(`   Seen ${entry.occurrences} time(s), last ${new Date(entry.lastSeenAt).toLocaleString()} - ${entry.url}`));
+
+        if (options.showHtml) {
+          const truncatedHtml = entry.rawHtml.length > 500
+            ? entry.rawHtml.substring(0, 500) + '...'
+            : entry.rawHtml;
+          console.log(`   Raw HTML: ${chalk.gray(truncatedHtml)}`);
+        }
+      });
+
+      console.log(chalk.gray('\n💡 Usage hints:'));
+      console.log(chalk.gray(`  • Use --label <id> --as <${REVIEW_LABELS.join('|')}> to label a slot`));
+      console.log(chalk.gray('  • Use --discard <id> to drop a slot that is not an appointment'));
+      console.log(chalk.gray('  • Use --show-html to see the markup behind each detection'));
+
+    } catch (error) {
+      throw new Error(`Failed to review detections: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Handle profile add command - watch further cities, exam models, months or dates for another
+   * candidate with their own notification channels; omitted filters default to the top-level ones
+   */
+  async profileAddCommand(name: string, options: {
+    city?: string;
+    examModel?: string;
+    months?: string;
+    dateFilter?: string;
+    telegramChat?: string;
+    channels?: string;
+  }): Promise<void> {
+    try {
+      const config = await this.configManager.loadConfig();
+      const profiles = config.profiles || [];
+      if (profiles.some(profile => profile.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`A profile named "${name}" already exists`);
+      }
+
+      const profile: WatchProfile = {
+        name,
+        city: options.city ? options.city.split(',').map(c => c.trim()) : [...config.city],
+        examModel: options.examModel ? options.examModel.split(',').map(e => e.trim()) : [...config.examModel],
+        months: options.months ? options.months.split(',').map(m => parseInt(m.trim())) : [...config.months]
+      };
+      if (options.dateFilter) {
+        profile.dateFilters = parseDateFilterExpression(options.dateFilter);
+      }
+      if (options.telegramChat) {
+        profile.telegramChatId = options.telegramChat.trim();
+      }
+      if (options.channels) {
+        const channels = options.channels.split(',').map(channel => channel.trim()).filter(Boolean);
+        const unknown = channels.filter(channel => !PROFILE_CHANNELS.includes(channel as keyof NotificationSettings));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown notification channel(s): ${unknown.join(', ')} (use ${PROFILE_CHANNELS.join(', ')})`);
+        }
+        profile.notificationSettings = Object.fromEntries(
+          PROFILE_CHANNELS.map(channel => [channel, channels.includes(channel)])
+        ) as Partial<NotificationSettings>;
+      }
+
+      const validation = validateWatchProfiles([...profiles, profile]);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join('; '));
+      }
+
+      await this.configManager.saveConfig({ ...config, profiles: [...profiles, profile] });
+      console.log(chalk.green(`✅ Profile "${name}" added`));
+      this.displayWatchProfile(profile, config);
+      console.log(chalk.gray('\n💡 Restart monitoring to start watching this profile'));
+
+    } catch (error) {
+      throw new Error(`Failed to add profile: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Handle profile list command
+   */
+  async profileListCommand(options: { json?: boolean }): Promise<void> {
+    try {
+      const config = await this.configManager.loadConfig();
+      const profiles = config.profiles || [];
+
+      if (options.json) {
+        console.log(JSON.stringify(profiles, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue('👥 Watch Profiles\n'));
+
+      if (profiles.length === 0) {
+        console.log(chalk.gray('No watch profiles configured; only the top-level configuration is watched'));
+        console.log(chalk.gray('\n💡 Use "profile add <name>" to watch another candidate\'s filters'));
+        return;
+      }
+
+      profiles.forEach((profile, index) => {
+        console.log(`\n${index + 1}. ${chalk.cyan(profile.name)}${profile.enabled === false ? chalk.gray(' (disabled)') : ''}`);
+        this.displayWatchProfile(profile, config);
+      });
+
+      const scrape = getCombinedScrapeFilters(config);
+      console.log(chalk.gray(`\nOne scrape covers: Cities=[${scrape.city.join(', ')}], Models=[${scrape.examModel.join(', ')}], Months=[${scrape.months.join(', ')}]`));
+
+    } catch (error) {
+      throw new Error(`Failed to list profiles: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Handle profile remove command - also deletes the profile's tracking and notification
+   * history, so a profile added later under the same name starts fresh
+   */
+  async profileRemoveCommand(name: string, dataDirectory: string = DEFAULT_PROFILE_DATA_DIRECTORY): Promise<void> {
+    try {
+      const config = await this.configManager.loadConfig();
+      const profiles = config.profiles || [];
+      const remaining = profiles.filter(profile => profile.name.toLowerCase() !== name.toLowerCase());
+      if (remaining.length === profiles.length) {
+        throw new Error(`No profile named "${name}"`);
+      }
+
+      const { profiles: _removed, ...rest } = config;
+      await this.configManager.saveConfig(remaining.length > 0 ? { ...rest, profiles: remaining } : rest);
+
+      const fs = await import('fs/promises');
+      await fs.rm(WatchProfileService.getProfileDataDirectory(name, dataDirectory), { recursive: true, force: true });
+      console.log(chalk.green(`🗑️  Profile "${name}" and its notification history removed`));
+      console.log(chalk.gray('💡 Restart monitoring to stop watching this profile'));
+
+    } catch (error) {
+      throw new Error(`Failed to remove profile: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Display the filters and notification channels of a watch profile
+   */
+  private displayWatchProfile(profile: WatchProfile, config: MonitorConfig): void {
+    const settings = getProfileNotificationSettings(profile, config.notificationSettings);
+    const channels = PROFILE_CHANNELS.filter(channel => settings[channel]);
+
+    console.log(`   ${chalk.cyan('Cities:')} ${profile.city.join(', ')}`);
+    console.log(`   ${chalk.cyan('Exam Models:')} ${profile.examModel.join(', ')}`);
+    console.log(`   ${chalk.cyan('Months:')} ${profile.months.map(m => this.getMonthName(m, config.monthCalendar)).join(', ')}`);
+    if (describeAttributeFilter(profile.attributeFilters)) {
+      console.log(`   ${chalk.cyan('Attribute Filters:')} ${describeAttributeFilter(profile.attributeFilters)}`);
+    }
+    if (describeDateFilter(profile.dateFilters)) {
+      console.log(`   ${chalk.cyan('Date Filters:')} ${describeDateFilter(profile.dateFilters)}`);
+    }
+    console.log(`   ${chalk.cyan('Channels:')} ${channels.length > 0 ? channels.join(', ') : chalk.gray('none')}`);
+    if (profile.telegramChatId) {
+      console.log(`   ${chalk.cyan('Telegram Chat:')} ${profile.telegramChatId}`);
+    }
+  }
+
   /**
    * Handle validate-detection command - test detection accuracy against real IELTS website
    * Implements task 7: Test detection accuracy against real IELTS website
    */
-  async validateDetectionCommand(options: { quick?: boolean }): Promise<void> {
-    console.log(chalk.blue('🔍 Detection Validation Against Live IELTS Website\n'));
+  async validateDetectionCommand(options: { quick?: boolean; fromHtml?: string }): Promise<void> {
+    console.log(chalk.blue(options.fromHtml
+      ? '🔍 Detection Validation Against Saved HTML Fixtures\n'
+      : '🔍 Detection Validation Against Live IELTS Website\n'));
 
     try {
-      if (options.quick) {
+      if (options.fromHtml) {
+        await this.detectionValidationCommand.validateFixtureDetection(new HtmlFixtureSource(options.fromHtml));
+      } else if (options.quick) {
         await this.detectionValidationCommand.runQuickValidation();
       } else {
         await this.detectionValidationCommand.validateDetectionAccuracy();
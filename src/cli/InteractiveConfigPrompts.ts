@@ -1,7 +1,12 @@
 import * as readline from 'readline';
 import chalk from 'chalk';
-import { MonitorConfig } from '../models/types';
+import { AppointmentDateFilter, MonitorConfig, MonthCalendar } from '../models/types';
+import { JALALI_MONTH_NAMES_LATIN, getJalaliMonthNumber } from '../models/jalali';
+import { describeDateFilter, parseDateFilterExpression } from '../models/dateFilters';
+import { validateDateFilter } from '../models/validation';
 import { EnvironmentConfigManager } from '../services/EnvironmentConfigManager';
+import { getProvider } from '../services/providers';
+import { FilterOptionDiscovery, FilterOptions } from '../services/FilterOptionDiscovery';
 
 /**
  * Interactive configuration prompts for CLI setup
@@ -45,29 +50,96 @@ export class InteractiveConfigPrompts {
     console.log(chalk.gray('Press Enter to use default values shown in [brackets]\n'));
 
     try {
+      const filterOptions = await this.discoverFilterOptions(currentConfig);
+      const city = await this.promptForCities(currentConfig?.city, filterOptions.cities.map(option => option.id));
+      const examModel = await this.promptForExamModels(currentConfig?.examModel, filterOptions.examModels);
+      const monthCalendar = await this.promptForMonthCalendar(currentConfig?.monthCalendar);
+      const months = await this.promptForMonths(
+        currentConfig?.monthCalendar === monthCalendar ? currentConfig?.months : undefined,
+        monthCalendar
+      );
+      const dateFilters = await this.promptForDateFilters(currentConfig?.dateFilters);
       const config: MonitorConfig = {
-        city: await this.promptForCities(currentConfig?.city),
-        examModel: await this.promptForExamModels(currentConfig?.examModel),
-        months: await this.promptForMonths(currentConfig?.months),
+        city,
+        examModel,
+        months,
+        monthCalendar,
         checkInterval: await this.promptForCheckInterval(currentConfig?.checkInterval),
-        baseUrl: await this.promptForBaseUrl(currentConfig?.baseUrl),
+        baseUrl: await this.promptForBaseUrl(currentConfig?.baseUrl, getProvider(currentConfig?.provider).defaultBaseUrl),
         notificationSettings: await this.promptForNotificationSettings(currentConfig?.notificationSettings)
       };
 
+      if (dateFilters) {
+        config.dateFilters = dateFilters;
+      }
+
+      // Keep the provider and scraper backend chosen in the config file or environment
+      if (currentConfig?.provider) {
+        config.provider = currentConfig.provider;
+      }
+      if (currentConfig?.scraperBackend) {
+        config.scraperBackend = currentConfig.scraperBackend;
+      }
+      if (currentConfig?.scrapeConcurrency) {
+        config.scrapeConcurrency = currentConfig.scrapeConcurrency;
+      }
+      if (currentConfig?.proxy) {
+        config.proxy = currentConfig.proxy;
+      }
+      if (currentConfig?.attributeFilters) {
+        config.attributeFilters = currentConfig.attributeFilters;
+      }
+      if (currentConfig?.review) {
+        config.review = currentConfig.review;
+      }
+      if (currentConfig?.browserRecycling) {
+        config.browserRecycling = currentConfig.browserRecycling;
+      }
+      if (currentConfig?.resourcePolicy) {
+        config.resourcePolicy = currentConfig.resourcePolicy;
+      }
+      if (currentConfig?.evidence) {
+        config.evidence = currentConfig.evidence;
+      }
+      if (currentConfig?.adaptiveInterval) {
+        config.adaptiveInterval = currentConfig.adaptiveInterval;
+      }
+      if (currentConfig?.schedule) {
+        config.schedule = currentConfig.schedule;
+      }
+      if (currentConfig?.profiles) {
+        config.profiles = currentConfig.profiles;
+      }
+
       return config;
     } finally {
       this.closeReadlineInterface();
     }
   }
 
+  /**
+   * Read the cities and exam models the site currently offers, falling back to the cached or built-in lists
+   */
+  private async discoverFilterOptions(currentConfig?: MonitorConfig): Promise<FilterOptions> {
+    const provider = getProvider(currentConfig?.provider);
+    console.log(chalk.gray(`🔎 Reading available cities and exam models from ${provider.name}...`));
+
+    const options = await new FilterOptionDiscovery(provider).getOptions(currentConfig?.baseUrl || provider.defaultBaseUrl);
+    if (options.source === 'built-in') {
+      console.log(chalk.yellow(`⚠️  Could not read the site's filters (${options.error}), showing the built-in lists\n`));
+    } else if (options.source === 'stale-cache') {
+      console.log(chalk.yellow(`⚠️  Could not read the site's filters (${options.error}), showing the lists from ${options.discoveredAt!.toLocaleString()}\n`));
+    } else {
+      console.log(chalk.gray(`Found ${options.cities.length} cities and ${options.examModels.length} exam models\n`));
+    }
+    return options;
+  }
+
   /**
    * Prompt for cities to monitor
    */
-  private async promptForCities(current?: string[]): Promise<string[]> {
+  private async promptForCities(current?: string[], availableCities: string[] = getProvider().cities.map(city => city.id)): Promise<string[]> {
     const defaultCities = current || ['isfahan'];
-    const availableCities = [
-      'isfahan', 'tehran', 'mashhad', 'shiraz', 'tabriz', 'ahvaz', 'qom', 'karaj'
-    ];
 
     console.log(chalk.cyan('📍 Cities to monitor:'));
     console.log(chalk.gray(`Available cities: ${availableCities.join(', ')}`));
@@ -96,9 +168,8 @@ export class InteractiveConfigPrompts {
   /**
    * Prompt for exam models to monitor
    */
-  private async promptForExamModels(current?: string[]): Promise<string[]> {
+  private async promptForExamModels(current?: string[], availableModels: string[] = getProvider().examModels): Promise<string[]> {
     const defaultModels = current || ['cdielts'];
-    const availableModels = ['cdielts', 'ielts', 'ukvi'];
 
     console.log(chalk.cyan('📝 Exam models to monitor:'));
     console.log(chalk.gray(`Available models: ${availableModels.join(', ')}`));
@@ -127,15 +198,19 @@ export class InteractiveConfigPrompts {
   /**
    * Prompt for months to monitor
    */
-  private async promptForMonths(current?: number[]): Promise<number[]> {
-    const defaultMonths = current || [12, 1, 2];
-    const monthNames = [
-      'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-      'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-    ];
-
-    console.log(chalk.cyan('📅 Months to monitor:'));
-    console.log(chalk.gray('Enter month numbers (1-12) or month names'));
+  private async promptForMonths(current?: number[], calendar: MonthCalendar = 'gregorian'): Promise<number[]> {
+    const defaultMonths = current || (calendar === 'jalali' ? [9, 10, 11] : [12, 1, 2]);
+    const monthNames = calendar === 'jalali'
+      ? JALALI_MONTH_NAMES_LATIN
+      : [
+        'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+        'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
+      ];
+
+    console.log(chalk.cyan(calendar === 'jalali' ? '📅 Months to monitor (Solar Hijri):' : '📅 Months to monitor:'));
+    console.log(chalk.gray(calendar === 'jalali'
+      ? 'Enter month numbers (1 = Farvardin ... 12 = Esfand) or month names'
+      : 'Enter month numbers (1-12) or month names'));
     
     const defaultDisplay = defaultMonths.map(m => `${m} (${monthNames[m-1]})`).join(', ');
     const input = await this.question(
@@ -155,8 +230,9 @@ export class InteractiveConfigPrompts {
       if (!isNaN(monthNum) && monthNum >= 1 && monthNum <= 12) {
         months.push(monthNum);
       } else {
-        // Try to match month name
-        const monthIndex = monthNames.findIndex(name => 
+        // Try to match month name (Persian names are accepted for the Jalali calendar)
+        const persianMonth = calendar === 'jalali' ? getJalaliMonthNumber(monthInput) : null;
+        const monthIndex = persianMonth ? persianMonth - 1 : monthNames.findIndex(name => 
           name.toLowerCase().startsWith(monthInput.toLowerCase())
         );
         if (monthIndex !== -1) {
@@ -176,6 +252,72 @@ export class InteractiveConfigPrompts {
     return uniqueMonths;
   }
 
+  /**
+   * Prompt for date range, weekday and time-of-day filters as a filter expression
+   */
+  private async promptForDateFilters(current?: AppointmentDateFilter): Promise<AppointmentDateFilter | undefined> {
+    const currentExpression = describeDateFilter(current);
+
+    console.log(chalk.cyan('🗓️  Date filters (optional):'));
+    console.log(chalk.gray('Date ranges, weekdays, start times and excluded dates, e.g. 2026-11-10..2026-12-05; thu,fri; 08:00-12:00; !2026-11-20'));
+    console.log(chalk.gray('Enter "none" to notify for every date in the selected months'));
+
+    const input = await this.question(
+      `Enter date filters [${currentExpression || 'none'}]: `
+    );
+
+    const expression = input.trim();
+    if (!expression) {
+      return current;
+    }
+    if (expression.toLowerCase() === 'none') {
+      return undefined;
+    }
+
+    try {
+      const filter = parseDateFilterExpression(expression);
+      const validation = validateDateFilter(filter);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join(', '));
+      }
+      return filter;
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  Invalid date filters: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      console.log(chalk.gray(`Using ${currentExpression ? 'current filters' : 'no date filters'} instead\n`));
+      return current;
+    }
+  }
+
+  /**
+   * Prompt for the calendar used to enter months
+   */
+  private async promptForMonthCalendar(current?: MonthCalendar): Promise<MonthCalendar> {
+    const defaultCalendar = current || 'gregorian';
+
+    console.log(chalk.cyan('🗓️  Month calendar:'));
+    console.log(chalk.gray('gregorian (January-December) or jalali (Farvardin-Esfand)'));
+
+    const input = await this.question(
+      `Enter calendar [${defaultCalendar}]: `
+    );
+
+    const calendar = input.trim().toLowerCase();
+    if (!calendar) {
+      return defaultCalendar;
+    }
+
+    if (calendar === 'jalali' || calendar === 'persian' || calendar === 'shamsi') {
+      return 'jalali';
+    }
+    if (calendar === 'gregorian') {
+      return 'gregorian';
+    }
+
+    console.log(chalk.yellow(`⚠️  Unknown calendar: ${calendar}`));
+    console.log(chalk.gray(`Using ${defaultCalendar} instead\n`));
+    return defaultCalendar;
+  }
+
   /**
    * Prompt for check interval
    */
@@ -214,8 +356,8 @@ export class InteractiveConfigPrompts {
   /**
    * Prompt for base URL
    */
-  private async promptForBaseUrl(current?: string): Promise<string> {
-    const defaultUrl = current || 'https://irsafam.org/ielts/timetable';
+  private async promptForBaseUrl(current?: string, providerUrl: string = getProvider().defaultBaseUrl): Promise<string> {
+    const defaultUrl = current || providerUrl;
 
     console.log(chalk.cyan('🌐 Base URL:'));
     console.log(chalk.gray('URL to monitor for IELTS appointments'));
@@ -1,6 +1,9 @@
 import chalk from 'chalk';
 import { MonitorController, MonitorStatus } from '../services/MonitorController';
 import { MonitoringStatistics } from '../services/StatusLoggerService';
+import { AdminAlert, BrowserMetrics, CheckSchedule, CircuitBreakerStatus, MonthCalendar, QuietHoursStatus, WatchProfileStatus } from '../models/types';
+import { formatDualCalendarDate, getJalaliMonthName } from '../models/jalali';
+import { DEFAULT_PROVIDER_ID, getProviderName } from '../services/providers';
 
 /**
  * Status display component for CLI
@@ -36,10 +39,27 @@ export class StatusDisplay {
     // Display configuration if available
     if (status.config) {
       console.log('\n' + chalk.blue('⚙️  Configuration:'));
+      console.log(`${chalk.cyan('Provider:')} ${getProviderName(status.config.provider || DEFAULT_PROVIDER_ID)}`);
       console.log(`${chalk.cyan('Cities:')} ${status.config.city.join(', ')}`);
       console.log(`${chalk.cyan('Exam Models:')} ${status.config.examModel.join(', ')}`);
-      console.log(`${chalk.cyan('Months:')} ${status.config.months.map((m: number) => this.getMonthName(m)).join(', ')}`);
-      console.log(`${chalk.cyan('Check Interval:')} ${status.config.checkInterval / 1000} seconds`);
+      console.log(`${chalk.cyan('Months:')} ${status.config.months.map((m: number) => this.getMonthName(m, status.config.monthCalendar)).join(', ')}${status.config.monthCalendar === 'jalali' ? ' (Solar Hijri)' : ''}`);
+      const adaptive = status.config.adaptiveInterval;
+      console.log(`${chalk.cyan('Check Interval:')} ${status.config.checkInterval / 1000} seconds${adaptive?.enabled ? ` (adaptive, ${(adaptive.minIntervalMs ?? 30000) / 1000}-${(adaptive.maxIntervalMs ?? 900000) / 1000} seconds)` : ''}`);
+    }
+
+    if (status.nextCheck) {
+      console.log('\n' + chalk.blue('⏰ Next Check:'));
+      this.displayNextCheck(status.nextCheck);
+    }
+
+    if (status.quietHours) {
+      console.log('\n' + chalk.blue('🌙 Quiet Hours:'));
+      this.displayQuietHours(status.quietHours);
+    }
+
+    if (status.profiles && status.profiles.length > 0) {
+      console.log('\n' + chalk.blue('👥 Watch Profiles:'));
+      this.displayWatchProfiles(status.profiles);
     }
 
     // Display statistics if available
@@ -48,6 +68,16 @@ export class StatusDisplay {
       this.displayStatistics(status.statistics);
     }
 
+    if (status.circuitBreakers && status.circuitBreakers.length > 0) {
+      console.log('\n' + chalk.blue('🔌 Month URLs:'));
+      this.displayCircuitBreakers(status.circuitBreakers);
+    }
+
+    if (status.browser) {
+      console.log('\n' + chalk.blue('🌐 Browser:'));
+      this.displayBrowserMetrics(status.browser);
+    }
+
     // Display recent errors if any
     if (status.session?.errors && status.session.errors.length > 0) {
       console.log('\n' + chalk.red('⚠️  Recent Errors:'));
@@ -58,6 +88,85 @@ export class StatusDisplay {
     }
   }
 
+  /**
+   * Display the circuit breaker state of each month URL
+   */
+  displayCircuitBreakers(circuitBreakers: CircuitBreakerStatus[]): void {
+    circuitBreakers.forEach(circuit => {
+      const stateColor = circuit.state === 'closed' ? chalk.green : circuit.state === 'open' ? chalk.red : chalk.yellow;
+      let details = '';
+      if (circuit.state === 'open' && circuit.retryAt) {
+        details = ` - skipped until ${new Date(circuit.retryAt).toLocaleTimeString()}`;
+      } else if (circuit.state === 'half-open') {
+        details = ' - trial request on the next check';
+      } else if (circuit.consecutiveFailures > 0) {
+        details = ` - ${circuit.consecutiveFailures} failed check(s) in a row`;
+      }
+      const lastError = circuit.state !== 'closed' && circuit.lastError ? chalk.gray(` (last error: ${circuit.lastError})`) : '';
+      console.log(`${chalk.cyan(`${circuit.label}:`)} ${stateColor(circuit.state.toUpperCase())}${details}${lastError}`);
+      if (circuit.state !== 'closed') {
+        console.log(chalk.gray(`  Last successful read: ${circuit.lastSuccessAt ? new Date(circuit.lastSuccessAt).toLocaleString() : 'never'}`));
+      }
+    });
+  }
+
+  /**
+   * Display when the next check runs and why the interval was chosen
+   */
+  displayNextCheck(nextCheck: CheckSchedule): void {
+    const nextCheckAt = new Date(nextCheck.nextCheckAt);
+    const remaining = Math.max(0, nextCheckAt.getTime() - Date.now());
+    console.log(`${chalk.cyan('At:')} ${nextCheckAt.toLocaleTimeString()} (in ${this.formatDuration(remaining)}, ${this.formatDuration(nextCheck.delayMs)} after the last check)`);
+    console.log(`${chalk.cyan('Mode:')} ${nextCheck.mode.toUpperCase()}`);
+    console.log(`${chalk.cyan('Schedule Rule:')} ${nextCheck.rule || chalk.gray('none (default interval)')}`);
+    console.log(`${chalk.cyan('Reason:')} ${nextCheck.reason}`);
+  }
+
+  /**
+   * Display the quiet hours in effect and the notifications they hold
+   */
+  displayQuietHours(quietHours: QuietHoursStatus): void {
+    const until = quietHours.until ? ` until ${new Date(quietHours.until).toLocaleString()}` : '';
+    console.log(`${chalk.cyan('Active:')} ${quietHours.name}${until}`);
+    console.log(`${chalk.cyan('Notifications:')} ${quietHours.notifications === 'hold' ? 'held until quiet hours end' : 'sent without desktop and audio alerts'}`);
+    if (quietHours.notifications === 'hold') {
+      console.log(`${chalk.cyan('Held:')} ${quietHours.heldNotifications} appointment(s)`);
+    }
+  }
+
+  /**
+   * Display the appointments and notifications of each watch profile
+   */
+  displayWatchProfiles(profiles: WatchProfileStatus[]): void {
+    profiles.forEach(profile => {
+      const held = profile.heldNotifications > 0 ? `, ${profile.heldNotifications} held` : '';
+      console.log(`${chalk.cyan(`${profile.name}:`)} ${profile.matchingAppointments} matching (${profile.availableAppointments} available), ${profile.trackedAppointments} tracked, ${profile.notificationsSent} notification(s) sent${held}`);
+    });
+  }
+
+  /**
+   * Display restart counters and usage of the scraper's browser
+   */
+  displayBrowserMetrics(browser: BrowserMetrics): void {
+    const state = browser.running ? chalk.green('RUNNING') : chalk.yellow('RELAUNCHES ON NEXT CHECK');
+    console.log(`${chalk.cyan('State:')} ${state}${browser.running && browser.startedAt ? ` for ${this.calculateDuration(new Date(browser.startedAt), new Date())}` : ''}`);
+    console.log(`${chalk.cyan('Pages Opened:')} ${browser.pagesOpened.toLocaleString()} by this browser, ${browser.totalPagesOpened.toLocaleString()} in total`);
+    if (browser.memoryMb !== null) {
+      console.log(`${chalk.cyan('Memory:')} ${browser.memoryMb} MB`);
+    }
+
+    const reasons = Object.entries(browser.restartReasons)
+      .filter(([, count]) => count > 0)
+      .map(([reason, count]) => `${reason}: ${count}`);
+    console.log(`${chalk.cyan('Restarts:')} ${browser.restarts}${reasons.length > 0 ? chalk.gray(` (${reasons.join(', ')})`) : ''}`);
+    if (browser.lastRestartAt) {
+      console.log(chalk.gray(`  Last restart: ${new Date(browser.lastRestartAt).toLocaleString()} (${browser.lastRestartReason})`));
+    }
+    if (browser.pageCrashes > 0) {
+      console.log(`${chalk.cyan('Page Crashes:')} ${chalk.red(browser.pageCrashes.toString())}`);
+    }
+  }
+
   /**
    * Display statistics information
    */
@@ -105,7 +214,7 @@ export class StatusDisplay {
       
       // Display appointment details
       appointments.forEach((apt, index) => {
-        console.log(`  ${index + 1}. ${apt.date} ${apt.time} - ${apt.location} (${apt.examType})`);
+        console.log(`  ${index + 1}. ${formatDualCalendarDate(apt.date)} ${apt.time} - ${apt.location} (${apt.examType})`);
       });
     });
 
@@ -114,6 +223,13 @@ export class StatusDisplay {
       console.log(`${chalk.gray(`[${timestamp}]`)} ${chalk.red('❌ Error:')} ${error.message}`);
     });
 
+    monitorController.on('admin-alert', (alert: AdminAlert) => {
+      const timestamp = new Date().toLocaleTimeString();
+      const color = alert.kind === 'layout-recovered' ? chalk.green : chalk.magenta;
+      console.log(`${chalk.gray(`[${timestamp}]`)} ${color(`🛠️  ${alert.title}`)} - ${alert.message}`);
+      alert.details.forEach(detail => console.log(`  • ${detail}`));
+    });
+
     monitorController.on('status-changed', (status: MonitorStatus) => {
       const timestamp = new Date().toLocaleTimeString();
       const statusColor = this.getStatusColor(status);
@@ -196,6 +312,10 @@ export class StatusDisplay {
           console.log(`  Errors: ${status.session.errors.length}`);
         }
       }
+
+      if (status.nextCheck) {
+        console.log(`  Next check: ${new Date(status.nextCheck.nextCheckAt).toLocaleTimeString()} (${status.nextCheck.reason})`);
+      }
     } catch (error) {
       console.log(chalk.red('Error getting real-time status:'), error instanceof Error ? error.message : error);
     }
@@ -253,7 +373,10 @@ export class StatusDisplay {
   /**
    * Get month name from number
    */
-  private getMonthName(month: number): string {
+  private getMonthName(month: number, calendar: MonthCalendar = 'gregorian'): string {
+    if (calendar === 'jalali') {
+      return getJalaliMonthName(month);
+    }
     const months = [
       'January', 'February', 'March', 'April', 'May', 'June',
       'July', 'August', 'September', 'October', 'November', 'December'
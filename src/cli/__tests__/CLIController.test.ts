@@ -2,6 +2,9 @@ import { CLIController } from '../CLIController';
 import { MonitorController, MonitorStatus } from '../../services/MonitorController';
 import { ConfigurationManager } from '../../services/ConfigurationManager';
 import { MonitorConfig } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 
 const { EnvironmentConfigManager } = require('../../services/EnvironmentConfigManager');
 
@@ -612,4 +615,79 @@ describe('CLIController', () => {
       expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Telegram: ✗'));
     });
   });
+
+  describe('formatDuration', () => {
+    it('should show minutes and seconds for durations under an hour', () => {
+      expect((cliController as any).formatDuration(45 * 1000)).toBe('45s');
+      expect((cliController as any).formatDuration(5 * 60 * 1000 + 7 * 1000)).toBe('5m 7s');
+      expect((cliController as any).formatDuration(2 * 60 * 60 * 1000 + 3 * 60 * 1000)).toBe('2h 3m 0s');
+      expect((cliController as any).formatDuration(26 * 60 * 60 * 1000)).toBe('1d 2h 0m');
+    });
+  });
+
+  describe('profile commands', () => {
+    it('should add a profile with the top-level filters it does not override', async () => {
+      mockConfigManager.loadConfig.mockResolvedValue(mockConfig);
+      mockConfigManager.saveConfig.mockResolvedValue();
+
+      await cliController.profileAddCommand('sara', {
+        city: 'tehran',
+        dateFilter: 'thu,fri; 08:00-12:00',
+        telegramChat: '123456789',
+        channels: 'logFile,telegram'
+      });
+
+      expect(mockConfigManager.saveConfig).toHaveBeenCalledWith({
+        ...mockConfig,
+        profiles: [{
+          name: 'sara',
+          city: ['tehran'],
+          examModel: ['cdielts'],
+          months: [12, 1, 2],
+          dateFilters: { weekdays: ['thu', 'fri'], timeWindows: [{ start: '08:00', end: '12:00' }] },
+          telegramChatId: '123456789',
+          notificationSettings: { desktop: false, audio: false, logFile: true, telegram: true }
+        }]
+      });
+    });
+
+    it('should reject duplicate names and unknown channels', async () => {
+      const profile = { name: 'sara', city: ['tehran'], examModel: ['cdielts'], months: [12] };
+      mockConfigManager.loadConfig.mockResolvedValue({ ...mockConfig, profiles: [profile] });
+
+      await expect(cliController.profileAddCommand('Sara', {})).rejects.toThrow('already exists');
+      await expect(cliController.profileAddCommand('reza', { channels: 'email' })).rejects.toThrow('Unknown notification channel(s): email');
+      expect(mockConfigManager.saveConfig).not.toHaveBeenCalled();
+    });
+
+    it('should remove a profile with its notification history and drop the section with the last one', async () => {
+      const profile = { name: 'sara', city: ['tehran'], examModel: ['cdielts'], months: [12] };
+      mockConfigManager.loadConfig.mockResolvedValue({ ...mockConfig, profiles: [profile] });
+      mockConfigManager.saveConfig.mockResolvedValue();
+
+      const dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'profiles-'));
+      await fs.mkdir(path.join(dataDirectory, 'sara'));
+      await fs.writeFile(path.join(dataDirectory, 'sara', 'notified-appointments.json'), '{}');
+
+      try {
+        await cliController.profileRemoveCommand('sara', dataDirectory);
+        expect(mockConfigManager.saveConfig).toHaveBeenCalledWith(mockConfig);
+        await expect(fs.access(path.join(dataDirectory, 'sara'))).rejects.toThrow();
+
+        await expect(cliController.profileRemoveCommand('reza', dataDirectory)).rejects.toThrow('No profile named "reza"');
+      } finally {
+        await fs.rm(dataDirectory, { recursive: true, force: true });
+      }
+    });
+
+    it('should list profiles as JSON', async () => {
+      const consoleSpy = jest.spyOn(console, 'log');
+      const profile = { name: 'sara', city: ['tehran'], examModel: ['cdielts'], months: [12] };
+      mockConfigManager.loadConfig.mockResolvedValue({ ...mockConfig, profiles: [profile] });
+
+      await cliController.profileListCommand({ json: true });
+
+      expect(consoleSpy).toHaveBeenCalledWith(JSON.stringify([profile], null, 2));
+    });
+  });
 });
\ No newline at end of file
@@ -135,7 +135,7 @@ program
   .option('-e, --export <file>', 'export inspection data to file (use "console" to output to terminal)')
   .option('-f, --format <format>', 'export format: json, text, or csv', 'json')
   .option('-l, --limit <number>', 'limit number of records to export')
-  .option('-i, --id <id>', 'show specific inspection record by ID')
+  .option('-i, --id <id>', 'show specific inspection record or evidence entry by ID')
   .action(async (options) => {
     try {
       await cliController.inspectCommand(options);
@@ -179,6 +179,7 @@ program
   .description('Validate configuration file and environment variables')
   .option('-f, --file <path>', 'configuration file path to validate')
   .option('--fix', 'attempt to automatically fix common configuration issues')
+  .option('--refresh-options', 'read cities, exam models and months from the site even if cached')
   .action(async (options) => {
     try {
       await cliController.configValidateCommand(options);
@@ -197,6 +198,8 @@ program
   .option('-c, --city <cities>', 'comma-separated list of cities to scan')
   .option('-e, --exam-model <models>', 'comma-separated list of exam models')
   .option('-m, --months <months>', 'comma-separated list of months (1-12)')
+  .option('--from-html <path>', 'scan saved HTML file(s) or a directory (path or file:// URL) instead of the live site')
+  .option('--backend <backend>', 'scraper backend: puppeteer or http (defaults to config scraperBackend)')
   .action(async (options) => {
     try {
       await cliController.appointmentScanCommand(options);
@@ -225,6 +228,22 @@ program
     }
   });
 
+// Analytics command
+program
+  .command('analytics')
+  .description('Show how fast slots fill, how often they reopen and when new slots are published')
+  .option('-d, --days <days>', 'number of days of history to analyze', '30')
+  .option('-c, --city <cities>', 'comma-separated list of cities to include')
+  .option('-j, --json', 'output the report in JSON format')
+  .action(async (options) => {
+    try {
+      await cliController.analyticsCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error building analytics:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Debug-detection command
 program
   .command('debug-detection')
@@ -237,6 +256,8 @@ program
   .option('-j, --json', 'output results in JSON format for automation')
   .option('--show-html', 'display raw HTML snippets for manual inspection')
   .option('--test-server', 'use local test simulation server (localhost:3001)')
+  .option('--from-html <path>', 'run detection against saved HTML file(s) or a directory (path or file:// URL)')
+  .option('--backend <backend>', 'scraper backend: puppeteer or http (defaults to config scraperBackend)')
   .action(async (options) => {
     try {
       await cliController.debugDetectionCommand(options);
@@ -251,6 +272,7 @@ program
   .command('validate-detection')
   .description('Test detection accuracy against the real IELTS website (Task 7)')
   .option('-q, --quick', 'run quick validation with limited test cases')
+  .option('--from-html <path>', 'validate against saved HTML file(s) or a directory (path or file:// URL)')
   .action(async (options) => {
     try {
       await cliController.validateDetectionCommand(options);
@@ -260,6 +282,72 @@ program
     }
   });
 
+// Review command
+program
+  .command('review')
+  .description('Review slots whose status detection had low confidence and label them for the test corpus')
+  .option('-l, --label <id>', 'label the queued slot with this ID (use with --as)')
+  .option('-a, --as <status>', 'status to label the slot with: available, filled, pending or not-registerable')
+  .option('--discard <id>', 'remove a queued slot without labeling it')
+  .option('--show-html', 'display the raw HTML of each queued slot')
+  .option('-j, --json', 'output the queue in JSON format')
+  .action(async (options) => {
+    try {
+      await cliController.reviewCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error reviewing detections:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Profile commands
+const profileCommand = program
+  .command('profile')
+  .description('Manage watch profiles: further filters and notification channels served by the same scrape');
+
+profileCommand
+  .command('add <name>')
+  .description('Add a watch profile (filters not given default to the top-level configuration)')
+  .option('-c, --city <cities>', 'comma-separated list of cities to watch')
+  .option('-e, --exam-model <models>', 'comma-separated list of exam models')
+  .option('-m, --months <months>', 'comma-separated list of months (1-12)')
+  .option('--date-filter <expression>', 'date filter expression, e.g. "2026-11-10..2026-12-05; thu,fri; 08:00-12:00"')
+  .option('--telegram-chat <id>', 'Telegram chat ID to notify instead of TELEGRAM_CHAT_ID')
+  .option('--channels <channels>', 'comma-separated notification channels: desktop, audio, logFile, telegram')
+  .action(async (name, options) => {
+    try {
+      await cliController.profileAddCommand(name, options);
+    } catch (error) {
+      console.error(chalk.red('Error adding profile:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('list')
+  .description('List watch profiles')
+  .option('-j, --json', 'output profiles in JSON format')
+  .action(async (options) => {
+    try {
+      await cliController.profileListCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error listing profiles:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('remove <name>')
+  .description('Remove a watch profile')
+  .action(async (name) => {
+    try {
+      await cliController.profileRemoveCommand(name);
+    } catch (error) {
+      console.error(chalk.red('Error removing profile:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Clear command
 program
   .command('clear')
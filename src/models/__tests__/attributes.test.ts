@@ -0,0 +1,94 @@
+/**
+ * Unit tests for extended appointment attributes
+ */
+
+import {
+  parseAppointmentAttributes,
+  parseFee,
+  withParsedAttributes,
+  describeAppointmentAttributes,
+  matchesAttributeFilter,
+  formatFee
+} from '../attributes';
+import { Appointment } from '../types';
+
+const appointment: Appointment = {
+  id: 'slot-1',
+  date: '2025-10-27',
+  time: '09:00-12:00',
+  location: 'Isfahan Safir Office',
+  examType: 'CDIELTS',
+  city: 'Isfahan',
+  status: 'available'
+};
+
+describe('parseAppointmentAttributes', () => {
+  it('should read module, format, UKVI, seats and fee from card text', () => {
+    expect(parseAppointmentAttributes('27 Oct 2025 صبح (09:00 - 12:00) CDIELTS - Academic UKVI 3 seats left 291,000,000 ریال')).toEqual({
+      module: 'academic',
+      testFormat: 'computer',
+      ukvi: true,
+      seatsLeft: 3,
+      price: 291000000,
+      priceCurrency: 'IRR'
+    });
+  });
+
+  it('should read Persian labels and digits', () => {
+    expect(parseAppointmentAttributes('آزمون کاغذی جنرال ظرفیت باقی مانده: ۵ مبلغ ۲۹,۱۰۰,۰۰۰ تومان')).toEqual({
+      module: 'general-training',
+      testFormat: 'paper',
+      seatsLeft: 5,
+      price: 29100000,
+      priceCurrency: 'IRT'
+    });
+  });
+
+  it('should leave out attributes the text does not settle', () => {
+    expect(parseAppointmentAttributes('IELTS Academic / General Training 27 Oct 2025 09:00')).toEqual({});
+  });
+});
+
+describe('parseFee', () => {
+  it('should require a currency unit', () => {
+    expect(parseFee('2,500,000 Toman')).toEqual({ amount: 2500000, currency: 'IRT' });
+    expect(parseFee('27 Oct 2025')).toBeNull();
+  });
+});
+
+describe('withParsedAttributes', () => {
+  it('should keep values the appointment already has', () => {
+    const result = withParsedAttributes({ ...appointment, module: 'general-training', price: 100 }, 'Academic UKVI 200 Toman');
+
+    expect(result).toEqual(expect.objectContaining({ module: 'general-training', ukvi: true, price: 100 }));
+    expect(result.priceCurrency).toBeUndefined();
+  });
+});
+
+describe('formatting', () => {
+  it('should describe attributes and fees', () => {
+    const extended: Appointment = { ...appointment, module: 'academic', testFormat: 'computer', ukvi: true, seatsLeft: 1, price: 291000000, priceCurrency: 'IRR' };
+
+    expect(describeAppointmentAttributes(extended)).toEqual(['Academic', 'Computer-delivered', 'UKVI', '1 seat left']);
+    expect(formatFee(extended)).toBe('291,000,000 Rial');
+    expect(formatFee(appointment)).toBeNull();
+  });
+});
+
+describe('matchesAttributeFilter', () => {
+  it('should filter on stated attributes and keep slots that do not state them', () => {
+    const academic: Appointment = { ...appointment, module: 'academic', seatsLeft: 1, price: 291000000, priceCurrency: 'IRR' };
+
+    expect(matchesAttributeFilter(academic, { modules: ['general-training'] })).toBe(false);
+    expect(matchesAttributeFilter(appointment, { modules: ['general-training'] })).toBe(true);
+    expect(matchesAttributeFilter(academic, { minSeats: 2 })).toBe(false);
+    expect(matchesAttributeFilter(academic, { maxFee: 30000000 })).toBe(true);
+    expect(matchesAttributeFilter(academic, { maxFee: 25000000 })).toBe(false);
+  });
+
+  it('should only keep UKVI slots when UKVI is required', () => {
+    expect(matchesAttributeFilter(appointment, { ukvi: true })).toBe(false);
+    expect(matchesAttributeFilter({ ...appointment, ukvi: true }, { ukvi: true })).toBe(true);
+    expect(matchesAttributeFilter({ ...appointment, ukvi: true }, { ukvi: false })).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { describeDateFilter, matchesDateFilter, parseDateFilterExpression } from '../dateFilters';
+import { filterAppointments } from '../utils';
+import { Appointment, AppointmentDateFilter } from '../types';
+
+const appointment = (date: string, time: string): Appointment => ({
+  id: `${date}-${time}`,
+  date,
+  time,
+  location: 'Isfahan Center',
+  examType: 'CDIELTS',
+  city: 'Isfahan',
+  status: 'available'
+});
+
+// 2026-11-12 is a Thursday, 2026-11-13 a Friday and 2026-11-14 a Saturday
+describe('dateFilters', () => {
+  const thursdayFridayMornings: AppointmentDateFilter = {
+    dateRanges: [{ from: '2026-11-10', to: '2026-12-05' }],
+    excludeDates: ['2026-11-20'],
+    weekdays: ['thu', 'fri'],
+    timeWindows: [{ start: '08:00', end: '12:00' }]
+  };
+
+  describe('matchesDateFilter', () => {
+    it('should require every part of the filter to match', () => {
+      expect(matchesDateFilter(appointment('2026-11-12', '09:00-12:00'), thursdayFridayMornings)).toBe(true);
+      expect(matchesDateFilter(appointment('2026-11-13', '08:00-11:00'), thursdayFridayMornings)).toBe(true);
+
+      expect(matchesDateFilter(appointment('2026-11-14', '09:00-12:00'), thursdayFridayMornings)).toBe(false); // Saturday
+      expect(matchesDateFilter(appointment('2026-11-12', '13:30-16:30'), thursdayFridayMornings)).toBe(false); // Afternoon
+      expect(matchesDateFilter(appointment('2026-11-20', '09:00-12:00'), thursdayFridayMornings)).toBe(false); // Excluded Friday
+      expect(matchesDateFilter(appointment('2026-12-10', '09:00-12:00'), thursdayFridayMornings)).toBe(false); // Thursday after the range
+      expect(matchesDateFilter(appointment('2026-11-12', '12:00-15:00'), thursdayFridayMornings)).toBe(false); // Window end is exclusive
+    });
+
+    it('should support open-ended ranges, several ranges and windows past midnight', () => {
+      const filter: AppointmentDateFilter = {
+        dateRanges: [{ to: '2026-11-05' }, { from: '2026-12-01' }],
+        timeWindows: [{ start: '22:00', end: '02:00' }]
+      };
+
+      expect(matchesDateFilter(appointment('2026-11-01', '23:00'), filter)).toBe(true);
+      expect(matchesDateFilter(appointment('2027-01-15', '01:30'), filter)).toBe(true);
+      expect(matchesDateFilter(appointment('2026-11-15', '23:00'), filter)).toBe(false);
+      expect(matchesDateFilter(appointment('2026-12-15', '09:00'), filter)).toBe(false);
+    });
+
+    it('should keep slots whose date or time cannot be read', () => {
+      expect(matchesDateFilter(appointment('unknown', '09:00'), thursdayFridayMornings)).toBe(true);
+      expect(matchesDateFilter(appointment('2026-11-12', 'Morning'), thursdayFridayMornings)).toBe(true);
+      expect(matchesDateFilter(appointment('۲۰۲۶-۱۱-۱۳', '۰۹:۰۰ - ۱۲:۰۰'), thursdayFridayMornings)).toBe(true);
+      expect(matchesDateFilter(appointment('2026-11-14', '09:00'), undefined)).toBe(true);
+    });
+  });
+
+  describe('parseDateFilterExpression', () => {
+    it('should read ranges, single dates, excluded dates, weekdays and time windows', () => {
+      expect(parseDateFilterExpression('2026-11-10..2026-12-05; thu, Friday; 08:00-12:00; !2026-11-20')).toEqual(thursdayFridayMornings);
+      expect(parseDateFilterExpression('2026-11-15 ..2026-11-05 2026-12-01..')).toEqual({
+        dateRanges: [{ from: '2026-11-15', to: '2026-11-15' }, { to: '2026-11-05' }, { from: '2026-12-01' }]
+      });
+      expect(parseDateFilterExpression('')).toEqual({});
+    });
+
+    it('should reject terms it does not recognise', () => {
+      expect(() => parseDateFilterExpression('thu mornings')).toThrow('unrecognised date filter term "mornings"');
+      expect(() => parseDateFilterExpression('..')).toThrow('unrecognised date filter term');
+      expect(() => parseDateFilterExpression('th')).toThrow('unrecognised date filter term');
+    });
+  });
+
+  it('should describe filters as an expression that parses back to the same filters', () => {
+    const expression = describeDateFilter(thursdayFridayMornings);
+
+    expect(expression).toBe('2026-11-10..2026-12-05; thu,fri; 08:00-12:00; !2026-11-20');
+    expect(parseDateFilterExpression(expression!)).toEqual(thursdayFridayMornings);
+    expect(describeDateFilter({})).toBeNull();
+    expect(describeDateFilter(undefined)).toBeNull();
+  });
+
+  it('should be applied by filterAppointments', () => {
+    const appointments = [
+      appointment('2026-11-12', '09:00-12:00'),
+      appointment('2026-11-14', '09:00-12:00'),
+      appointment('2026-11-19', '13:30-16:30')
+    ];
+
+    expect(filterAppointments(appointments, { dates: thursdayFridayMornings }).map(apt => apt.date)).toEqual(['2026-11-12']);
+  });
+});
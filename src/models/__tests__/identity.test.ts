@@ -0,0 +1,108 @@
+/**
+ * Unit tests for stable appointment identity
+ */
+
+import {
+  normalizeAppointmentDate,
+  normalizeAppointmentTime,
+  createStableAppointmentId,
+  isStableAppointmentId,
+  assignStableAppointmentIds,
+  calculateAppointmentSimilarity,
+  findMatchingAppointment,
+  DEFAULT_RECONCILIATION_THRESHOLD
+} from '../identity';
+
+const baseSlot = {
+  date: '2025-02-15',
+  time: '09:00-12:00',
+  location: 'Isfahan Center',
+  examType: 'CDIELTS',
+  city: 'Isfahan'
+};
+
+describe('normalizeAppointmentDate', () => {
+  it('should normalize separators, padding and Persian digits', () => {
+    expect(normalizeAppointmentDate('2025/2/5')).toBe('2025-02-05');
+    expect(normalizeAppointmentDate('05/02/2025')).toBe('2025-02-05');
+    expect(normalizeAppointmentDate('۲۰۲۵-۰۲-۰۵')).toBe('2025-02-05');
+  });
+});
+
+describe('normalizeAppointmentTime', () => {
+  it('should reduce labelled and Persian time ranges to HH:MM-HH:MM', () => {
+    expect(normalizeAppointmentTime('ظهر (13:30 - 16:30)')).toBe('13:30-16:30');
+    expect(normalizeAppointmentTime('صبح (۹:۰۰ - ۱۲:۰۰)')).toBe('09:00-12:00');
+    expect(normalizeAppointmentTime('Morning 9:00 – 12:00')).toBe('09:00-12:00');
+  });
+
+  it('should fall back to normalized text when no time is present', () => {
+    expect(normalizeAppointmentTime('  TBD ')).toBe('tbd');
+  });
+});
+
+describe('createStableAppointmentId', () => {
+  it('should generate the same ID for cosmetically different slot text', () => {
+    const id1 = createStableAppointmentId(baseSlot);
+    const id2 = createStableAppointmentId({
+      ...baseSlot,
+      time: 'صبح (۰۹:۰۰ - ۱۲:۰۰)',
+      location: '  isfahan   center. ',
+      examType: 'cdielts'
+    });
+
+    expect(id1).toBe(id2);
+    expect(isStableAppointmentId(id1)).toBe(true);
+  });
+
+  it('should generate different IDs for different slots', () => {
+    const id1 = createStableAppointmentId(baseSlot);
+    const id2 = createStableAppointmentId({ ...baseSlot, time: '13:00-16:00' });
+
+    expect(id1).not.toBe(id2);
+  });
+
+  it('should not depend on status or time of generation', () => {
+    const id1 = createStableAppointmentId({ ...baseSlot });
+    const id2 = createStableAppointmentId({ ...baseSlot, status: 'filled' } as typeof baseSlot);
+
+    expect(id1).toBe(id2);
+  });
+});
+
+describe('assignStableAppointmentIds', () => {
+  it('should keep existing IDs and disambiguate identical slots', () => {
+    const result = assignStableAppointmentIds([
+      { ...baseSlot, id: 'existing' },
+      { ...baseSlot },
+      { ...baseSlot }
+    ]);
+
+    const stableId = createStableAppointmentId(baseSlot);
+    expect(result.map(apt => apt.id)).toEqual(['existing', stableId, `${stableId}-2`]);
+  });
+});
+
+describe('calculateAppointmentSimilarity', () => {
+  it('should score slightly changed locations as similar', () => {
+    const score = calculateAppointmentSimilarity(baseSlot, { ...baseSlot, location: 'Isfahan Center Hall B' });
+    expect(score).toBeGreaterThanOrEqual(DEFAULT_RECONCILIATION_THRESHOLD);
+  });
+
+  it('should never match different dates or start times', () => {
+    expect(calculateAppointmentSimilarity(baseSlot, { ...baseSlot, date: '2025-02-16' })).toBe(0);
+    expect(calculateAppointmentSimilarity(baseSlot, { ...baseSlot, time: '13:00-16:00' })).toBe(0);
+  });
+});
+
+describe('findMatchingAppointment', () => {
+  it('should return the most similar candidate above the threshold', () => {
+    const candidates = [
+      { ...baseSlot, location: 'Tehran Center', key: 'a' },
+      { ...baseSlot, location: 'Isfahan Center Hall B', key: 'b' }
+    ];
+
+    expect(findMatchingAppointment(baseSlot, candidates)?.key).toBe('b');
+    expect(findMatchingAppointment({ ...baseSlot, date: '2025-03-01' }, candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  jalaliToGregorian,
+  gregorianToJalali,
+  isJalaliLeapYear,
+  getJalaliMonthLength,
+  parseJalaliDate,
+  toGregorianIsoDate,
+  formatJalaliDate,
+  formatDualCalendarDate,
+  toPersianDigits,
+  getJalaliMonthNumber,
+  getCalendarMonthName,
+  jalaliMonthsToGregorianMonths,
+  isDateInJalaliMonths
+} from '../jalali';
+
+describe('Jalali calendar', () => {
+  describe('conversion', () => {
+    it('should convert Jalali dates to Gregorian', () => {
+      expect(jalaliToGregorian(1404, 8, 5)).toEqual({ year: 2025, month: 10, day: 27 });
+      expect(jalaliToGregorian(1403, 1, 1)).toEqual({ year: 2024, month: 3, day: 20 });
+      expect(jalaliToGregorian(1403, 12, 30)).toEqual({ year: 2025, month: 3, day: 20 });
+    });
+
+    it('should convert Gregorian dates to Jalali', () => {
+      expect(gregorianToJalali(2025, 10, 27)).toEqual({ year: 1404, month: 8, day: 5 });
+      expect(gregorianToJalali(2025, 3, 21)).toEqual({ year: 1404, month: 1, day: 1 });
+      expect(gregorianToJalali(2026, 1, 1)).toEqual({ year: 1404, month: 10, day: 11 });
+    });
+
+    it('should round-trip every day of a year', () => {
+      const start = new Date(Date.UTC(2025, 0, 1));
+      for (let offset = 0; offset < 365; offset++) {
+        const date = new Date(start.getTime() + offset * 86400000);
+        const jalali = gregorianToJalali(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+        expect(jalaliToGregorian(jalali.year, jalali.month, jalali.day)).toEqual({
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate()
+        });
+      }
+    });
+
+    it('should know leap years and month lengths', () => {
+      expect(isJalaliLeapYear(1403)).toBe(true);
+      expect(isJalaliLeapYear(1404)).toBe(false);
+      expect(getJalaliMonthLength(1404, 1)).toBe(31);
+      expect(getJalaliMonthLength(1404, 7)).toBe(30);
+      expect(getJalaliMonthLength(1404, 12)).toBe(29);
+      expect(getJalaliMonthLength(1403, 12)).toBe(30);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse numeric Jalali dates with Persian or ASCII digits', () => {
+      expect(parseJalaliDate('۱۴۰۴/۰۸/۰۵')).toBe('2025-10-27');
+      expect(parseJalaliDate('1404-8-5')).toBe('2025-10-27');
+      expect(parseJalaliDate('تاریخ آزمون: ۱۴۰۴.۰۸.۰۵')).toBe('2025-10-27');
+    });
+
+    it('should parse dates with Jalali month names', () => {
+      expect(parseJalaliDate('۵ آبان ۱۴۰۴')).toBe('2025-10-27');
+      expect(parseJalaliDate('5 Aban 1404')).toBe('2025-10-27');
+      expect(parseJalaliDate('یکشنبه ۱ فروردین ۱۴۰۳')).toBe('2024-03-20');
+    });
+
+    it('should reject invalid and non-Jalali dates', () => {
+      expect(parseJalaliDate('1404/12/30')).toBeNull();
+      expect(parseJalaliDate('2025-10-27')).toBeNull();
+      expect(parseJalaliDate('no date here')).toBeNull();
+    });
+
+    it('should canonicalize scraped dates from either calendar', () => {
+      expect(toGregorianIsoDate('1404-08-05')).toBe('2025-10-27');
+      expect(toGregorianIsoDate('۲۰۲۵-۱۰-۲۷')).toBe('2025-10-27');
+      expect(toGregorianIsoDate('2025-2-3')).toBe('2025-02-03');
+      expect(toGregorianIsoDate('TBD')).toBeNull();
+      expect(toGregorianIsoDate(undefined)).toBeNull();
+    });
+
+    it('should resolve month names in both scripts', () => {
+      expect(getJalaliMonthNumber('آبان')).toBe(8);
+      expect(getJalaliMonthNumber('esfand')).toBe(12);
+      expect(getJalaliMonthNumber('October')).toBeNull();
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format Jalali dates in Latin and Persian script', () => {
+      expect(formatJalaliDate('2025-10-27')).toBe('5 Aban 1404');
+      expect(formatJalaliDate('2025-10-27', 'fa')).toBe('۵ آبان ۱۴۰۴');
+      expect(formatJalaliDate('TBD')).toBe('');
+    });
+
+    it('should format dates in both calendars', () => {
+      expect(formatDualCalendarDate('2025-10-27')).toBe('2025-10-27 (5 Aban 1404)');
+      expect(formatDualCalendarDate('2025-10-27', 'fa')).toBe('2025-10-27 (۵ آبان ۱۴۰۴)');
+      expect(formatDualCalendarDate('TBD')).toBe('TBD');
+    });
+
+    it('should convert digits and name months per calendar', () => {
+      expect(toPersianDigits('13:30')).toBe('۱۳:۳۰');
+      expect(getCalendarMonthName(8, 'jalali')).toBe('Aban');
+      expect(getCalendarMonthName(8)).toBe('August');
+    });
+  });
+
+  describe('month configuration', () => {
+    const reference = new Date(2025, 9, 19); // 27 Mehr 1404
+
+    it('should map Jalali months to the Gregorian months they overlap', () => {
+      expect(jalaliMonthsToGregorianMonths([8], reference)).toEqual([10, 11]);
+      expect(jalaliMonthsToGregorianMonths([8, 9], reference)).toEqual([10, 11, 12]);
+      expect(jalaliMonthsToGregorianMonths([1], reference)).toEqual([3, 4]);
+    });
+
+    it('should check whether a date falls in Jalali months', () => {
+      expect(isDateInJalaliMonths('2025-10-27', [8])).toBe(true);
+      expect(isDateInJalaliMonths('2025-10-20', [8])).toBe(false);
+      expect(isDateInJalaliMonths('TBD', [8])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  findActiveQuietHours,
+  findActiveScheduleRule,
+  getLocalTime,
+  getMsUntilQuietHoursChange,
+  getMsUntilScheduleChange,
+  matchesCron,
+  matchesScheduleWindow,
+  parseCronExpression
+} from '../schedule';
+import { MonitorSchedule } from '../types';
+
+const MINUTE = 60 * 1000;
+
+// Tehran is UTC+03:30; 2026-10-17 is a Saturday
+const tehran = (localTime: string) => new Date(`${localTime}+03:30`);
+
+describe('schedule', () => {
+  describe('parseCronExpression', () => {
+    it('should parse ranges, steps, lists and weekday names', () => {
+      const cron = parseCronExpression('*/15 9-13,20 * * sat-tue');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 20]);
+      expect([...cron.daysOfWeek].sort()).toEqual([0, 1, 2, 6]);
+      expect([...parseCronExpression('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseCronExpression('* 9-13 * *')).toThrow('must have 5 fields');
+      expect(() => parseCronExpression('* 25 * * *')).toThrow('between 0 and 23');
+      expect(() => parseCronExpression('* * * * someday')).toThrow('unknown weekday');
+      expect(() => parseCronExpression('* 13-9 * * *')).toThrow();
+    });
+
+    it('should match either day field when both are restricted', () => {
+      const cron = parseCronExpression('* * 1 * fri');
+
+      expect(matchesCron(cron, getLocalTime(tehran('2026-10-23T10:00:00')))).toBe(true); // Friday
+      expect(matchesCron(cron, getLocalTime(tehran('2026-11-01T10:00:00')))).toBe(true); // 1st, a Sunday
+      expect(matchesCron(cron, getLocalTime(tehran('2026-10-19T10:00:00')))).toBe(false);
+    });
+  });
+
+  describe('matchesScheduleWindow', () => {
+    it('should match weekday and time ranges in Tehran time', () => {
+      const window = { days: ['sat' as const, 'sun' as const], start: '09:00', end: '13:30' };
+
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-17T09:00:00')))).toBe(true);
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-18T13:29:00')))).toBe(true);
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-18T13:30:00')))).toBe(false);
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-19T10:00:00')))).toBe(false);
+    });
+
+    it('should continue ranges past midnight into the next day', () => {
+      const window = { days: ['fri' as const], start: '23:00', end: '07:00' };
+
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-16T23:30:00')))).toBe(true); // Friday night
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-17T06:59:00')))).toBe(true); // Saturday morning
+      expect(matchesScheduleWindow(window, getLocalTime(tehran('2026-10-18T06:00:00')))).toBe(false); // Sunday morning
+    });
+  });
+
+  describe('active rules and quiet hours', () => {
+    const schedule: MonitorSchedule = {
+      rules: [
+        { name: 'Release hours', days: ['sat', 'sun', 'mon', 'tue', 'wed'], start: '09:00', end: '12:00', checkInterval: 30000 },
+        { name: 'Nights off', cron: '* 1-5 * * *', pause: true },
+        { name: 'Daytime', start: '06:00', end: '22:00', checkInterval: 300000 }
+      ],
+      quietHours: [{ name: 'Sleep', start: '23:00', end: '07:00' }]
+    };
+
+    it('should pick the first matching rule', () => {
+      expect(findActiveScheduleRule(schedule, tehran('2026-10-17T10:00:00'))?.name).toBe('Release hours');
+      expect(findActiveScheduleRule(schedule, tehran('2026-10-23T10:00:00'))?.name).toBe('Daytime'); // Friday
+      expect(findActiveScheduleRule(schedule, tehran('2026-10-17T03:00:00'))?.name).toBe('Nights off');
+      expect(findActiveScheduleRule(schedule, tehran('2026-10-17T22:30:00'))).toBeNull();
+    });
+
+    it('should hold notifications in quiet hours unless configured otherwise', () => {
+      expect(findActiveQuietHours(schedule, tehran('2026-10-17T23:30:00'))).toEqual(expect.objectContaining({ name: 'Sleep', notifications: 'hold' }));
+      expect(findActiveQuietHours(schedule, tehran('2026-10-17T12:00:00'))).toBeNull();
+    });
+
+    it('should find the next change of rule or quiet hours', () => {
+      expect(getMsUntilScheduleChange(schedule, tehran('2026-10-17T08:50:00'), 30 * MINUTE)).toBe(10 * MINUTE);
+      expect(getMsUntilScheduleChange(schedule, tehran('2026-10-17T08:50:30'), 30 * MINUTE)).toBe(9.5 * MINUTE);
+      expect(getMsUntilScheduleChange(schedule, tehran('2026-10-17T08:50:00'), 5 * MINUTE)).toBeNull();
+      expect(getMsUntilScheduleChange(schedule, tehran('2026-10-17T22:30:00'), 60 * MINUTE)).toBe(30 * MINUTE);
+      expect(getMsUntilQuietHoursChange(schedule, tehran('2026-10-17T23:30:00'))).toBe(7.5 * 60 * MINUTE);
+    });
+  });
+});
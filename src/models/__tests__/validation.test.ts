@@ -2,7 +2,7 @@
  * Unit tests for validation functions
  */
 
-import { validateAppointment, validateMonitorConfig, validateAppointments } from '../validation';
+import { validateAppointment, validateMonitorConfig, validateAppointments, validateAttributeFilter } from '../validation';
 import { Appointment, MonitorConfig } from '../types';
 
 describe('validateAppointment', () => {
@@ -56,6 +56,18 @@ describe('validateAppointment', () => {
     expect(result.errors).toContain('Appointment status must be one of: available, full, pending');
   });
 
+  it('should validate extended attributes', () => {
+    expect(validateAppointment({ ...validAppointment, module: 'academic', testFormat: 'paper', ukvi: true, seatsLeft: 0, priceCurrency: 'IRR' }).isValid).toBe(true);
+
+    const result = validateAppointment({ ...validAppointment, module: 'AC', testFormat: 'online', ukvi: 'yes', seatsLeft: -1 });
+    expect(result.errors).toEqual([
+      'Appointment module must be one of: academic, general-training',
+      'Appointment testFormat must be one of: computer, paper',
+      'Appointment ukvi must be a boolean',
+      'Appointment seatsLeft must be a non-negative integer'
+    ]);
+  });
+
   it('should reject appointment with negative price', () => {
     const invalidAppointment = { ...validAppointment, price: -50 };
     const result = validateAppointment(invalidAppointment);
@@ -181,4 +193,17 @@ describe('validateAppointments', () => {
     expect(result.isValid).toBe(true);
     expect(result.errors).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
+describe('validateAttributeFilter', () => {
+  it('should accept a missing or complete filter', () => {
+    expect(validateAttributeFilter(undefined).isValid).toBe(true);
+    expect(validateAttributeFilter({ modules: ['academic'], testFormats: ['computer'], ukvi: false, minSeats: 2, maxFee: 30000000 }).isValid).toBe(true);
+  });
+
+  it('should reject unknown values', () => {
+    expect(validateAttributeFilter({ modules: ['gt'], minSeats: 0 }).errors).toEqual([
+      'attributeFilters.modules must be an array of: academic, general-training',
+      'attributeFilters.minSeats must be a positive integer'
+    ]);
+  });
+});
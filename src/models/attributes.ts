@@ -0,0 +1,229 @@
+/**
+ * Extended appointment attributes
+ *
+ * Parsing of the module (Academic / General Training), test format, UKVI flag,
+ * remaining seats and fee from the text of an appointment card, plus shared
+ * formatting and filtering of these attributes.
+ */
+
+import { Appointment, AppointmentAttributeFilter, ExamModule, FeeCurrency, TestFormat } from './types';
+import { normalizeDigits } from './identity';
+
+/**
+ * Attributes that can be read from the text of an appointment card
+ */
+export interface AppointmentAttributes {
+  module?: ExamModule;
+  testFormat?: TestFormat;
+  ukvi?: boolean;
+  seatsLeft?: number;
+  price?: number;
+  priceCurrency?: FeeCurrency;
+}
+
+export const EXAM_MODULES: ExamModule[] = ['academic', 'general-training'];
+export const TEST_FORMATS: TestFormat[] = ['computer', 'paper'];
+
+const MODULE_PATTERNS: Record<ExamModule, RegExp> = {
+  'academic': /\bacademic\b|آکادمیک|اکادمیک/i,
+  'general-training': /general\s*training|\bgt\b|جنرال|عمومی/i
+};
+
+const FORMAT_PATTERNS: Record<TestFormat, RegExp> = {
+  computer: /computer[\s-]*(?:delivered|based)|\bcd\s*-?\s*ielts\b|\bcbt\b|کامپیوتری|رایانه/i,
+  paper: /paper[\s-]*based|\bpb\s*-?\s*ielts\b|\bpbt\b|کاغذی/i
+};
+
+const UKVI_PATTERN = /\bukvi\b|uk\s*visas?\s*(?:and|&)\s*immigration|یو\s*کی\s*وی\s*آی/i;
+
+const SEATS_PATTERNS = [
+  /(\d+)\s*(?:seats?|places?|spots?)\s*(?:left|remaining|available)/i,
+  /(?:seats?|places?|capacity)\s*(?:left|remaining|available)\s*:?\s*(\d+)/i,
+  /(\d+)\s*(?:صندلی|نفر|جای)\s*(?:خالی|باقی)/,
+  /ظرفیت\s*(?:باقی\s*مانده|باقیمانده|خالی)\s*:?\s*(\d+)/
+];
+
+/**
+ * A fee needs a currency unit, so years, times and seat counts are never read as prices
+ */
+const FEE_PATTERN = /(\d{1,3}(?:[,٬،]\d{3})+|\d{4,})\s*(ریال|تومان|rials?|tomans?|irr|irt)/i;
+
+/**
+ * Read extended attributes from the visible text of an appointment card.
+ * Attributes the text does not state are left out.
+ */
+export function parseAppointmentAttributes(text: string | undefined): AppointmentAttributes {
+  const value = normalizeDigits(text || '');
+  const attributes: AppointmentAttributes = {};
+
+  // A card naming both modules (e.g. "Academic / General Training") does not settle the module
+  const modules = EXAM_MODULES.filter(module => MODULE_PATTERNS[module].test(value));
+  if (modules.length === 1) {
+    attributes.module = modules[0];
+  }
+
+  const formats = TEST_FORMATS.filter(format => FORMAT_PATTERNS[format].test(value));
+  if (formats.length === 1) {
+    attributes.testFormat = formats[0];
+  }
+
+  if (UKVI_PATTERN.test(value)) {
+    attributes.ukvi = true;
+  }
+
+  for (const pattern of SEATS_PATTERNS) {
+    const match = value.match(pattern);
+    if (match) {
+      attributes.seatsLeft = Number(match[1]);
+      break;
+    }
+  }
+
+  const fee = parseFee(value);
+  if (fee) {
+    attributes.price = fee.amount;
+    attributes.priceCurrency = fee.currency;
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse a fee such as "291,000,000 ریال" or "۲۹,۱۰۰,۰۰۰ تومان"
+ */
+export function parseFee(text: string | undefined): { amount: number; currency: FeeCurrency } | null {
+  const match = normalizeDigits(text || '').match(FEE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const amount = Number(match[1].replace(/[,٬،]/g, ''));
+  const currency: FeeCurrency = /ریال|rial|irr/i.test(match[2]) ? 'IRR' : 'IRT';
+  return amount > 0 ? { amount, currency } : null;
+}
+
+/**
+ * Fill in attributes the scraper could not read from structured fields.
+ * Values already on the appointment win over those parsed from its text.
+ */
+export function withParsedAttributes<T extends Appointment>(appointment: T, text: string | undefined): T {
+  const parsed = parseAppointmentAttributes(text);
+  const result: T = { ...appointment };
+
+  if (result.module === undefined && parsed.module) result.module = parsed.module;
+  if (result.testFormat === undefined && parsed.testFormat) result.testFormat = parsed.testFormat;
+  if (result.ukvi === undefined && parsed.ukvi !== undefined) result.ukvi = parsed.ukvi;
+  if (result.seatsLeft === undefined && parsed.seatsLeft !== undefined) result.seatsLeft = parsed.seatsLeft;
+  if (result.price === undefined && parsed.price !== undefined) {
+    result.price = parsed.price;
+    result.priceCurrency = parsed.priceCurrency!;
+  }
+
+  return result;
+}
+
+/**
+ * Fee of an appointment in Toman, or undefined when it has none
+ */
+export function getFeeInToman(appointment: Pick<Appointment, 'price' | 'priceCurrency'>): number | undefined {
+  if (appointment.price === undefined) {
+    return undefined;
+  }
+  return appointment.priceCurrency === 'IRR' ? Math.round(appointment.price / 10) : appointment.price;
+}
+
+/**
+ * Format a fee for display, e.g. "291,000,000 Rial"
+ */
+export function formatFee(appointment: Pick<Appointment, 'price' | 'priceCurrency'>): string | null {
+  if (appointment.price === undefined) {
+    return null;
+  }
+  return `${appointment.price.toLocaleString('en-US')} ${appointment.priceCurrency === 'IRR' ? 'Rial' : 'Toman'}`;
+}
+
+/**
+ * Short labels for the module, format, UKVI flag and seats, e.g.
+ * ["Academic", "Computer-delivered", "UKVI", "3 seats left"]
+ */
+export function describeAppointmentAttributes(appointment: Appointment): string[] {
+  const labels: string[] = [];
+
+  if (appointment.module) {
+    labels.push(appointment.module === 'academic' ? 'Academic' : 'General Training');
+  }
+  if (appointment.testFormat) {
+    labels.push(appointment.testFormat === 'computer' ? 'Computer-delivered' : 'Paper-based');
+  }
+  if (appointment.ukvi) {
+    labels.push('UKVI');
+  }
+  if (appointment.seatsLeft !== undefined) {
+    labels.push(`${appointment.seatsLeft} seat${appointment.seatsLeft === 1 ? '' : 's'} left`);
+  }
+
+  return labels;
+}
+
+/**
+ * Human-readable summary of attribute filters, e.g. "Academic, UKVI only, max 30,000,000 Toman"
+ */
+export function describeAttributeFilter(filter: AppointmentAttributeFilter | undefined): string | null {
+  if (!filter) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  if (filter.modules && filter.modules.length > 0) {
+    parts.push(filter.modules.map(module => module === 'academic' ? 'Academic' : 'General Training').join('/'));
+  }
+  if (filter.testFormats && filter.testFormats.length > 0) {
+    parts.push(filter.testFormats.map(format => format === 'computer' ? 'Computer-delivered' : 'Paper-based').join('/'));
+  }
+  if (filter.ukvi !== undefined) {
+    parts.push(filter.ukvi ? 'UKVI only' : 'no UKVI');
+  }
+  if (filter.minSeats !== undefined) {
+    parts.push(`at least ${filter.minSeats} seat(s)`);
+  }
+  if (filter.maxFee !== undefined) {
+    parts.push(`max ${filter.maxFee.toLocaleString('en-US')} Toman`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Check an appointment against attribute filters
+ */
+export function matchesAttributeFilter(appointment: Appointment, filter: AppointmentAttributeFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (filter.modules && filter.modules.length > 0 && appointment.module && !filter.modules.includes(appointment.module)) {
+    return false;
+  }
+
+  if (filter.testFormats && filter.testFormats.length > 0 && appointment.testFormat && !filter.testFormats.includes(appointment.testFormat)) {
+    return false;
+  }
+
+  if (filter.ukvi === true && appointment.ukvi !== true) {
+    return false;
+  }
+  if (filter.ukvi === false && appointment.ukvi === true) {
+    return false;
+  }
+
+  if (filter.minSeats !== undefined && appointment.seatsLeft !== undefined && appointment.seatsLeft < filter.minSeats) {
+    return false;
+  }
+
+  const fee = getFeeInToman(appointment);
+  if (filter.maxFee !== undefined && fee !== undefined && fee > filter.maxFee) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,154 @@
+/**
+ * Exam date and time-of-day filters
+ *
+ * Matching of appointments against date ranges, excluded dates, weekdays and
+ * start-time windows, plus the compact filter expression used by the wizard
+ * and MONITOR_DATE_FILTER, e.g. "2026-11-10..2026-12-05; thu,fri; 08:00-12:00; !2026-11-20".
+ */
+
+import { Appointment, AppointmentDateFilter, DateRange, TimeWindow, Weekday } from './types';
+import { getAppointmentStartTime, normalizeAppointmentDate } from './identity';
+import { WEEKDAYS, parseTimeOfDay } from './schedule';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})?\.\.(\d{4}-\d{2}-\d{2})?$/;
+const TIME_WINDOW_PATTERN = /^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  sun: 'sunday',
+  mon: 'monday',
+  tue: 'tuesday',
+  wed: 'wednesday',
+  thu: 'thursday',
+  fri: 'friday',
+  sat: 'saturday'
+};
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Weekday of a YYYY-MM-DD date, or null when it is not a date
+ */
+export function getDateWeekday(isoDate: string): Weekday | null {
+  return isIsoDate(isoDate) ? WEEKDAYS[new Date(`${isoDate}T00:00:00Z`).getUTCDay()]! : null;
+}
+
+/**
+ * Check an appointment against date filters. The date parts are skipped for
+ * slots without a readable date, and the time windows for slots without a
+ * readable start time.
+ */
+export function matchesDateFilter(appointment: Pick<Appointment, 'date' | 'time'>, filter: AppointmentDateFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  const date = normalizeAppointmentDate(appointment.date);
+  if (isIsoDate(date)) {
+    if (filter.dateRanges && filter.dateRanges.length > 0 &&
+      !filter.dateRanges.some(range => (!range.from || date >= range.from) && (!range.to || date <= range.to))) {
+      return false;
+    }
+
+    if (filter.excludeDates && filter.excludeDates.includes(date)) {
+      return false;
+    }
+
+    if (filter.weekdays && filter.weekdays.length > 0 && !filter.weekdays.includes(getDateWeekday(date)!)) {
+      return false;
+    }
+  }
+
+  const start = parseTimeOfDay(getAppointmentStartTime(appointment.time));
+  if (filter.timeWindows && filter.timeWindows.length > 0 && !isNaN(start)) {
+    const inWindow = filter.timeWindows.some(window => {
+      const from = parseTimeOfDay(window.start || '00:00');
+      const to = parseTimeOfDay(window.end || '24:00');
+      // A window that ends before it starts runs past midnight
+      return from < to ? start >= from && start < to : start >= from || start < to;
+    });
+    if (!inWindow) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Parse a date filter expression. Terms are separated by spaces, commas or
+ * semicolons: date ranges ("2026-11-10..2026-12-05", open-ended "2026-11-10.."
+ * or "..2026-12-05"), single dates ("2026-11-15"), excluded dates ("!2026-11-20"),
+ * weekdays ("thu", "friday") and start-time windows ("08:00-12:00").
+ * Throws on a term it does not recognise; dates and times are checked by validateDateFilter.
+ */
+export function parseDateFilterExpression(expression: string): AppointmentDateFilter {
+  const dateRanges: DateRange[] = [];
+  const excludeDates: string[] = [];
+  const weekdays: Weekday[] = [];
+  const timeWindows: TimeWindow[] = [];
+
+  for (const term of expression.split(/[\s,;]+/).filter(Boolean)) {
+    const range = DATE_RANGE_PATTERN.exec(term);
+    const window = TIME_WINDOW_PATTERN.exec(term);
+    const weekday = WEEKDAYS.find(day => term.length >= 3 && WEEKDAY_NAMES[day].startsWith(term.toLowerCase()));
+
+    if (term.startsWith('!') && ISO_DATE_PATTERN.test(term.slice(1))) {
+      excludeDates.push(term.slice(1));
+    } else if (ISO_DATE_PATTERN.test(term)) {
+      dateRanges.push({ from: term, to: term });
+    } else if (range && (range[1] || range[2])) {
+      dateRanges.push({ ...(range[1] && { from: range[1] }), ...(range[2] && { to: range[2] }) });
+    } else if (window) {
+      timeWindows.push({ start: window[1]!, end: window[2]! });
+    } else if (weekday) {
+      weekdays.push(weekday);
+    } else {
+      throw new Error(`unrecognised date filter term "${term}" (use dates like 2026-11-10..2026-12-05, !2026-11-20, weekdays like thu, or times like 08:00-12:00)`);
+    }
+  }
+
+  const filter: AppointmentDateFilter = {};
+  if (dateRanges.length > 0) filter.dateRanges = dateRanges;
+  if (excludeDates.length > 0) filter.excludeDates = excludeDates;
+  if (weekdays.length > 0) filter.weekdays = [...new Set(weekdays)];
+  if (timeWindows.length > 0) filter.timeWindows = timeWindows;
+  return filter;
+}
+
+/**
+ * Date filters as an expression parseDateFilterExpression reads back, e.g.
+ * "2026-11-10..2026-12-05; thu,fri; 08:00-12:00; !2026-11-20", or null when nothing is filtered
+ */
+export function describeDateFilter(filter: AppointmentDateFilter | undefined): string | null {
+  if (!filter) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  if (filter.dateRanges && filter.dateRanges.length > 0) {
+    parts.push(filter.dateRanges
+      .map(range => range.from && range.from === range.to ? range.from : `${range.from || ''}..${range.to || ''}`)
+      .join(','));
+  }
+  if (filter.weekdays && filter.weekdays.length > 0) {
+    parts.push(filter.weekdays.join(','));
+  }
+  if (filter.timeWindows && filter.timeWindows.length > 0) {
+    parts.push(filter.timeWindows.map(window => `${window.start || '00:00'}-${window.end || '24:00'}`).join(','));
+  }
+  if (filter.excludeDates && filter.excludeDates.length > 0) {
+    parts.push(filter.excludeDates.map(date => `!${date}`).join(','));
+  }
+
+  return parts.length > 0 ? parts.join('; ') : null;
+}
@@ -0,0 +1,226 @@
+/**
+ * Stable appointment identity
+ *
+ * Appointment IDs are derived from the normalized slot content (date, time,
+ * location and exam type) so the same slot keeps the same ID across checks,
+ * restarts and small cosmetic changes in the page markup.
+ */
+
+import { Appointment } from './types';
+import { hashString } from './utils';
+
+/**
+ * Prefix used for IDs derived from appointment content
+ */
+export const STABLE_ID_PREFIX = 'slot-';
+
+/**
+ * Minimum similarity score for two slots on the same date and start time
+ * to be treated as the same appointment
+ */
+export const DEFAULT_RECONCILIATION_THRESHOLD = 0.6;
+
+/**
+ * Appointment fields that contribute to its identity
+ */
+export type AppointmentIdentityFields = Pick<Appointment, 'date' | 'time' | 'location' | 'examType' | 'city'>;
+
+const PERSIAN_DIGITS = '۰۱۲۳۴۵۶۷۸۹';
+const ARABIC_DIGITS = '٠١٢٣٤٥٦٧٨٩';
+
+/**
+ * Converts Persian and Arabic-Indic digits to ASCII digits
+ */
+export function normalizeDigits(value: string): string {
+  return value
+    .replace(/[۰-۹]/g, char => String(PERSIAN_DIGITS.indexOf(char)))
+    .replace(/[٠-٩]/g, char => String(ARABIC_DIGITS.indexOf(char)));
+}
+
+/**
+ * Normalizes free text for identity comparison: ASCII digits, lowercase,
+ * punctuation removed and whitespace collapsed
+ */
+export function normalizeIdentityText(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+
+  return normalizeDigits(value)
+    .toLowerCase()
+    .replace(/[\u200c\u200e\u200f]/g, ' ') // zero-width non-joiner and direction marks
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalizes an appointment date to YYYY-MM-DD where possible
+ */
+export function normalizeAppointmentDate(date: string | undefined): string {
+  const value = normalizeDigits(date || '').trim();
+
+  const isoMatch = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
+  }
+
+  const dayFirstMatch = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  if (dayFirstMatch) {
+    return `${dayFirstMatch[3]}-${dayFirstMatch[2].padStart(2, '0')}-${dayFirstMatch[1].padStart(2, '0')}`;
+  }
+
+  return normalizeIdentityText(value);
+}
+
+/**
+ * Normalizes an appointment time to an "HH:MM-HH:MM" range, dropping labels
+ * such as "ظهر (13:30 - 16:30)" or "Morning 9:00 – 12:00"
+ */
+export function normalizeAppointmentTime(time: string | undefined): string {
+  const value = normalizeDigits(time || '');
+  const times = value.match(/\d{1,2}:\d{2}/g);
+
+  if (!times || times.length === 0) {
+    return normalizeIdentityText(value);
+  }
+
+  return times
+    .slice(0, 2)
+    .map(t => t.padStart(5, '0'))
+    .join('-');
+}
+
+/**
+ * Returns the normalized start time of an appointment (e.g. "09:00"), or an
+ * empty string when the time cannot be parsed
+ */
+export function getAppointmentStartTime(time: string | undefined): string {
+  const match = normalizeDigits(time || '').match(/\d{1,2}:\d{2}/);
+  return match ? match[0].padStart(5, '0') : '';
+}
+
+/**
+ * Builds the normalized identity key for an appointment
+ */
+export function createAppointmentIdentityKey(appointment: AppointmentIdentityFields): string {
+  return [
+    normalizeAppointmentDate(appointment.date),
+    normalizeAppointmentTime(appointment.time),
+    normalizeIdentityText(appointment.location || appointment.city),
+    normalizeIdentityText(appointment.examType)
+  ].join('|');
+}
+
+/**
+ * Generates a stable, content-derived ID for an appointment.
+ * A namespace keeps identical slots of different providers apart.
+ */
+export function createStableAppointmentId(appointment: AppointmentIdentityFields, namespace?: string): string {
+  const key = namespace ? `${namespace}|${createAppointmentIdentityKey(appointment)}` : createAppointmentIdentityKey(appointment);
+  const reversedKey = key.split('').reverse().join('');
+
+  return `${STABLE_ID_PREFIX}${hashString(key).padStart(8, '0')}${hashString(reversedKey).padStart(8, '0')}`;
+}
+
+/**
+ * Checks whether an ID was derived from appointment content
+ */
+export function isStableAppointmentId(id: string | undefined): boolean {
+  return typeof id === 'string' && id.startsWith(STABLE_ID_PREFIX);
+}
+
+/**
+ * Assigns stable IDs to appointments that do not already carry one.
+ * Identical slots within the same batch get an occurrence suffix so IDs stay unique.
+ */
+export function assignStableAppointmentIds<T extends AppointmentIdentityFields & { id?: string }>(
+  appointments: T[],
+  namespace?: string
+): Array<T & { id: string }> {
+  const occurrences = new Map<string, number>();
+
+  return appointments.map(appointment => {
+    if (appointment.id) {
+      return appointment as T & { id: string };
+    }
+
+    const baseId = createStableAppointmentId(appointment, namespace);
+    const count = (occurrences.get(baseId) || 0) + 1;
+    occurrences.set(baseId, count);
+
+    return {
+      ...appointment,
+      id: count === 1 ? baseId : `${baseId}-${count}`
+    };
+  });
+}
+
+/**
+ * Calculates token similarity (Jaccard index) between two text values
+ */
+export function calculateTextSimilarity(a: string | undefined, b: string | undefined): number {
+  const tokensA = new Set(normalizeIdentityText(a).split(' ').filter(Boolean));
+  const tokensB = new Set(normalizeIdentityText(b).split(' ').filter(Boolean));
+
+  if (tokensA.size === 0 && tokensB.size === 0) {
+    return 1;
+  }
+
+  let intersection = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) {
+      intersection++;
+    }
+  });
+
+  const union = tokensA.size + tokensB.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+/**
+ * Scores how likely two appointments describe the same slot (0-1).
+ * Slots on a different date or start time never match.
+ */
+export function calculateAppointmentSimilarity(
+  a: AppointmentIdentityFields,
+  b: AppointmentIdentityFields
+): number {
+  if (normalizeAppointmentDate(a.date) !== normalizeAppointmentDate(b.date)) {
+    return 0;
+  }
+
+  const startA = getAppointmentStartTime(a.time);
+  const startB = getAppointmentStartTime(b.time);
+  if (!startA || startA !== startB) {
+    return 0;
+  }
+
+  const locationSimilarity = calculateTextSimilarity(a.location || a.city, b.location || b.city);
+  const examTypeSimilarity = calculateTextSimilarity(a.examType, b.examType);
+
+  return locationSimilarity * 0.7 + examTypeSimilarity * 0.3;
+}
+
+/**
+ * Finds the candidate that most likely describes the same slot as the given
+ * appointment, or null when no candidate reaches the threshold
+ */
+export function findMatchingAppointment<T extends AppointmentIdentityFields>(
+  appointment: AppointmentIdentityFields,
+  candidates: T[],
+  threshold: number = DEFAULT_RECONCILIATION_THRESHOLD
+): T | null {
+  let bestMatch: T | null = null;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    const score = calculateAppointmentSimilarity(appointment, candidate);
+    if (score >= threshold && score > bestScore) {
+      bestMatch = candidate;
+      bestScore = score;
+    }
+  }
+
+  return bestMatch;
+}
@@ -4,4 +4,10 @@
 
 export * from './types';
 export * from './validation';
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+export * from './identity';
+export * from './jalali';
+export * from './attributes';
+export * from './schedule';
+export * from './dateFilters';
+export * from './profiles';
@@ -0,0 +1,348 @@
+/**
+ * Jalali (Solar Hijri) calendar support
+ *
+ * Conversion between the Jalali and Gregorian calendars, parsing of Persian
+ * dates and digits as they appear on irsafam.org, and dual-calendar formatting.
+ * Conversion follows the Borkowski algorithm used by jalaali-js.
+ */
+
+import { MonthCalendar } from './types';
+import { normalizeDigits } from './identity';
+
+/**
+ * Persian month names, indexed from Farvardin (1) to Esfand (12)
+ */
+export const JALALI_MONTH_NAMES = [
+  'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
+  'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
+];
+
+/**
+ * Latin transliteration of the Jalali month names
+ */
+export const JALALI_MONTH_NAMES_LATIN = [
+  'Farvardin', 'Ordibehesht', 'Khordad', 'Tir', 'Mordad', 'Shahrivar',
+  'Mehr', 'Aban', 'Azar', 'Dey', 'Bahman', 'Esfand'
+];
+
+/**
+ * A calendar date with a 1-based month
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const JALALI_BREAKS = [
+  -61, 9, 38, 199, 426, 686, 756, 818, 1111, 1181, 1210,
+  1635, 2060, 2097, 2192, 2262, 2324, 2394, 2456, 3178
+];
+
+const div = (a: number, b: number): number => Math.trunc(a / b);
+const mod = (a: number, b: number): number => a - Math.trunc(a / b) * b;
+
+/**
+ * Leap year position and the March day of Nowruz for a Jalali year
+ */
+function jalaliCalendarInfo(jy: number): { leap: number; gy: number; march: number } {
+  const gy = jy + 621;
+  let leapJ = -14;
+  let jp = JALALI_BREAKS[0];
+  let jump = 0;
+
+  if (jy < jp || jy >= JALALI_BREAKS[JALALI_BREAKS.length - 1]) {
+    throw new Error(`Invalid Jalali year: ${jy}`);
+  }
+
+  for (let i = 1; i < JALALI_BREAKS.length; i++) {
+    const jm = JALALI_BREAKS[i];
+    jump = jm - jp;
+    if (jy < jm) {
+      break;
+    }
+    leapJ += div(jump, 33) * 8 + div(mod(jump, 33), 4);
+    jp = jm;
+  }
+
+  let n = jy - jp;
+  leapJ += div(n, 33) * 8 + div(mod(n, 33) + 3, 4);
+  if (mod(jump, 33) === 4 && jump - n === 4) {
+    leapJ += 1;
+  }
+
+  const leapG = div(gy, 4) - div((div(gy, 100) + 1) * 3, 4) - 150;
+  const march = 20 + leapJ - leapG;
+
+  if (jump - n < 6) {
+    n = n - jump + div(jump + 4, 33) * 33;
+  }
+  let leap = mod(mod(n + 1, 33) - 1, 4);
+  if (leap === -1) {
+    leap = 4;
+  }
+
+  return { leap, gy, march };
+}
+
+function gregorianToDayNumber(gy: number, gm: number, gd: number): number {
+  const d = div((gy + div(gm - 8, 6) + 100100) * 1461, 4)
+    + div(153 * mod(gm + 9, 12) + 2, 5)
+    + gd - 34840408;
+  return d - div(div(gy + 100100 + div(gm - 8, 6), 100) * 3, 4) + 752;
+}
+
+function dayNumberToGregorian(jdn: number): CalendarDate {
+  let j = 4 * jdn + 139361631;
+  j = j + div(div(4 * jdn + 183187720, 146097) * 3, 4) * 4 - 3908;
+  const i = div(mod(j, 1461), 4) * 5 + 308;
+  const day = div(mod(i, 153), 5) + 1;
+  const month = mod(div(i, 153), 12) + 1;
+  const year = div(j, 1461) - 100100 + div(8 - month, 6);
+  return { year, month, day };
+}
+
+/**
+ * Checks whether a Jalali year has 366 days
+ */
+export function isJalaliLeapYear(jy: number): boolean {
+  return jalaliCalendarInfo(jy).leap === 0;
+}
+
+/**
+ * Number of days in a Jalali month
+ */
+export function getJalaliMonthLength(jy: number, jm: number): number {
+  if (jm <= 6) {
+    return 31;
+  }
+  if (jm <= 11) {
+    return 30;
+  }
+  return isJalaliLeapYear(jy) ? 30 : 29;
+}
+
+/**
+ * Checks whether the given year, month and day form a valid Jalali date
+ */
+export function isValidJalaliDate(jy: number, jm: number, jd: number): boolean {
+  return jy >= -61 && jy <= 3177 &&
+    jm >= 1 && jm <= 12 &&
+    jd >= 1 && jd <= getJalaliMonthLength(jy, jm);
+}
+
+/**
+ * Converts a Jalali date to the Gregorian calendar
+ */
+export function jalaliToGregorian(jy: number, jm: number, jd: number): CalendarDate {
+  const info = jalaliCalendarInfo(jy);
+  const jdn = gregorianToDayNumber(info.gy, 3, info.march) + (jm - 1) * 31 - div(jm, 7) * (jm - 7) + jd - 1;
+  return dayNumberToGregorian(jdn);
+}
+
+/**
+ * Converts a Gregorian date to the Jalali calendar
+ */
+export function gregorianToJalali(gy: number, gm: number, gd: number): CalendarDate {
+  const jdn = gregorianToDayNumber(gy, gm, gd);
+  let year = gy - 621;
+  const info = jalaliCalendarInfo(year);
+  let k = jdn - gregorianToDayNumber(gy, 3, info.march);
+
+  if (k >= 0) {
+    if (k <= 185) {
+      return { year, month: 1 + div(k, 31), day: mod(k, 31) + 1 };
+    }
+    k -= 186;
+  } else {
+    year -= 1;
+    k += 179;
+    if (info.leap === 1) {
+      k += 1;
+    }
+  }
+
+  return { year, month: 7 + div(k, 30), day: mod(k, 30) + 1 };
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ */
+export function formatIsoDate(date: CalendarDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts ASCII digits to Persian digits
+ */
+export function toPersianDigits(value: string | number): string {
+  return String(value).replace(/\d/g, digit => '۰۱۲۳۴۵۶۷۸۹'[Number(digit)]);
+}
+
+/**
+ * Resolves a Persian or Latin Jalali month name to its number (1-12)
+ */
+export function getJalaliMonthNumber(name: string): number | null {
+  const normalized = name.trim().toLowerCase().replace(/ي/g, 'ی');
+  const persianIndex = JALALI_MONTH_NAMES.indexOf(normalized);
+  if (persianIndex !== -1) {
+    return persianIndex + 1;
+  }
+  const latinIndex = JALALI_MONTH_NAMES_LATIN.findIndex(month => month.toLowerCase() === normalized);
+  return latinIndex !== -1 ? latinIndex + 1 : null;
+}
+
+/**
+ * Name of a Jalali month (1-12) in Persian or Latin script
+ */
+export function getJalaliMonthName(month: number, locale: 'en' | 'fa' = 'en'): string {
+  const names = locale === 'fa' ? JALALI_MONTH_NAMES : JALALI_MONTH_NAMES_LATIN;
+  return names[month - 1] || `Month ${month}`;
+}
+
+const JALALI_MONTH_NAME_PATTERN = [...JALALI_MONTH_NAMES, ...JALALI_MONTH_NAMES_LATIN].join('|');
+
+/**
+ * Parses a Jalali date such as "1404/08/05", "۱۴۰۴-۰۸-۰۵", "۵ آبان ۱۴۰۴" or
+ * "5 Aban 1404" and returns the Gregorian date as YYYY-MM-DD, or null when the
+ * text does not contain a valid Jalali date
+ */
+export function parseJalaliDate(text: string | undefined): string | null {
+  const value = normalizeDigits(text || '').replace(/ي/g, 'ی');
+
+  let parts: [number, number, number] | null = null;
+
+  const numericMatch = value.match(/(\d{4})\s*[-/.]\s*(\d{1,2})\s*[-/.]\s*(\d{1,2})/);
+  if (numericMatch) {
+    parts = [Number(numericMatch[1]), Number(numericMatch[2]), Number(numericMatch[3])];
+  } else {
+    const namedMatch = value.match(new RegExp(`(\\d{1,2})\\s+(${JALALI_MONTH_NAME_PATTERN})\\s+(\\d{4})`, 'i'));
+    const month = namedMatch ? getJalaliMonthNumber(namedMatch[2]) : null;
+    if (namedMatch && month) {
+      parts = [Number(namedMatch[3]), month, Number(namedMatch[1])];
+    }
+  }
+
+  if (!parts || !isJalaliYear(parts[0]) || !isValidJalaliDate(...parts)) {
+    return null;
+  }
+
+  return formatIsoDate(jalaliToGregorian(...parts));
+}
+
+/**
+ * Years in this range are Solar Hijri; Gregorian dates on the site are always later
+ */
+function isJalaliYear(year: number): boolean {
+  return year >= 1300 && year <= 1500;
+}
+
+/**
+ * Converts a scraped date in either calendar to a canonical Gregorian
+ * YYYY-MM-DD date. Returns null when the value is not a recognizable date.
+ */
+export function toGregorianIsoDate(value: string | undefined): string | null {
+  const text = normalizeDigits(value || '').trim();
+  if (!text) {
+    return null;
+  }
+
+  const jalali = parseJalaliDate(text);
+  if (jalali) {
+    return jalali;
+  }
+
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (isoMatch && !isJalaliYear(Number(isoMatch[1]))) {
+    return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Splits a YYYY-MM-DD Gregorian date into its parts
+ */
+function parseIsoDate(isoDate: string): CalendarDate | null {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Converts a Gregorian YYYY-MM-DD date to its Jalali equivalent
+ */
+export function isoDateToJalali(isoDate: string): CalendarDate | null {
+  const date = parseIsoDate(isoDate);
+  if (!date || isJalaliYear(date.year)) {
+    return null;
+  }
+  return gregorianToJalali(date.year, date.month, date.day);
+}
+
+/**
+ * Formats a Gregorian YYYY-MM-DD date in the Jalali calendar, e.g. "5 Aban 1404"
+ * or "۵ آبان ۱۴۰۴". Returns an empty string when the date cannot be converted.
+ */
+export function formatJalaliDate(isoDate: string, locale: 'en' | 'fa' = 'en'): string {
+  const jalali = isoDateToJalali(isoDate);
+  if (!jalali) {
+    return '';
+  }
+
+  const formatted = `${jalali.day} ${getJalaliMonthName(jalali.month, locale)} ${jalali.year}`;
+  return locale === 'fa' ? toPersianDigits(formatted) : formatted;
+}
+
+/**
+ * Formats a date in both calendars, e.g. "2025-10-27 (5 Aban 1404)".
+ * Values that are not Gregorian dates are returned unchanged.
+ */
+export function formatDualCalendarDate(isoDate: string, locale: 'en' | 'fa' = 'en'): string {
+  const jalali = formatJalaliDate(isoDate, locale);
+  return jalali ? `${isoDate} (${jalali})` : isoDate;
+}
+
+/**
+ * Display name of a configured month number in the given calendar
+ */
+export function getCalendarMonthName(month: number, calendar: MonthCalendar = 'gregorian'): string {
+  if (calendar === 'jalali') {
+    return getJalaliMonthName(month);
+  }
+  return new Date(2000, month - 1, 1).toLocaleString('en-US', { month: 'long' });
+}
+
+/**
+ * Maps Jalali months (1-12) to the Gregorian months they overlap, in order of
+ * their next occurrence from the reference date. Each Jalali month spans two
+ * Gregorian months (Farvardin runs from about 21 March to 20 April).
+ */
+export function jalaliMonthsToGregorianMonths(months: number[], reference: Date = new Date()): number[] {
+  const today = gregorianToJalali(reference.getFullYear(), reference.getMonth() + 1, reference.getDate());
+  const gregorianMonths: number[] = [];
+
+  months.forEach(month => {
+    const year = month < today.month ? today.year + 1 : today.year;
+    const start = jalaliToGregorian(year, month, 1);
+    const end = jalaliToGregorian(year, month, getJalaliMonthLength(year, month));
+
+    [start.month, end.month].forEach(gregorianMonth => {
+      if (!gregorianMonths.includes(gregorianMonth)) {
+        gregorianMonths.push(gregorianMonth);
+      }
+    });
+  });
+
+  return gregorianMonths;
+}
+
+/**
+ * Checks whether a Gregorian YYYY-MM-DD date falls in one of the given Jalali months
+ */
+export function isDateInJalaliMonths(isoDate: string, months: number[]): boolean {
+  const jalali = isoDateToJalali(isoDate);
+  return jalali !== null && months.includes(jalali.month);
+}
@@ -0,0 +1,95 @@
+/**
+ * Watch profiles
+ *
+ * Matching of scraped appointments against the cities, exam models, months,
+ * attribute and date filters of a watch profile, and the combined filters one
+ * scrape needs to cover the top-level configuration and every profile.
+ */
+
+import { Appointment, MonitorConfig, MonthCalendar, NotificationSettings, WatchProfile } from './types';
+import { matchesAttributeFilter } from './attributes';
+import { matchesDateFilter } from './dateFilters';
+import { normalizeAppointmentDate } from './identity';
+import { isDateInJalaliMonths } from './jalali';
+
+/**
+ * Valid profile names; the name is also used as a directory name
+ */
+export const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+
+/**
+ * Notification channels a profile can switch on or off
+ */
+export const PROFILE_CHANNELS: (keyof NotificationSettings)[] = ['desktop', 'audio', 'logFile', 'telegram'];
+
+/**
+ * Filters a profile or the top-level configuration watches
+ */
+export type WatchFilters = Pick<WatchProfile, 'city' | 'examModel' | 'months' | 'attributeFilters' | 'dateFilters'>;
+
+/**
+ * Enabled watch profiles of a configuration
+ */
+export function getActiveProfiles(config: Pick<MonitorConfig, 'profiles'>): WatchProfile[] {
+  return (config.profiles || []).filter(profile => profile.enabled !== false);
+}
+
+/**
+ * Notification channels of a profile: the top-level settings, with Telegram
+ * switched on when the profile has its own chat, overridden by the profile's settings
+ */
+export function getProfileNotificationSettings(profile: WatchProfile, defaults: NotificationSettings): NotificationSettings {
+  return {
+    ...defaults,
+    ...(profile.telegramChatId && { telegram: true }),
+    ...profile.notificationSettings
+  };
+}
+
+/**
+ * Cities, exam models and months one scrape has to cover for the top-level
+ * configuration and all enabled profiles
+ */
+export function getCombinedScrapeFilters(config: Pick<MonitorConfig, 'city' | 'examModel' | 'months' | 'profiles'>): Pick<WatchProfile, 'city' | 'examModel' | 'months'> {
+  const watches: WatchFilters[] = [config, ...getActiveProfiles(config)];
+  const union = <T>(values: T[]) => [...new Set(values)];
+
+  return {
+    city: union(watches.flatMap(watch => watch.city.map(city => city.toLowerCase()))),
+    examModel: union(watches.flatMap(watch => watch.examModel.map(model => model.toLowerCase()))),
+    months: union(watches.flatMap(watch => watch.months))
+  };
+}
+
+/**
+ * Check a scraped appointment against the filters of a profile. Exam types that
+ * none of the scraped exam models name (e.g. a generic "IELTS" label) do not
+ * exclude a slot, and neither do dates that cannot be read.
+ */
+export function matchesWatchFilters(
+  appointment: Appointment,
+  filters: WatchFilters,
+  options: { monthCalendar?: MonthCalendar | undefined; scrapedExamModels?: string[] | undefined } = {}
+): boolean {
+  if (filters.city.length > 0 && !filters.city.some(city => appointment.city.toLowerCase().includes(city.toLowerCase()))) {
+    return false;
+  }
+
+  const examType = appointment.examType.toLowerCase();
+  const recognised = (options.scrapedExamModels || filters.examModel).some(model => model.toLowerCase() === examType);
+  if (filters.examModel.length > 0 && recognised && !filters.examModel.some(model => model.toLowerCase() === examType)) {
+    return false;
+  }
+
+  const date = normalizeAppointmentDate(appointment.date);
+  if (filters.months.length > 0 && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const inMonths = options.monthCalendar === 'jalali'
+      ? isDateInJalaliMonths(date, filters.months)
+      : filters.months.includes(Number(date.slice(5, 7)));
+    if (!inMonths) {
+      return false;
+    }
+  }
+
+  return matchesAttributeFilter(appointment, filters.attributeFilters) && matchesDateFilter(appointment, filters.dateFilters);
+}
@@ -0,0 +1,275 @@
+/**
+ * Monitoring schedule windows
+ *
+ * Matching of cron expressions and weekday/time ranges against the local time
+ * of a time zone (Asia/Tehran by default), for per-window check intervals and
+ * quiet hours.
+ */
+
+import { MonitorSchedule, QuietHoursMode, QuietHoursRule, ScheduleRule, ScheduleWindow, Weekday } from './types';
+
+export const DEFAULT_SCHEDULE_TIME_ZONE = 'Asia/Tehran';
+
+/**
+ * Weekdays in JavaScript order (0 = Sunday)
+ */
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Wall-clock time in a time zone
+ */
+export interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  weekday: number; // 0 = Sunday
+  minutes: number; // Minutes since midnight
+}
+
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month, day of week
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * A schedule rule or quiet hours window matching the current time
+ */
+export interface ActiveScheduleWindow<T extends ScheduleWindow> {
+  index: number;
+  name: string;
+  window: T;
+}
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MINUTES = 7 * 24 * 60;
+const cronCache = new Map<string, CronExpression>();
+
+/**
+ * Parse a cron expression. Fields accept *, numbers, ranges (1-5), steps (*\/15, 8-18/2)
+ * and lists; the day of week also accepts sun-sat, with 0 and 7 both meaning Sunday.
+ * Throws when the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const cached = cronCache.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron expression "${expression}" must have 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+  const daysOfWeek = parseCronField(dayOfWeek.toLowerCase().replace(/[a-z]{3}/g, name => {
+    const index = WEEKDAYS.indexOf(name as Weekday);
+    if (index === -1) {
+      throw new Error(`unknown weekday "${name}" in cron expression "${expression}"`);
+    }
+    return index.toString();
+  }), 0, 7, expression, true);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const parsed: CronExpression = {
+    minutes: parseCronField(minute, 0, 59, expression),
+    hours: parseCronField(hour, 0, 23, expression),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, expression),
+    months: parseCronField(month, 1, 12, expression),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*'
+  };
+  cronCache.set(expression, parsed);
+  return parsed;
+}
+
+/**
+ * Whether a cron expression matches a local time (both day fields restricted means either may match)
+ */
+export function matchesCron(cron: CronExpression, local: LocalTime): boolean {
+  if (!cron.minutes.has(local.minutes % 60) || !cron.hours.has(Math.floor(local.minutes / 60)) || !cron.months.has(local.month)) {
+    return false;
+  }
+
+  const dayOfMonth = cron.daysOfMonth.has(local.day);
+  const dayOfWeek = cron.daysOfWeek.has(local.weekday);
+  return cron.dayOfMonthRestricted && cron.dayOfWeekRestricted ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Whether a schedule window covers a local time. A weekday/time range that ends
+ * before it starts runs past midnight into the next day.
+ */
+export function matchesScheduleWindow(window: ScheduleWindow, local: LocalTime): boolean {
+  if (window.cron) {
+    return matchesCron(parseCronExpression(window.cron), local);
+  }
+
+  const start = parseTimeOfDay(window.start || '00:00');
+  const end = parseTimeOfDay(window.end || '24:00');
+  const onDay = (weekday: number) => !window.days || window.days.length === 0 || window.days.includes(WEEKDAYS[weekday]!);
+
+  if (start < end) {
+    return onDay(local.weekday) && local.minutes >= start && local.minutes < end;
+  }
+  return (onDay(local.weekday) && local.minutes >= start) ||
+    (onDay((local.weekday + 6) % 7) && local.minutes < end);
+}
+
+/**
+ * The first schedule rule covering the given time, if any
+ */
+export function findActiveScheduleRule(schedule: MonitorSchedule, now: Date = new Date()): ActiveScheduleWindow<ScheduleRule> | null {
+  return findActiveWindow(schedule.rules, getLocalTime(now, schedule.timeZone));
+}
+
+/**
+ * The first quiet hours window covering the given time, if any
+ */
+export function findActiveQuietHours(schedule: MonitorSchedule, now: Date = new Date()): ActiveScheduleWindow<QuietHoursRule> & { notifications: QuietHoursMode } | null {
+  const active = findActiveWindow(schedule.quietHours, getLocalTime(now, schedule.timeZone));
+  return active ? { ...active, notifications: active.window.notifications || 'hold' } : null;
+}
+
+/**
+ * Time until the active schedule rule or quiet hours change, or null when they
+ * stay the same for the next maxMs (at most a week)
+ */
+export function getMsUntilScheduleChange(schedule: MonitorSchedule, now: Date, maxMs: number): number | null {
+  return findNextChange(schedule, now, maxMs, local =>
+    `${findActiveWindow(schedule.rules, local)?.index ?? -1}|${findActiveWindow(schedule.quietHours, local)?.index ?? -1}`);
+}
+
+/**
+ * Time until the active quiet hours end or give way to other quiet hours, or null
+ * when that does not happen within a week
+ */
+export function getMsUntilQuietHoursChange(schedule: MonitorSchedule, now: Date): number | null {
+  return findNextChange(schedule, now, WEEK_MINUTES * MINUTE_MS, local =>
+    `${findActiveWindow(schedule.quietHours, local)?.index ?? -1}`);
+}
+
+/**
+ * Display name of a schedule window: its name, cron expression or days and times
+ */
+export function describeScheduleWindow(window: ScheduleWindow): string {
+  if (window.name) {
+    return window.name;
+  }
+  if (window.cron) {
+    return `cron "${window.cron}"`;
+  }
+  const days = window.days && window.days.length > 0 ? window.days.join(',') : 'daily';
+  return `${days} ${window.start || '00:00'}-${window.end || '24:00'}`;
+}
+
+/**
+ * Wall-clock time of a date in a time zone
+ */
+export function getLocalTime(date: Date, timeZone: string = DEFAULT_SCHEDULE_TIME_ZONE): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value || 0);
+
+  return toLocalTime(new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'))));
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight ("24:00" is the end of the day), or NaN
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return NaN;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    return NaN;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Steps through the wall-clock minutes after now until stateAt changes. Assumes
+ * the time zone's UTC offset does not change in between.
+ */
+function findNextChange(schedule: MonitorSchedule, now: Date, maxMs: number, stateAt: (local: LocalTime) => string): number | null {
+  const local = getLocalTime(now, schedule.timeZone);
+  const current = stateAt(local);
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+  const intoMinute = now.getTime() % MINUTE_MS;
+  const maxMinutes = Math.min(WEEK_MINUTES, Math.ceil((maxMs + intoMinute) / MINUTE_MS));
+
+  for (let minute = 1; minute <= maxMinutes; minute++) {
+    if (stateAt(toLocalTime(new Date(wallClock + minute * MINUTE_MS))) !== current) {
+      const untilChange = minute * MINUTE_MS - intoMinute;
+      return untilChange <= maxMs ? untilChange : null;
+    }
+  }
+  return null;
+}
+
+function findActiveWindow<T extends ScheduleWindow>(windows: T[] | undefined, local: LocalTime): ActiveScheduleWindow<T> | null {
+  const index = (windows || []).findIndex(window => matchesScheduleWindow(window, local));
+  return index === -1 ? null : { index, name: describeScheduleWindow(windows![index]!), window: windows![index]! };
+}
+
+/**
+ * Local time from a date whose UTC fields hold the wall-clock time
+ */
+function toLocalTime(wallClock: Date): LocalTime {
+  return {
+    year: wallClock.getUTCFullYear(),
+    month: wallClock.getUTCMonth() + 1,
+    day: wallClock.getUTCDate(),
+    weekday: wallClock.getUTCDay(),
+    minutes: wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes()
+  };
+}
+
+function parseCronField(field: string, min: number, max: number, expression: string, wrapRanges: boolean = false): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`invalid field "${field}" in cron expression "${expression}"`);
+    }
+
+    const [from, to] = match[1] === '*'
+      ? [min, max]
+      : match[1]!.includes('-')
+        ? match[1]!.split('-').map(Number) as [number, number]
+        : [Number(match[1]), match[2] ? max : Number(match[1])];
+    const step = match[2] ? Number(match[2]) : 1;
+
+    if (from < min || to > max || (from > to && !wrapRanges) || step < 1) {
+      throw new Error(`field "${field}" of cron expression "${expression}" must be between ${min} and ${max}`);
+    }
+    // A wrapping weekday range such as sat-wed continues through the start of the week
+    const span = from <= to ? to - from : max - from + 1 + to - min;
+    for (let offset = 0; offset <= span; offset += step) {
+      values.add(from + offset > max ? from + offset - max - 1 + min : from + offset);
+    }
+  }
+
+  return values;
+}
@@ -13,9 +13,70 @@ export interface Appointment {
   examType: string;
   city: string;
   status: 'available' | 'filled' | 'pending' | 'not-registerable' | 'unknown';
-  price?: number;
+  price?: number; // Exam fee as shown on the page, in priceCurrency
+  priceCurrency?: FeeCurrency; // Defaults to 'IRT' (Toman) when the page does not say
+  module?: ExamModule; // Academic or General Training, when the slot says
+  testFormat?: TestFormat; // Computer-delivered or paper-based, when the slot says
+  ukvi?: boolean; // true for IELTS for UKVI sessions
+  seatsLeft?: number; // Remaining seats, when the slot shows them
   registrationUrl?: string;
   rawHtml?: string; // Raw HTML for inspection purposes
+  providerId?: string; // Appointment provider the slot was scraped from (e.g. 'irsafam')
+}
+
+/**
+ * IELTS module of a slot
+ */
+export type ExamModule = 'academic' | 'general-training';
+
+/**
+ * How the test is delivered
+ */
+export type TestFormat = 'computer' | 'paper';
+
+/**
+ * Currency of an exam fee: Iranian Rial or Toman (10 Rial)
+ */
+export type FeeCurrency = 'IRR' | 'IRT';
+
+/**
+ * Filters on extended appointment attributes. Slots that do not state an
+ * attribute are kept, except that ukvi: true only keeps slots marked UKVI.
+ */
+export interface AppointmentAttributeFilter {
+  modules?: ExamModule[] | undefined;
+  testFormats?: TestFormat[] | undefined;
+  ukvi?: boolean | undefined; // true: UKVI sessions only, false: exclude UKVI sessions
+  minSeats?: number | undefined; // Skip slots showing fewer remaining seats
+  maxFee?: number | undefined; // Skip slots with a higher fee, in Toman
+}
+
+/**
+ * Filters on the exam date and start time of a slot. Dates are YYYY-MM-DD and
+ * times HH:MM; a slot must match every part that is set. Slots whose date or
+ * time could not be read are kept.
+ */
+export interface AppointmentDateFilter {
+  dateRanges?: DateRange[] | undefined; // Keep slots within any of these ranges
+  excludeDates?: string[] | undefined;
+  weekdays?: Weekday[] | undefined; // Weekday of the exam date
+  timeWindows?: TimeWindow[] | undefined; // Keep slots starting within any of these windows
+}
+
+/**
+ * Inclusive date range; a missing end leaves the range open on that side
+ */
+export interface DateRange {
+  from?: string | undefined;
+  to?: string | undefined;
+}
+
+/**
+ * Time-of-day window [start, end); start defaults to 00:00 and end to 24:00
+ */
+export interface TimeWindow {
+  start?: string | undefined;
+  end?: string | undefined;
 }
 
 /**
@@ -60,12 +121,92 @@ export interface MonitorConfig {
   examModel: string[];
   months: number[];
   checkInterval: number;
+  adaptiveInterval?: AdaptiveIntervalSettings; // Check more often when slots usually appear
+  schedule?: MonitorSchedule; // Intervals and quiet hours by weekday and time of day
   notificationSettings: NotificationSettings;
-  baseUrl?: string; // Optional base URL for testing (defaults to irsafam.org)
+  provider?: string; // Appointment provider id (defaults to 'irsafam')
+  baseUrl?: string; // Optional base URL for testing (defaults to the provider's timetable)
+  monthCalendar?: MonthCalendar; // Calendar of the months list (defaults to 'gregorian')
+  scraperBackend?: ScraperBackend; // Defaults to 'puppeteer'
+  scrapeConcurrency?: ScrapeConcurrencyConfig;
+  proxy?: ProxyConfig;
+  attributeFilters?: AppointmentAttributeFilter; // Module, format, UKVI, seat and fee filters
+  dateFilters?: AppointmentDateFilter; // Exam date range, excluded dates, weekday and time-of-day filters
+  profiles?: WatchProfile[]; // Further candidates watched with the same scrape
+  review?: ReviewSettings; // Low-confidence detection review queue
+  browserRecycling?: BrowserRecyclingSettings; // Puppeteer backend only
+  resourcePolicy?: ResourcePolicySettings; // Puppeteer backend only
+  evidence?: EvidenceSettings; // Evidence archive for anomalous checks
   security?: SecurityConfig;
   server?: ServerConfig;
 }
 
+/**
+ * A named watch profile: the filters and notification channels of one candidate.
+ * Profiles share the scrape of each check and keep their own tracking and
+ * notification history, so a slot is notified once per profile.
+ */
+export interface WatchProfile {
+  name: string; // Letters, digits, - and _; also names the profile's data directory
+  city: string[];
+  examModel: string[];
+  months: number[]; // In the monthCalendar of the configuration
+  attributeFilters?: AppointmentAttributeFilter;
+  dateFilters?: AppointmentDateFilter;
+  notificationSettings?: Partial<NotificationSettings>; // Overrides the top-level channels
+  telegramChatId?: string; // Chat or channel that gets this profile's Telegram messages
+  enabled?: boolean; // Defaults to true
+}
+
+/**
+ * Per-profile outcome of a check, as shown by status output
+ */
+export interface WatchProfileStatus {
+  name: string;
+  matchingAppointments: number; // Slots of the last check that match the profile's filters
+  availableAppointments: number;
+  trackedAppointments: number;
+  notificationsSent: number;
+  heldNotifications: number; // Held until quiet hours end
+}
+
+/**
+ * Calendar used to interpret configured month numbers:
+ * 'gregorian' (1 = January) or 'jalali' (Solar Hijri, 1 = Farvardin)
+ */
+export type MonthCalendar = 'gregorian' | 'jalali';
+
+/**
+ * Scraper backend used to load timetable pages:
+ * 'puppeteer' renders pages in headless Chromium, 'http' fetches them with a plain
+ * HTTP client and parses them server-side (lower memory, no client-side rendering)
+ */
+export type ScraperBackend = 'puppeteer' | 'http';
+
+/**
+ * Concurrency limits for checks that span several request URLs
+ */
+export interface ScrapeConcurrencyConfig {
+  maxPages?: number; // Requests (browser pages) in flight at once, defaults to 3
+  maxPerHost?: number; // Requests in flight against the same host, defaults to 2
+  hostIntervalMs?: number; // Minimum spacing between requests to the same host, defaults to 1000
+}
+
+/**
+ * Egress proxies for scraper requests
+ */
+export interface ProxyConfig {
+  proxies: string[]; // http://, https://, socks4:// or socks5:// URLs, optionally with user:password@
+  rotation?: ProxyRotation; // Defaults to 'per-check'
+  maxConsecutiveFailures?: number; // Failures in a row before a proxy is evicted, defaults to 3
+  evictionMs?: number; // How long an evicted proxy is skipped, defaults to 30 minutes
+}
+
+/**
+ * When the scraper switches proxies: once per check, or for every request URL
+ */
+export type ProxyRotation = 'per-check' | 'per-url';
+
 /**
  * Notification settings
  */
@@ -105,6 +246,7 @@ export interface TelegramConfig {
   retryAttempts?: number;
   retryDelay?: number;
   isChannel?: boolean; // Indicates if chatId is a channel
+  adminChatId?: string | undefined; // Chat for operational alerts (defaults to chatId)
 }
 
 /**
@@ -118,6 +260,13 @@ export interface EnvironmentConfig {
   monitorExamModels?: string[] | undefined;
   monitorMonths?: number[] | undefined;
   monitorBaseUrl?: string | undefined;
+  monitorProvider?: string | undefined;
+  monitorScraperBackend?: string | undefined;
+  monitorMonthCalendar?: string | undefined;
+  monitorScrapeConcurrency?: number | undefined;
+  monitorProxies?: string[] | undefined;
+  monitorProxyRotation?: string | undefined;
+  monitorDateFilter?: string | undefined;
   logLevel?: string | undefined;
   enableSecureLogging?: boolean | undefined;
   maskSensitiveData?: boolean | undefined;
@@ -146,13 +295,302 @@ export interface ValidationResult {
  * Enhanced check result with detailed appointment status information
  */
 export interface CheckResult {
-  type: 'available' | 'filled' | 'no-slots';
+  type: CheckResultType;
   appointmentCount: number;
   availableCount: number;
   filledCount: number;
   timestamp: Date;
   url: string;
+  providerId?: string; // Appointment provider that was checked
   appointments: Appointment[];
+  urlResults?: UrlCheckResult[]; // Per-request breakdown when a check spans several URLs
+  layoutObservations?: LayoutObservation[]; // Page layout signals, one per parsed page
+  pageIssues?: PageIssue[]; // Pages that were blocked, under maintenance or errors instead of a timetable
+  extractionPath?: ExtractionPath | undefined; // How appointments were read from a single page
+  politeness?: PolitenessRate | undefined; // Request pace after server slow-down signals
+  lowConfidenceSlots?: LowConfidenceSlot[]; // Slots whose status detection fell below the review threshold
+  unchanged?: boolean; // The timetable matched the last check, so the previous result was reused without parsing
+  staleMonths?: StaleMonth[]; // Requests that were skipped or failed; their appointments are from an earlier check
+}
+
+/**
+ * State of a per-URL circuit breaker: closed (requests flow), open (URL skipped)
+ * or half-open (one trial request decides)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker state of one request URL, as shown by status output
+ */
+export interface CircuitBreakerStatus {
+  url: string;
+  label: string; // e.g. 'October'
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAt: Date | null; // When an open circuit lets a trial request through
+  lastError: string | null;
+  lastSuccessAt: Date | null;
+}
+
+/**
+ * A month whose page could not be read in this check
+ */
+export interface StaleMonth {
+  url: string;
+  label: string;
+  reason: string; // Why the page was not read, e.g. 'circuit open until 10:35:00'
+  circuitState: CircuitState;
+  lastSuccessAt: Date | null; // When the appointments reported for it were read
+}
+
+/**
+ * Why the scraper replaced its browser
+ */
+export type BrowserRestartReason = 'page-limit' | 'memory' | 'disconnected' | 'unresponsive';
+
+/**
+ * Restart counters and usage of the scraper's browser, as shown by status output
+ */
+export interface BrowserMetrics {
+  running: boolean;
+  launches: number;
+  restarts: number;
+  restartReasons: Record<BrowserRestartReason, number>;
+  pagesOpened: number; // By the current browser
+  totalPagesOpened: number;
+  pageCrashes: number;
+  memoryMb: number | null; // Last measured resident memory of the browser processes
+  startedAt: Date | null; // When the current browser was launched
+  lastRestartAt: Date | null;
+  lastRestartReason: BrowserRestartReason | null;
+}
+
+/**
+ * A slot whose status could not be detected with enough confidence. These go to
+ * the review queue so an operator can label them.
+ */
+export interface LowConfidenceSlot {
+  appointment: Appointment;
+  url: string;
+  confidence: number;
+  fallbackUsed: boolean; // No detection rule matched; status came from the conservative fallback
+  indicators: string[]; // "type:value" pairs that led to the status
+  reasoning: string;
+  ruleId?: string | undefined;
+  rawHtml: string;
+}
+
+/**
+ * Settings for queueing low-confidence detections for review
+ */
+export interface ReviewSettings {
+  confidenceThreshold?: number; // Detections below this confidence are queued (default 0.5)
+  maxEntries?: number; // Oldest entries are dropped beyond this (default 200)
+}
+
+/**
+ * When a browser page counts as loaded: 'content' once appointments or the
+ * empty-state marker appear, 'network-idle' once the network has gone quiet
+ */
+export type PageReadiness = 'content' | 'network-idle';
+
+/**
+ * What browser pages load and when they are parsed
+ */
+export interface ResourcePolicySettings {
+  blockResourceTypes?: string[]; // Puppeteer resource types, default ['image', 'media', 'font']
+  blockThirdParty?: boolean; // Block hosts other than the timetable's site (default true)
+  allowHosts?: string[]; // Third-party hosts that are still loaded
+  readiness?: PageReadiness; // Defaults to 'content'
+  readinessTimeoutMs?: number; // Default 10000
+}
+
+/**
+ * Settings for saving screenshots, DOM and network logs of anomalous checks
+ */
+export interface EvidenceSettings {
+  enabled?: boolean; // Defaults to false
+  maxEntries?: number; // Oldest evidence is deleted beyond this (default 20)
+  maxSizeMb?: number; // Oldest evidence is deleted beyond this total size (default 100)
+}
+
+/**
+ * Settings for adapting the check interval to the times new slots usually appear
+ */
+export interface AdaptiveIntervalSettings {
+  enabled?: boolean; // Defaults to false (checkInterval is used as is)
+  minIntervalMs?: number; // Interval while slots usually appear (default 30000)
+  maxIntervalMs?: number; // Interval while slots never appear (default 15 minutes)
+  lookbackDays?: number; // Days of first-seen times to learn from (default 30)
+}
+
+/**
+ * How the interval before the next check was chosen: the configured interval,
+ * or an adaptive one while learning, in a busy, normal or quiet window
+ */
+export type CheckScheduleMode = 'fixed' | 'learning' | 'busy' | 'normal' | 'quiet' | 'scheduled' | 'paused';
+
+/**
+ * When the next check runs and why
+ */
+export interface CheckSchedule {
+  nextCheckAt: Date;
+  delayMs: number;
+  mode: CheckScheduleMode;
+  reason: string;
+  rule: string | null; // Name of the schedule rule in effect, if any
+}
+
+/**
+ * Day of the week in schedule windows
+ */
+export type Weekday = 'sat' | 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri';
+
+/**
+ * Calendar-style monitoring schedule. Rules and quiet hours are matched
+ * against the local time in timeZone; the first matching rule wins and
+ * checkInterval applies outside all rules.
+ */
+export interface MonitorSchedule {
+  timeZone?: string; // Defaults to 'Asia/Tehran'
+  rules?: ScheduleRule[];
+  quietHours?: QuietHoursRule[];
+}
+
+/**
+ * A recurring window of time: either a five-field cron expression, which covers
+ * every minute it matches, or weekdays with a daily start and end time
+ */
+export interface ScheduleWindow {
+  name?: string;
+  cron?: string; // e.g. "* 9-13 * * sat-wed"
+  days?: Weekday[]; // All days when omitted
+  start?: string; // "HH:MM", defaults to "00:00"
+  end?: string; // "HH:MM" (exclusive), defaults to "24:00"; before start wraps past midnight
+}
+
+/**
+ * Check interval inside a schedule window, or no checks at all
+ */
+export interface ScheduleRule extends ScheduleWindow {
+  checkInterval?: number; // Milliseconds
+  pause?: boolean; // No checks while the window is active
+}
+
+/**
+ * What happens to notifications during quiet hours: 'hold' delivers them when
+ * quiet hours end (if the slots are still available), 'downgrade' delivers them
+ * right away without desktop and audio alerts
+ */
+export type QuietHoursMode = 'hold' | 'downgrade';
+
+export interface QuietHoursRule extends ScheduleWindow {
+  notifications?: QuietHoursMode; // Defaults to 'hold'
+}
+
+/**
+ * Quiet hours in effect, for status output
+ */
+export interface QuietHoursStatus {
+  name: string;
+  notifications: QuietHoursMode;
+  until: Date | null; // Null when they do not end within a week
+  heldNotifications: number; // Appointments waiting for quiet hours to end
+}
+
+/**
+ * When the scraper replaces its long-lived browser
+ */
+export interface BrowserRecyclingSettings {
+  maxPagesPerBrowser?: number; // Pages opened by one browser before it is replaced (default 500, 0 disables)
+  maxMemoryMb?: number; // Resident memory of the browser processes before it is replaced (default 1024, 0 disables)
+}
+
+/**
+ * Effective request pace after HTTP 429/503 and Retry-After signals from the site
+ */
+export interface PolitenessRate {
+  level: number; // 0 is the configured pace; each level halves it
+  slowdownFactor: number; // Multiplier applied to request spacing and the check interval
+  requestSpacingMs: number;
+  requestsPerMinute: number;
+  pausedUntil: Date | null; // Set while honouring a Retry-After or backoff pause
+  lastSignal: string | null; // Last slow-down signal, e.g. "HTTP 429 (Retry-After 120s)"
+}
+
+/**
+ * How appointments were read from a page: from a JSON payload the page loaded
+ * over XHR/fetch, or by parsing the rendered DOM
+ */
+export type ExtractionPath = 'network-json' | 'dom';
+
+/**
+ * Outcome of a check. 'blocked', 'maintenance' and 'error' mean the site did not
+ * show a timetable, so the absence of appointments says nothing about availability.
+ */
+export type CheckResultType = 'available' | 'filled' | 'no-slots' | PageIssueKind;
+
+/**
+ * Kind of page served instead of the timetable
+ */
+export type PageIssueKind = 'blocked' | 'maintenance' | 'error';
+
+/**
+ * Evidence for a page that was classified as blocked, maintenance or error
+ */
+export interface PageIssue {
+  kind: PageIssueKind;
+  url: string;
+  reason: string; // Short explanation, e.g. 'HTTP 403 response'
+  httpStatus: number | null;
+  indicators: string[]; // Text patterns that matched, e.g. 'cloudflare-challenge'
+  pageTitle: string;
+  textSample: string; // Start of the visible page text
+}
+
+/**
+ * Layout signals recorded for one parsed page, used to detect site redesigns
+ */
+export interface LayoutObservation {
+  url: string;
+  matchedSelector: string | null; // First selector that found appointment elements
+  matchedStrategy: string | null; // Strategy of the matched selector (e.g. 'IELTS-specific')
+  elementCount: number;
+  confidenceScores: number[]; // Status decision confidence per element
+  emptyState?: boolean; // The page showed the site's "no appointments" message
+}
+
+/**
+ * Operational alert for the monitor's administrator (not an appointment notification)
+ */
+export interface AdminAlert {
+  kind: 'layout-drift' | 'layout-recovered';
+  title: string;
+  message: string;
+  details: string[];
+  timestamp: Date;
+}
+
+/**
+ * Outcome of one request URL within a combined check
+ */
+export interface UrlCheckResult {
+  url: string;
+  label: string;
+  success: boolean;
+  appointmentCount: number;
+  availableCount: number;
+  filledCount: number;
+  attempts: number;
+  durationMs: number;
+  error?: string | undefined;
+  pageIssue?: PageIssueKind | undefined; // Set when the site served a blocked, maintenance or error page
+  extractionPath?: ExtractionPath | undefined;
+  unchanged?: boolean | undefined; // Page content matched the last check and was not parsed again
+  stale?: boolean | undefined; // The page was not read; appointments, if any, are from an earlier check
+  circuitState?: CircuitState | undefined;
+  proxy?: string | undefined; // Proxy the request went through (without credentials)
 }
 
 /**
@@ -170,12 +608,58 @@ export interface StatusDetectionResult {
  * Status indicator found during detection
  */
 export interface StatusIndicator {
-  type: 'css-class' | 'text-content' | 'interactive-element' | 'contextual';
+  type: 'css-class' | 'button-class' | 'text-content' | 'interactive-element' | 'contextual';
   value: string;
   weight: number; // Importance weight
   source: 'element' | 'sibling' | 'parent';
 }
 
+/**
+ * Conditions of a status detection rule; the rule matches when any condition matches
+ */
+export interface DetectionRuleMatch {
+  text?: string[]; // Substrings of the element text (case-sensitive)
+  textIgnoreCase?: string[]; // Substrings of the lowercased element text
+  html?: string[]; // Substrings of the element inner HTML
+  classes?: string[]; // Exact CSS classes on the element
+  classContains?: string[]; // Substrings of the element's joined class names
+  selectors?: string[]; // Selectors matching a descendant of the element
+  attributes?: string[]; // Attributes present on the element
+}
+
+/**
+ * A single declarative status detection rule
+ */
+export interface StatusDetectionRule {
+  id: string;
+  description: string;
+  status: 'available' | 'filled' | 'pending' | 'not-registerable';
+  priority: number; // Lower values are evaluated first
+  weight: number; // Confidence (0-1) assigned when the rule matches
+  indicatorType: StatusIndicator['type'];
+  match: DetectionRuleMatch;
+}
+
+/**
+ * Versioned set of status detection rules evaluated in the page
+ */
+export interface DetectionRuleSet {
+  version: string;
+  description?: string;
+  rules: StatusDetectionRule[];
+  // Appointment-like content that matches no rule is reported as unknown with this weight
+  contextual: {
+    patterns: string[]; // Regular expression sources tested against the element text
+    keywords: string[]; // Case-insensitive keywords
+    weight: number;
+  };
+  // Page-level texts meaning the timetable has no exams at all
+  noSlotsIndicators: {
+    text: string[];
+    textIgnoreCase: string[];
+  };
+}
+
 /**
  * Detection strategy result
  */
@@ -210,6 +694,17 @@ export interface InspectionData {
   parsingNotes: string;
   rawAppointmentHtml: string[];
   checkResult: CheckResult;
+  evidence?: EvidenceReference; // Screenshot, DOM and network log saved for an anomalous check
+}
+
+/**
+ * Artifacts saved to the evidence archive for one anomalous page load
+ */
+export interface EvidenceReference {
+  id: string;
+  reason: string; // e.g. 'blocked page' or 'all 12 slot(s) vanished'
+  directory: string;
+  files: string[]; // Paths of the screenshot, final DOM and HAR network log that could be captured
 }
 
 /**
@@ -225,8 +720,16 @@ export interface EnhancedInspectionData extends InspectionData {
     reasoning: string;
     confidenceScore: number;
     rawHtml: string;
+    ruleId?: string; // Detection rule that decided the status
   }[];
   
+  // Version of the detection rule set used for this check
+  ruleSetVersion?: string;
+
+  // Whether appointments came from a captured JSON payload or the DOM, and which responses were used
+  extractionPath?: ExtractionPath;
+  networkPayloadUrls?: string[];
+  
   // Selector analysis
   selectorResults: {
     selector: string;
@@ -256,5 +759,23 @@ export interface EnhancedInspectionData extends InspectionData {
     elementDetectionTime: number;
     statusDetectionTime: number;
     parsingTime: number;
+    pageLoad?: PageLoadMetrics; // Loading phases before detection ran
   };
+}
+
+/**
+ * What made a browser page count as ready to parse
+ */
+export type PageReadySignal = 'appointments' | 'empty-state' | 'timeout' | 'network-idle';
+
+/**
+ * Time spent loading a page before detection, in milliseconds, and the
+ * requests the resource policy let through or blocked
+ */
+export interface PageLoadMetrics {
+  navigationTime: number; // Request until the navigation returned (or the HTTP response arrived)
+  readinessTime: number; // Waiting for appointments or the empty-state marker
+  readySignal?: PageReadySignal;
+  requestsAllowed?: number;
+  requestsBlocked?: number;
 }
\ No newline at end of file
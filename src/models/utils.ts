@@ -2,7 +2,9 @@
  * Utility functions for appointment data manipulation
  */
 
-import { Appointment, AppointmentComparison } from './types';
+import { Appointment, AppointmentAttributeFilter, AppointmentComparison, AppointmentDateFilter } from './types';
+import { matchesAttributeFilter } from './attributes';
+import { matchesDateFilter } from './dateFilters';
 
 /**
  * Generates a unique ID string
@@ -18,10 +20,16 @@ export function generateAppointmentId(appointment: Omit<Appointment, 'id'>): str
   const { date, time, location, examType, city } = appointment;
   const baseString = `${date}-${time}-${location}-${examType}-${city}`;
   
-  // Create a simple hash from the base string
+  return hashString(baseString);
+}
+
+/**
+ * Creates a simple 32-bit hash of a string, returned as a positive hex string
+ */
+export function hashString(value: string): string {
   let hash = 0;
-  for (let i = 0; i < baseString.length; i++) {
-    const char = baseString.charCodeAt(i);
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash; // Convert to 32-bit integer
   }
@@ -76,6 +84,8 @@ export function filterAppointments(
     examTypes?: string[];
     months?: number[];
     status?: string[];
+    attributes?: AppointmentAttributeFilter;
+    dates?: AppointmentDateFilter;
   }
 ): Appointment[] {
   return appointments.filter(appointment => {
@@ -112,6 +122,16 @@ export function filterAppointments(
       }
     }
 
+    // Filter by module, test format, UKVI, seats and fee
+    if (!matchesAttributeFilter(appointment, criteria.attributes)) {
+      return false;
+    }
+
+    // Filter by date range, excluded dates, weekday and time of day
+    if (!matchesDateFilter(appointment, criteria.dates)) {
+      return false;
+    }
+
     return true;
   });
 }
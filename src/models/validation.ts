@@ -2,7 +2,10 @@
  * Data validation functions for IELTS Appointment Monitor
  */
 
-import type { ValidationResult } from './types';
+import type { NotificationSettings, ValidationResult } from './types';
+import { WEEKDAYS, parseCronExpression, parseTimeOfDay } from './schedule';
+import { isIsoDate } from './dateFilters';
+import { PROFILE_CHANNELS, PROFILE_NAME_PATTERN } from './profiles';
 
 /**
  * Validates an appointment object
@@ -48,6 +51,26 @@ export function validateAppointment(appointment: any): ValidationResult {
     errors.push('Appointment price must be a positive number');
   }
 
+  if (appointment.priceCurrency !== undefined && !['IRR', 'IRT'].includes(appointment.priceCurrency)) {
+    errors.push('Appointment priceCurrency must be one of: IRR, IRT');
+  }
+
+  if (appointment.module !== undefined && !['academic', 'general-training'].includes(appointment.module)) {
+    errors.push('Appointment module must be one of: academic, general-training');
+  }
+
+  if (appointment.testFormat !== undefined && !['computer', 'paper'].includes(appointment.testFormat)) {
+    errors.push('Appointment testFormat must be one of: computer, paper');
+  }
+
+  if (appointment.ukvi !== undefined && typeof appointment.ukvi !== 'boolean') {
+    errors.push('Appointment ukvi must be a boolean');
+  }
+
+  if (appointment.seatsLeft !== undefined && (!Number.isInteger(appointment.seatsLeft) || appointment.seatsLeft < 0)) {
+    errors.push('Appointment seatsLeft must be a non-negative integer');
+  }
+
   if (appointment.registrationUrl !== undefined && typeof appointment.registrationUrl !== 'string') {
     errors.push('Appointment registrationUrl must be a string');
   }
@@ -107,6 +130,287 @@ export function validateMonitorConfig(config: any): ValidationResult {
   };
 }
 
+/**
+ * Validates attribute filters (module, test format, UKVI, seats and fee)
+ */
+export function validateAttributeFilter(filter: any): ValidationResult {
+  const errors: string[] = [];
+
+  if (filter === undefined) {
+    return { isValid: true, errors };
+  }
+
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return { isValid: false, errors: ['attributeFilters must be a valid object'] };
+  }
+
+  if (filter.modules !== undefined && (!Array.isArray(filter.modules) || !filter.modules.every((module: any) => ['academic', 'general-training'].includes(module)))) {
+    errors.push('attributeFilters.modules must be an array of: academic, general-training');
+  }
+
+  if (filter.testFormats !== undefined && (!Array.isArray(filter.testFormats) || !filter.testFormats.every((format: any) => ['computer', 'paper'].includes(format)))) {
+    errors.push('attributeFilters.testFormats must be an array of: computer, paper');
+  }
+
+  if (filter.ukvi !== undefined && typeof filter.ukvi !== 'boolean') {
+    errors.push('attributeFilters.ukvi must be a boolean');
+  }
+
+  if (filter.minSeats !== undefined && (!Number.isInteger(filter.minSeats) || filter.minSeats < 1)) {
+    errors.push('attributeFilters.minSeats must be a positive integer');
+  }
+
+  if (filter.maxFee !== undefined && (typeof filter.maxFee !== 'number' || filter.maxFee <= 0)) {
+    errors.push('attributeFilters.maxFee must be a positive number (Toman)');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates date filters (date ranges, excluded dates, weekdays and time windows)
+ */
+export function validateDateFilter(filter: any): ValidationResult {
+  const errors: string[] = [];
+
+  if (filter === undefined) {
+    return { isValid: true, errors };
+  }
+
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return { isValid: false, errors: ['dateFilters must be a valid object'] };
+  }
+
+  if (filter.dateRanges !== undefined) {
+    if (!Array.isArray(filter.dateRanges)) {
+      errors.push('dateFilters.dateRanges must be an array');
+    } else {
+      filter.dateRanges.forEach((range: any, index: number) => {
+        const label = `dateFilters.dateRanges[${index}]`;
+        if (!range || typeof range !== 'object' || (range.from === undefined && range.to === undefined)) {
+          errors.push(`${label} must be an object with from and/or to`);
+          return;
+        }
+        (['from', 'to'] as const).forEach(field => {
+          if (range[field] !== undefined && !isIsoDate(range[field])) {
+            errors.push(`${label}.${field} must be a date in YYYY-MM-DD format`);
+          }
+        });
+        if (isIsoDate(range.from) && isIsoDate(range.to) && range.from > range.to) {
+          errors.push(`${label}.from must not be after to`);
+        }
+      });
+    }
+  }
+
+  if (filter.excludeDates !== undefined && (!Array.isArray(filter.excludeDates) || !filter.excludeDates.every(isIsoDate))) {
+    errors.push('dateFilters.excludeDates must be an array of dates in YYYY-MM-DD format');
+  }
+
+  if (filter.weekdays !== undefined && (!Array.isArray(filter.weekdays) || !filter.weekdays.every((day: any) => WEEKDAYS.includes(day)))) {
+    errors.push(`dateFilters.weekdays must be an array of: ${WEEKDAYS.join(', ')}`);
+  }
+
+  if (filter.timeWindows !== undefined) {
+    if (!Array.isArray(filter.timeWindows)) {
+      errors.push('dateFilters.timeWindows must be an array');
+    } else {
+      filter.timeWindows.forEach((window: any, index: number) => {
+        const label = `dateFilters.timeWindows[${index}]`;
+        if (!window || typeof window !== 'object') {
+          errors.push(`${label} must be an object with start and/or end`);
+          return;
+        }
+        (['start', 'end'] as const).forEach(field => {
+          if (window[field] !== undefined && (typeof window[field] !== 'string' || isNaN(parseTimeOfDay(window[field])))) {
+            errors.push(`${label}.${field} must be a time in HH:MM format`);
+          }
+        });
+        if (typeof window.start === 'string' && typeof window.end === 'string' && parseTimeOfDay(window.start) === parseTimeOfDay(window.end)) {
+          errors.push(`${label} must not start and end at the same time`);
+        }
+      });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates watch profiles (names, filters and notification channels)
+ */
+export function validateWatchProfiles(profiles: any): ValidationResult {
+  const errors: string[] = [];
+
+  if (profiles === undefined) {
+    return { isValid: true, errors };
+  }
+
+  if (!Array.isArray(profiles)) {
+    return { isValid: false, errors: ['profiles must be an array'] };
+  }
+
+  const names = new Set<string>();
+  profiles.forEach((profile: any, index: number) => {
+    const label = `profiles[${index}]`;
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof profile.name !== 'string' || !PROFILE_NAME_PATTERN.test(profile.name)) {
+      errors.push(`${label}.name must be 1-40 letters, digits, - or _`);
+    } else if (names.has(profile.name.toLowerCase())) {
+      errors.push(`${label}.name "${profile.name}" is used by another profile`);
+    } else {
+      names.add(profile.name.toLowerCase());
+    }
+
+    (['city', 'examModel'] as const).forEach(field => {
+      if (!Array.isArray(profile[field]) || profile[field].length === 0 || !profile[field].every((value: any) => typeof value === 'string' && value.trim() !== '')) {
+        errors.push(`${label}.${field} must be a non-empty array of strings`);
+      }
+    });
+    if (!Array.isArray(profile.months) || profile.months.length === 0 || !profile.months.every((month: any) => Number.isInteger(month) && month >= 1 && month <= 12)) {
+      errors.push(`${label}.months must be a non-empty array of months (1-12)`);
+    }
+
+    errors.push(...validateAttributeFilter(profile.attributeFilters).errors.map(error => `${label}.${error}`));
+    errors.push(...validateDateFilter(profile.dateFilters).errors.map(error => `${label}.${error}`));
+
+    if (profile.notificationSettings !== undefined) {
+      const settings = profile.notificationSettings;
+      if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        errors.push(`${label}.notificationSettings must be an object`);
+      } else {
+        Object.keys(settings).forEach(channel => {
+          if (!PROFILE_CHANNELS.includes(channel as keyof NotificationSettings) || typeof settings[channel] !== 'boolean') {
+            errors.push(`${label}.notificationSettings.${channel} must be one of desktop, audio, logFile or telegram set to a boolean`);
+          }
+        });
+      }
+    }
+
+    if (profile.telegramChatId !== undefined && (typeof profile.telegramChatId !== 'string' || profile.telegramChatId.trim() === '')) {
+      errors.push(`${label}.telegramChatId must be a non-empty string`);
+    }
+
+    if (profile.enabled !== undefined && typeof profile.enabled !== 'boolean') {
+      errors.push(`${label}.enabled must be a boolean`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates the monitoring schedule (rules with their own check interval, and quiet hours)
+ */
+export function validateMonitorSchedule(schedule: any): ValidationResult {
+  const errors: string[] = [];
+
+  if (schedule === undefined) {
+    return { isValid: true, errors };
+  }
+
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    return { isValid: false, errors: ['schedule must be a valid object'] };
+  }
+
+  if (schedule.timeZone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timeZone });
+    } catch {
+      errors.push('schedule.timeZone must be an IANA time zone such as "Asia/Tehran"');
+    }
+  }
+
+  (['rules', 'quietHours'] as const).forEach(field => {
+    const windows = schedule[field];
+    if (windows === undefined) {
+      return;
+    }
+    if (!Array.isArray(windows)) {
+      errors.push(`schedule.${field} must be an array`);
+      return;
+    }
+
+    windows.forEach((window: any, index: number) => {
+      const label = `schedule.${field}[${index}]`;
+      if (!window || typeof window !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      errors.push(...validateScheduleWindow(window, label));
+
+      if (field === 'rules') {
+        if (window.pause !== undefined && typeof window.pause !== 'boolean') {
+          errors.push(`${label}.pause must be a boolean`);
+        }
+        if (window.checkInterval !== undefined && (!Number.isInteger(window.checkInterval) || window.checkInterval < 5000 || window.checkInterval > 3600000)) {
+          errors.push(`${label}.checkInterval must be an integer between 5000 and 3600000`);
+        }
+        if (window.checkInterval === undefined && window.pause !== true) {
+          errors.push(`${label} needs a checkInterval or pause: true`);
+        }
+      } else if (window.notifications !== undefined && !['hold', 'downgrade'].includes(window.notifications)) {
+        errors.push(`${label}.notifications must be "hold" or "downgrade"`);
+      }
+    });
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates the cron expression or weekday/time range of a schedule window
+ */
+function validateScheduleWindow(window: any, label: string): string[] {
+  const errors: string[] = [];
+
+  if (window.name !== undefined && typeof window.name !== 'string') {
+    errors.push(`${label}.name must be a string`);
+  }
+
+  if (window.cron !== undefined) {
+    if (window.days !== undefined || window.start !== undefined || window.end !== undefined) {
+      errors.push(`${label} must use either cron or days/start/end, not both`);
+    }
+    try {
+      parseCronExpression(String(window.cron));
+    } catch (error) {
+      errors.push(`${label}.cron: ${error instanceof Error ? error.message : 'invalid expression'}`);
+    }
+    return errors;
+  }
+
+  if (window.days !== undefined && (!Array.isArray(window.days) || !window.days.every((day: any) => WEEKDAYS.includes(day)))) {
+    errors.push(`${label}.days must be an array of: ${WEEKDAYS.join(', ')}`);
+  }
+  (['start', 'end'] as const).forEach(field => {
+    if (window[field] !== undefined && (typeof window[field] !== 'string' || isNaN(parseTimeOfDay(window[field])))) {
+      errors.push(`${label}.${field} must be a time in HH:MM format`);
+    }
+  });
+  if (window.start !== undefined && window.start === window.end) {
+    errors.push(`${label}.start and end must differ`);
+  }
+
+  return errors;
+}
+
 /**
  * Validates array of appointments
  */
@@ -135,6 +439,122 @@ export function validateAppointments(appointments: any[]): ValidationResult {
   };
 }
 
+/**
+ * Validates a status detection rule set
+ */
+export function validateDetectionRuleSet(ruleSet: any): ValidationResult {
+  const errors: string[] = [];
+
+  if (!ruleSet || typeof ruleSet !== 'object') {
+    return { isValid: false, errors: ['Detection rule set must be an object'] };
+  }
+
+  if (!ruleSet.version || typeof ruleSet.version !== 'string') {
+    errors.push('Detection rule set version is required and must be a string');
+  }
+
+  if (!Array.isArray(ruleSet.rules) || ruleSet.rules.length === 0) {
+    errors.push('Detection rule set must contain a non-empty rules array');
+  } else {
+    const ruleIds = new Set<string>();
+
+    ruleSet.rules.forEach((rule: any, index: number) => {
+      const label = rule && typeof rule.id === 'string' ? `Rule "${rule.id}"` : `Rule ${index}`;
+
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+
+      if (!rule.id || typeof rule.id !== 'string') {
+        errors.push(`${label}: id is required and must be a string`);
+      } else if (ruleIds.has(rule.id)) {
+        errors.push(`${label}: id must be unique`);
+      } else {
+        ruleIds.add(rule.id);
+      }
+
+      if (!['available', 'filled', 'pending', 'not-registerable'].includes(rule.status)) {
+        errors.push(`${label}: status must be one of: available, filled, pending, not-registerable`);
+      }
+
+      if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) {
+        errors.push(`${label}: priority must be a number`);
+      }
+
+      if (typeof rule.weight !== 'number' || rule.weight < 0 || rule.weight > 1) {
+        errors.push(`${label}: weight must be a number between 0 and 1`);
+      }
+
+      if (!['css-class', 'button-class', 'text-content', 'interactive-element'].includes(rule.indicatorType)) {
+        errors.push(`${label}: indicatorType must be one of: css-class, button-class, text-content, interactive-element`);
+      }
+
+      if (!rule.match || typeof rule.match !== 'object') {
+        errors.push(`${label}: match must be an object`);
+      } else {
+        const conditionKeys = ['text', 'textIgnoreCase', 'html', 'classes', 'classContains', 'selectors', 'attributes'];
+        const unknownKeys = Object.keys(rule.match).filter(key => !conditionKeys.includes(key));
+        if (unknownKeys.length > 0) {
+          errors.push(`${label}: unknown match conditions: ${unknownKeys.join(', ')}`);
+        }
+
+        const conditions = conditionKeys.filter(key => rule.match[key] !== undefined);
+        if (conditions.length === 0) {
+          errors.push(`${label}: match must define at least one condition`);
+        }
+
+        conditions.forEach(key => {
+          const values = rule.match[key];
+          if (!Array.isArray(values) || values.length === 0 || !values.every((v: any) => typeof v === 'string' && v.length > 0)) {
+            errors.push(`${label}: match.${key} must be a non-empty array of non-empty strings`);
+          }
+        });
+      }
+    });
+  }
+
+  if (!ruleSet.contextual || typeof ruleSet.contextual !== 'object') {
+    errors.push('Detection rule set contextual section must be an object');
+  } else {
+    const { patterns, keywords, weight } = ruleSet.contextual;
+    if (!Array.isArray(patterns) || !patterns.every((p: any) => typeof p === 'string')) {
+      errors.push('contextual.patterns must be an array of strings');
+    } else {
+      patterns.forEach((pattern: string) => {
+        try {
+          new RegExp(pattern);
+        } catch {
+          errors.push(`contextual.patterns contains an invalid regular expression: ${pattern}`);
+        }
+      });
+    }
+    if (!Array.isArray(keywords) || !keywords.every((k: any) => typeof k === 'string')) {
+      errors.push('contextual.keywords must be an array of strings');
+    }
+    if (typeof weight !== 'number' || weight < 0 || weight > 1) {
+      errors.push('contextual.weight must be a number between 0 and 1');
+    }
+  }
+
+  if (!ruleSet.noSlotsIndicators || typeof ruleSet.noSlotsIndicators !== 'object') {
+    errors.push('Detection rule set noSlotsIndicators section must be an object');
+  } else {
+    const { text, textIgnoreCase } = ruleSet.noSlotsIndicators;
+    if (!Array.isArray(text) || !text.every((t: any) => typeof t === 'string')) {
+      errors.push('noSlotsIndicators.text must be an array of strings');
+    }
+    if (!Array.isArray(textIgnoreCase) || !textIgnoreCase.every((t: any) => typeof t === 'string')) {
+      errors.push('noSlotsIndicators.textIgnoreCase must be an array of strings');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * Checks if a date string is in valid ISO format (YYYY-MM-DD)
  */
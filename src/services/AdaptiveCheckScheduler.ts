@@ -0,0 +1,166 @@
+import { CheckScheduleMode } from '../models/types';
+import type { TrackedAppointment } from './AppointmentDetectionService';
+
+/**
+ * Configuration for learning the check interval from past slot releases
+ */
+export interface AdaptiveCheckSchedulerConfig {
+  baseIntervalMs: number; // Configured checkInterval, used outside busy and quiet windows
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  lookbackDays: number; // Older first-seen times are ignored
+  windowMinutes: number; // Size of the time-of-day windows releases are counted in
+  minReleases: number; // New slots needed before the interval adapts
+  busyFactor: number; // A window is busy with this many times the average releases
+  timeZone: string; // Time zone of the time-of-day windows
+  initialCheckToleranceMs: number; // Slots first seen this close to the first check were already listed before monitoring
+}
+
+/**
+ * Interval chosen for the next check and why
+ */
+export interface AdaptiveInterval {
+  intervalMs: number;
+  mode: Exclude<CheckScheduleMode, 'fixed' | 'scheduled' | 'paused'>;
+  reason: string;
+}
+
+/**
+ * Interval bounds used when adaptiveInterval leaves minIntervalMs or maxIntervalMs out
+ */
+export const DEFAULT_ADAPTIVE_MIN_INTERVAL_MS = 30 * 1000;
+export const DEFAULT_ADAPTIVE_MAX_INTERVAL_MS = 15 * 60 * 1000;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Chooses the check interval from the times of day new slots were first seen.
+ * Release times are counted in time-of-day windows over the last lookbackDays:
+ * windows with well above the average releases are checked at minIntervalMs,
+ * windows that never had a release at maxIntervalMs, and the rest at the
+ * configured interval. A long interval is cut short so the next check lands at
+ * the start of the next busy window.
+ */
+export class AdaptiveCheckScheduler {
+  private config: AdaptiveCheckSchedulerConfig;
+
+  constructor(config?: Partial<AdaptiveCheckSchedulerConfig>) {
+    this.config = {
+      baseIntervalMs: 5 * 60 * 1000,
+      minIntervalMs: DEFAULT_ADAPTIVE_MIN_INTERVAL_MS,
+      maxIntervalMs: DEFAULT_ADAPTIVE_MAX_INTERVAL_MS,
+      lookbackDays: 30,
+      windowMinutes: 30,
+      minReleases: 10,
+      busyFactor: 2,
+      timeZone: 'Asia/Tehran',
+      initialCheckToleranceMs: 60 * 1000,
+      ...config
+    };
+  }
+
+  /**
+   * Interval before the next check, given the tracking records
+   * (see AppointmentDetectionService.getStatusHistoryRecords)
+   */
+  planInterval(records: TrackedAppointment[], now: Date = new Date()): AdaptiveInterval {
+    const { minIntervalMs, maxIntervalMs, lookbackDays, windowMinutes, minReleases } = this.config;
+    const baseIntervalMs = this.clamp(this.config.baseIntervalMs);
+    const releases = this.getReleaseTimes(records, now);
+
+    if (releases.length < minReleases) {
+      return {
+        intervalMs: baseIntervalMs,
+        mode: 'learning',
+        reason: `learning release times (${releases.length} of ${minReleases} new slots seen in the last ${lookbackDays} days)`
+      };
+    }
+
+    const windowCount = MINUTES_PER_DAY / windowMinutes;
+    const counts = new Array<number>(windowCount).fill(0);
+    releases.forEach(release => counts[this.getWindowIndex(release)]!++);
+    const busyThreshold = Math.max(2, this.config.busyFactor * releases.length / windowCount);
+    const isBusy = (index: number) => counts[index]! >= busyThreshold;
+
+    const current = this.getWindowIndex(now);
+    const share = `${counts[current]} of ${releases.length} new slots in the last ${lookbackDays} days appeared between ${this.formatWindow(current)} (${this.config.timeZone})`;
+
+    if (isBusy(current)) {
+      return { intervalMs: minIntervalMs, mode: 'busy', reason: `busy window: ${share}` };
+    }
+
+    const quiet = counts[current] === 0;
+    const interval: AdaptiveInterval = quiet
+      ? { intervalMs: maxIntervalMs, mode: 'quiet', reason: `quiet window: ${share}` }
+      : { intervalMs: baseIntervalMs, mode: 'normal', reason: share };
+
+    // Wake up for the start of the next busy window rather than sleeping through it
+    for (let offset = 1; offset < windowCount; offset++) {
+      const next = (current + offset) % windowCount;
+      if (isBusy(next)) {
+        const untilBusyMs = this.getMsUntilWindow(now, next);
+        if (untilBusyMs < interval.intervalMs) {
+          interval.intervalMs = this.clamp(untilBusyMs);
+          interval.reason += `; checking again when the busy window at ${this.formatTimeOfDay(next * windowMinutes)} starts`;
+        }
+        break;
+      }
+    }
+
+    return interval;
+  }
+
+  /**
+   * First-seen times of slots that appeared while monitoring, within the lookback period
+   */
+  private getReleaseTimes(records: TrackedAppointment[], now: Date): Date[] {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const monitoringSince = Math.min(...records.map(record => record.firstSeen.getTime()));
+    const since = now.getTime() - this.config.lookbackDays * 24 * 60 * 60 * 1000;
+    // A relisted slot has one record per listing, each one a release
+    return records
+      .map(record => record.firstSeen)
+      .filter(firstSeen => firstSeen.getTime() - monitoringSince > this.config.initialCheckToleranceMs &&
+        firstSeen.getTime() >= since && firstSeen <= now);
+  }
+
+  private getWindowIndex(date: Date): number {
+    return Math.floor(this.getLocalMinutes(date) / this.config.windowMinutes);
+  }
+
+  private getMsUntilWindow(now: Date, index: number): number {
+    const minutesUntil = (index * this.config.windowMinutes - this.getLocalMinutes(now) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    return minutesUntil * 60 * 1000 - (now.getTime() % (60 * 1000));
+  }
+
+  /**
+   * Minutes since local midnight in the configured time zone
+   */
+  private getLocalMinutes(date: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.config.timeZone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value || 0);
+    return part('hour') * 60 + part('minute');
+  }
+
+  private formatWindow(index: number): string {
+    const start = index * this.config.windowMinutes;
+    return `${this.formatTimeOfDay(start)} and ${this.formatTimeOfDay(start + this.config.windowMinutes)}`;
+  }
+
+  private formatTimeOfDay(minutes: number): string {
+    const wrapped = minutes % MINUTES_PER_DAY;
+    return `${Math.floor(wrapped / 60).toString().padStart(2, '0')}:${(wrapped % 60).toString().padStart(2, '0')}`;
+  }
+
+  private clamp(intervalMs: number): number {
+    return Math.min(this.config.maxIntervalMs, Math.max(this.config.minIntervalMs, intervalMs));
+  }
+}
@@ -1,4 +1,11 @@
 import { Appointment, CheckResult } from '../models/types';
+import {
+  createStableAppointmentId,
+  DEFAULT_RECONCILIATION_THRESHOLD,
+  findMatchingAppointment,
+  isStableAppointmentId
+} from '../models/identity';
+import { formatDualCalendarDate } from '../models/jalali';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -12,6 +19,7 @@ export interface TrackedAppointment {
   lastSeen: Date;
   statusHistory: AppointmentStatusChange[];
   notificationsSent: number;
+  previousIds?: string[]; // IDs this appointment was known by before reconciliation or migration
 }
 
 /**
@@ -31,15 +39,28 @@ export interface DetectionConfig {
   trackingDataFile: string;
   notificationTrackingFile: string; // Separate file for notification tracking
   maxTrackingDays: number;
+  historyRetentionDays: number; // Days the history of removed appointments is kept for analytics
   statusChangeThreshold: number; // Minutes to wait before considering a status change permanent
+  reconciliationThreshold: number; // Minimum similarity (0-1) to treat a changed slot as the same appointment
 }
 
+/**
+ * Tracking file format version; 2.0 introduced content-derived appointment IDs
+ */
+const TRACKING_DATA_VERSION = '2.0';
+
+/**
+ * Matches the timestamp-based IDs produced by older scraper versions
+ */
+const LEGACY_TIMESTAMP_ID_PATTERN = /^appointment-\d+-\d+$/;
+
 /**
  * Enhanced appointment detection service with duplicate prevention and status tracking
  */
 export class AppointmentDetectionService {
   private config: DetectionConfig;
   private trackedAppointments: Map<string, TrackedAppointment> = new Map();
+  private retiredAppointments: TrackedAppointment[] = []; // No longer listed; kept only for analytics
   private notifiedAppointmentKeys: Map<string, Date> = new Map(); // Track notified appointments by key
 
   constructor(config?: Partial<DetectionConfig>) {
@@ -47,7 +68,9 @@ export class AppointmentDetectionService {
       trackingDataFile: 'data/appointment-tracking.json',
       notificationTrackingFile: 'data/notified-appointments.json',
       maxTrackingDays: 30,
+      historyRetentionDays: 90,
       statusChangeThreshold: 5,
+      reconciliationThreshold: DEFAULT_RECONCILIATION_THRESHOLD,
       ...config
     };
   }
@@ -77,7 +100,7 @@ export class AppointmentDetectionService {
   /**
    * Process new appointments and detect changes
    */
-  async processAppointments(checkResult: CheckResult): Promise<{
+  async processAppointments(checkResult: CheckResult, options: { skipRemovalDetection?: boolean } = {}): Promise<{
     newAvailableAppointments: Appointment[];
     statusChangedAppointments: Appointment[];
     removedAppointments: TrackedAppointment[];
@@ -90,12 +113,14 @@ export class AppointmentDetectionService {
 
     // Track which appointments we've seen in this check
     const seenAppointmentIds = new Set<string>();
+    const currentAppointmentIds = new Set(checkResult.appointments.map(apt => apt.id));
 
     // Process each appointment from the current check
     for (const appointment of checkResult.appointments) {
       seenAppointmentIds.add(appointment.id);
       
-      const existingTracked = this.trackedAppointments.get(appointment.id);
+      const existingTracked = this.trackedAppointments.get(appointment.id) ||
+        this.reconcileAppointment(appointment, currentAppointmentIds);
       
       if (!existingTracked) {
         // This is a new appointment
@@ -118,9 +143,9 @@ export class AppointmentDetectionService {
         // Only add to new available if it's actually available
         if (appointment.status === 'available') {
           newAvailableAppointments.push(appointment);
-          console.log(`🆕 New available appointment detected: ${appointment.date} ${appointment.time} - ${appointment.city}`);
+          console.log(`🆕 New available appointment detected: ${formatDualCalendarDate(appointment.date)} ${appointment.time} - ${appointment.city}`);
         } else {
-          console.log(`📋 New appointment detected (${appointment.status}): ${appointment.date} ${appointment.time} - ${appointment.city}`);
+          console.log(`📋 New appointment detected (${appointment.status}): ${formatDualCalendarDate(appointment.date)} ${appointment.time} - ${appointment.city}`);
         }
       } else {
         // This is an existing appointment - check for status changes
@@ -176,18 +201,32 @@ export class AppointmentDetectionService {
       }
     }
 
-    // Find appointments that are no longer present (removed)
-    for (const [appointmentId, trackedAppointment] of this.trackedAppointments.entries()) {
-      if (!seenAppointmentIds.has(appointmentId)) {
-        // This appointment is no longer present
-        removedAppointments.push(trackedAppointment);
-        console.log(`📤 Appointment removed: ${trackedAppointment.appointment.date} ${trackedAppointment.appointment.time} - ${trackedAppointment.appointment.city}`);
+    // Find appointments that are no longer present (removed). Skipped when part of the
+    // timetable was not seen, e.g. a blocked or maintenance page, so missing slots are not "removed"
+    if (options.skipRemovalDetection) {
+      console.log('⏭️  Skipping removal detection: the site did not serve the full timetable');
+    } else {
+      for (const [appointmentId, trackedAppointment] of this.trackedAppointments.entries()) {
+        if (!seenAppointmentIds.has(appointmentId)) {
+          // This appointment is no longer present
+          removedAppointments.push(trackedAppointment);
+          console.log(`📤 Appointment removed: ${formatDualCalendarDate(trackedAppointment.appointment.date)} ${trackedAppointment.appointment.time} - ${trackedAppointment.appointment.city}`);
+        }
       }
     }
 
-    // Remove appointments that are no longer present
+    // Remove appointments that are no longer present; their history is kept for analytics
     for (const removedAppointment of removedAppointments) {
       this.trackedAppointments.delete(removedAppointment.id);
+      this.retiredAppointments.push({
+        ...removedAppointment,
+        statusHistory: [...removedAppointment.statusHistory, {
+          timestamp: currentTime,
+          previousStatus: removedAppointment.appointment.status,
+          newStatus: 'removed',
+          reason: 'No longer listed'
+        }]
+      });
     }
 
     // Save updated tracking data
@@ -201,6 +240,40 @@ export class AppointmentDetectionService {
     };
   }
 
+  /**
+   * Match an appointment whose slot text changed slightly against a tracked
+   * appointment that was not seen in the current check, and move the tracking
+   * record over to the new ID. Only content-derived IDs are reconciled.
+   */
+  private reconcileAppointment(appointment: Appointment, currentAppointmentIds: Set<string>): TrackedAppointment | undefined {
+    if (!isStableAppointmentId(appointment.id)) {
+      return undefined;
+    }
+
+    const candidates = Array.from(this.trackedAppointments.values())
+      .filter(tracked => isStableAppointmentId(tracked.id) && !currentAppointmentIds.has(tracked.id));
+
+    const match = findMatchingAppointment(
+      appointment,
+      candidates.map(tracked => ({ ...tracked.appointment, trackedId: tracked.id })),
+      this.config.reconciliationThreshold
+    );
+
+    if (!match) {
+      return undefined;
+    }
+
+    const tracked = this.trackedAppointments.get(match.trackedId)!;
+    this.trackedAppointments.delete(tracked.id);
+
+    tracked.previousIds = [...(tracked.previousIds || []), tracked.id];
+    tracked.id = appointment.id;
+    this.trackedAppointments.set(appointment.id, tracked);
+
+    console.log(`🔗 Reconciled changed slot with tracked appointment: ${appointment.date} ${appointment.time} (${tracked.previousIds[tracked.previousIds.length - 1]} → ${appointment.id})`);
+    return tracked;
+  }
+
   /**
    * Mark appointments as notified to prevent duplicate notifications
    * Records appointment keys to prevent duplicate notifications
@@ -397,6 +470,7 @@ export class AppointmentDetectionService {
 
       const data = await fs.readFile(this.config.trackingDataFile, 'utf-8');
       const trackingData = JSON.parse(data);
+      delete trackingData.version;
       
       // Load tracked appointments
       if (trackingData.trackedAppointments) {
@@ -411,6 +485,7 @@ export class AppointmentDetectionService {
           
           this.trackedAppointments.set(id, trackedAppointment as TrackedAppointment);
         }
+        this.retiredAppointments = (trackingData.retiredAppointments || []).map((retired: any) => this.reviveDates(retired));
       } else {
         // Legacy format - convert old data
         for (const [id, tracked] of Object.entries(trackingData)) {
@@ -429,11 +504,81 @@ export class AppointmentDetectionService {
       }
       
       console.log(`📊 Loaded tracking data for ${this.trackedAppointments.size} appointments`);
+
+      const migratedCount = this.migrateLegacyAppointmentIds();
+      if (migratedCount > 0) {
+        console.log(`🔁 Migrated ${migratedCount} tracked appointments to content-derived IDs`);
+        await this.saveTrackingData();
+      }
     } catch (error) {
       // File doesn't exist or is invalid, start fresh
       console.log(`📊 Starting with fresh appointment tracking data`);
       this.trackedAppointments.clear();
+      this.retiredAppointments = [];
+    }
+  }
+
+  /**
+   * Restore the Date fields of a tracking record read from JSON
+   */
+  private reviveDates(tracked: any): TrackedAppointment {
+    return {
+      ...tracked,
+      firstSeen: new Date(tracked.firstSeen),
+      lastSeen: new Date(tracked.lastSeen),
+      statusHistory: (tracked.statusHistory || []).map((change: any) => ({
+        ...change,
+        timestamp: new Date(change.timestamp)
+      }))
+    };
+  }
+
+  /**
+   * Re-key tracked appointments that still use timestamp-based IDs.
+   * Records describing the same slot are merged into one.
+   */
+  private migrateLegacyAppointmentIds(): number {
+    let migratedCount = 0;
+
+    for (const [id, tracked] of Array.from(this.trackedAppointments.entries())) {
+      if (!LEGACY_TIMESTAMP_ID_PATTERN.test(id) || !tracked.appointment) {
+        continue;
+      }
+
+      const stableId = createStableAppointmentId(tracked.appointment);
+      this.trackedAppointments.delete(id);
+      migratedCount++;
+
+      const migrated: TrackedAppointment = {
+        ...tracked,
+        id: stableId,
+        appointment: { ...tracked.appointment, id: stableId },
+        previousIds: [...(tracked.previousIds || []), id]
+      };
+
+      const existing = this.trackedAppointments.get(stableId);
+      this.trackedAppointments.set(stableId, existing ? this.mergeTrackedAppointments(existing, migrated) : migrated);
     }
+
+    return migratedCount;
+  }
+
+  /**
+   * Merge two tracking records of the same slot, keeping the most recent appointment data
+   */
+  private mergeTrackedAppointments(a: TrackedAppointment, b: TrackedAppointment): TrackedAppointment {
+    const latest = a.lastSeen >= b.lastSeen ? a : b;
+
+    return {
+      id: latest.id,
+      appointment: latest.appointment,
+      firstSeen: a.firstSeen <= b.firstSeen ? a.firstSeen : b.firstSeen,
+      lastSeen: latest.lastSeen,
+      statusHistory: [...a.statusHistory, ...b.statusHistory]
+        .sort((x, y) => x.timestamp.getTime() - y.timestamp.getTime()),
+      notificationsSent: a.notificationsSent + b.notificationsSent,
+      previousIds: [...(a.previousIds || []), ...(b.previousIds || [])]
+    };
   }
 
   /**
@@ -446,7 +591,9 @@ export class AppointmentDetectionService {
       await fs.mkdir(dataDir, { recursive: true });
 
       const trackingData = {
-        trackedAppointments: Object.fromEntries(this.trackedAppointments.entries())
+        version: TRACKING_DATA_VERSION,
+        trackedAppointments: Object.fromEntries(this.trackedAppointments.entries()),
+        retiredAppointments: this.retiredAppointments
       };
       
       await fs.writeFile(
@@ -528,6 +675,12 @@ export class AppointmentDetectionService {
       }
     }
     
+    const historyCutoff = new Date();
+    historyCutoff.setDate(historyCutoff.getDate() - this.config.historyRetentionDays);
+    const retiredCount = this.retiredAppointments.length;
+    this.retiredAppointments = this.retiredAppointments.filter(retired => retired.lastSeen >= historyCutoff);
+    removedTrackingCount += retiredCount - this.retiredAppointments.length;
+
     let removedNotificationCount = 0;
     for (const [key, timestamp] of this.notifiedAppointmentKeys.entries()) {
       if (timestamp < cutoffDate) {
@@ -554,6 +707,14 @@ export class AppointmentDetectionService {
     return this.trackedAppointments.get(appointmentId) || null;
   }
 
+  /**
+   * Tracking records of listed and removed appointments, for availability analytics.
+   * A slot that was removed and listed again has one record for each listing.
+   */
+  getStatusHistoryRecords(): TrackedAppointment[] {
+    return [...this.trackedAppointments.values(), ...this.retiredAppointments];
+  }
+
   /**
    * Get all appointments that have changed status recently
    */
@@ -0,0 +1,316 @@
+import type { TrackedAppointment } from './AppointmentDetectionService';
+
+/**
+ * Configuration for availability analytics
+ */
+export interface AvailabilityAnalyticsConfig {
+  timeZone: string; // Time zone of the publication weekday and hour
+  initialCheckToleranceMs: number; // Slots first seen this close to the first check were already listed before monitoring
+}
+
+/**
+ * Distribution of how long slots stayed available
+ */
+export interface DurationStats {
+  count: number;
+  medianMs: number;
+  p90Ms: number; // 90% of slots filled within this time
+  fastestMs: number;
+  slowestMs: number;
+}
+
+export interface DurationBreakdown {
+  key: string; // City, exam type, weekday or hour
+  stats: DurationStats;
+}
+
+export interface CountBreakdown {
+  key: string;
+  count: number;
+}
+
+/**
+ * Time-to-fill, reopen and publication statistics of tracked appointments
+ */
+export interface AvailabilityReport {
+  generatedAt: Date;
+  since: Date | null; // Only events after this time are counted
+  monitoringSince: Date | null; // First check in the tracking history
+  timeZone: string;
+  slotsAnalyzed: number;
+  timeToFill: {
+    overall: DurationStats | null;
+    byCity: DurationBreakdown[];
+    byExamType: DurationBreakdown[];
+    byWeekday: DurationBreakdown[]; // Weekday of the exam
+    byHour: DurationBreakdown[]; // Start hour of the exam
+  };
+  stillAvailable: number; // Slots available right now
+  delistedWhileAvailable: number; // Slots removed from the timetable without being marked full first
+  reopens: {
+    slotsClosed: number; // Slots seen full, pending or removed
+    slotsReopened: number; // Of these, slots that became available afterwards
+    reopenEvents: number;
+    reopenRate: number; // slotsReopened / slotsClosed
+    medianTimeToReopenMs: number | null;
+  };
+  publication: {
+    newSlots: number; // Slots that appeared after monitoring started
+    byWeekday: CountBreakdown[]; // Weekday the slot appeared, in timeZone
+    byHour: CountBreakdown[]; // Hour the slot appeared, in timeZone
+    peakHours: CountBreakdown[]; // The three busiest publication hours
+  };
+}
+
+/**
+ * One period during which a slot was available
+ */
+interface AvailabilityWindow {
+  slot: TrackedAppointment;
+  openedAt: Date;
+  closedAt: Date | null; // Null while still available
+  closedBy: string | null; // Status that ended the window, 'removed' when the slot was delisted
+  openedBeforeMonitoring: boolean; // Opening time unknown, so the window has no duration
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Turns the status history of tracked appointments into the numbers candidates
+ * ask about: how long slots stay available before they fill (by city, exam type,
+ * exam weekday and exam hour), how often filled slots reopen, and when new slots
+ * are usually published. Durations are only as precise as the check interval.
+ */
+export class AvailabilityAnalyticsService {
+  private config: AvailabilityAnalyticsConfig;
+
+  constructor(config?: Partial<AvailabilityAnalyticsConfig>) {
+    this.config = {
+      timeZone: 'Asia/Tehran',
+      initialCheckToleranceMs: 60 * 1000,
+      ...config
+    };
+  }
+
+  /**
+   * Analyse tracking records (see AppointmentDetectionService.getStatusHistoryRecords)
+   */
+  analyze(records: TrackedAppointment[], options: { since?: Date | undefined; now?: Date | undefined } = {}): AvailabilityReport {
+    const now = options.now || new Date();
+    const since = options.since || null;
+    const slots = this.mergeBySlot(records);
+    const monitoringSince = slots.length > 0
+      ? new Date(Math.min(...slots.map(slot => slot.firstSeen.getTime())))
+      : null;
+
+    const filledWindows: AvailabilityWindow[] = [];
+    const closedSlots = new Set<string>();
+    const reopenedSlots = new Set<string>();
+    const timesToReopen: number[] = [];
+    let stillAvailable = 0;
+    let delistedWhileAvailable = 0;
+    let reopenEvents = 0;
+
+    for (const slot of slots) {
+      const windows = this.findAvailabilityWindows(slot, monitoringSince!);
+
+      windows.forEach((window, index) => {
+        if (!window.closedAt) {
+          stillAvailable++;
+        } else if (window.closedBy === 'removed') {
+          if (!since || window.closedAt >= since) {
+            delistedWhileAvailable++;
+          }
+        } else if (!window.openedBeforeMonitoring && (!since || window.closedAt >= since)) {
+          filledWindows.push(window);
+        }
+
+        // Available again after being filled or delisted, or after first being listed as full
+        const previous = windows[index - 1];
+        const reopened = previous ? previous.closedAt !== null : !window.openedBeforeMonitoring && this.wasUnavailableBefore(slot, window.openedAt);
+        if (reopened && (!since || window.openedAt >= since)) {
+          reopenEvents++;
+          reopenedSlots.add(slot.id);
+          if (previous) {
+            timesToReopen.push(window.openedAt.getTime() - previous.closedAt!.getTime());
+          }
+        }
+      });
+
+      if (slot.statusHistory.some(change => isUnavailableStatus(change.newStatus) && (!since || change.timestamp >= since))) {
+        closedSlots.add(slot.id);
+      }
+    }
+
+    const durationOf = (window: AvailabilityWindow) => window.closedAt!.getTime() - window.openedAt.getTime();
+    const newSlots = slots.filter(slot =>
+      slot.firstSeen.getTime() - monitoringSince!.getTime() > this.config.initialCheckToleranceMs &&
+      (!since || slot.firstSeen >= since)
+    );
+
+    const publicationByHour = this.countBy(newSlots, slot => this.getLocalHour(slot.firstSeen).toString().padStart(2, '0') + ':00');
+
+    return {
+      generatedAt: now,
+      since,
+      monitoringSince,
+      timeZone: this.config.timeZone,
+      slotsAnalyzed: slots.length,
+      timeToFill: {
+        overall: computeDurationStats(filledWindows.map(durationOf)),
+        byCity: this.breakdown(filledWindows, window => window.slot.appointment.city, durationOf),
+        byExamType: this.breakdown(filledWindows, window => window.slot.appointment.examType, durationOf),
+        byWeekday: this.breakdown(filledWindows, window => getExamWeekday(window.slot.appointment.date), durationOf, WEEKDAYS),
+        byHour: this.breakdown(filledWindows, window => getExamHour(window.slot.appointment.time), durationOf)
+      },
+      stillAvailable,
+      delistedWhileAvailable,
+      reopens: {
+        slotsClosed: closedSlots.size,
+        slotsReopened: reopenedSlots.size,
+        reopenEvents,
+        reopenRate: closedSlots.size > 0 ? reopenedSlots.size / closedSlots.size : 0,
+        medianTimeToReopenMs: timesToReopen.length > 0 ? computeDurationStats(timesToReopen)!.medianMs : null
+      },
+      publication: {
+        newSlots: newSlots.length,
+        byWeekday: this.sortByKeys(this.countBy(newSlots, slot => this.getLocalWeekday(slot.firstSeen)), WEEKDAYS),
+        byHour: this.sortByKeys(publicationByHour),
+        peakHours: [...publicationByHour].sort((a, b) => b.count - a.count || a.key.localeCompare(b.key)).slice(0, 3)
+      }
+    };
+  }
+
+  /**
+   * Records of the same slot (one per listing, since removed slots are archived) as one history
+   */
+  private mergeBySlot(records: TrackedAppointment[]): TrackedAppointment[] {
+    const slots = new Map<string, TrackedAppointment>();
+
+    for (const record of records) {
+      const existing = slots.get(record.id);
+      if (!existing) {
+        slots.set(record.id, { ...record, statusHistory: [...record.statusHistory] });
+        continue;
+      }
+
+      const latest = record.lastSeen >= existing.lastSeen ? record : existing;
+      slots.set(record.id, {
+        ...latest,
+        firstSeen: record.firstSeen < existing.firstSeen ? record.firstSeen : existing.firstSeen,
+        statusHistory: [...existing.statusHistory, ...record.statusHistory]
+      });
+    }
+
+    return Array.from(slots.values()).map(slot => ({
+      ...slot,
+      statusHistory: slot.statusHistory.slice().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    }));
+  }
+
+  /**
+   * Periods of availability in a slot's history, in order
+   */
+  private findAvailabilityWindows(slot: TrackedAppointment, monitoringSince: Date): AvailabilityWindow[] {
+    const windows: AvailabilityWindow[] = [];
+    let open: AvailabilityWindow | null = null;
+
+    for (const change of slot.statusHistory) {
+      if (change.newStatus === 'available' && !open) {
+        open = {
+          slot,
+          openedAt: change.timestamp,
+          closedAt: null,
+          closedBy: null,
+          openedBeforeMonitoring: change.timestamp.getTime() - monitoringSince.getTime() <= this.config.initialCheckToleranceMs
+        };
+        windows.push(open);
+      } else if (open && isUnavailableStatus(change.newStatus)) {
+        // An unknown reading is a parse blip, not a fill, so the window stays open
+        open.closedAt = change.timestamp;
+        open.closedBy = change.newStatus;
+        open = null;
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * Whether the slot was listed as unavailable before it first became available
+   */
+  private wasUnavailableBefore(slot: TrackedAppointment, openedAt: Date): boolean {
+    return slot.statusHistory.some(change => change.timestamp < openedAt && isUnavailableStatus(change.newStatus));
+  }
+
+  private breakdown(
+    windows: AvailabilityWindow[],
+    keyOf: (window: AvailabilityWindow) => string,
+    durationOf: (window: AvailabilityWindow) => number,
+    order?: string[]
+  ): DurationBreakdown[] {
+    const groups = new Map<string, number[]>();
+    for (const window of windows) {
+      const key = keyOf(window);
+      groups.set(key, [...(groups.get(key) || []), durationOf(window)]);
+    }
+
+    return this.sortByKeys(Array.from(groups.entries()).map(([key, durations]) => ({
+      key,
+      stats: computeDurationStats(durations)!
+    })), order);
+  }
+
+  private countBy<T>(items: T[], keyOf: (item: T) => string): CountBreakdown[] {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(keyOf(item), (counts.get(keyOf(item)) || 0) + 1));
+    return Array.from(counts.entries()).map(([key, count]) => ({ key, count }));
+  }
+
+  private sortByKeys<T extends { key: string }>(items: T[], order?: string[]): T[] {
+    return items.slice().sort((a, b) => order
+      ? order.indexOf(a.key) - order.indexOf(b.key)
+      : a.key.localeCompare(b.key));
+  }
+
+  private getLocalWeekday(date: Date): string {
+    return new Intl.DateTimeFormat('en-US', { timeZone: this.config.timeZone, weekday: 'long' }).format(date);
+  }
+
+  private getLocalHour(date: Date): number {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone: this.config.timeZone, hour: 'numeric', hourCycle: 'h23' }).format(date));
+  }
+}
+
+/**
+ * Median, 90th percentile and range of durations, or null when there are none
+ */
+export function computeDurationStats(durations: number[]): DurationStats | null {
+  if (durations.length === 0) {
+    return null;
+  }
+
+  const sorted = durations.slice().sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]!;
+  return {
+    count: sorted.length,
+    medianMs: percentile(0.5),
+    p90Ms: percentile(0.9),
+    fastestMs: sorted[0]!,
+    slowestMs: sorted[sorted.length - 1]!
+  };
+}
+
+function isUnavailableStatus(status: string): boolean {
+  return status !== 'available' && status !== 'unknown';
+}
+
+function getExamWeekday(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return isNaN(date.getTime()) ? 'Unknown' : WEEKDAYS[date.getUTCDay()]!;
+}
+
+function getExamHour(time: string): string {
+  const match = time.match(/(\d{1,2}):\d{2}/);
+  return match ? `${match[1]!.padStart(2, '0')}:00` : 'Unknown';
+}
@@ -0,0 +1,248 @@
+import type { Browser, Page } from 'puppeteer';
+import { promises as fs } from 'fs';
+import { BrowserMetrics, BrowserRestartReason } from '../models/types';
+
+/**
+ * Configuration for recycling the shared browser
+ */
+export interface BrowserLifecycleConfig {
+  maxPagesPerBrowser: number; // Pages opened by one browser before it is replaced; 0 disables
+  maxMemoryMb: number; // Resident memory of the browser processes before it is replaced; 0 disables
+}
+
+/**
+ * Resident memory of a browser in MB, or null when it cannot be measured
+ */
+export type BrowserMemoryProbe = (browser: Browser) => Promise<number | null>;
+
+/**
+ * Owns the shared Chromium instance of the scraper. The browser is launched on
+ * first use, replaced between checks once it has opened too many pages or uses
+ * too much memory, and relaunched on the next request after it crashes or stops
+ * responding, so a monitor can run unattended for weeks.
+ */
+export class BrowserLifecycle {
+  private config: BrowserLifecycleConfig;
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private pendingRestart: BrowserRestartReason | null = null;
+  private metrics: BrowserMetrics = {
+    running: false,
+    launches: 0,
+    restarts: 0,
+    restartReasons: { 'page-limit': 0, memory: 0, disconnected: 0, unresponsive: 0 },
+    pagesOpened: 0,
+    totalPagesOpened: 0,
+    pageCrashes: 0,
+    memoryMb: null,
+    startedAt: null,
+    lastRestartAt: null,
+    lastRestartReason: null
+  };
+
+  constructor(
+    private launch: () => Promise<Browser>,
+    config?: Partial<BrowserLifecycleConfig>,
+    private measureMemory: BrowserMemoryProbe = measureBrowserMemoryMb
+  ) {
+    this.config = {
+      maxPagesPerBrowser: 500,
+      maxMemoryMb: 1024,
+      ...config
+    };
+  }
+
+  /**
+   * Get the running browser, launching a new one when there is none or the
+   * current one no longer responds
+   */
+  async getBrowser(): Promise<Browser> {
+    if (this.browser) {
+      try {
+        await this.browser.version();
+        return this.browser;
+      } catch {
+        console.warn('⚠️  Browser stopped responding, launching a new one');
+        await this.discard('unresponsive');
+      }
+    }
+
+    // Concurrent targets share a single launch
+    if (!this.launching) {
+      this.launching = this.start().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  /**
+   * The running browser without launching one, or null
+   */
+  getCurrentBrowser(): Browser | null {
+    return this.browser;
+  }
+
+  /**
+   * Count a page opened on the browser and report renderer crashes on it
+   */
+  trackPage(page: Page): Page {
+    this.metrics.pagesOpened++;
+    this.metrics.totalPagesOpened++;
+
+    try {
+      page.on('error', error => {
+        this.metrics.pageCrashes++;
+        console.warn(`💥 Browser page crashed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    } catch {
+      // Crash reporting is best effort
+    }
+    return page;
+  }
+
+  /**
+   * Replace the browser when it has opened too many pages or uses too much
+   * memory. Call between checks, when no page is in use.
+   */
+  async recycleIfNeeded(): Promise<BrowserRestartReason | null> {
+    if (!this.browser) {
+      return null;
+    }
+
+    let reason: BrowserRestartReason | null = null;
+    if (this.config.maxPagesPerBrowser > 0 && this.metrics.pagesOpened >= this.config.maxPagesPerBrowser) {
+      console.log(`♻️  Recycling browser after ${this.metrics.pagesOpened} pages`);
+      reason = 'page-limit';
+    } else if (this.config.maxMemoryMb > 0) {
+      const memoryMb = await this.readMemory(this.browser);
+      if (memoryMb !== null && memoryMb >= this.config.maxMemoryMb) {
+        console.log(`♻️  Recycling browser using ${memoryMb} MB (limit ${this.config.maxMemoryMb} MB)`);
+        reason = 'memory';
+      }
+    }
+
+    if (reason) {
+      await this.discard(reason);
+      await this.getBrowser();
+    }
+    return reason;
+  }
+
+  /**
+   * Close the browser for good; it is not counted as a restart
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.pendingRestart = null;
+    this.metrics.running = false;
+
+    if (browser) {
+      try {
+        await browser.close();
+      } catch (error) {
+        // Ignore close errors
+        console.warn('Warning: Error closing browser:', error);
+      }
+    }
+  }
+
+  getMetrics(): BrowserMetrics {
+    return { ...this.metrics, restartReasons: { ...this.metrics.restartReasons } };
+  }
+
+  private async start(): Promise<Browser> {
+    const browser = await this.launch();
+    this.browser = browser;
+    this.metrics.launches++;
+    this.metrics.running = true;
+    this.metrics.pagesOpened = 0;
+    this.metrics.memoryMb = null;
+    this.metrics.startedAt = new Date();
+
+    if (this.pendingRestart) {
+      this.metrics.restarts++;
+      this.metrics.restartReasons[this.pendingRestart]++;
+      this.metrics.lastRestartAt = new Date();
+      this.metrics.lastRestartReason = this.pendingRestart;
+      this.pendingRestart = null;
+    }
+
+    try {
+      browser.on('disconnected', () => {
+        // Browsers closed on purpose are no longer current
+        if (this.browser === browser) {
+          console.warn('💥 Browser disconnected unexpectedly (crashed or killed); a new one is launched for the next request');
+          this.browser = null;
+          this.metrics.running = false;
+          this.pendingRestart = 'disconnected';
+        }
+      });
+    } catch {
+      // Without the event a crash is still caught by the responsiveness check
+    }
+
+    return browser;
+  }
+
+  private async discard(reason: BrowserRestartReason): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.metrics.running = false;
+    this.pendingRestart = reason;
+
+    if (browser) {
+      try {
+        await browser.close();
+      } catch {
+        // The browser may already be gone
+      }
+    }
+  }
+
+  private async readMemory(browser: Browser): Promise<number | null> {
+    try {
+      this.metrics.memoryMb = await this.measureMemory(browser);
+    } catch {
+      this.metrics.memoryMb = null;
+    }
+    return this.metrics.memoryMb;
+  }
+}
+
+/**
+ * Sum the resident memory of the browser process and its renderer and helper
+ * processes from /proc. Returns null where /proc is not available (e.g. macOS),
+ * so the memory limit only applies on Linux.
+ */
+export async function measureBrowserMemoryMb(browser: Browser): Promise<number | null> {
+  const pid = browser.process()?.pid;
+  if (!pid) {
+    return null;
+  }
+
+  let totalKb = 0;
+  const pending = [pid];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    try {
+      const status = await fs.readFile(`/proc/${current}/status`, 'utf-8');
+      totalKb += Number(status.match(/^VmRSS:\s+(\d+)/m)?.[1] || 0);
+    } catch {
+      if (current === pid) {
+        return null;
+      }
+      continue; // The process exited while being measured
+    }
+
+    try {
+      const children = await fs.readFile(`/proc/${current}/task/${current}/children`, 'utf-8');
+      pending.push(...children.split(/\s+/).filter(Boolean).map(Number));
+    } catch {
+      // Only the processes found so far are counted
+    }
+  }
+
+  return Math.round(totalKb / 1024);
+}
@@ -0,0 +1,123 @@
+import { CircuitBreakerStatus, CircuitState } from '../models/types';
+
+/**
+ * Configuration for the per-URL circuit breakers of the scraper
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Failed checks of a URL in a row before its circuit opens
+  cooldownMs: number; // How long an open circuit skips the URL before a trial request
+  maxCooldownMs: number; // A failed trial doubles the cooldown up to this
+}
+
+interface CircuitEntry {
+  status: CircuitBreakerStatus;
+  cooldownMs: number;
+}
+
+/**
+ * Keeps one circuit per request URL. A URL that fails several checks in a row is
+ * skipped (open) until its cooldown ends; the next check then sends a single trial
+ * request (half-open) that closes the circuit on success or reopens it with a
+ * longer cooldown on failure. Healthy URLs are never held back by a broken one.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private circuits = new Map<string, CircuitEntry>();
+
+  constructor(config?: Partial<CircuitBreakerConfig>) {
+    this.config = {
+      failureThreshold: 3,
+      cooldownMs: 5 * 60 * 1000, // 5 minutes
+      maxCooldownMs: 60 * 60 * 1000, // 1 hour
+      ...config
+    };
+  }
+
+  /**
+   * Whether a request to the URL may be sent. An open circuit whose cooldown has
+   * ended moves to half-open and lets one trial request through.
+   */
+  canRequest(url: string, now: number = Date.now()): boolean {
+    const entry = this.circuits.get(url);
+    if (!entry || entry.status.state === 'closed' || entry.status.state === 'half-open') {
+      return true;
+    }
+
+    if (entry.status.retryAt && entry.status.retryAt.getTime() <= now) {
+      entry.status.state = 'half-open';
+      console.log(`🔌 Circuit for ${entry.status.label} half-open, sending a trial request`);
+      return true;
+    }
+    return false;
+  }
+
+  getState(url: string): CircuitState {
+    return this.circuits.get(url)?.status.state || 'closed';
+  }
+
+  recordSuccess(url: string, label: string, now: number = Date.now()): void {
+    const entry = this.getEntry(url, label);
+    if (entry.status.state !== 'closed') {
+      console.log(`🔌 Circuit for ${label} closed again`);
+    }
+
+    entry.status.state = 'closed';
+    entry.status.consecutiveFailures = 0;
+    entry.status.openedAt = null;
+    entry.status.retryAt = null;
+    entry.status.lastSuccessAt = new Date(now);
+    entry.cooldownMs = this.config.cooldownMs;
+  }
+
+  recordFailure(url: string, label: string, error: string, now: number = Date.now()): void {
+    const entry = this.getEntry(url, label);
+    entry.status.consecutiveFailures++;
+    entry.status.lastError = error;
+
+    if (entry.status.state === 'half-open') {
+      // The trial failed: stay away longer
+      entry.cooldownMs = Math.min(entry.cooldownMs * 2, this.config.maxCooldownMs);
+      this.open(entry, now);
+      return;
+    }
+
+    if (entry.status.state === 'closed' && entry.status.consecutiveFailures >= this.config.failureThreshold) {
+      this.open(entry, now);
+    }
+  }
+
+  /**
+   * Circuit state of every URL seen so far, for status output
+   */
+  getStatuses(): CircuitBreakerStatus[] {
+    return Array.from(this.circuits.values()).map(entry => ({ ...entry.status }));
+  }
+
+  private open(entry: CircuitEntry, now: number): void {
+    entry.status.state = 'open';
+    entry.status.openedAt = new Date(now);
+    entry.status.retryAt = new Date(now + entry.cooldownMs);
+    console.warn(`⚠️  Circuit for ${entry.status.label} open after ${entry.status.consecutiveFailures} failed check(s) (${entry.status.lastError}); skipping it for ${Math.round(entry.cooldownMs / 60000)} minute(s)`);
+  }
+
+  private getEntry(url: string, label: string): CircuitEntry {
+    let entry = this.circuits.get(url);
+    if (!entry) {
+      entry = {
+        cooldownMs: this.config.cooldownMs,
+        status: {
+          url,
+          label,
+          state: 'closed',
+          consecutiveFailures: 0,
+          openedAt: null,
+          retryAt: null,
+          lastError: null,
+          lastSuccessAt: null
+        }
+      };
+      this.circuits.set(url, entry);
+    }
+    return entry;
+  }
+}
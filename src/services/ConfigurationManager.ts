@@ -3,6 +3,11 @@ import * as path from 'path';
 import { MonitorConfig, ValidationResult } from '../models/types';
 import { ConfigValidator } from '../utils/ConfigValidator';
 import { EnvironmentConfigManager } from './EnvironmentConfigManager';
+import { getProviderIds } from './providers';
+import { ProxyPool } from './ProxyPool';
+import { BLOCKABLE_RESOURCE_TYPES } from './ResourcePolicy';
+import { DEFAULT_ADAPTIVE_MAX_INTERVAL_MS, DEFAULT_ADAPTIVE_MIN_INTERVAL_MS } from './AdaptiveCheckScheduler';
+import { validateAttributeFilter, validateDateFilter, validateMonitorSchedule, validateWatchProfiles } from '../models/validation';
 
 /**
  * Configuration Manager handles loading, saving, and validating monitor configuration
@@ -137,7 +142,21 @@ export class ConfigurationManager {
     const examModelValidation = ConfigValidator.validateStringArray(config.examModel, 'examModel', true);
     const monthsValidation = ConfigValidator.validateNumberArray(config.months, 'months', 1, 12, true);
     const checkIntervalValidation = ConfigValidator.validateInteger(config.checkInterval, 'checkInterval', 5000, 3600000, true);
+    const adaptiveIntervalValidation = this.validateAdaptiveInterval(config.adaptiveInterval);
+    const scheduleValidation = validateMonitorSchedule(config.schedule);
     const baseUrlValidation = ConfigValidator.validateUrl(config.baseUrl, 'baseUrl', false);
+    const providerValidation = ConfigValidator.validateEnum(config.provider, 'provider', getProviderIds(), false);
+    const monthCalendarValidation = ConfigValidator.validateEnum(config.monthCalendar, 'monthCalendar', ['gregorian', 'jalali'], false);
+    const scraperBackendValidation = ConfigValidator.validateEnum(config.scraperBackend, 'scraperBackend', ['puppeteer', 'http'], false);
+    const scrapeConcurrencyValidation = this.validateScrapeConcurrency(config.scrapeConcurrency);
+    const proxyValidation = this.validateProxyConfig(config.proxy, config.scraperBackend);
+    const attributeFilterValidation = validateAttributeFilter(config.attributeFilters);
+    const dateFilterValidation = validateDateFilter(config.dateFilters);
+    const profilesValidation = validateWatchProfiles(config.profiles);
+    const reviewValidation = this.validateReviewSettings(config.review);
+    const browserRecyclingValidation = this.validateBrowserRecycling(config.browserRecycling);
+    const resourcePolicyValidation = this.validateResourcePolicy(config.resourcePolicy);
+    const evidenceValidation = this.validateEvidenceSettings(config.evidence);
 
     // Validate notification settings
     const notificationValidation = this.validateNotificationSettings(config.notificationSettings);
@@ -153,7 +172,21 @@ export class ConfigurationManager {
       examModelValidation,
       monthsValidation,
       checkIntervalValidation,
+      adaptiveIntervalValidation,
+      scheduleValidation,
       baseUrlValidation,
+      providerValidation,
+      monthCalendarValidation,
+      scraperBackendValidation,
+      scrapeConcurrencyValidation,
+      proxyValidation,
+      attributeFilterValidation,
+      dateFilterValidation,
+      profilesValidation,
+      reviewValidation,
+      browserRecyclingValidation,
+      resourcePolicyValidation,
+      evidenceValidation,
       notificationValidation,
       securityValidation,
       serverValidation
@@ -247,6 +280,212 @@ export class ConfigurationManager {
     );
   }
 
+  /**
+   * Validates scrape concurrency limits
+   */
+  private validateScrapeConcurrency(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // Concurrency limits are optional
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['scrapeConcurrency must be a valid object']
+      };
+    }
+
+    return ConfigValidator.combineValidationResults(
+      ConfigValidator.validateInteger(settings.maxPages, 'scrapeConcurrency.maxPages', 1, 10, false),
+      ConfigValidator.validateInteger(settings.maxPerHost, 'scrapeConcurrency.maxPerHost', 1, 10, false),
+      ConfigValidator.validateInteger(settings.hostIntervalMs, 'scrapeConcurrency.hostIntervalMs', 0, 60000, false)
+    );
+  }
+
+  /**
+   * Validates the low-confidence review queue settings
+   */
+  private validateReviewSettings(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // Review settings are optional
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['review must be a valid object']
+      };
+    }
+
+    const errors: string[] = [];
+    const { confidenceThreshold } = settings;
+    if (confidenceThreshold !== undefined && (typeof confidenceThreshold !== 'number' || confidenceThreshold < 0 || confidenceThreshold > 1)) {
+      errors.push('review.confidenceThreshold must be a number between 0 and 1');
+    }
+
+    return ConfigValidator.combineValidationResults(
+      { isValid: errors.length === 0, errors },
+      ConfigValidator.validateInteger(settings.maxEntries, 'review.maxEntries', 1, 10000, false)
+    );
+  }
+
+  /**
+   * Validates when the scraper replaces its browser
+   */
+  private validateBrowserRecycling(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // Recycling settings are optional
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['browserRecycling must be a valid object']
+      };
+    }
+
+    return ConfigValidator.combineValidationResults(
+      ConfigValidator.validateInteger(settings.maxPagesPerBrowser, 'browserRecycling.maxPagesPerBrowser', 0, 100000, false),
+      ConfigValidator.validateInteger(settings.maxMemoryMb, 'browserRecycling.maxMemoryMb', 0, 65536, false)
+    );
+  }
+
+  /**
+   * Validates what browser pages load and when they count as ready
+   */
+  private validateResourcePolicy(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // The default policy applies
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['resourcePolicy must be a valid object']
+      };
+    }
+
+    const errors: string[] = [];
+    if (settings.blockResourceTypes !== undefined) {
+      if (!Array.isArray(settings.blockResourceTypes)) {
+        errors.push('resourcePolicy.blockResourceTypes must be an array');
+      } else {
+        const unknown = settings.blockResourceTypes.filter((type: any) => !BLOCKABLE_RESOURCE_TYPES.includes(type));
+        if (unknown.length > 0) {
+          errors.push(`resourcePolicy.blockResourceTypes contains unknown types: ${unknown.join(', ')}. Valid types: ${BLOCKABLE_RESOURCE_TYPES.join(', ')}`);
+        }
+      }
+    }
+    if (settings.blockThirdParty !== undefined && typeof settings.blockThirdParty !== 'boolean') {
+      errors.push('resourcePolicy.blockThirdParty must be a boolean');
+    }
+
+    return ConfigValidator.combineValidationResults(
+      { isValid: errors.length === 0, errors },
+      ConfigValidator.validateStringArray(settings.allowHosts, 'resourcePolicy.allowHosts', false),
+      ConfigValidator.validateEnum(settings.readiness, 'resourcePolicy.readiness', ['content', 'network-idle'], false),
+      ConfigValidator.validateInteger(settings.readinessTimeoutMs, 'resourcePolicy.readinessTimeoutMs', 0, 60000, false)
+    );
+  }
+
+  /**
+   * Validates the adaptive check interval bounds
+   */
+  private validateAdaptiveInterval(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // The fixed checkInterval is used by default
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['adaptiveInterval must be a valid object']
+      };
+    }
+
+    const errors: string[] = [];
+    if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+      errors.push('adaptiveInterval.enabled must be a boolean');
+    }
+    // A missing bound falls back to its default, which the other bound must not cross
+    const minIntervalMs = settings.minIntervalMs ?? DEFAULT_ADAPTIVE_MIN_INTERVAL_MS;
+    const maxIntervalMs = settings.maxIntervalMs ?? DEFAULT_ADAPTIVE_MAX_INTERVAL_MS;
+    if (Number.isInteger(minIntervalMs) && Number.isInteger(maxIntervalMs) && minIntervalMs > maxIntervalMs) {
+      errors.push(`adaptiveInterval.minIntervalMs (${minIntervalMs}) must not be greater than adaptiveInterval.maxIntervalMs (${maxIntervalMs})`);
+    }
+
+    return ConfigValidator.combineValidationResults(
+      { isValid: errors.length === 0, errors },
+      ConfigValidator.validateInteger(settings.minIntervalMs, 'adaptiveInterval.minIntervalMs', 5000, 3600000, false),
+      ConfigValidator.validateInteger(settings.maxIntervalMs, 'adaptiveInterval.maxIntervalMs', 5000, 21600000, false),
+      ConfigValidator.validateInteger(settings.lookbackDays, 'adaptiveInterval.lookbackDays', 1, 365, false)
+    );
+  }
+
+  /**
+   * Validates the evidence archive of anomalous checks
+   */
+  private validateEvidenceSettings(settings: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // Evidence capture is off by default
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['evidence must be a valid object']
+      };
+    }
+
+    const errors: string[] = [];
+    if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+      errors.push('evidence.enabled must be a boolean');
+    }
+
+    return ConfigValidator.combineValidationResults(
+      { isValid: errors.length === 0, errors },
+      ConfigValidator.validateInteger(settings.maxEntries, 'evidence.maxEntries', 1, 1000, false),
+      ConfigValidator.validateInteger(settings.maxSizeMb, 'evidence.maxSizeMb', 1, 10000, false)
+    );
+  }
+
+  /**
+   * Validates the scraper proxy pool
+   */
+  private validateProxyConfig(settings: any, scraperBackend: any): ValidationResult {
+    if (settings === undefined) {
+      return { isValid: true, errors: [] }; // Proxies are optional
+    }
+
+    if (!settings || typeof settings !== 'object') {
+      return {
+        isValid: false,
+        errors: ['proxy must be a valid object']
+      };
+    }
+
+    const proxiesValidation = ConfigValidator.validateStringArray(settings.proxies, 'proxy.proxies', true);
+    const errors: string[] = [];
+    if (proxiesValidation.isValid) {
+      (settings.proxies as string[]).forEach((proxyUrl, index) => {
+        const error = ProxyPool.validate(proxyUrl);
+        if (error) {
+          errors.push(`proxy.proxies[${index}]: ${error}`);
+        } else if ((scraperBackend || 'puppeteer') === 'puppeteer' && /^socks[45]:\/\/[^/]*@/.test(proxyUrl)) {
+          errors.push(`proxy.proxies[${index}]: Chromium does not support SOCKS proxies with credentials; use the http scraper backend or an HTTP proxy`);
+        }
+      });
+    }
+
+    return ConfigValidator.combineValidationResults(
+      proxiesValidation,
+      { isValid: errors.length === 0, errors },
+      ConfigValidator.validateEnum(settings.rotation, 'proxy.rotation', ['per-check', 'per-url'], false),
+      ConfigValidator.validateInteger(settings.maxConsecutiveFailures, 'proxy.maxConsecutiveFailures', 1, 100, false),
+      ConfigValidator.validateInteger(settings.evictionMs, 'proxy.evictionMs', 0, 24 * 60 * 60 * 1000, false)
+    );
+  }
+
   /**
    * Gets the default configuration template
    */
@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { InspectionData } from '../models/types';
+import { EvidenceReference, InspectionData } from '../models/types';
 
 /**
  * Configuration for data inspection service
@@ -126,6 +126,28 @@ export class DataInspectionService {
     }
   }
 
+  /**
+   * Links evidence saved for an anomalous page load to its inspection record
+   */
+  async attachEvidence(id: string, evidence: EvidenceReference): Promise<boolean> {
+    const filePath = this.getInspectionFilePath();
+    let records: InspectionRecord[];
+    try {
+      records = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return false;
+    }
+
+    const record = records.find(candidate => candidate.id === id);
+    if (!record) {
+      return false;
+    }
+
+    record.data.evidence = evidence;
+    await fs.writeFile(filePath, JSON.stringify(records, null, 2), 'utf-8');
+    return true;
+  }
+
   /**
    * Retrieves all inspection records with optional limit
    */
@@ -156,6 +178,9 @@ export class DataInspectionService {
     summary += `Page Title: ${data.pageTitle}\n`;
     summary += `\n--- PARSING RESULTS ---\n`;
     summary += `Check Type: ${checkResult.type.toUpperCase()}\n`;
+    if (checkResult.extractionPath) {
+      summary += `Extraction Path: ${checkResult.extractionPath}\n`;
+    }
     summary += `Total Appointments: ${checkResult.appointmentCount}\n`;
     summary += `Available Appointments: ${checkResult.availableCount}\n`;
     summary += `Filled Appointments: ${checkResult.filledCount}\n`;
@@ -190,6 +215,15 @@ export class DataInspectionService {
       });
     }
 
+    if (data.evidence) {
+      summary += `--- EVIDENCE (${data.evidence.reason}) ---\n`;
+      summary += `ID: ${data.evidence.id}\n`;
+      data.evidence.files.forEach(file => {
+        summary += `${file}\n`;
+      });
+      summary += `\n`;
+    }
+
     summary += `=== END INSPECTION ===\n`;
     return summary;
   }
@@ -208,7 +242,11 @@ export class DataInspectionService {
     output += `Inspection ID: ${record.id}\n`;
     output += `Timestamp: ${new Date(record.timestamp).toLocaleString()}\n`;
     output += `URL: ${data.url}\n`;
-    output += `Page Title: ${data.pageTitle}\n\n`;
+    output += `Page Title: ${data.pageTitle}\n`;
+    if (data.checkResult.extractionPath) {
+      output += `Extraction Path: ${data.checkResult.extractionPath}\n`;
+    }
+    output += `\n`;
     
     // Check Results Summary
     output += `CHECK RESULTS SUMMARY\n`;
@@ -218,6 +256,16 @@ export class DataInspectionService {
     output += `Available for Booking: ${data.checkResult.availableCount}\n`;
     output += `Filled/Unavailable: ${data.checkResult.filledCount}\n`;
     output += `Check Timestamp: ${new Date(data.checkResult.timestamp).toLocaleString()}\n\n`;
+
+    if (data.evidence) {
+      output += `EVIDENCE (${data.evidence.reason})\n`;
+      output += `${'-'.repeat(25)}\n`;
+      output += `Evidence ID: ${data.evidence.id}\n`;
+      data.evidence.files.forEach(file => {
+        output += `  ${file}\n`;
+      });
+      output += `\n`;
+    }
     
     // Detected Elements
     output += `DETECTED PAGE ELEMENTS\n`;
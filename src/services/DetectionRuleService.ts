@@ -0,0 +1,346 @@
+import { promises as fs } from 'fs';
+import { DetectionRuleSet } from '../models/types';
+import { validateDetectionRuleSet } from '../models/validation';
+
+/**
+ * Configuration for detection rule loading
+ */
+export interface DetectionRuleServiceConfig {
+  rulesFile: string;
+  defaultRules: DetectionRuleSet; // Built-in rules used when the rule file is missing
+}
+
+/**
+ * Describes the rule set currently in use
+ */
+export interface DetectionRuleSetInfo {
+  version: string;
+  source: 'file' | 'built-in';
+  rulesFile: string;
+  ruleCount: number;
+  loadedAt: Date | null;
+  lastError?: string;
+}
+
+/**
+ * Built-in rule set, used when the rule file is missing or invalid.
+ * config/detection-rules.json ships with the same content and can be edited
+ * in place to follow label changes on the site without a rebuild.
+ */
+export const DEFAULT_DETECTION_RULES: DetectionRuleSet = {
+  version: '1.0.0',
+  description: 'Status detection rules for irsafam.org IELTS timetable',
+  rules: [
+    {
+      id: 'persian-capacity-full',
+      description: 'Highest priority filled indicator: تکمیل ظرفیت',
+      status: 'filled',
+      priority: 10,
+      weight: 1.0,
+      indicatorType: 'text-content',
+      match: { text: ['تکمیل ظرفیت'], html: ['تکمیل ظرفیت'] }
+    },
+    {
+      id: 'disabled-class',
+      description: 'Disabled CSS class on the exam item',
+      status: 'filled',
+      priority: 20,
+      weight: 0.95,
+      indicatorType: 'css-class',
+      match: { classes: ['disabled'], classContains: ['exam__item ielts disabled'] }
+    },
+    {
+      id: 'disable-button-class',
+      description: 'btn disable class in button element',
+      status: 'filled',
+      priority: 30,
+      weight: 0.95,
+      indicatorType: 'button-class',
+      match: { selectors: ['.btn.disable', 'span.btn.disable', 'button.disable', '.disable'] }
+    },
+    {
+      id: 'filled-class',
+      description: 'Filled CSS class',
+      status: 'filled',
+      priority: 40,
+      weight: 0.9,
+      indicatorType: 'css-class',
+      match: {
+        classes: ['inactive', 'unavailable', 'full', 'closed', 'filled', 'sold-out'],
+        classContains: ['btn-disabled']
+      }
+    },
+    {
+      id: 'persian-filled-text',
+      description: 'Persian filled indicator',
+      status: 'filled',
+      priority: 50,
+      weight: 0.9,
+      indicatorType: 'text-content',
+      match: {
+        text: ['تکمیل', 'پر شده', 'بسته شده', 'تمام شده', 'موجود نیست', 'پر'],
+        html: ['تکمیل']
+      }
+    },
+    {
+      id: 'english-filled-text',
+      description: 'English filled indicator',
+      status: 'filled',
+      priority: 60,
+      weight: 0.9,
+      indicatorType: 'text-content',
+      match: {
+        textIgnoreCase: ['full', 'closed', 'filled', 'capacity full', 'sold out', 'booked', 'unavailable', 'no spaces', 'no slots', 'completed']
+      }
+    },
+    {
+      id: 'disabled-button',
+      description: 'Disabled button element',
+      status: 'filled',
+      priority: 70,
+      weight: 0.9,
+      indicatorType: 'interactive-element',
+      match: {
+        selectors: [
+          'button[disabled]',
+          'button.disabled',
+          '.btn[disabled]',
+          '.btn.disabled',
+          '.btn.btn-disabled',
+          '.disabled button',
+          '.disabled .btn',
+          'input[disabled]'
+        ]
+      }
+    },
+    {
+      id: 'available-class',
+      description: 'Available CSS class',
+      status: 'available',
+      priority: 100,
+      weight: 0.9,
+      indicatorType: 'css-class',
+      match: {
+        classes: ['enabled', 'available', 'active', 'bookable', 'open'],
+        classContains: ['enable']
+      }
+    },
+    {
+      id: 'limited-capacity-class',
+      description: 'Near-full/limited class (available with limited capacity)',
+      status: 'available',
+      priority: 110,
+      weight: 0.8,
+      indicatorType: 'css-class',
+      match: { classes: ['near-full', 'limited', 'few-spots'] }
+    },
+    {
+      id: 'persian-registrable-text',
+      description: 'قابل ثبت نام text for available status',
+      status: 'available',
+      priority: 120,
+      weight: 0.95,
+      indicatorType: 'text-content',
+      match: { text: ['قابل ثبت نام'], html: ['قابل ثبت نام'] }
+    },
+    {
+      id: 'active-registration-button',
+      description: 'Active registration button without disabled attributes',
+      status: 'available',
+      priority: 130,
+      weight: 0.9,
+      indicatorType: 'interactive-element',
+      match: {
+        selectors: [
+          'button:not([disabled]):not(.disabled):not(.btn-disabled)',
+          '.btn:not([disabled]):not(.disabled):not(.btn-disabled)',
+          '.register:not([disabled]):not(.disabled)',
+          '.book:not([disabled]):not(.disabled)',
+          '.reserve:not([disabled]):not(.disabled)',
+          'input[type="submit"]:not([disabled]):not(.disabled)',
+          'input[type="button"]:not([disabled]):not(.disabled)'
+        ]
+      }
+    },
+    {
+      id: 'registration-link',
+      description: 'Registration link',
+      status: 'available',
+      priority: 140,
+      weight: 0.85,
+      indicatorType: 'interactive-element',
+      match: {
+        selectors: [
+          'a[href*="register"]:not(.disabled)',
+          'a[href*="book"]:not(.disabled)',
+          'a[href*="signup"]:not(.disabled)',
+          'a[href*="reserve"]:not(.disabled)',
+          'a[href*="appointment"]:not(.disabled)',
+          'a[onclick]:not(.disabled)'
+        ]
+      }
+    },
+    {
+      id: 'persian-available-text',
+      description: 'Persian available text',
+      status: 'available',
+      priority: 150,
+      weight: 0.8,
+      indicatorType: 'text-content',
+      match: { text: ['ثبت نام', 'رزرو', 'موجود', 'آزاد', 'باز'], html: ['رزرو'] }
+    },
+    {
+      id: 'english-available-text',
+      description: 'English available text',
+      status: 'available',
+      priority: 160,
+      weight: 0.8,
+      indicatorType: 'text-content',
+      match: {
+        textIgnoreCase: ['available', 'register now', 'book now', 'reserve now', 'sign up', 'enroll', 'open for registration']
+      }
+    },
+    {
+      id: 'clickable-element',
+      description: 'onclick attribute indicating clickable appointment',
+      status: 'available',
+      priority: 170,
+      weight: 0.75,
+      indicatorType: 'interactive-element',
+      match: { attributes: ['onclick', 'data-onclick', 'data-action'] }
+    },
+    {
+      id: 'not-registerable-text',
+      description: 'Not-registerable indicator',
+      status: 'not-registerable',
+      priority: 200,
+      weight: 0.9,
+      indicatorType: 'text-content',
+      match: {
+        textIgnoreCase: ['not registerable', 'registration closed', 'expired', 'deadline passed'],
+        text: ['قابل ثبت نام نیست', 'مهلت ثبت نام گذشته', 'منقضی شده']
+      }
+    },
+    {
+      id: 'pending-text',
+      description: 'Pending/waiting indicator',
+      status: 'pending',
+      priority: 210,
+      weight: 0.8,
+      indicatorType: 'text-content',
+      match: {
+        textIgnoreCase: ['pending', 'waiting', 'in progress', 'processing'],
+        text: ['در انتظار', 'در حال بررسی', 'در حال پردازش']
+      }
+    }
+  ],
+  contextual: {
+    patterns: [
+      '\\d{4}-\\d{2}-\\d{2}|\\d{2}\\/\\d{2}\\/\\d{4}|\\d{1,2}\\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)',
+      '\\d{1,2}:\\d{2}',
+      '\\d{4}\\/\\d{1,2}\\/\\d{1,2}|\\d{1,2}\\s+(فروردین|اردیبهشت|خرداد|تیر|مرداد|شهریور|مهر|آبان|آذر|دی|بهمن|اسفند)'
+    ],
+    keywords: ['ielts', 'exam', 'test', 'آزمون', 'امتحان'],
+    weight: 0.1
+  },
+  noSlotsIndicators: {
+    text: ['هیچ آزمونی پیدا نشد', 'آزمونی پیدا نشد', 'موردی یافت نشد'],
+    textIgnoreCase: ['no appointments found', 'no exams available', 'not found']
+  }
+};
+
+/**
+ * Loads and validates the declarative status detection rule set.
+ * The rule file is re-read whenever it changes on disk; if it becomes invalid
+ * the last valid rule set keeps being used.
+ */
+export class DetectionRuleService {
+  private config: DetectionRuleServiceConfig;
+  private ruleSet: DetectionRuleSet;
+  private source: 'file' | 'built-in' = 'built-in';
+  private loadedAt: Date | null = null;
+  private loadedMtime: number | null = null;
+  private lastError?: string;
+
+  constructor(config?: Partial<DetectionRuleServiceConfig>) {
+    this.config = {
+      rulesFile: 'config/detection-rules.json',
+      defaultRules: DEFAULT_DETECTION_RULES,
+      ...config
+    };
+    this.ruleSet = this.config.defaultRules;
+  }
+
+  /**
+   * Get the current rule set, reloading the rule file if it changed
+   */
+  async loadRules(): Promise<DetectionRuleSet> {
+    let mtime: number;
+    try {
+      const stats = await fs.stat(this.config.rulesFile);
+      mtime = stats.mtimeMs;
+    } catch {
+      if (this.source === 'file' || this.loadedAt === null) {
+        console.warn(`⚠️  Detection rule file not found (${this.config.rulesFile}), using built-in rules v${this.config.defaultRules.version}`);
+      }
+      this.useBuiltInRules();
+      return this.ruleSet;
+    }
+
+    if (this.loadedMtime === mtime) {
+      return this.ruleSet;
+    }
+    this.loadedMtime = mtime;
+
+    try {
+      const data = await fs.readFile(this.config.rulesFile, 'utf-8');
+      const parsed = JSON.parse(data);
+      const validation = validateDetectionRuleSet(parsed);
+
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join('; '));
+      }
+
+      this.ruleSet = parsed as DetectionRuleSet;
+      this.source = 'file';
+      this.loadedAt = new Date();
+      delete this.lastError;
+      console.log(`📐 Loaded detection rules v${this.ruleSet.version} (${this.ruleSet.rules.length} rules) from ${this.config.rulesFile}`);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Invalid detection rule file ${this.config.rulesFile}: ${this.lastError}`);
+      console.warn(`⚠️  Continuing with ${this.source} detection rules v${this.ruleSet.version}`);
+      if (this.loadedAt === null) {
+        this.loadedAt = new Date();
+      }
+    }
+
+    return this.ruleSet;
+  }
+
+  /**
+   * Describe the rule set currently in use
+   */
+  getRuleSetInfo(): DetectionRuleSetInfo {
+    const info: DetectionRuleSetInfo = {
+      version: this.ruleSet.version,
+      source: this.source,
+      rulesFile: this.config.rulesFile,
+      ruleCount: this.ruleSet.rules.length,
+      loadedAt: this.loadedAt
+    };
+
+    if (this.lastError) {
+      info.lastError = this.lastError;
+    }
+
+    return info;
+  }
+
+  private useBuiltInRules(): void {
+    this.ruleSet = this.config.defaultRules;
+    this.source = 'built-in';
+    this.loadedAt = new Date();
+    this.loadedMtime = null;
+  }
+}
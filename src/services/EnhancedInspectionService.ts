@@ -266,6 +266,11 @@ export class EnhancedInspectionService {
           city: apt.city,
           status: apt.status,
           ...(apt.price !== undefined && { price: apt.price }),
+          ...(apt.priceCurrency !== undefined && { priceCurrency: apt.priceCurrency }),
+          ...(apt.module !== undefined && { module: apt.module }),
+          ...(apt.testFormat !== undefined && { testFormat: apt.testFormat }),
+          ...(apt.ukvi !== undefined && { ukvi: apt.ukvi }),
+          ...(apt.seatsLeft !== undefined && { seatsLeft: apt.seatsLeft }),
           ...(apt.registrationUrl !== undefined && { registrationUrl: apt.registrationUrl }),
           ...(apt.rawHtml !== undefined && { rawHtml: apt.rawHtml })
         } as Appointment))
@@ -377,6 +382,12 @@ export class EnhancedInspectionService {
     report += `URL: ${inspectionData.url}\n`;
     report += `Page Title: ${inspectionData.pageTitle}\n`;
     report += `Timestamp: ${new Date().toLocaleString()}\n`;
+    if (inspectionData.extractionPath) {
+      report += `Extraction Path: ${inspectionData.extractionPath === 'network-json' ? 'JSON payload (network)' : 'DOM parsing'}\n`;
+    }
+    inspectionData.networkPayloadUrls?.forEach(payloadUrl => {
+      report += `   Payload: ${payloadUrl}\n`;
+    });
     
     // Detection Strategies Summary
     report += `\n--- DETECTION STRATEGIES ---\n`;
@@ -437,6 +448,13 @@ export class EnhancedInspectionService {
       report += `Element Detection Time: ${metrics.elementDetectionTime}ms\n`;
       report += `Status Detection Time: ${metrics.statusDetectionTime}ms\n`;
       report += `Parsing Time: ${metrics.parsingTime}ms\n`;
+      if (metrics.pageLoad) {
+        report += `Navigation Time: ${metrics.pageLoad.navigationTime}ms\n`;
+        report += `Readiness Wait: ${metrics.pageLoad.readinessTime}ms${metrics.pageLoad.readySignal ? ` (${metrics.pageLoad.readySignal})` : ''}\n`;
+        if (metrics.pageLoad.requestsBlocked !== undefined) {
+          report += `Requests: ${metrics.pageLoad.requestsAllowed} loaded, ${metrics.pageLoad.requestsBlocked} blocked\n`;
+        }
+      }
     }
 
     report += `\n=== END ENHANCED INSPECTION ===\n`;
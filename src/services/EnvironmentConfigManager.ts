@@ -16,6 +16,13 @@ export class EnvironmentConfigManager {
       monitorExamModels: process.env.MONITOR_EXAM_MODELS ? process.env.MONITOR_EXAM_MODELS.split(',').map(model => model.trim()) : undefined,
       monitorMonths: process.env.MONITOR_MONTHS ? process.env.MONITOR_MONTHS.split(',').map(month => parseInt(month.trim())) : undefined,
       monitorBaseUrl: process.env.MONITOR_BASE_URL,
+      monitorProvider: process.env.MONITOR_PROVIDER,
+      monitorScraperBackend: process.env.MONITOR_SCRAPER_BACKEND,
+      monitorMonthCalendar: process.env.MONITOR_MONTH_CALENDAR,
+      monitorScrapeConcurrency: process.env.MONITOR_SCRAPE_CONCURRENCY ? parseInt(process.env.MONITOR_SCRAPE_CONCURRENCY) : undefined,
+      monitorProxies: process.env.MONITOR_PROXIES ? process.env.MONITOR_PROXIES.split(',').map(proxy => proxy.trim()).filter(Boolean) : undefined,
+      monitorProxyRotation: process.env.MONITOR_PROXY_ROTATION,
+      monitorDateFilter: process.env.MONITOR_DATE_FILTER,
       logLevel: process.env.MONITOR_LOG_LEVEL,
       enableSecureLogging: process.env.ENABLE_SECURE_LOGGING === 'true',
       maskSensitiveData: process.env.MASK_SENSITIVE_DATA === 'true',
@@ -25,11 +32,11 @@ export class EnvironmentConfigManager {
   }
 
   /**
-   * Create Telegram configuration from environment variables
+   * Create Telegram configuration from environment variables, optionally for
+   * another chat than TELEGRAM_CHAT_ID (e.g. the chat of a watch profile)
    */
-  static createTelegramConfig(): TelegramConfig | null {
+  static createTelegramConfig(chatId: string | undefined = process.env.TELEGRAM_CHAT_ID): TelegramConfig | null {
     const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    const chatId = process.env.TELEGRAM_CHAT_ID;
 
     if (!botToken || !chatId) {
       return null;
@@ -45,7 +52,8 @@ export class EnvironmentConfigManager {
       enablePreview: process.env.TELEGRAM_ENABLE_PREVIEW !== 'false', // Default to true
       retryAttempts: process.env.TELEGRAM_RETRY_ATTEMPTS ? parseInt(process.env.TELEGRAM_RETRY_ATTEMPTS) : 3,
       retryDelay: process.env.TELEGRAM_RETRY_DELAY ? parseInt(process.env.TELEGRAM_RETRY_DELAY) : 1000,
-      isChannel: process.env.TELEGRAM_IS_CHANNEL === 'true' || isChannel
+      isChannel: process.env.TELEGRAM_IS_CHANNEL === 'true' || isChannel,
+      adminChatId: process.env.TELEGRAM_ADMIN_CHAT_ID
     };
   }
 
@@ -136,6 +144,7 @@ export class EnvironmentConfigManager {
       { name: 'MONITOR_CHECK_INTERVAL', value: process.env.MONITOR_CHECK_INTERVAL },
       { name: 'MONITOR_CITIES', value: process.env.MONITOR_CITIES },
       { name: 'MONITOR_EXAM_MODELS', value: process.env.MONITOR_EXAM_MODELS },
+      { name: 'MONITOR_DATE_FILTER', value: process.env.MONITOR_DATE_FILTER },
       { name: 'MONITOR_LOG_LEVEL', value: process.env.MONITOR_LOG_LEVEL }
     ];
 
@@ -3,6 +3,7 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import { StatusLoggerService } from './StatusLoggerService';
 import { NotificationService } from './NotificationService';
+import { PageIssue, PageIssueKind } from '../models/types';
 
 /**
  * Error types for categorization and handling
@@ -73,6 +74,7 @@ export class ErrorHandlerService extends EventEmitter {
   private recoveryAttempts: Map<string, number> = new Map();
   private persistentErrorThreshold: number = 5;
   private errorLogPath: string;
+  private consecutivePageIssues: Map<PageIssueKind, number> = new Map();
 
   constructor(
     statusLogger: StatusLoggerService,
@@ -283,6 +285,68 @@ export class ErrorHandlerService extends EventEmitter {
     }
   }
 
+  /**
+   * Backoff for checks after the site served a blocked, maintenance or error page.
+   * Checks are skipped rather than retried; hammering a challenge page only prolongs a block.
+   */
+  getPageIssueStrategy(kind: PageIssueKind): RecoveryStrategy {
+    switch (kind) {
+      case 'blocked':
+        return { type: 'skip', delay: 10 * 60 * 1000, backoffMultiplier: 2, maxDelay: 2 * 60 * 60 * 1000 };
+      case 'maintenance':
+        return { type: 'skip', delay: 15 * 60 * 1000, backoffMultiplier: 1.5, maxDelay: 60 * 60 * 1000 };
+      case 'error':
+      default:
+        return { type: 'skip', delay: 60 * 1000, backoffMultiplier: 2, maxDelay: 15 * 60 * 1000 };
+    }
+  }
+
+  /**
+   * Record a check whose pages were classified as blocked, maintenance or error
+   * and return how long to wait before the next check
+   */
+  async handlePageIssues(issues: PageIssue[]): Promise<number> {
+    if (issues.length === 0) {
+      return 0;
+    }
+
+    // The most disruptive kind decides the backoff
+    const kind = (['blocked', 'maintenance', 'error'] as const).find(k => issues.some(issue => issue.kind === k))!;
+    const occurrences = (this.consecutivePageIssues.get(kind) || 0) + 1;
+    this.consecutivePageIssues.set(kind, occurrences);
+
+    const strategy = this.getPageIssueStrategy(kind);
+    const delay = Math.min(
+      (strategy.delay || 60000) * Math.pow(strategy.backoffMultiplier || 1, occurrences - 1),
+      strategy.maxDelay || strategy.delay || 60000
+    );
+
+    await this.statusLogger.logWarn(`Site served a ${kind} page, backing off`, {
+      kind,
+      occurrences,
+      delay,
+      issues: issues.map(issue => ({ url: issue.url, reason: issue.reason, httpStatus: issue.httpStatus }))
+    });
+    await this.logToErrorFile({
+      timestamp: new Date(),
+      type: `page_${kind}`,
+      message: issues[0].reason,
+      occurrences,
+      delay,
+      issues
+    });
+
+    this.emit('page-issue', kind, issues, delay);
+    return delay;
+  }
+
+  /**
+   * Reset the page issue backoff after a check that saw the timetable again
+   */
+  resetPageIssueBackoff(): void {
+    this.consecutivePageIssues.clear();
+  }
+
   /**
    * Check if error can be recovered from
    */
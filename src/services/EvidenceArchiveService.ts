@@ -0,0 +1,310 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import { EvidenceReference } from '../models/types';
+
+/**
+ * Configuration for the evidence archive
+ */
+export interface EvidenceArchiveConfig {
+  directory: string;
+  maxEntries: number; // Oldest evidence is deleted beyond this
+  maxSizeBytes: number; // Oldest evidence is deleted beyond this total size
+}
+
+/**
+ * HAR 1.2 log as written to network.har. Only the fields the recorder fills are typed.
+ */
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: Array<{ id: string; title: string; startedDateTime: string; pageTimings: Record<string, number> }>;
+    entries: HarEntry[];
+  };
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: { method: string; url: string; httpVersion: string; headers: HarHeader[]; queryString: HarHeader[]; cookies: []; headersSize: -1; bodySize: -1 };
+  response: { status: number; statusText: string; httpVersion: string; headers: HarHeader[]; cookies: []; content: { size: number; mimeType: string }; redirectURL: string; headersSize: -1; bodySize: -1 };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _resourceType: string;
+  _failure?: string | undefined; // Network error or 'blockedbyclient' for requests the resource policy blocked
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Network log being recorded on a page
+ */
+export interface NetworkLogRecorder {
+  stop(): HarLog;
+}
+
+/**
+ * What could be captured from an anomalous page load
+ */
+export interface EvidenceCapture {
+  url: string;
+  reason: string;
+  inspectionId?: string | undefined;
+  screenshot?: Uint8Array | undefined;
+  dom?: string | undefined;
+  networkLog?: HarLog | undefined;
+}
+
+/**
+ * Manifest saved next to the artifacts of one evidence entry
+ */
+export interface EvidenceManifest {
+  id: string;
+  createdAt: string; // ISO timestamp
+  url: string;
+  reason: string;
+  inspectionId?: string | undefined;
+  files: string[]; // File names inside the entry's directory
+  sizeBytes: number;
+}
+
+const MAX_HAR_ENTRIES = 500;
+const REDACTED_HEADERS = ['cookie', 'set-cookie', 'authorization', 'proxy-authorization'];
+
+/**
+ * Keeps full-page screenshots, final DOM and HAR-style network logs of anomalous
+ * checks (failed loads, blocked pages, vanished slots, low-confidence detections)
+ * in one directory per page load. Text inspection notes rarely explain such
+ * checks on their own. The archive is capped by entry count and total size; the
+ * oldest entries are deleted first.
+ */
+export class EvidenceArchiveService {
+  private config: EvidenceArchiveConfig;
+
+  constructor(config?: Partial<EvidenceArchiveConfig>) {
+    this.config = {
+      directory: path.join('data', 'evidence'),
+      maxEntries: 20,
+      maxSizeBytes: 100 * 1024 * 1024, // 100 MB
+      ...config
+    };
+  }
+
+  /**
+   * Save the captured artifacts and prune the archive. Returns where they went.
+   */
+  async save(capture: EvidenceCapture, now: Date = new Date()): Promise<EvidenceReference> {
+    const id = `evidence_${now.getTime()}_${Math.random().toString(36).substr(2, 6)}`;
+    const directory = path.join(this.config.directory, id);
+    const artifacts: Array<[string, string | Uint8Array]> = [];
+
+    if (capture.screenshot) artifacts.push(['screenshot.png', capture.screenshot]);
+    if (capture.dom !== undefined) artifacts.push(['page.html', capture.dom]);
+    if (capture.networkLog) artifacts.push(['network.har', JSON.stringify(capture.networkLog, null, 2)]);
+
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      let sizeBytes = 0;
+      for (const [file, content] of artifacts) {
+        await fs.writeFile(path.join(directory, file), content);
+        sizeBytes += typeof content === 'string' ? Buffer.byteLength(content) : content.byteLength;
+      }
+
+      const manifest: EvidenceManifest = {
+        id,
+        createdAt: now.toISOString(),
+        url: capture.url,
+        reason: capture.reason,
+        inspectionId: capture.inspectionId,
+        files: artifacts.map(([file]) => file),
+        sizeBytes
+      };
+      await fs.writeFile(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to save evidence for ${capture.url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    await this.prune(id);
+
+    return {
+      id,
+      reason: capture.reason,
+      directory,
+      files: artifacts.map(([file]) => path.join(directory, file))
+    };
+  }
+
+  /**
+   * Evidence entries, newest first
+   */
+  async list(): Promise<EvidenceManifest[]> {
+    let ids: string[];
+    try {
+      ids = (await fs.readdir(this.config.directory)).filter(name => name.startsWith('evidence_'));
+    } catch {
+      return [];
+    }
+
+    const manifests = await Promise.all(ids.map(id => this.get(id)));
+    return manifests
+      .filter((manifest): manifest is EvidenceManifest => manifest !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<EvidenceManifest | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.config.directory, path.basename(id), 'manifest.json'), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Evidence saved for an inspection record, if any
+   */
+  async findByInspectionId(inspectionId: string): Promise<EvidenceManifest | null> {
+    return (await this.list()).find(manifest => manifest.inspectionId === inspectionId) || null;
+  }
+
+  getDirectory(id: string): string {
+    return path.join(this.config.directory, path.basename(id));
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.config.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Delete the oldest entries beyond the count and size caps; the newest entry is always kept
+   */
+  private async prune(keepId: string): Promise<void> {
+    const manifests = await this.list();
+    let totalBytes = manifests.reduce((total, manifest) => total + manifest.sizeBytes, 0);
+    let count = manifests.length;
+
+    for (const manifest of manifests.slice().reverse()) {
+      if (manifest.id === keepId || (count <= this.config.maxEntries && totalBytes <= this.config.maxSizeBytes)) {
+        break;
+      }
+      await fs.rm(this.getDirectory(manifest.id), { recursive: true, force: true });
+      count--;
+      totalBytes -= manifest.sizeBytes;
+    }
+  }
+}
+
+/**
+ * Start recording the requests of a page as HAR entries. Call before navigating.
+ * Returns null when the page does not support request events.
+ */
+export function recordNetworkLog(page: Page, pageUrl: string): NetworkLogRecorder | null {
+  const startedAt = new Date();
+  const pending = new Map<HTTPRequest, { entry: HarEntry; startedAt: number }>();
+  const entries: HarEntry[] = [];
+
+  const onRequest = (request: HTTPRequest) => {
+    if (entries.length >= MAX_HAR_ENTRIES) {
+      return;
+    }
+    const url = request.url();
+    const entry: HarEntry = {
+      pageref: 'page_1',
+      startedDateTime: new Date().toISOString(),
+      time: 0,
+      request: {
+        method: request.method(),
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: toHarHeaders(request.headers()),
+        queryString: toQueryString(url),
+        cookies: [],
+        headersSize: -1,
+        bodySize: -1
+      },
+      response: { status: 0, statusText: '', httpVersion: 'HTTP/1.1', headers: [], cookies: [], content: { size: 0, mimeType: '' }, redirectURL: '', headersSize: -1, bodySize: -1 },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+      _resourceType: request.resourceType()
+    };
+    entries.push(entry);
+    pending.set(request, { entry, startedAt: Date.now() });
+  };
+
+  const onResponse = (response: HTTPResponse) => {
+    const record = pending.get(response.request());
+    if (!record) {
+      return;
+    }
+    const headers = response.headers();
+    record.entry.time = Date.now() - record.startedAt;
+    record.entry.timings.wait = record.entry.time;
+    record.entry.response = {
+      ...record.entry.response,
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: toHarHeaders(headers),
+      content: { size: Number(headers['content-length'] || 0), mimeType: headers['content-type'] || '' },
+      redirectURL: headers['location'] || ''
+    };
+  };
+
+  const onRequestFailed = (request: HTTPRequest) => {
+    const record = pending.get(request);
+    if (record) {
+      record.entry.time = Date.now() - record.startedAt;
+      record.entry._failure = request.failure()?.errorText || 'failed';
+    }
+  };
+
+  try {
+    page.on('request', onRequest);
+    page.on('response', onResponse);
+    page.on('requestfailed', onRequestFailed);
+  } catch {
+    // Recording is best effort; the screenshot and DOM are still saved
+    return null;
+  }
+
+  return {
+    stop: () => {
+      try {
+        page.off('request', onRequest);
+        page.off('response', onResponse);
+        page.off('requestfailed', onRequestFailed);
+      } catch {
+        // The page may already be closed
+      }
+      return {
+        log: {
+          version: '1.2',
+          creator: { name: 'ielts-appointment-monitor', version: '1.0.0' },
+          pages: [{ id: 'page_1', title: pageUrl, startedDateTime: startedAt.toISOString(), pageTimings: {} }],
+          entries
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Header list with credentials and cookies left out, since evidence is shared for debugging
+ */
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value
+  }));
+}
+
+function toQueryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,281 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AppointmentProvider, ProviderCity, getProvider } from './providers';
+import { StaticHtmlPage } from './StaticHtmlPage';
+
+/**
+ * Configuration for filter option discovery
+ */
+export interface FilterOptionDiscoveryConfig {
+  cacheFile: string;
+  ttlMs: number; // Discovered options older than this are read from the site again
+  timeoutMs: number; // Timeout of the timetable request made by getOptions()
+}
+
+/**
+ * Filter options read from a provider's timetable page
+ */
+export interface DiscoveredFilterOptions {
+  url: string; // Page the options were read from
+  discoveredAt: string; // ISO timestamp
+  cities: ProviderCity[];
+  examModels: string[];
+  months: number[]; // Gregorian month numbers the site offers
+}
+
+/**
+ * Where a set of filter options came from: read from the site just now, the
+ * cache within its TTL, an expired cache because the site could not be read,
+ * or the provider's built-in lists when nothing was ever discovered
+ */
+export type FilterOptionsSource = 'site' | 'cache' | 'stale-cache' | 'built-in';
+
+export interface FilterOptions {
+  cities: ProviderCity[];
+  examModels: string[];
+  months: number[]; // Empty when unknown
+  source: FilterOptionsSource;
+  discoveredAt: Date | null;
+  error?: string | undefined; // Why the site could not be read
+}
+
+/**
+ * Fetches the markup of a timetable page
+ */
+export type TimetableFetcher = (url: string, timeoutMs: number) => Promise<string>;
+
+/**
+ * In-page script that lists the values and labels of the timetable's city,
+ * exam model and month filter controls (select options, checkboxes or radios).
+ * Runs in Puppeteer pages and in StaticHtmlPage.
+ */
+export const FILTER_OPTIONS_SCRIPT = `(() => {
+  const readControl = (field) => {
+    const options = [];
+    const names = [field + '[]', field];
+    names.forEach(name => {
+      document.querySelectorAll('select[name="' + name + '"] option').forEach(option => {
+        options.push({ value: option.getAttribute('value') || '', label: option.textContent || '' });
+      });
+      document.querySelectorAll('input[name="' + name + '"]').forEach(input => {
+        const id = input.getAttribute('id');
+        const label = (id && document.querySelector('label[for="' + id + '"]')) || input.closest('label') || input.parentElement;
+        options.push({ value: input.getAttribute('value') || '', label: label ? label.textContent || '' : '' });
+      });
+    });
+    return options
+      .map(option => ({ value: option.value.trim(), label: option.label.replace(/\\s+/g, ' ').trim() }))
+      .filter(option => option.value);
+  };
+  return { cities: readControl('city'), examModels: readControl('model'), months: readControl('month') };
+})()`;
+
+type CachedFilterOptions = Record<string, DiscoveredFilterOptions>;
+
+/**
+ * Learns the cities, exam models and months a provider currently offers from
+ * the filter controls of its timetable, so new test centres show up in the
+ * configuration wizard, in config-validate and in city mapping without a code
+ * change. Options are cached per provider in data/filter-options.json and read
+ * from the site again once they are older than the TTL; the provider's built-in
+ * lists are the fallback until the first discovery succeeds.
+ */
+export class FilterOptionDiscovery {
+  private config: FilterOptionDiscoveryConfig;
+  private cache: CachedFilterOptions | null = null;
+
+  constructor(
+    private provider: AppointmentProvider = getProvider(),
+    config?: Partial<FilterOptionDiscoveryConfig>,
+    private fetchTimetable: TimetableFetcher = fetchTimetableHtml
+  ) {
+    this.config = {
+      cacheFile: path.join('data', 'filter-options.json'),
+      ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+      timeoutMs: 15000,
+      ...config
+    };
+  }
+
+  /**
+   * Current filter options, read from the timetable when the cache is missing,
+   * expired or a refresh is requested. Never throws: when the site cannot be
+   * read the expired cache or the built-in lists are returned with the error.
+   */
+  async getOptions(baseUrl: string = this.provider.defaultBaseUrl, options: { refresh?: boolean } = {}, now: Date = new Date()): Promise<FilterOptions> {
+    const cached = await this.readCached();
+    if (cached && !options.refresh && !this.isExpired(cached, now)) {
+      return this.toFilterOptions(cached, 'cache');
+    }
+
+    try {
+      const html = await this.fetchTimetable(baseUrl, this.config.timeoutMs);
+      const discovered = await this.record(await new StaticHtmlPage(html).evaluate(FILTER_OPTIONS_SCRIPT), baseUrl, now);
+      if (!discovered) {
+        throw new Error('no city or exam model filters found on the page');
+      }
+      return this.toFilterOptions(discovered, 'site');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return cached
+        ? { ...this.toFilterOptions(cached, 'stale-cache'), error: message }
+        : { ...this.getBuiltInOptions(), error: message };
+    }
+  }
+
+  /**
+   * Filter options without contacting the site; expired cache entries are still used
+   */
+  async getCachedOptions(): Promise<FilterOptions> {
+    const cached = await this.readCached();
+    return cached ? this.toFilterOptions(cached, 'cache') : this.getBuiltInOptions();
+  }
+
+  /**
+   * Whether the options should be read from the site again
+   */
+  async needsRefresh(now: Date = new Date()): Promise<boolean> {
+    const cached = await this.readCached();
+    return !cached || this.isExpired(cached, now);
+  }
+
+  /**
+   * Store the output of FILTER_OPTIONS_SCRIPT for a page. Returns null (and
+   * keeps the cache) when the page had no city or exam model filters.
+   */
+  async record(raw: unknown, url: string, now: Date = new Date()): Promise<DiscoveredFilterOptions | null> {
+    const parsed = parseFilterOptions(raw, this.provider.cities);
+    if (!parsed) {
+      return null;
+    }
+
+    const discovered: DiscoveredFilterOptions = { url, discoveredAt: now.toISOString(), ...parsed };
+    const cache = { ...(await this.readCache()), [this.provider.id]: discovered };
+    try {
+      await fs.mkdir(path.dirname(this.config.cacheFile), { recursive: true });
+      await fs.writeFile(this.config.cacheFile, JSON.stringify(cache, null, 2), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to save filter options: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    this.cache = cache;
+    return discovered;
+  }
+
+  private getBuiltInOptions(): FilterOptions {
+    return {
+      cities: this.provider.cities.map(city => ({ ...city, aliases: [...city.aliases] })),
+      examModels: [...this.provider.examModels],
+      months: [],
+      source: 'built-in',
+      discoveredAt: null
+    };
+  }
+
+  private toFilterOptions(discovered: DiscoveredFilterOptions, source: FilterOptionsSource): FilterOptions {
+    return {
+      cities: discovered.cities.length > 0 ? discovered.cities : this.provider.cities.map(city => ({ ...city, aliases: [...city.aliases] })),
+      examModels: discovered.examModels.length > 0 ? discovered.examModels : [...this.provider.examModels],
+      months: discovered.months,
+      source,
+      discoveredAt: new Date(discovered.discoveredAt)
+    };
+  }
+
+  private isExpired(discovered: DiscoveredFilterOptions, now: Date): boolean {
+    return now.getTime() - new Date(discovered.discoveredAt).getTime() >= this.config.ttlMs;
+  }
+
+  private async readCached(): Promise<DiscoveredFilterOptions | null> {
+    return (await this.readCache())[this.provider.id] || null;
+  }
+
+  private async readCache(): Promise<CachedFilterOptions> {
+    if (!this.cache) {
+      try {
+        this.cache = JSON.parse(await fs.readFile(this.config.cacheFile, 'utf-8'));
+      } catch {
+        this.cache = {};
+      }
+    }
+    return this.cache!;
+  }
+}
+
+/**
+ * Turn the raw control values of FILTER_OPTIONS_SCRIPT into filter options.
+ * Cities the provider already knows keep their label and aliases; the labels of
+ * new cities become their display name (Latin) or alias (Persian).
+ */
+export function parseFilterOptions(raw: unknown, knownCities: ProviderCity[] = []): Omit<DiscoveredFilterOptions, 'url' | 'discoveredAt'> | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const controls = raw as Record<string, unknown>;
+  const read = (field: string): Array<{ value: string; label: string }> => {
+    const options = controls[field];
+    return Array.isArray(options)
+      ? options.filter(option => option && typeof option.value === 'string' && option.value.trim() !== '')
+        .map(option => ({ value: option.value.trim(), label: typeof option.label === 'string' ? option.label.trim() : '' }))
+      : [];
+  };
+
+  const cities: ProviderCity[] = [];
+  for (const { value, label } of read('cities')) {
+    const id = value.toLowerCase();
+    if (cities.some(city => city.id === id)) {
+      continue;
+    }
+
+    const known = knownCities.find(city => city.id === id);
+    const isLatin = /^[\x20-\x7e]+$/.test(label);
+    const aliases = [...(known?.aliases || [])];
+    if (label && !isLatin && !aliases.includes(label)) {
+      aliases.push(label);
+    }
+    cities.push({ id, label: known?.label || (label && isLatin ? label : capitalize(id)), aliases });
+  }
+
+  const examModels = [...new Set(read('examModels').map(option => option.value.toLowerCase()))];
+  const months = [...new Set(read('months').map(option => Number(option.value)))]
+    .filter(month => Number.isInteger(month) && month >= 1 && month <= 12)
+    .sort((a, b) => a - b);
+
+  if (cities.length === 0 && examModels.length === 0) {
+    return null;
+  }
+  return { cities, examModels, months };
+}
+
+/**
+ * Known cities extended with discovered ones, for mapping appointment text to cities
+ */
+export function mergeCities(known: ProviderCity[], discovered: ProviderCity[]): ProviderCity[] {
+  const merged = known.map(city => ({ ...city, aliases: [...city.aliases] }));
+  for (const city of discovered) {
+    const existing = merged.find(candidate => candidate.id === city.id);
+    if (existing) {
+      existing.aliases.push(...city.aliases.filter(alias => !existing.aliases.includes(alias)));
+    } else {
+      merged.push({ ...city, aliases: [...city.aliases] });
+    }
+  }
+  return merged;
+}
+
+function capitalize(id: string): string {
+  return id.split(/[-_\s]+/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+}
+
+async function fetchTimetableHtml(url: string, timeoutMs: number): Promise<string> {
+  const axios = await import('axios');
+  const response = await axios.default.get<string>(url, {
+    timeout: timeoutMs,
+    responseType: 'text',
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml',
+      'Accept-Language': 'fa-IR,fa;q=0.9,en-US;q=0.8,en;q=0.7'
+    }
+  });
+  return String(response.data);
+}
@@ -0,0 +1,124 @@
+import { PolitenessScheduler } from './PolitenessScheduler';
+
+/**
+ * Configuration for per-host request politeness
+ */
+export interface HostThrottleConfig {
+  maxConcurrentPerHost: number; // Maximum in-flight requests to one host
+  minIntervalMs: number; // Minimum spacing between request starts to one host
+  jitterMs: number; // Random extra spacing added on top of minIntervalMs
+}
+
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  queue: Array<() => void>;
+}
+
+/**
+ * Per-host request scheduler.
+ * Limits how many requests run against the same host at once and spaces their
+ * start times, so concurrent scraping stays polite towards each site.
+ */
+export class HostThrottle {
+  private config: HostThrottleConfig;
+  private hosts = new Map<string, HostState>();
+  private politeness: PolitenessScheduler | null;
+
+  constructor(config?: Partial<HostThrottleConfig>, politeness?: PolitenessScheduler) {
+    this.config = {
+      maxConcurrentPerHost: 2,
+      minIntervalMs: 1000,
+      jitterMs: 2000,
+      ...config
+    };
+    this.politeness = politeness || null;
+  }
+
+  /**
+   * Run a request task once the host has a free slot and its spacing has elapsed.
+   * Tasks without a host (local fixtures) run immediately.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = HostThrottle.getHost(url);
+    if (!host) {
+      return task();
+    }
+
+    const state = this.getHostState(host);
+    await this.acquireSlot(state);
+
+    try {
+      await this.waitForTurn(state);
+      return await task();
+    } finally {
+      this.releaseSlot(state);
+    }
+  }
+
+  /**
+   * Number of requests currently running against a host
+   */
+  getActiveCount(url: string): number {
+    const host = HostThrottle.getHost(url);
+    return host ? this.hosts.get(host)?.active || 0 : 0;
+  }
+
+  /**
+   * Extract the host a request URL targets, or null for non-network URLs
+   */
+  static getHost(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.host : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getHostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, queue: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquireSlot(state: HostState): Promise<void> {
+    if (state.active < this.config.maxConcurrentPerHost) {
+      state.active++;
+      return;
+    }
+
+    // The releasing task hands its slot over directly
+    await new Promise<void>(resolve => state.queue.push(resolve));
+  }
+
+  private releaseSlot(state: HostState): void {
+    const next = state.queue.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+
+  private async waitForTurn(state: HostState): Promise<void> {
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt, this.politeness ? this.politeness.getPausedUntil(now) : 0);
+    const slowdown = this.politeness ? this.politeness.getSlowdownFactor() : 1;
+    const spacing = (this.config.minIntervalMs + Math.floor(Math.random() * (this.config.jitterMs + 1))) * slowdown;
+    state.nextStartAt = startAt + spacing;
+
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+
+    // A slow-down signal may have arrived while this request was waiting
+    const pausedUntil = this.politeness ? this.politeness.getPausedUntil() : 0;
+    if (pausedUntil > Date.now()) {
+      await new Promise(resolve => setTimeout(resolve, pausedUntil - Date.now()));
+    }
+  }
+}
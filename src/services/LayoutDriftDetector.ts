@@ -0,0 +1,282 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AdminAlert, LayoutObservation } from '../models/types';
+
+/**
+ * Configuration for layout drift detection
+ */
+export interface LayoutDriftConfig {
+  stateFile: string;
+  baselineWindow: number; // Number of healthy checks kept as the baseline
+  minBaselineChecks: number; // Healthy checks needed before drift is reported
+  selectorStability: number; // Share of baseline checks the expected selector must have matched
+  confirmationChecks: number; // Consecutive drifting checks before alerting
+  confidenceDropThreshold: number; // Drop of the average confidence that counts as a collapse
+  lowConfidenceThreshold: number; // Decisions below this confidence count as low confidence
+  lowConfidenceRatioThreshold: number; // Share of low-confidence decisions that counts as a collapse
+  alertCooldownMs: number; // Minimum time between two drift alerts
+}
+
+/**
+ * Layout summary of one monitoring check (all pages of the check combined)
+ */
+export interface LayoutCheckSummary {
+  timestamp: string; // ISO timestamp
+  pageCount: number;
+  emptyStatePages?: number; // Pages that showed the site's "no appointments" message
+  primarySelector: string | null; // Selector that matched on most pages
+  primaryStrategy: string | null;
+  averageConfidence: number | null;
+  lowConfidenceRatio: number | null;
+}
+
+/**
+ * Result of recording a check with the drift detector
+ */
+export interface LayoutDriftAssessment {
+  status: 'skipped' | 'learning' | 'stable' | 'drifting' | 'recovered';
+  reasons: string[];
+  summary: LayoutCheckSummary | null;
+  alert: AdminAlert | null;
+}
+
+interface LayoutDriftState {
+  baseline: LayoutCheckSummary[];
+  consecutiveDriftChecks: number;
+  driftAlerted: boolean;
+  lastAlertAt: string | null;
+}
+
+/**
+ * Tracks which selectors matched and how confident status detection was across
+ * checks, and raises an admin alert when the site layout appears to have changed.
+ * Without this a redesign that breaks the selectors looks exactly like "no slots".
+ */
+export class LayoutDriftDetector {
+  private config: LayoutDriftConfig;
+  private state: LayoutDriftState | null = null;
+
+  constructor(config?: Partial<LayoutDriftConfig>) {
+    this.config = {
+      stateFile: path.join('data', 'layout-drift.json'),
+      baselineWindow: 20,
+      minBaselineChecks: 5,
+      selectorStability: 0.8,
+      confirmationChecks: 2,
+      confidenceDropThreshold: 0.3,
+      lowConfidenceThreshold: 0.5,
+      lowConfidenceRatioThreshold: 0.5,
+      alertCooldownMs: 6 * 60 * 60 * 1000, // 6 hours
+      ...config
+    };
+  }
+
+  /**
+   * Record the layout observations of a check and assess drift against the baseline
+   */
+  async recordCheck(observations: LayoutObservation[], now: Date = new Date()): Promise<LayoutDriftAssessment> {
+    if (observations.length === 0) {
+      return { status: 'skipped', reasons: [], summary: null, alert: null };
+    }
+
+    const state = await this.loadState();
+    const summary = this.summarize(observations, now);
+
+    if (state.baseline.length < this.config.minBaselineChecks) {
+      this.addToBaseline(state, summary);
+      await this.saveState(state);
+      return { status: 'learning', reasons: [], summary, alert: null };
+    }
+
+    const reasons = this.findDrift(state.baseline, summary);
+
+    if (reasons.length === 0) {
+      const recovered = state.driftAlerted;
+      state.consecutiveDriftChecks = 0;
+      state.driftAlerted = false;
+      this.addToBaseline(state, summary);
+      await this.saveState(state);
+
+      return {
+        status: recovered ? 'recovered' : 'stable',
+        reasons,
+        summary,
+        alert: recovered ? this.createRecoveryAlert(summary, now) : null
+      };
+    }
+
+    // Drifting checks are kept out of the baseline so a broken layout is never learned as normal
+    state.consecutiveDriftChecks++;
+    let alert: AdminAlert | null = null;
+
+    const cooledDown = !state.lastAlertAt || now.getTime() - new Date(state.lastAlertAt).getTime() >= this.config.alertCooldownMs;
+    if (state.consecutiveDriftChecks >= this.config.confirmationChecks && !state.driftAlerted && cooledDown) {
+      alert = this.createDriftAlert(reasons, summary, state.consecutiveDriftChecks, now);
+      state.driftAlerted = true;
+      state.lastAlertAt = now.toISOString();
+    }
+
+    await this.saveState(state);
+    return { status: 'drifting', reasons, summary, alert };
+  }
+
+  /**
+   * Forget the learned baseline, e.g. after confirming an intentional site change
+   */
+  async resetBaseline(): Promise<void> {
+    this.state = this.createEmptyState();
+    await this.saveState(this.state);
+  }
+
+  /**
+   * Combine the observations of all pages in a check
+   */
+  private summarize(observations: LayoutObservation[], now: Date): LayoutCheckSummary {
+    const selectorPages = new Map<string, { strategy: string | null; pages: number }>();
+    observations.forEach(observation => {
+      if (observation.matchedSelector) {
+        const entry = selectorPages.get(observation.matchedSelector) || { strategy: observation.matchedStrategy, pages: 0 };
+        entry.pages++;
+        selectorPages.set(observation.matchedSelector, entry);
+      }
+    });
+
+    let primarySelector: string | null = null;
+    let primaryStrategy: string | null = null;
+    let primaryPages = 0;
+    selectorPages.forEach((entry, selector) => {
+      if (entry.pages > primaryPages) {
+        primarySelector = selector;
+        primaryStrategy = entry.strategy;
+        primaryPages = entry.pages;
+      }
+    });
+
+    const scores = observations.flatMap(observation => observation.confidenceScores);
+
+    return {
+      timestamp: now.toISOString(),
+      pageCount: observations.length,
+      emptyStatePages: observations.filter(observation => observation.emptyState).length,
+      primarySelector,
+      primaryStrategy,
+      averageConfidence: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+      lowConfidenceRatio: scores.length > 0
+        ? scores.filter(score => score < this.config.lowConfidenceThreshold).length / scores.length
+        : null
+    };
+  }
+
+  /**
+   * Compare a check against the baseline and describe every drift signal found
+   */
+  private findDrift(baseline: LayoutCheckSummary[], summary: LayoutCheckSummary): string[] {
+    const reasons: string[] = [];
+
+    // Selector drift: the selector that normally matches stopped matching. Checks in
+    // which every page showed the empty-state message have no cards to match.
+    const selectorBaseline = baseline.filter(check => !this.isEmptyState(check));
+    const selectorCounts = new Map<string, number>();
+    selectorBaseline.forEach(check => {
+      if (check.primarySelector) {
+        selectorCounts.set(check.primarySelector, (selectorCounts.get(check.primarySelector) || 0) + 1);
+      }
+    });
+    const [expectedSelector, expectedCount] = Array.from(selectorCounts.entries())
+      .sort((a, b) => b[1] - a[1])[0] || [null, 0];
+
+    if (expectedSelector && !this.isEmptyState(summary) &&
+        expectedCount / selectorBaseline.length >= this.config.selectorStability && summary.primarySelector !== expectedSelector) {
+      const history = `it matched in ${expectedCount} of the last ${selectorBaseline.length} checks`;
+      if (summary.primarySelector === null) {
+        reasons.push(`Selector "${expectedSelector}" found zero elements on ${summary.pageCount} page(s); ${history}`);
+      } else {
+        reasons.push(`Appointments were only found by fallback selector "${summary.primarySelector}" (${summary.primaryStrategy || 'unknown strategy'}) instead of "${expectedSelector}"; ${history}`);
+      }
+    }
+
+    // Confidence collapse: status decisions became much less certain
+    const baselineConfidence = this.average(baseline.map(check => check.averageConfidence));
+    if (summary.averageConfidence !== null && baselineConfidence !== null &&
+        baselineConfidence - summary.averageConfidence >= this.config.confidenceDropThreshold) {
+      reasons.push(`Average status confidence fell from ${baselineConfidence.toFixed(2)} to ${summary.averageConfidence.toFixed(2)}`);
+    }
+
+    const baselineLowRatio = this.average(baseline.map(check => check.lowConfidenceRatio));
+    if (summary.lowConfidenceRatio !== null && baselineLowRatio !== null &&
+        summary.lowConfidenceRatio >= this.config.lowConfidenceRatioThreshold &&
+        baselineLowRatio < this.config.lowConfidenceRatioThreshold / 2) {
+      reasons.push(`${Math.round(summary.lowConfidenceRatio * 100)}% of status decisions are below ${this.config.lowConfidenceThreshold} confidence (baseline ${Math.round(baselineLowRatio * 100)}%)`);
+    }
+
+    return reasons;
+  }
+
+  private createDriftAlert(reasons: string[], summary: LayoutCheckSummary, checks: number, now: Date): AdminAlert {
+    return {
+      kind: 'layout-drift',
+      title: 'Site layout change suspected',
+      message: `The timetable layout looks different for ${checks} consecutive checks. "No slots" results may be wrong until the selectors or detection rules are updated.`,
+      details: [
+        ...reasons,
+        `Current check: ${summary.pageCount} page(s), matched selector ${summary.primarySelector ? `"${summary.primarySelector}"` : 'none'}`
+      ],
+      timestamp: now
+    };
+  }
+
+  private createRecoveryAlert(summary: LayoutCheckSummary, now: Date): AdminAlert {
+    return {
+      kind: 'layout-recovered',
+      title: 'Site layout back to normal',
+      message: 'Appointment selectors and status confidence match the learned baseline again.',
+      details: [`Matched selector ${summary.primarySelector ? `"${summary.primarySelector}"` : 'none'} on ${summary.pageCount} page(s)`],
+      timestamp: now
+    };
+  }
+
+  private average(values: Array<number | null>): number | null {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+  }
+
+  private addToBaseline(state: LayoutDriftState, summary: LayoutCheckSummary): void {
+    state.baseline.push(summary);
+    if (state.baseline.length > this.config.baselineWindow) {
+      state.baseline = state.baseline.slice(-this.config.baselineWindow);
+    }
+  }
+
+  private createEmptyState(): LayoutDriftState {
+    return { baseline: [], consecutiveDriftChecks: 0, driftAlerted: false, lastAlertAt: null };
+  }
+
+  private isEmptyState(summary: LayoutCheckSummary): boolean {
+    return (summary.emptyStatePages || 0) >= summary.pageCount;
+  }
+
+  private async loadState(): Promise<LayoutDriftState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    try {
+      const data = await fs.readFile(this.config.stateFile, 'utf-8');
+      this.state = { ...this.createEmptyState(), ...JSON.parse(data) };
+    } catch {
+      // Missing or unreadable state starts a fresh baseline
+      this.state = this.createEmptyState();
+    }
+
+    return this.state!;
+  }
+
+  private async saveState(state: LayoutDriftState): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.config.stateFile), { recursive: true });
+      await fs.writeFile(this.config.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn('⚠️  Failed to save layout drift state:', error instanceof Error ? error.message : error);
+    }
+  }
+}
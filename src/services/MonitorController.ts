@@ -3,7 +3,16 @@ import {
   MonitorConfig, 
   MonitoringSession, 
   Appointment, 
-  ErrorLog 
+  ErrorLog,
+  CheckResult,
+  AdminAlert,
+  PolitenessRate,
+  CircuitBreakerStatus,
+  BrowserMetrics,
+  CheckSchedule,
+  CheckScheduleMode,
+  QuietHoursStatus,
+  WatchProfileStatus
 } from '../models/types';
 import { ConfigurationManager } from './ConfigurationManager';
 import { WebScraperService } from './WebScraperService';
@@ -13,7 +22,14 @@ import { StatusLoggerService, MonitoringStatistics } from './StatusLoggerService
 import { ErrorHandlerService } from './ErrorHandlerService';
 import { AppointmentDetectionService } from './AppointmentDetectionService';
 import { EnvironmentConfigManager } from './EnvironmentConfigManager';
+import { LayoutDriftDetector } from './LayoutDriftDetector';
+import { ReviewQueueService } from './ReviewQueueService';
+import { AdaptiveCheckScheduler } from './AdaptiveCheckScheduler';
+import { WatchProfileService, filterCheckResult } from './WatchProfileService';
 import { generateId } from '../models/utils';
+import { formatDualCalendarDate } from '../models/jalali';
+import { getCombinedScrapeFilters } from '../models/profiles';
+import { findActiveQuietHours, findActiveScheduleRule, getMsUntilQuietHoursChange, getMsUntilScheduleChange } from '../models/schedule';
 
 /**
  * Monitor status enumeration
@@ -37,6 +53,7 @@ export interface MonitorControllerEvents {
   'check-completed': (appointmentCount: number) => void;
   'error': (error: Error) => void;
   'notification-sent': (appointmentCount: number) => void;
+  'admin-alert': (alert: AdminAlert) => void;
 }
 
 /**
@@ -48,6 +65,12 @@ export class MonitorController extends EventEmitter {
   private monitoringTimer: NodeJS.Timeout | null = null;
   private config: MonitorConfig | null = null;
   private isShuttingDown: boolean = false;
+  private pageIssueBackoffMs: number = 0;
+  private politenessRate: PolitenessRate | null = null;
+  private adaptiveScheduler: AdaptiveCheckScheduler | null = null;
+  private nextCheck: CheckSchedule | null = null;
+  private heldNotifications: Map<string, Appointment> = new Map(); // Held until quiet hours end
+  private watchProfiles: WatchProfileService | null = null;
 
   // Service dependencies
   private configManager: ConfigurationManager;
@@ -57,6 +80,8 @@ export class MonitorController extends EventEmitter {
   private statusLogger: StatusLoggerService;
   private errorHandler: ErrorHandlerService;
   private appointmentDetection: AppointmentDetectionService;
+  private layoutDriftDetector: LayoutDriftDetector;
+  private reviewQueue: ReviewQueueService;
 
   constructor(options?: { skipShutdownHandlers?: boolean; baseUrl?: string }) {
     super();
@@ -73,6 +98,8 @@ export class MonitorController extends EventEmitter {
     this.statusLogger = new StatusLoggerService();
     this.errorHandler = new ErrorHandlerService(this.statusLogger, this.notificationService);
     this.appointmentDetection = new AppointmentDetectionService();
+    this.layoutDriftDetector = new LayoutDriftDetector();
+    this.reviewQueue = new ReviewQueueService();
 
     // Setup graceful shutdown handlers (skip in tests)
     if (!options?.skipShutdownHandlers) {
@@ -94,16 +121,32 @@ export class MonitorController extends EventEmitter {
       // Load or use provided configuration
       this.config = config || await this.configManager.loadConfig();
       
-      // Reinitialize WebScraperService with baseUrl from config if provided
-      if (this.config.baseUrl) {
-        this.webScraper = new WebScraperService(this.config.baseUrl);
+      // Reinitialize WebScraperService with provider, baseUrl, scraper backend, concurrency, proxies, review threshold, browser recycling, resource policy and evidence archive from config if provided
+      if (this.config.provider || this.config.baseUrl || this.config.scraperBackend || this.config.scrapeConcurrency || this.config.proxy || this.config.review || this.config.browserRecycling || this.config.resourcePolicy || this.config.evidence) {
+        this.webScraper = new WebScraperService(this.config.baseUrl, {
+          provider: this.config.provider,
+          backend: this.config.scraperBackend,
+          concurrency: this.config.scrapeConcurrency,
+          proxy: this.config.proxy,
+          reviewConfidenceThreshold: this.config.review?.confidenceThreshold,
+          browserRecycling: this.config.browserRecycling,
+          resourcePolicy: this.config.resourcePolicy,
+          evidence: this.config.evidence
+        });
+      }
+      if (this.config.review?.maxEntries) {
+        this.reviewQueue = new ReviewQueueService({ maxEntries: this.config.review.maxEntries });
       }
+      this.adaptiveScheduler = this.createAdaptiveScheduler(this.config);
       
       // Initialize services
       await this.initializeServices();
       
       // Initialize appointment detection service
       await this.appointmentDetection.initialize();
+
+      // Watch profiles share each scrape but keep their own tracking and channels
+      this.watchProfiles = await this.createWatchProfiles(this.config);
       
       // Create new monitoring session
       this.currentSession = {
@@ -148,6 +191,7 @@ export class MonitorController extends EventEmitter {
       clearTimeout(this.monitoringTimer);
       this.monitoringTimer = null;
     }
+    this.nextCheck = null;
 
     await this.statusLogger.logInfo('Monitoring paused', { 
       sessionId: this.currentSession?.sessionId 
@@ -186,6 +230,7 @@ export class MonitorController extends EventEmitter {
       clearTimeout(this.monitoringTimer);
       this.monitoringTimer = null;
     }
+    this.nextCheck = null;
 
     // Finalize current session
     if (this.currentSession) {
@@ -202,6 +247,8 @@ export class MonitorController extends EventEmitter {
     });
 
     this.currentSession = null;
+    this.heldNotifications.clear();
+    this.watchProfiles = null;
     this.isShuttingDown = false;
   }
 
@@ -232,11 +279,26 @@ export class MonitorController extends EventEmitter {
     statistics?: MonitoringStatistics;
     session?: MonitoringSession;
     config?: MonitorConfig;
+    nextCheck?: CheckSchedule;
+    quietHours?: QuietHoursStatus;
+    circuitBreakers?: CircuitBreakerStatus[];
+    browser?: BrowserMetrics;
+    profiles?: WatchProfileStatus[];
   }> {
     const result: any = {
       status: this.status
     };
 
+    const circuitBreakers = this.webScraper.getCircuitBreakerStatuses();
+    if (circuitBreakers.length > 0) {
+      result.circuitBreakers = circuitBreakers;
+    }
+
+    const browser = this.webScraper.getBrowserMetrics();
+    if (browser.launches > 0) {
+      result.browser = browser;
+    }
+
     if (this.currentSession) {
       result.session = { ...this.currentSession };
       result.statistics = await this.statusLogger.getStatistics();
@@ -246,6 +308,19 @@ export class MonitorController extends EventEmitter {
       result.config = { ...this.config };
     }
 
+    if (this.nextCheck) {
+      result.nextCheck = { ...this.nextCheck };
+    }
+
+    const quietHours = this.getQuietHoursStatus();
+    if (quietHours) {
+      result.quietHours = quietHours;
+    }
+
+    if (this.watchProfiles && this.watchProfiles.hasProfiles()) {
+      result.profiles = this.watchProfiles.getStatuses();
+    }
+
     return result;
   }
 
@@ -262,6 +337,10 @@ export class MonitorController extends EventEmitter {
     // Validate and save new configuration
     await this.configManager.saveConfig(newConfig);
     this.config = newConfig;
+    this.adaptiveScheduler = this.createAdaptiveScheduler(newConfig);
+    if (this.currentSession) {
+      this.watchProfiles = await this.createWatchProfiles(newConfig);
+    }
 
     if (wasRunning) {
       await this.resumeMonitoring();
@@ -311,15 +390,24 @@ export class MonitorController extends EventEmitter {
         return;
       }
 
-      try {
-        await this.performMonitoringCheck();
-      } catch (error) {
-        await this.handleError(error as Error, 'Error during monitoring check');
+      const pausingRule = this.config?.schedule ? findActiveScheduleRule(this.config.schedule) : null;
+      if (pausingRule?.window.pause) {
+        console.log(`⏸️  [${new Date().toLocaleTimeString()}] Check skipped: paused by schedule rule "${pausingRule.name}"`);
+      } else {
+        try {
+          await this.performMonitoringCheck();
+        } catch (error) {
+          await this.handleError(error as Error, 'Error during monitoring check');
+        }
       }
 
       // Schedule next check
       if (this.status === MonitorStatus.RUNNING && !this.isShuttingDown) {
-        this.monitoringTimer = setTimeout(performCheck, this.config!.checkInterval);
+        const nextCheck = this.planNextCheck();
+        if (pausingRule?.window.pause) {
+          console.log(`⏰ Next check scheduled for ${nextCheck.nextCheckAt.toLocaleTimeString()} (${nextCheck.reason})`);
+        }
+        this.monitoringTimer = setTimeout(performCheck, nextCheck.delayMs);
       }
     };
 
@@ -327,6 +415,113 @@ export class MonitorController extends EventEmitter {
     setImmediate(performCheck);
   }
 
+  /**
+   * When the next check runs and why: the interval of the active schedule rule, or the
+   * configured or adaptive interval, stretched while the site serves blocked or maintenance
+   * pages or has asked us to slow down
+   */
+  private planNextCheck(now: Date = new Date()): CheckSchedule {
+    const rate = this.politenessRate;
+    const slowdownFactor = rate ? rate.slowdownFactor : 1;
+    const pausedFor = rate && rate.pausedUntil ? rate.pausedUntil.getTime() - now.getTime() : 0;
+    const schedule = this.config!.schedule;
+    const activeRule = schedule ? findActiveScheduleRule(schedule, now) : null;
+    if (schedule && (this.nextCheck?.rule ?? null) !== (activeRule?.name ?? null)) {
+      console.log(activeRule ? `📅 Schedule rule "${activeRule.name}" is active` : '📅 No schedule rule active, using the default interval');
+    }
+
+    let interval: { intervalMs: number; mode: CheckScheduleMode; reason: string };
+    if (activeRule?.window.pause) {
+      const untilResume = getMsUntilScheduleChange(schedule!, now, 7 * 24 * 60 * 60 * 1000);
+      interval = {
+        intervalMs: untilResume ?? this.config!.checkInterval,
+        mode: 'paused',
+        reason: `checks paused by schedule rule "${activeRule.name}"`
+      };
+    } else if (activeRule?.window.checkInterval) {
+      interval = {
+        intervalMs: activeRule.window.checkInterval,
+        mode: 'scheduled',
+        reason: `schedule rule "${activeRule.name}": every ${Math.round(activeRule.window.checkInterval / 1000)}s`
+      };
+    } else if (this.adaptiveScheduler) {
+      interval = this.adaptiveScheduler.planInterval(this.appointmentDetection.getStatusHistoryRecords(), now);
+    } else {
+      interval = { intervalMs: this.config!.checkInterval, mode: 'fixed', reason: 'fixed check interval' };
+    }
+
+    // Check again when another schedule rule or quiet hours take over rather than running past them
+    if (schedule && interval.mode !== 'paused') {
+      const untilChange = getMsUntilScheduleChange(schedule, now, interval.intervalMs);
+      if (untilChange !== null && untilChange < interval.intervalMs) {
+        interval = {
+          ...interval,
+          intervalMs: untilChange,
+          reason: `${interval.reason}; schedule changes at ${new Date(now.getTime() + untilChange).toLocaleTimeString()}`
+        };
+      }
+    }
+
+    let delayMs = interval.intervalMs * slowdownFactor;
+    let reason = slowdownFactor > 1
+      ? `${interval.reason}; ${slowdownFactor}x slower after ${rate!.lastSignal || 'slow-down signals'}`
+      : interval.reason;
+    if (pausedFor > delayMs) {
+      delayMs = pausedFor;
+      reason = `server asked to pause (${rate!.lastSignal || 'slow-down signals'})`;
+    }
+    if (this.pageIssueBackoffMs > delayMs) {
+      delayMs = this.pageIssueBackoffMs;
+      reason = 'backing off after blocked, maintenance or error pages';
+    }
+
+    this.nextCheck = {
+      nextCheckAt: new Date(now.getTime() + delayMs),
+      delayMs,
+      mode: interval.mode,
+      reason,
+      rule: activeRule ? activeRule.name : null
+    };
+    return this.nextCheck;
+  }
+
+  /**
+   * Quiet hours in effect and the notifications held for them
+   */
+  private getQuietHoursStatus(now: Date = new Date()): QuietHoursStatus | null {
+    const schedule = this.config?.schedule;
+    const quietHours = schedule ? findActiveQuietHours(schedule, now) : null;
+    if (!quietHours) {
+      return null;
+    }
+
+    const untilChange = getMsUntilQuietHoursChange(schedule!, now);
+    return {
+      name: quietHours.name,
+      notifications: quietHours.notifications,
+      until: untilChange !== null ? new Date(now.getTime() + untilChange) : null,
+      heldNotifications: this.heldNotifications.size
+    };
+  }
+
+  private async createWatchProfiles(config: MonitorConfig): Promise<WatchProfileService> {
+    const watchProfiles = new WatchProfileService(config);
+    await watchProfiles.initialize();
+    return watchProfiles;
+  }
+
+  private createAdaptiveScheduler(config: MonitorConfig): AdaptiveCheckScheduler | null {
+    const settings = config.adaptiveInterval;
+    return settings?.enabled
+      ? new AdaptiveCheckScheduler({
+        baseIntervalMs: config.checkInterval,
+        ...(settings.minIntervalMs !== undefined && { minIntervalMs: settings.minIntervalMs }),
+        ...(settings.maxIntervalMs !== undefined && { maxIntervalMs: settings.maxIntervalMs }),
+        ...(settings.lookbackDays !== undefined && { lookbackDays: settings.lookbackDays })
+      })
+      : null;
+  }
+
   /**
    * Perform a single monitoring check
    */
@@ -339,22 +534,73 @@ export class MonitorController extends EventEmitter {
     console.log(`\n🔄 [${checkStartTime.toLocaleTimeString()}] Starting monitoring check #${this.currentSession.checksPerformed + 1}`);
 
     try {
-      // Fetch current appointments with enhanced status detection
-      const filters = {
-        city: this.config.city,
-        examModel: this.config.examModel,
-        months: this.config.months
-      };
+      // Fetch current appointments with enhanced status detection. With watch profiles one scrape
+      // covers every watch, and attribute and date filters are applied per watch afterwards.
+      const profilesActive = this.watchProfiles !== null && this.watchProfiles.hasProfiles();
+      const filters = profilesActive
+        ? { ...getCombinedScrapeFilters(this.config), monthCalendar: this.config.monthCalendar }
+        : {
+          city: this.config.city,
+          examModel: this.config.examModel,
+          months: this.config.months,
+          monthCalendar: this.config.monthCalendar,
+          attributes: this.config.attributeFilters,
+          dates: this.config.dateFilters
+        };
 
       const checkResult = await this.webScraper.fetchAppointmentsWithStatus(filters);
+      const ownResult = profilesActive
+        ? filterCheckResult(checkResult, this.config, { monthCalendar: this.config.monthCalendar, scrapedExamModels: filters.examModel })
+        : checkResult;
       
       this.emit('appointments-found', checkResult.appointments);
 
+      // The same timetable as last time: the check counts, but there is nothing to track, store or notify
+      if (checkResult.unchanged) {
+        await this.recordUnchangedCheck(checkResult, checkStartTime);
+        return;
+      }
+
+      // A blocked, maintenance or error page hides the timetable; treating it as "no slots"
+      // would mark every tracked appointment as removed
+      const pageIssues = checkResult.pageIssues || [];
+      const isIssueCheck = checkResult.type === 'blocked' || checkResult.type === 'maintenance' || checkResult.type === 'error';
+
+      // Months that could not be read (failing or skipped by their circuit breaker) are missing, not empty
+      const staleMonths = checkResult.staleMonths || [];
+      if (staleMonths.length > 0) {
+        console.log(`🕸️  ${staleMonths.length} month(s) not read this check, keeping their tracked appointments:`);
+        staleMonths.forEach((month, index) => {
+          console.log(`   ${index + 1}. [${month.circuitState.toUpperCase()}] ${month.label} - ${month.reason}`);
+        });
+      }
+
       // Use enhanced appointment detection service
-      const detectionResult = await this.appointmentDetection.processAppointments(checkResult);
+      const skipRemovalDetection = pageIssues.length > 0 || staleMonths.length > 0;
+      const detectionResult = await this.appointmentDetection.processAppointments(ownResult, {
+        skipRemovalDetection
+      });
       
       // Save current appointments for backward compatibility
-      await this.dataStorage.saveAppointments(checkResult.appointments);
+      if (!isIssueCheck && staleMonths.length === 0) {
+        await this.dataStorage.saveAppointments(ownResult.appointments);
+      }
+
+      if (pageIssues.length > 0) {
+        this.pageIssueBackoffMs = await this.errorHandler.handlePageIssues(pageIssues);
+        console.log(`🚫 ${pageIssues.length} page(s) served a blocked, maintenance or error page instead of the timetable`);
+        pageIssues.forEach((issue, index) => {
+          console.log(`   ${index + 1}. [${issue.kind.toUpperCase()}] ${issue.reason} - ${issue.url}`);
+        });
+        if (this.pageIssueBackoffMs > this.config.checkInterval) {
+          console.log(`⏳ Backing off for ${Math.round(this.pageIssueBackoffMs / 1000)}s before the next check`);
+        }
+      } else if (this.pageIssueBackoffMs > 0) {
+        this.pageIssueBackoffMs = 0;
+        this.errorHandler.resetPageIssueBackoff();
+      }
+
+      await this.updatePolitenessRate(checkResult);
 
       // Update session statistics
       if (this.currentSession) {
@@ -376,7 +622,7 @@ export class MonitorController extends EventEmitter {
       if (detectionResult.newAvailableAppointments.length > 0) {
         console.log(`🎉 Found ${detectionResult.newAvailableAppointments.length} NEW AVAILABLE appointment(s)!`);
         detectionResult.newAvailableAppointments.forEach((apt, index) => {
-          console.log(`   ${index + 1}. ${apt.date} ${apt.time} - ${apt.city} (${apt.examType}) [${apt.status.toUpperCase()}]`);
+          console.log(`   ${index + 1}. ${formatDualCalendarDate(apt.date)} ${apt.time} - ${apt.city} (${apt.examType}) [${apt.status.toUpperCase()}]`);
         });
       }
       
@@ -384,7 +630,7 @@ export class MonitorController extends EventEmitter {
       if (detectionResult.statusChangedAppointments.length > 0) {
         console.log(`🔄 ${detectionResult.statusChangedAppointments.length} appointment(s) changed status`);
         detectionResult.statusChangedAppointments.forEach((apt, index) => {
-          console.log(`   ${index + 1}. ${apt.date} ${apt.time} - ${apt.city} (${apt.examType}) [${apt.status.toUpperCase()}]`);
+          console.log(`   ${index + 1}. ${formatDualCalendarDate(apt.date)} ${apt.time} - ${apt.city} (${apt.examType}) [${apt.status.toUpperCase()}]`);
         });
       }
       
@@ -392,7 +638,7 @@ export class MonitorController extends EventEmitter {
       if (detectionResult.removedAppointments.length > 0) {
         console.log(`📤 ${detectionResult.removedAppointments.length} appointment(s) were removed since last check`);
         detectionResult.removedAppointments.forEach((apt, index) => {
-          console.log(`   ${index + 1}. ${apt.appointment.date} ${apt.appointment.time} - ${apt.appointment.city}`);
+          console.log(`   ${index + 1}. ${formatDualCalendarDate(apt.appointment.date)} ${apt.appointment.time} - ${apt.appointment.city}`);
         });
       }
       
@@ -411,6 +657,12 @@ export class MonitorController extends EventEmitter {
       await this.statusLogger.logAppointmentCheck(checkResult, duration);
       this.emit('check-completed', checkResult.appointments.length);
 
+      // A site redesign looks like "no slots"; compare selectors and confidence with earlier checks
+      await this.checkLayoutDrift(checkResult);
+
+      // Slots whose status could not be read confidently are kept for an operator to label
+      await this.queueLowConfidenceSlots(checkResult);
+
       // Send notifications ONLY for new available appointments that should be notified
       const notifiableAppointments = this.appointmentDetection.getNotifiableAppointments(
         detectionResult.newAvailableAppointments
@@ -435,13 +687,11 @@ export class MonitorController extends EventEmitter {
         });
       }
       
-      if (notifiableAppointments.length > 0) {
-        await this.sendNotifications(notifiableAppointments);
-        this.emit('new-appointments', notifiableAppointments);
-        
-        // Mark appointments as notified
-        await this.appointmentDetection.markAsNotified(notifiableAppointments);
-      } else if (detectionResult.newAvailableAppointments.length > 0) {
+      if (notifiableAppointments.length > 0 || this.heldNotifications.size > 0) {
+        await this.notifyAppointments(notifiableAppointments, ownResult);
+      }
+
+      if (notifiableAppointments.length === 0 && detectionResult.newAvailableAppointments.length > 0) {
         // Enhanced logging when notifications are suppressed due to duplicate prevention
         const suppressedCount = detectionResult.newAvailableAppointments.length - notifiableAppointments.length;
         await this.statusLogger.logWarn('Notification suppressed: Duplicate prevention', {
@@ -459,9 +709,11 @@ export class MonitorController extends EventEmitter {
         console.log(`📧 ${notifiableAppointments.length} appointment(s) eligible for notification`);
       }
 
+      await this.notifyProfiles(checkResult, skipRemovalDetection);
+
       // Log next check time
-      const nextCheckTime = new Date(Date.now() + this.config.checkInterval);
-      console.log(`⏰ Next check scheduled for ${nextCheckTime.toLocaleTimeString()}`);
+      const nextCheck = this.planNextCheck();
+      console.log(`⏰ Next check scheduled for ${nextCheck.nextCheckAt.toLocaleTimeString()} (${nextCheck.reason})`);
 
     } catch (error) {
       const checkEndTime = new Date();
@@ -471,10 +723,143 @@ export class MonitorController extends EventEmitter {
     }
   }
 
+  /**
+   * Track layout signals across checks and alert the admin when the site layout drifts
+   */
+  private async checkLayoutDrift(checkResult: CheckResult): Promise<void> {
+    if (!this.config || !checkResult.layoutObservations || checkResult.layoutObservations.length === 0) {
+      return;
+    }
+
+    try {
+      const assessment = await this.layoutDriftDetector.recordCheck(checkResult.layoutObservations);
+
+      if (assessment.status === 'drifting') {
+        console.warn(`⚠️  Possible site layout change: ${assessment.reasons.join('; ')}`);
+      }
+
+      if (!assessment.alert) {
+        return;
+      }
+
+      const channels = await this.notificationService.sendAdminAlert(assessment.alert, this.config.notificationSettings);
+      await this.statusLogger.logWarn(`Admin alert: ${assessment.alert.title}`, {
+        kind: assessment.alert.kind,
+        reasons: assessment.reasons,
+        channels
+      });
+      this.emit('admin-alert', assessment.alert);
+    } catch (error) {
+      // Drift detection must never fail a monitoring check
+      await this.statusLogger.logWarn('Layout drift detection failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Count a check whose pages all matched the previous check without processing it again
+   */
+  private async recordUnchangedCheck(checkResult: CheckResult, checkStartTime: Date): Promise<void> {
+    if (!this.config) {
+      return;
+    }
+
+    await this.updatePolitenessRate(checkResult);
+    if (this.pageIssueBackoffMs > 0) {
+      this.pageIssueBackoffMs = 0;
+      this.errorHandler.resetPageIssueBackoff();
+    }
+
+    if (this.currentSession) {
+      this.currentSession.checksPerformed++;
+    }
+
+    const checkEndTime = new Date();
+    const duration = checkEndTime.getTime() - checkStartTime.getTime();
+    console.log(`♻️  [${checkEndTime.toLocaleTimeString()}] Check completed in ${duration}ms: timetable unchanged, ${checkResult.appointmentCount} appointment(s) (${checkResult.availableCount} available)`);
+
+    await this.statusLogger.logAppointmentCheck(checkResult, duration);
+    this.emit('check-completed', checkResult.appointments.length);
+
+    if (this.heldNotifications.size > 0) {
+      await this.notifyAppointments([], checkResult);
+    }
+    await this.notifyProfiles(checkResult, false);
+
+    const nextCheck = this.planNextCheck();
+    console.log(`⏰ Next check scheduled for ${nextCheck.nextCheckAt.toLocaleTimeString()} (${nextCheck.reason})`);
+  }
+
+  /**
+   * Fan a check out to the watch profiles and count the notifications they sent
+   */
+  private async notifyProfiles(checkResult: CheckResult, skipRemovalDetection: boolean): Promise<void> {
+    if (!this.watchProfiles || !this.watchProfiles.hasProfiles()) {
+      return;
+    }
+
+    const quietHours = this.config?.schedule ? findActiveQuietHours(this.config.schedule) : null;
+    const outcomes = await this.watchProfiles.processCheck(checkResult, { skipRemovalDetection, quietHours });
+
+    for (const outcome of outcomes.filter(candidate => candidate.notifiedAppointments.length > 0)) {
+      if (this.currentSession) {
+        this.currentSession.notificationsSent++;
+      }
+      await this.statusLogger.logInfo('Profile notification sent', {
+        profile: outcome.profile,
+        availableAppointmentCount: outcome.notifiedAppointments.length,
+        channels: outcome.channels
+      });
+      this.emit('notification-sent', outcome.notifiedAppointments.length);
+    }
+  }
+
+  /**
+   * Keep the effective request pace reported by the scraper and log when it changes
+   */
+  private async updatePolitenessRate(checkResult: CheckResult): Promise<void> {
+    if (!this.config || !checkResult.politeness) {
+      return;
+    }
+
+    const previousLevel = this.politenessRate ? this.politenessRate.level : 0;
+    this.politenessRate = checkResult.politeness;
+    if (checkResult.politeness.level !== previousLevel) {
+      await this.statusLogger.logEffectiveRate(checkResult.politeness, this.config.checkInterval);
+      console.log(`🚦 Effective rate: ${checkResult.politeness.requestsPerMinute} requests/min, checking every ${Math.round(this.config.checkInterval * checkResult.politeness.slowdownFactor / 1000)}s`);
+    }
+  }
+
+  /**
+   * Add low-confidence status detections to the review queue
+   */
+  private async queueLowConfidenceSlots(checkResult: CheckResult): Promise<void> {
+    if (!checkResult.lowConfidenceSlots || checkResult.lowConfidenceSlots.length === 0) {
+      return;
+    }
+
+    try {
+      const added = await this.reviewQueue.enqueue(checkResult.lowConfidenceSlots);
+      if (added > 0) {
+        console.log(`🧐 ${added} slot(s) with uncertain status queued for review (ielts-monitor review)`);
+        await this.statusLogger.logInfo('Low-confidence slots queued for review', {
+          added,
+          lowConfidenceSlots: checkResult.lowConfidenceSlots.length
+        });
+      }
+    } catch (error) {
+      // The review queue must never fail a monitoring check
+      await this.statusLogger.logWarn('Failed to queue low-confidence slots for review', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Send notifications for new appointments (only available ones)
    */
-  private async sendNotifications(appointments: Appointment[]): Promise<void> {
+  private async sendNotifications(appointments: Appointment[], withoutAlerts: boolean = false): Promise<void> {
     if (!this.config || !this.currentSession) {
       return;
     }
@@ -502,7 +887,9 @@ export class MonitorController extends EventEmitter {
       
       const notificationRecord = await this.notificationService.sendNotification(
         availableAppointments,
-        this.config.notificationSettings
+        withoutAlerts
+          ? { ...this.config.notificationSettings, desktop: false, audio: false }
+          : this.config.notificationSettings
       );
 
       // Update session statistics
@@ -529,6 +916,67 @@ export class MonitorController extends EventEmitter {
     }
   }
 
+  /**
+   * Send notifications for newly notifiable appointments together with those held during
+   * quiet hours. Quiet hours hold notifications until they end, or send them without desktop
+   * and audio alerts; held ones are only sent for slots that are still available.
+   */
+  private async notifyAppointments(appointments: Appointment[], checkResult: CheckResult): Promise<void> {
+    const quietHours = this.config?.schedule ? findActiveQuietHours(this.config.schedule) : null;
+
+    if (quietHours && quietHours.notifications === 'hold') {
+      if (appointments.length > 0) {
+        appointments.forEach(appointment => this.heldNotifications.set(appointment.id, appointment));
+        console.log(`🌙 Quiet hours (${quietHours.name}): holding notifications for ${appointments.length} appointment(s), ${this.heldNotifications.size} held in total`);
+        await this.statusLogger.logInfo('Notification held: Quiet hours', {
+          quietHours: quietHours.name,
+          heldCount: this.heldNotifications.size
+        });
+      }
+      return;
+    }
+
+    const released = this.releaseHeldNotifications(checkResult, appointments);
+    const toNotify = [...released, ...appointments];
+    if (toNotify.length === 0) {
+      return;
+    }
+
+    if (quietHours) {
+      console.log(`🔉 Quiet hours (${quietHours.name}): notifying without desktop and audio alerts`);
+    }
+    await this.sendNotifications(toNotify, quietHours !== null);
+    this.emit('new-appointments', toNotify);
+
+    // Mark appointments as notified
+    await this.appointmentDetection.markAsNotified(toNotify);
+  }
+
+  /**
+   * Held appointments that are still available and notifiable in this check. Checks that
+   * could not read every page keep them held.
+   */
+  private releaseHeldNotifications(checkResult: CheckResult, alreadyIncluded: Appointment[]): Appointment[] {
+    if (this.heldNotifications.size === 0 || (checkResult.pageIssues || []).length > 0 || (checkResult.staleMonths || []).length > 0) {
+      return [];
+    }
+
+    const available = new Map(checkResult.appointments
+      .filter(appointment => appointment.status === 'available')
+      .map(appointment => [appointment.id, appointment]));
+    const stillAvailable = Array.from(this.heldNotifications.keys())
+      .map(id => available.get(id))
+      .filter((appointment): appointment is Appointment => appointment !== undefined);
+    const released = this.appointmentDetection.getNotifiableAppointments(
+      stillAvailable.filter(appointment => !alreadyIncluded.some(included => included.id === appointment.id))
+    );
+
+    const gone = this.heldNotifications.size - stillAvailable.length;
+    console.log(`🌅 Quiet hours over: sending ${released.length} held notification(s)${gone > 0 ? `, ${gone} slot(s) no longer available` : ''}`);
+    this.heldNotifications.clear();
+    return released;
+  }
+
   /**
    * Handle errors with logging and recovery using ErrorHandlerService
    */
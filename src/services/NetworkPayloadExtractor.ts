@@ -0,0 +1,374 @@
+import { HTTPResponse, Page } from 'puppeteer';
+import { Appointment } from '../models/types';
+import { withParsedAttributes } from '../models/attributes';
+import { ProviderCity } from './providers';
+
+/**
+ * Configuration for capturing JSON responses while a page loads
+ */
+export interface NetworkPayloadConfig {
+  maxPayloads: number; // JSON responses kept per page load
+  maxPayloadBytes: number; // Larger responses are ignored
+  maxDepth: number; // How deep to search a payload for appointment lists
+}
+
+/**
+ * A JSON response captured from an XHR or fetch request
+ */
+export interface CapturedPayload {
+  url: string;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Appointments read from captured payloads, before IDs and dates are finalized
+ */
+export interface PayloadExtraction {
+  appointments: Array<Appointment & { jalaliDateText?: string }>;
+  payloadUrls: string[]; // Responses that contained appointment lists
+  notes: string[];
+}
+
+/**
+ * Handle for a running capture on a page
+ */
+export interface PayloadCapture {
+  stop(): Promise<CapturedPayload[]>;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+/**
+ * Field names used by timetable APIs, compared after lowercasing and removing "_" and "-"
+ */
+const FIELD_NAMES = {
+  date: ['date', 'examdate', 'testdate', 'startdate', 'datetime', 'startsat'],
+  jalaliDate: ['jalalidate', 'shamsidate', 'persiandate', 'datefa', 'fadate'],
+  time: ['time', 'examtime', 'testtime', 'session', 'timerange'],
+  startTime: ['starttime', 'from', 'timefrom'],
+  endTime: ['endtime', 'to', 'timeto'],
+  location: ['location', 'center', 'centername', 'venue', 'venuename', 'place', 'address', 'office'],
+  city: ['city', 'cityname', 'citytitle'],
+  examType: ['examtype', 'exammodel', 'model', 'testtype', 'type', 'exam', 'product', 'title'],
+  price: ['price', 'fee', 'cost', 'amount'],
+  registrationUrl: ['registrationurl', 'registerurl', 'registrationlink', 'link', 'url', 'href'],
+  status: ['status', 'state', 'availability', 'statustext'],
+  available: ['available', 'isavailable', 'isopen', 'open', 'bookable', 'canregister', 'registerable'],
+  full: ['full', 'isfull', 'filled', 'isfilled', 'soldout', 'closed', 'isclosed'],
+  seats: ['remaining', 'remainingseats', 'availableseats', 'seatsleft', 'freeseats', 'remainingcapacity', 'capacityleft'],
+  module: ['module', 'testmodule', 'exammodule', 'ieltsmodule'],
+  testFormat: ['format', 'testformat', 'examformat', 'deliverymode', 'delivery'],
+  ukvi: ['ukvi', 'isukvi']
+};
+
+const NEGATED_STATUS_PATTERN = /\bnot\b|\bno longer\b|نیست|غیر ?قابل|نمی ?باشد/i;
+const FILLED_STATUS_PATTERN = /full|filled|closed|sold ?out|unavailable|تکمیل|بسته/i;
+const PENDING_STATUS_PATTERN = /pending|waiting|soon|در انتظار|به زودی/i;
+const AVAILABLE_STATUS_PATTERN = /available|open|bookable|register|قابل ثبت ?نام|ثبت ?نام/i;
+
+/**
+ * Captures the JSON payloads a timetable page loads through XHR/fetch and reads
+ * appointments from them. Structured fields replace the text matching of the DOM
+ * parser whenever the site exposes them.
+ */
+export class NetworkPayloadExtractor {
+  private config: NetworkPayloadConfig;
+
+  constructor(config?: Partial<NetworkPayloadConfig>) {
+    this.config = {
+      maxPayloads: 20,
+      maxPayloadBytes: 2 * 1024 * 1024, // 2 MB
+      maxDepth: 6,
+      ...config
+    };
+  }
+
+  /**
+   * Start collecting JSON responses on a page. Call before navigating.
+   * Returns null when the page does not support response events.
+   */
+  capture(page: Page): PayloadCapture | null {
+    const pending: Array<Promise<CapturedPayload | null>> = [];
+
+    const onResponse = (response: HTTPResponse) => {
+      if (pending.length < this.config.maxPayloads && this.isJsonApiResponse(response)) {
+        pending.push(this.readPayload(response));
+      }
+    };
+
+    try {
+      page.on('response', onResponse);
+    } catch {
+      // Capturing is best effort; the DOM parser still runs without it
+      return null;
+    }
+
+    return {
+      stop: async () => {
+        try {
+          page.off('response', onResponse);
+        } catch {
+          // The page may already be closed
+        }
+        const payloads = await Promise.all(pending);
+        return payloads.filter((payload): payload is CapturedPayload => payload !== null);
+      }
+    };
+  }
+
+  /**
+   * Read appointments from captured payloads. Returns null when no payload
+   * contains a list that looks like exam slots.
+   */
+  extractAppointments(payloads: CapturedPayload[], cities: ProviderCity[] = []): PayloadExtraction | null {
+    const appointments: Array<Appointment & { jalaliDateText?: string }> = [];
+    const payloadUrls: string[] = [];
+    const notes: string[] = [];
+    const seen = new Set<string>();
+
+    for (const payload of payloads) {
+      const list = this.findAppointmentList(payload.body, 0);
+      if (!list) {
+        continue;
+      }
+
+      payloadUrls.push(payload.url);
+      let added = 0;
+      list.forEach(item => {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) {
+          return;
+        }
+        seen.add(key);
+        const appointment = this.toAppointment(item, cities);
+        if (appointment) {
+          appointments.push(appointment);
+          added++;
+        }
+      });
+      notes.push(`${payload.url}: ${added} appointment(s) from ${list.length} item(s)`);
+    }
+
+    if (appointments.length === 0) {
+      return null;
+    }
+
+    return { appointments, payloadUrls, notes };
+  }
+
+  private isJsonApiResponse(response: HTTPResponse): boolean {
+    const resourceType = response.request().resourceType();
+    if (resourceType !== 'xhr' && resourceType !== 'fetch') {
+      return false;
+    }
+
+    const contentType = response.headers()['content-type'] || '';
+    const contentLength = Number(response.headers()['content-length'] || 0);
+    return contentType.includes('json') && contentLength <= this.config.maxPayloadBytes && response.status() < 400;
+  }
+
+  private async readPayload(response: HTTPResponse): Promise<CapturedPayload | null> {
+    try {
+      const text = await response.text();
+      if (text.length > this.config.maxPayloadBytes) {
+        return null;
+      }
+      return { url: response.url(), status: response.status(), body: JSON.parse(text) };
+    } catch {
+      // Bodies of redirects and aborted requests cannot be read; malformed JSON is ignored
+      return null;
+    }
+  }
+
+  /**
+   * Find the largest array of objects in which most items look like slots: a date
+   * plus a status or time field. Other dated lists (news, holidays) are ignored.
+   */
+  private findAppointmentList(value: unknown, depth: number): JsonRecord[] | null {
+    if (depth > this.config.maxDepth || value === null || typeof value !== 'object') {
+      return null;
+    }
+
+    let best: JsonRecord[] | null = null;
+
+    if (Array.isArray(value)) {
+      const records = value.filter((item): item is JsonRecord => item !== null && typeof item === 'object' && !Array.isArray(item));
+      const slots = records.filter(record => this.isSlotRecord(record));
+      if (records.length > 0 && slots.length >= Math.ceil(records.length / 2)) {
+        best = records;
+      }
+    }
+
+    const children = Array.isArray(value) ? value : Object.values(value as JsonRecord);
+    for (const child of children) {
+      const nested = this.findAppointmentList(child, depth + 1);
+      if (nested && (!best || nested.length > best.length)) {
+        best = nested;
+      }
+    }
+
+    return best;
+  }
+
+  private isSlotRecord(record: JsonRecord): boolean {
+    const dated = this.pickString(record, FIELD_NAMES.date) || this.pickString(record, FIELD_NAMES.jalaliDate);
+    if (!dated) {
+      return false;
+    }
+
+    return [FIELD_NAMES.status, FIELD_NAMES.available, FIELD_NAMES.full, FIELD_NAMES.seats, FIELD_NAMES.time, FIELD_NAMES.startTime]
+      .some(names => this.pick(record, names) !== undefined);
+  }
+
+  private toAppointment(record: JsonRecord, cities: ProviderCity[]): (Appointment & { jalaliDateText?: string }) | null {
+    const rawDate = this.pickString(record, FIELD_NAMES.date);
+    const jalaliDate = this.pickString(record, FIELD_NAMES.jalaliDate);
+    if (!rawDate && !jalaliDate) {
+      return null;
+    }
+
+    // "2025-10-27T09:00:00" and "2025/10/27" both become a plain date; Jalali dates are converted later
+    const date = (rawDate || jalaliDate || '').replace(/^(\d{4})\/(\d{1,2})\/(\d{1,2})/, '$1-$2-$3').replace(/T.*$/, '');
+    const location = this.pickString(record, FIELD_NAMES.location) || 'Unknown Location';
+    const appointment: Appointment & { jalaliDateText?: string } = {
+      id: '',
+      date,
+      time: this.extractTime(record, rawDate),
+      location,
+      examType: this.pickString(record, FIELD_NAMES.examType) || 'IELTS',
+      city: this.resolveCity(this.pickString(record, FIELD_NAMES.city) || location, cities),
+      status: this.extractStatus(record)
+    };
+
+    if (jalaliDate) {
+      appointment.jalaliDateText = jalaliDate;
+    }
+
+    const price = this.pick(record, FIELD_NAMES.price);
+    const numericPrice = typeof price === 'number' ? price : Number(String(price ?? '').replace(/[^\d]/g, ''));
+    if (numericPrice > 0) {
+      appointment.price = numericPrice;
+    }
+
+    const registrationUrl = this.pickString(record, FIELD_NAMES.registrationUrl);
+    if (registrationUrl && /^(https?:)?\/\//.test(registrationUrl)) {
+      appointment.registrationUrl = registrationUrl;
+    }
+
+    this.readAttributes(record, appointment);
+
+    // Titles such as "CDIELTS - Academic" or "UKVI" fill in what dedicated fields left open
+    const text = Object.values(record).filter((value): value is string => typeof value === 'string').join(' ');
+    return withParsedAttributes(appointment, text);
+  }
+
+  /**
+   * Module, test format, UKVI flag and seats from dedicated fields
+   */
+  private readAttributes(record: JsonRecord, appointment: Appointment): void {
+    const module = (this.pickString(record, FIELD_NAMES.module) || '').toLowerCase();
+    if (/^(academic|ac)$/.test(module)) {
+      appointment.module = 'academic';
+    } else if (/^(general[\s_-]*training|general|gt)$/.test(module)) {
+      appointment.module = 'general-training';
+    }
+
+    const format = (this.pickString(record, FIELD_NAMES.testFormat) || '').toLowerCase();
+    if (/computer|^cd$|^cbt$/.test(format)) {
+      appointment.testFormat = 'computer';
+    } else if (/paper|^pb$|^pbt$/.test(format)) {
+      appointment.testFormat = 'paper';
+    }
+
+    const ukvi = this.pick(record, FIELD_NAMES.ukvi);
+    if (typeof ukvi === 'boolean') {
+      appointment.ukvi = ukvi;
+    }
+
+    const seats = this.pick(record, FIELD_NAMES.seats);
+    if (typeof seats === 'number' && seats >= 0) {
+      appointment.seatsLeft = seats;
+    }
+  }
+
+  private extractTime(record: JsonRecord, rawDate: string | null): string {
+    const time = this.pickString(record, FIELD_NAMES.time);
+    if (time) {
+      return time;
+    }
+
+    const start = this.pickString(record, FIELD_NAMES.startTime);
+    const end = this.pickString(record, FIELD_NAMES.endTime);
+    if (start && end) {
+      return `${start}-${end}`;
+    }
+
+    const dateTime = rawDate?.match(/T(\d{2}:\d{2})/);
+    return start || (dateTime ? dateTime[1] : 'Unknown Time');
+  }
+
+  /**
+   * Status from explicit booleans and seat counts first, then from a status string.
+   * Negated text ("not available", "قابل ثبت نام نیست") counts as filled before the
+   * available pattern is tried. Anything else stays unknown rather than being guessed.
+   */
+  private extractStatus(record: JsonRecord): Appointment['status'] {
+    const available = this.pick(record, FIELD_NAMES.available);
+    if (typeof available === 'boolean') {
+      return available ? 'available' : 'filled';
+    }
+
+    const full = this.pick(record, FIELD_NAMES.full);
+    if (typeof full === 'boolean') {
+      return full ? 'filled' : 'available';
+    }
+
+    const seats = this.pick(record, FIELD_NAMES.seats);
+    if (typeof seats === 'number') {
+      return seats > 0 ? 'available' : 'filled';
+    }
+
+    const status = this.pickString(record, FIELD_NAMES.status);
+    if (status) {
+      if (NEGATED_STATUS_PATTERN.test(status) || FILLED_STATUS_PATTERN.test(status)) {
+        return 'filled';
+      }
+      if (PENDING_STATUS_PATTERN.test(status)) {
+        return 'pending';
+      }
+      if (AVAILABLE_STATUS_PATTERN.test(status)) {
+        return 'available';
+      }
+    }
+
+    return 'unknown';
+  }
+
+  private resolveCity(value: string, cities: ProviderCity[]): string {
+    const lowerValue = value.toLowerCase();
+    const city = cities.find(candidate =>
+      lowerValue.includes(candidate.id) ||
+      lowerValue.includes(candidate.label.toLowerCase()) ||
+      candidate.aliases.some(alias => value.includes(alias))
+    );
+    return city ? city.label : value;
+  }
+
+  private pick(record: JsonRecord, names: string[]): unknown {
+    for (const [key, value] of Object.entries(record)) {
+      if (names.includes(key.toLowerCase().replace(/[_-]/g, '')) && value !== null && value !== undefined) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private pickString(record: JsonRecord, names: string[]): string | null {
+    const value = this.pick(record, names);
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    return typeof value === 'number' ? String(value) : null;
+  }
+}
@@ -1,8 +1,10 @@
 import notifier from 'node-notifier';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { Appointment, NotificationRecord, TelegramConfig } from '../models/types';
+import { AdminAlert, Appointment, NotificationRecord, TelegramConfig } from '../models/types';
 import { TelegramNotifier } from './TelegramNotifier';
+import { formatDualCalendarDate } from '../models/jalali';
+import { describeAppointmentAttributes } from '../models/attributes';
 
 /**
  * Notification Service handles multi-channel notifications for new appointments
@@ -116,6 +118,69 @@ export class NotificationService {
     return record;
   }
 
+  /**
+   * Send an operational alert to the administrator through the enabled channels.
+   * Admin alerts bypass appointment filtering and use their own message format.
+   */
+  async sendAdminAlert(
+    alert: AdminAlert,
+    channels: {
+      desktop: boolean;
+      audio: boolean;
+      logFile: boolean;
+      telegram?: boolean;
+    }
+  ): Promise<string[]> {
+    const deliveredChannels: string[] = [];
+
+    console.warn(`🛠️  Admin alert: ${alert.title} - ${alert.message}`);
+    alert.details.forEach(detail => console.warn(`   • ${detail}`));
+
+    if (channels.desktop) {
+      try {
+        await this.sendDesktopAdminAlert(alert);
+        deliveredChannels.push('desktop');
+      } catch (error) {
+        console.error('Desktop admin alert failed:', error);
+      }
+    }
+
+    if (channels.audio && alert.kind === 'layout-drift') {
+      try {
+        await this.playAudioAlert();
+        deliveredChannels.push('audio');
+      } catch (error) {
+        console.error('Audio admin alert failed:', error);
+      }
+    }
+
+    if (channels.telegram && this.telegramNotifier) {
+      if (await this.telegramNotifier.sendAdminAlert(alert)) {
+        deliveredChannels.push('telegram');
+      }
+    }
+
+    if (channels.logFile) {
+      try {
+        await this.ensureLogDirectory();
+        const logEntry = {
+          timestamp: alert.timestamp.toISOString(),
+          event: 'ADMIN_ALERT',
+          kind: alert.kind,
+          title: alert.title,
+          message: alert.message,
+          details: alert.details
+        };
+        await fs.appendFile(this.logFilePath, JSON.stringify(logEntry) + '\n', 'utf8');
+        deliveredChannels.push('logFile');
+      } catch (error) {
+        console.error('Admin alert logging failed:', error);
+      }
+    }
+
+    return deliveredChannels;
+  }
+
   /**
    * Send desktop notification with retry mechanism
    */
@@ -231,7 +296,10 @@ export class NotificationService {
         : `${availableAppointments.length} new AVAILABLE appointments`;
 
       const message = availableAppointments.length <= 3 
-        ? availableAppointments.map(apt => `${apt.date} at ${apt.time} (${apt.location}) - AVAILABLE`).join('\n')
+        ? availableAppointments.map(apt => {
+          const attributes = describeAppointmentAttributes(apt);
+          return `${apt.date} at ${apt.time} (${apt.location}) - AVAILABLE${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''}`;
+        }).join('\n')
         : `${appointmentText}\nCheck the application for details`;
 
       notifier.notify({
@@ -251,6 +319,27 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Send an admin alert as a desktop notification
+   */
+  private async sendDesktopAdminAlert(alert: AdminAlert): Promise<void> {
+    return new Promise((resolve, reject) => {
+      notifier.notify({
+        title: `IELTS Monitor: ${alert.title}`,
+        message: alert.message,
+        sound: false,
+        wait: false,
+        timeout: 10
+      }, (err, _response) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
   /**
    * Play audio alert using system beep or custom sound
    */
@@ -325,7 +414,7 @@ export class NotificationService {
         id: apt.id,
         status: apt.status,
         reason: this.getFilterReason(apt.status),
-        appointmentDetails: `${apt.date} ${apt.time} at ${apt.location}`
+        appointmentDetails: `${formatDualCalendarDate(apt.date)} ${apt.time} at ${apt.location}`
       })),
       
       // Only log available appointments - Requirement 3.1
@@ -336,6 +425,7 @@ export class NotificationService {
         location: apt.location,
         examType: apt.examType,
         city: apt.city,
+        providerId: apt.providerId,
         status: apt.status // Should always be 'available'
       })),
       
@@ -526,7 +616,7 @@ export class NotificationService {
       filteredAppointments.forEach(apt => {
         const reason = this.getFilterReason(apt.status);
         console.log(`🚫 Filtered appointment ${apt.id}: status='${apt.status}' - ${reason}`);
-        console.log(`   Details: ${apt.date} ${apt.time} at ${apt.location} (${apt.examType})`);
+        console.log(`   Details: ${formatDualCalendarDate(apt.date)} ${apt.time} at ${apt.location} (${apt.examType})`);
       });
       
       // Log summary by status type
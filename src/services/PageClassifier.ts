@@ -0,0 +1,98 @@
+import { PageIssue, PageIssueKind } from '../models/types';
+
+/**
+ * What the classifier needs to know about a loaded page
+ */
+export interface PageSnapshot {
+  url: string;
+  httpStatus: number | null; // null for saved fixtures or when the backend did not report one
+  title: string;
+  text: string | null; // Visible body text, null when it could not be read
+  appointmentCount: number; // Appointments the parser found on the page
+}
+
+interface IssuePattern {
+  kind: PageIssueKind;
+  indicator: string;
+  pattern: RegExp;
+}
+
+/**
+ * Text and title patterns of pages that are not a timetable.
+ * Challenge patterns come first: CDN challenge pages often mention "please wait" or maintenance-like wording.
+ */
+const ISSUE_PATTERNS: IssuePattern[] = [
+  { kind: 'blocked', indicator: 'cloudflare-challenge', pattern: /just a moment\.\.\.|checking your browser|cf-browser-verification|attention required!? \| cloudflare|enable javascript and cookies to continue/i },
+  { kind: 'blocked', indicator: 'arvancloud-challenge', pattern: /arvancloud|ابر آروان/i },
+  { kind: 'blocked', indicator: 'captcha', pattern: /captcha|are you a robot|verify you are human/i },
+  { kind: 'blocked', indicator: 'access-denied', pattern: /access denied|forbidden|you have been blocked|request blocked|دسترسی .{0,20}(غیرمجاز|مسدود)/i },
+  { kind: 'blocked', indicator: 'rate-limited', pattern: /too many requests|rate limit/i },
+  { kind: 'maintenance', indicator: 'maintenance-banner', pattern: /under maintenance|scheduled maintenance|maintenance mode|down for maintenance|be back soon|temporarily unavailable/i },
+  { kind: 'maintenance', indicator: 'persian-maintenance-banner', pattern: /در حال (به ?روز ?رسانی|بروزرسانی|تعمیر)|در دست (تعمیر|به ?روز ?رسانی)|سایت موقتا/i },
+  { kind: 'error', indicator: 'server-error-text', pattern: /internal server error|bad gateway|gateway time-?out|service unavailable|an error occurred|خطای سرور/i }
+];
+
+/**
+ * Pages with less visible text than this are treated as empty error pages
+ */
+const MIN_PAGE_TEXT_LENGTH = 40;
+
+/**
+ * Tells blocked, challenge, maintenance and error pages apart from genuinely empty
+ * timetables, so they are not reported as "no slots".
+ */
+export class PageClassifier {
+  /**
+   * Classify a loaded page. Returns null for a normal timetable page.
+   * Pages with appointments are always normal, whatever else they show.
+   */
+  classify(snapshot: PageSnapshot): PageIssue | null {
+    if (snapshot.appointmentCount > 0) {
+      return null;
+    }
+
+    const text = `${snapshot.title}\n${snapshot.text || ''}`;
+    const matches = ISSUE_PATTERNS.filter(issue => issue.pattern.test(text));
+    const status = snapshot.httpStatus;
+
+    let kind: PageIssueKind | null = null;
+    let reason = '';
+
+    if (status === 401 || status === 403 || status === 429) {
+      kind = 'blocked';
+      reason = `HTTP ${status} response`;
+    } else if (matches.some(match => match.kind === 'blocked')) {
+      kind = 'blocked';
+      reason = 'Page looks like a bot challenge or access-denied page';
+    } else if (matches.some(match => match.kind === 'maintenance')) {
+      kind = 'maintenance';
+      reason = 'Page shows a maintenance notice';
+    } else if (status === 503) {
+      kind = 'maintenance';
+      reason = 'HTTP 503 Service Unavailable';
+    } else if (status !== null && status >= 400) {
+      kind = 'error';
+      reason = `HTTP ${status} response`;
+    } else if (matches.some(match => match.kind === 'error')) {
+      kind = 'error';
+      reason = 'Page shows a server error message';
+    } else if (snapshot.text !== null && snapshot.text.trim().length < MIN_PAGE_TEXT_LENGTH) {
+      kind = 'error';
+      reason = 'Page is empty';
+    }
+
+    if (!kind) {
+      return null;
+    }
+
+    return {
+      kind,
+      url: snapshot.url,
+      reason,
+      httpStatus: status,
+      indicators: matches.map(match => match.indicator),
+      pageTitle: snapshot.title,
+      textSample: (snapshot.text || '').replace(/\s+/g, ' ').trim().slice(0, 200)
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { CheckResult } from '../models/types';
+
+/**
+ * Configuration for skipping unchanged timetable pages
+ */
+export interface PageFingerprintCacheConfig {
+  maxAgeMs: number; // A page is fully parsed again after this long even when unchanged
+}
+
+interface FingerprintEntry {
+  fingerprint: string;
+  checkResult: CheckResult;
+  parsedAt: number;
+}
+
+/**
+ * In-page script returning the normalized markup of the timetable region: the
+ * nearest common ancestor of all appointment elements found (so a change in any
+ * day or centre group counts), or the body without scripts when no appointment
+ * elements exist. Volatile attributes (CSRF tokens, nonces) are left out so they
+ * do not change the fingerprint on every load.
+ */
+export const FINGERPRINT_SCRIPT = `(() => {
+  const selectors = ['a.exam__item', '.exam__item', '.appointment-card', '.timetable-item', '.exam-slot', '[data-appointment]'];
+  let region = null;
+  for (const selector of selectors) {
+    const elements = Array.from(document.querySelectorAll(selector));
+    if (elements.length > 0) {
+      let ancestor = elements[0].parentElement || elements[0];
+      while (ancestor.parentElement && !elements.every(element => ancestor.contains(element))) {
+        ancestor = ancestor.parentElement;
+      }
+      region = ancestor;
+      break;
+    }
+  }
+  if (!region) {
+    region = document.body;
+  }
+  if (!region) {
+    return null;
+  }
+
+  const clone = region.cloneNode(true);
+  clone.querySelectorAll('script, style, noscript, input[type="hidden"]').forEach(element => element.remove());
+  clone.querySelectorAll('[nonce], [data-csrf], [data-token]').forEach(element => {
+    element.removeAttribute('nonce');
+    element.removeAttribute('data-csrf');
+    element.removeAttribute('data-token');
+  });
+  return clone.outerHTML;
+})()`;
+
+/**
+ * Remembers a fingerprint of the timetable region of each URL with the result it
+ * produced. Most checks see the same page, so an unchanged fingerprint lets the
+ * scraper skip parsing, inspection writes and tracking updates.
+ */
+export class PageFingerprintCache {
+  private config: PageFingerprintCacheConfig;
+  private entries = new Map<string, FingerprintEntry>();
+
+  constructor(config?: Partial<PageFingerprintCacheConfig>) {
+    this.config = {
+      maxAgeMs: 30 * 60 * 1000, // 30 minutes
+      ...config
+    };
+  }
+
+  /**
+   * Fingerprint page content; whitespace differences do not count as changes
+   */
+  static fingerprint(content: string, salt: string = ''): string {
+    const normalized = content.replace(/<!--[\s\S]*?-->/g, '').replace(/\s+/g, ' ').replace(/>\s+</g, '><').trim();
+    return createHash('sha256').update(`${salt}\n${normalized}`).digest('hex');
+  }
+
+  /**
+   * Result of the last parse of a URL when its fingerprint has not changed since.
+   * The returned copy is marked as unchanged and carries the current time.
+   */
+  lookup(url: string, fingerprint: string, now: number = Date.now()): CheckResult | null {
+    const entry = this.entries.get(url);
+    if (!entry || entry.fingerprint !== fingerprint || now - entry.parsedAt >= this.config.maxAgeMs) {
+      return null;
+    }
+
+    // Layout signals and review candidates were already reported by the parse that produced them
+    const { layoutObservations, lowConfidenceSlots, ...checkResult } = entry.checkResult;
+    return { ...checkResult, timestamp: new Date(now), unchanged: true };
+  }
+
+  /**
+   * Remember the result of a full parse. Blocked, maintenance and error pages
+   * are never reused, so they are classified on every check.
+   */
+  store(url: string, fingerprint: string, checkResult: CheckResult, now: number = Date.now()): void {
+    if (checkResult.pageIssues && checkResult.pageIssues.length > 0) {
+      this.entries.delete(url);
+      return;
+    }
+    this.entries.set(url, { fingerprint, checkResult, parsedAt: now });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
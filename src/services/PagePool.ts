@@ -0,0 +1,147 @@
+import type { Page } from 'puppeteer';
+
+/**
+ * Configuration for the browser page pool
+ */
+export interface PagePoolConfig {
+  maxPages: number; // Maximum number of pages open at the same time
+}
+
+/**
+ * Page pool statistics
+ */
+export interface PagePoolStats {
+  created: number;
+  inUse: number;
+  idle: number;
+  waiting: number;
+}
+
+/**
+ * Bounded pool of browser pages.
+ * Pages are created lazily up to maxPages and reused between tasks; callers
+ * beyond the limit wait until a page is released.
+ */
+export class PagePool {
+  private config: PagePoolConfig;
+  private idlePages: Page[] = [];
+  private inUse = new Set<Page>();
+  private waiters: Array<(page: Page | null) => void> = [];
+  private created = 0;
+  private opening = 0;
+
+  constructor(private createPage: () => Promise<Page>, config?: Partial<PagePoolConfig>) {
+    this.config = {
+      maxPages: 3,
+      ...config
+    };
+  }
+
+  /**
+   * Get a page, waiting for one to be released when the pool is full
+   */
+  async acquire(): Promise<Page> {
+    const idlePage = this.idlePages.pop();
+    if (idlePage) {
+      this.inUse.add(idlePage);
+      return idlePage;
+    }
+
+    if (this.inUse.size + this.opening < this.config.maxPages) {
+      return this.openPage();
+    }
+
+    const releasedPage = await new Promise<Page | null>(resolve => this.waiters.push(resolve));
+    if (releasedPage) {
+      this.inUse.add(releasedPage);
+      return releasedPage;
+    }
+
+    // A broken page was discarded; open a replacement in its slot
+    return this.openPage();
+  }
+
+  /**
+   * Return a page to the pool. Unhealthy pages (after navigation or session
+   * errors) are closed instead of being reused.
+   */
+  async release(page: Page, healthy: boolean = true): Promise<void> {
+    if (!this.inUse.delete(page)) {
+      return;
+    }
+
+    if (!healthy) {
+      await this.closePage(page);
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(healthy ? page : null);
+    } else if (healthy) {
+      this.idlePages.push(page);
+    }
+  }
+
+  /**
+   * Run a task with a pooled page
+   */
+  async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.acquire();
+    let healthy = true;
+
+    try {
+      return await task(page);
+    } catch (error) {
+      healthy = false;
+      throw error;
+    } finally {
+      await this.release(page, healthy);
+    }
+  }
+
+  /**
+   * Close all idle pages
+   */
+  async drain(): Promise<void> {
+    const pages = this.idlePages.splice(0);
+    await Promise.all(pages.map(page => this.closePage(page)));
+  }
+
+  /**
+   * Get pool statistics
+   */
+  getStats(): PagePoolStats {
+    return {
+      created: this.created,
+      inUse: this.inUse.size + this.opening,
+      idle: this.idlePages.length,
+      waiting: this.waiters.length
+    };
+  }
+
+  private async openPage(): Promise<Page> {
+    // Count the slot before the async page creation so concurrent callers respect the limit
+    this.opening++;
+
+    try {
+      const page = await this.createPage();
+      this.created++;
+      this.inUse.add(page);
+      return page;
+    } catch (error) {
+      // Hand the slot to a waiting caller so it can try opening a page itself
+      this.waiters.shift()?.(null);
+      throw error;
+    } finally {
+      this.opening--;
+    }
+  }
+
+  private async closePage(page: Page): Promise<void> {
+    try {
+      await page.close();
+    } catch {
+      // Page may already be gone with its browser
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { PolitenessRate } from '../models/types';
+
+/**
+ * Configuration for adapting the request pace to server signals
+ */
+export interface PolitenessSchedulerConfig {
+  baseSpacingMs: number; // Average spacing between requests at the normal pace
+  initialBackoffMs: number; // Pause after the first 429/503 without Retry-After
+  maxBackoffMs: number; // Upper bound for backoff pauses
+  maxRetryAfterMs: number; // Longer Retry-After values are capped to this
+  maxLevel: number; // Each level doubles request spacing and the check interval
+  recoveryResponses: number; // Healthy responses in a row needed to step one level back
+  jitterRatio: number; // Backoff pauses vary randomly by this share in both directions
+}
+
+/**
+ * Status codes that ask clients to slow down
+ */
+const SLOW_DOWN_STATUSES = [429, 503];
+
+/**
+ * Shared request pace for all month URLs of a site. HTTP 429/503 responses raise
+ * the backoff level and pause new requests for their Retry-After (or a jittered
+ * exponential backoff); healthy responses step the level back down one at a time.
+ */
+export class PolitenessScheduler {
+  private config: PolitenessSchedulerConfig;
+  private level = 0;
+  private healthyStreak = 0;
+  private pausedUntil = 0;
+  private lastSignal: string | null = null;
+
+  constructor(config?: Partial<PolitenessSchedulerConfig>) {
+    this.config = {
+      baseSpacingMs: 2000,
+      initialBackoffMs: 15000,
+      maxBackoffMs: 10 * 60 * 1000, // 10 minutes
+      maxRetryAfterMs: 60 * 60 * 1000, // 1 hour
+      maxLevel: 4,
+      recoveryResponses: 3,
+      jitterRatio: 0.3,
+      ...config
+    };
+  }
+
+  /**
+   * Record the status and Retry-After header of a response from the site
+   */
+  recordResponse(httpStatus: number | null, retryAfter?: string | null, now: number = Date.now()): void {
+    if (httpStatus === null) {
+      return;
+    }
+
+    if (SLOW_DOWN_STATUSES.includes(httpStatus)) {
+      const retryAfterMs = PolitenessScheduler.parseRetryAfter(retryAfter, now);
+      this.level = Math.min(this.level + 1, this.config.maxLevel);
+      this.healthyStreak = 0;
+
+      const backoff = retryAfterMs !== null
+        ? Math.min(retryAfterMs, this.config.maxRetryAfterMs)
+        : this.jitter(Math.min(this.config.initialBackoffMs * Math.pow(2, this.level - 1), this.config.maxBackoffMs));
+      this.pausedUntil = Math.max(this.pausedUntil, now + backoff);
+      this.lastSignal = `HTTP ${httpStatus}${retryAfterMs !== null ? ` (Retry-After ${Math.round(retryAfterMs / 1000)}s)` : ''}`;
+
+      console.warn(`🐢 Server asked to slow down (${this.lastSignal}); pausing requests for ${Math.round(backoff / 1000)}s, pace now 1/${this.getSlowdownFactor()} of normal`);
+      return;
+    }
+
+    if (httpStatus < 400 && this.level > 0) {
+      this.healthyStreak++;
+      if (this.healthyStreak >= this.config.recoveryResponses) {
+        this.level--;
+        this.healthyStreak = 0;
+        console.log(`🐇 Healthy responses, pace recovering to 1/${this.getSlowdownFactor()} of normal`);
+      }
+    }
+  }
+
+  /**
+   * Multiplier applied to request spacing and the check interval
+   */
+  getSlowdownFactor(): number {
+    return Math.pow(2, this.level);
+  }
+
+  /**
+   * Time before which no new request should start, 0 when not paused
+   */
+  getPausedUntil(now: number = Date.now()): number {
+    return this.pausedUntil > now ? this.pausedUntil : 0;
+  }
+
+  /**
+   * Current effective pace, for logs and status output
+   */
+  getRate(now: number = Date.now()): PolitenessRate {
+    const requestSpacingMs = this.config.baseSpacingMs * this.getSlowdownFactor();
+    const pausedUntil = this.getPausedUntil(now);
+
+    return {
+      level: this.level,
+      slowdownFactor: this.getSlowdownFactor(),
+      requestSpacingMs,
+      requestsPerMinute: Math.round((60000 / requestSpacingMs) * 10) / 10,
+      pausedUntil: pausedUntil ? new Date(pausedUntil) : null,
+      lastSignal: this.lastSignal
+    };
+  }
+
+  /**
+   * Parse a Retry-After header given in seconds or as an HTTP date
+   */
+  static parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+    if (!value || !value.trim()) {
+      return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+  }
+
+  private jitter(delay: number): number {
+    const spread = delay * this.config.jitterRatio;
+    return Math.round(delay - spread + Math.random() * spread * 2);
+  }
+}
@@ -0,0 +1,199 @@
+import type { HTTPRequest, Page } from 'puppeteer';
+import { DetectionRuleSet, PageReadiness, PageReadySignal } from '../models/types';
+
+/**
+ * Configuration for what a browser page loads and when it counts as ready
+ */
+export interface ResourcePolicyConfig {
+  blockResourceTypes: string[]; // Puppeteer resource types that are never downloaded
+  blockThirdParty: boolean; // Block requests to hosts other than the timetable's site
+  allowHosts: string[]; // Third-party hosts (and their subdomains) that are still loaded
+  readiness: PageReadiness;
+  readinessTimeoutMs: number; // How long to wait for appointments or the empty-state marker
+}
+
+/**
+ * Puppeteer resource types a policy may block; the timetable document itself never is
+ */
+export const BLOCKABLE_RESOURCE_TYPES = [
+  'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch', 'prefetch',
+  'eventsource', 'websocket', 'manifest', 'signedexchange', 'ping', 'cspviolationreport', 'preflight', 'other'
+];
+
+/**
+ * Request counts of one page load under the policy
+ */
+export interface RequestCounts {
+  allowed: number;
+  blocked: number;
+}
+
+/**
+ * Request blocking installed on a page for one load
+ */
+export interface ResourceBlocking {
+  stop(): Promise<RequestCounts>;
+}
+
+/**
+ * What marks a rendered timetable: the parser's appointment selectors and the
+ * rule set's empty-state texts
+ */
+export interface ReadinessMarkers {
+  selectors: string[];
+  noSlotsIndicators: DetectionRuleSet['noSlotsIndicators'];
+}
+
+/**
+ * In-page script that reports whether the timetable has rendered: 'appointments'
+ * once appointment elements exist, 'empty-state' once the page shows one of the
+ * rule set's no-slots texts, and false while neither is there yet.
+ */
+export function createReadinessScript(markers: ReadinessMarkers): string {
+  return `(() => {
+  const selectors = ${JSON.stringify(markers.selectors)};
+  if (selectors.some(selector => document.querySelector(selector))) {
+    return 'appointments';
+  }
+  const text = document.body ? (document.body.innerText || document.body.textContent || '') : '';
+  const markers = ${JSON.stringify(markers.noSlotsIndicators.text)};
+  const markersIgnoreCase = ${JSON.stringify(markers.noSlotsIndicators.textIgnoreCase)};
+  if (markers.some(marker => text.includes(marker)) ||
+      markersIgnoreCase.some(marker => text.toLowerCase().includes(marker.toLowerCase()))) {
+    return 'empty-state';
+  }
+  return false;
+})()`;
+}
+
+/**
+ * Decides which requests a page may make and when the page is ready to parse.
+ * Detection only needs the timetable markup (and any JSON it loads), so images,
+ * fonts, media and third-party scripts such as analytics are blocked, and pages
+ * are parsed as soon as appointments or the empty-state marker appear instead of
+ * after the network has gone idle.
+ */
+export class ResourcePolicy {
+  private config: ResourcePolicyConfig;
+
+  constructor(config?: Partial<ResourcePolicyConfig>) {
+    this.config = {
+      blockResourceTypes: ['image', 'media', 'font'],
+      blockThirdParty: true,
+      allowHosts: [],
+      readiness: 'content',
+      readinessTimeoutMs: 10000,
+      ...config
+    };
+  }
+
+  getConfig(): ResourcePolicyConfig {
+    return { ...this.config, blockResourceTypes: [...this.config.blockResourceTypes], allowHosts: [...this.config.allowHosts] };
+  }
+
+  /**
+   * Navigation option matching the readiness condition: with 'content' the
+   * navigation returns at DOMContentLoaded and waitUntilReady() does the rest
+   */
+  getNavigationWaitUntil(): 'domcontentloaded' | 'networkidle2' {
+    return this.config.readiness === 'network-idle' ? 'networkidle2' : 'domcontentloaded';
+  }
+
+  /**
+   * Whether a request from a page of the given site should be blocked
+   */
+  shouldBlock(requestUrl: string, resourceType: string, siteUrl: string): boolean {
+    let host: string;
+    let siteHost: string;
+    try {
+      const parsed = new URL(requestUrl);
+      if (parsed.protocol === 'data:' || parsed.protocol === 'blob:') {
+        return false;
+      }
+      host = parsed.hostname.toLowerCase();
+      siteHost = new URL(siteUrl).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    if (this.config.blockResourceTypes.includes(resourceType)) {
+      return true;
+    }
+
+    if (this.config.blockThirdParty && !isSameSite(host, siteHost)) {
+      return !this.config.allowHosts.some(allowed => host === allowed.toLowerCase() || host.endsWith(`.${allowed.toLowerCase()}`));
+    }
+
+    return false;
+  }
+
+  /**
+   * Intercept the requests of the next load on a page. Pooled pages are reused,
+   * so stop() must be called once the load is parsed. Returns null when the page
+   * does not support interception; it then loads everything.
+   */
+  async apply(page: Page, siteUrl: string): Promise<ResourceBlocking | null> {
+    if (this.config.blockResourceTypes.length === 0 && !this.config.blockThirdParty) {
+      return null;
+    }
+
+    const counts: RequestCounts = { allowed: 0, blocked: 0 };
+    const onRequest = (request: HTTPRequest) => {
+      // The timetable document itself is always loaded
+      const isMainDocument = request.isNavigationRequest() && request.frame() === page.mainFrame();
+      if (!isMainDocument && this.shouldBlock(request.url(), request.resourceType(), siteUrl)) {
+        counts.blocked++;
+        request.abort('blockedbyclient').catch(() => undefined);
+      } else {
+        counts.allowed++;
+        request.continue().catch(() => undefined);
+      }
+    };
+
+    try {
+      await page.setRequestInterception(true);
+      page.on('request', onRequest);
+    } catch {
+      // Blocking is an optimisation; the page still loads without it
+      return null;
+    }
+
+    return {
+      stop: async () => {
+        try {
+          await page.setRequestInterception(false);
+          page.off('request', onRequest);
+        } catch {
+          // The page may already be closed
+        }
+        return { ...counts };
+      }
+    };
+  }
+
+  /**
+   * Wait until appointments or the empty-state marker are on the page. Pages
+   * showing neither (e.g. challenge or error pages) are parsed after the timeout.
+   */
+  async waitUntilReady(page: Page, markers: ReadinessMarkers): Promise<PageReadySignal> {
+    if (this.config.readiness === 'network-idle') {
+      return 'network-idle';
+    }
+
+    try {
+      const handle = await page.waitForFunction(createReadinessScript(markers), { timeout: this.config.readinessTimeoutMs, polling: 100 });
+      const signal = await handle.jsonValue();
+      return signal === 'empty-state' ? 'empty-state' : 'appointments';
+    } catch {
+      return 'timeout';
+    }
+  }
+}
+
+/**
+ * Hosts of the same site, e.g. irsafam.org and cdn.irsafam.org
+ */
+function isSameSite(host: string, siteHost: string): boolean {
+  const baseDomain = siteHost.split('.').slice(-2).join('.');
+  return host === siteHost || host === baseDomain || host.endsWith(`.${baseDomain}`);
+}
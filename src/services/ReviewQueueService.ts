@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Appointment, LowConfidenceSlot } from '../models/types';
+import { hashString } from '../models/utils';
+import { getProvider } from './providers';
+
+/**
+ * Configuration for the low-confidence review queue
+ */
+export interface ReviewQueueConfig {
+  queueFile: string;
+  corpusFile: string | null; // Labeled slots; null saves them next to the provider's fixtures
+  maxEntries: number; // Oldest entries are dropped beyond this
+}
+
+/**
+ * Statuses an operator can assign to a slot
+ */
+export type ReviewLabel = Exclude<Appointment['status'], 'unknown'>;
+
+export const REVIEW_LABELS: ReviewLabel[] = ['available', 'filled', 'pending', 'not-registerable'];
+
+/**
+ * A low-confidence slot waiting for an operator's label
+ */
+export interface ReviewQueueEntry {
+  id: string;
+  providerId?: string | undefined;
+  url: string;
+  appointment: Pick<Appointment, 'id' | 'date' | 'time' | 'location' | 'city' | 'examType'>;
+  detectedStatus: Appointment['status'];
+  confidence: number;
+  fallbackUsed: boolean;
+  indicators: string[];
+  reasoning: string;
+  ruleId?: string | undefined;
+  rawHtml: string;
+  firstSeenAt: string; // ISO timestamp
+  lastSeenAt: string; // ISO timestamp
+  occurrences: number;
+}
+
+/**
+ * A slot with its status as labeled by an operator
+ */
+export interface LabeledSlot {
+  id: string;
+  providerId?: string | undefined;
+  label: ReviewLabel;
+  detectedStatus: Appointment['status'];
+  confidence: number;
+  ruleId?: string | undefined;
+  indicators: string[];
+  rawHtml: string;
+  url: string;
+  labeledAt: string; // ISO timestamp
+}
+
+/**
+ * Persists slots whose status detection was not confident enough, so they are
+ * reviewed instead of silently staying "unknown". Labeled slots move to a corpus
+ * file that the detection tests replay.
+ */
+export class ReviewQueueService {
+  private config: ReviewQueueConfig;
+
+  constructor(config?: Partial<ReviewQueueConfig>) {
+    this.config = {
+      queueFile: path.join('data', 'review-queue.json'),
+      corpusFile: null,
+      maxEntries: 200,
+      ...config
+    };
+  }
+
+  /**
+   * Add low-confidence slots to the queue. A slot seen again updates its entry.
+   * Returns the number of new entries.
+   */
+  async enqueue(slots: LowConfidenceSlot[], now: Date = new Date()): Promise<number> {
+    if (slots.length === 0) {
+      return 0;
+    }
+
+    const queue = await this.list();
+    let added = 0;
+
+    for (const slot of slots) {
+      const id = ReviewQueueService.createEntryId(slot.appointment.id, slot.rawHtml);
+      const existing = queue.find(entry => entry.id === id);
+      if (existing) {
+        existing.lastSeenAt = now.toISOString();
+        existing.occurrences++;
+        existing.confidence = slot.confidence;
+        continue;
+      }
+
+      queue.push({
+        id,
+        providerId: slot.appointment.providerId,
+        url: slot.url,
+        appointment: {
+          id: slot.appointment.id,
+          date: slot.appointment.date,
+          time: slot.appointment.time,
+          location: slot.appointment.location,
+          city: slot.appointment.city,
+          examType: slot.appointment.examType
+        },
+        detectedStatus: slot.appointment.status,
+        confidence: slot.confidence,
+        fallbackUsed: slot.fallbackUsed,
+        indicators: slot.indicators,
+        reasoning: slot.reasoning,
+        ruleId: slot.ruleId,
+        rawHtml: slot.rawHtml,
+        firstSeenAt: now.toISOString(),
+        lastSeenAt: now.toISOString(),
+        occurrences: 1
+      });
+      added++;
+    }
+
+    // Keep the most recently seen entries
+    queue.sort((a, b) => a.lastSeenAt.localeCompare(b.lastSeenAt));
+    await this.writeJson(this.config.queueFile, queue.slice(-this.config.maxEntries));
+    return added;
+  }
+
+  /**
+   * Entries waiting for a label, oldest first
+   */
+  async list(): Promise<ReviewQueueEntry[]> {
+    return this.readJson<ReviewQueueEntry[]>(this.config.queueFile, []);
+  }
+
+  /**
+   * Label an entry: it leaves the queue and is saved to the corpus
+   */
+  async label(id: string, label: ReviewLabel, now: Date = new Date()): Promise<LabeledSlot> {
+    if (!REVIEW_LABELS.includes(label)) {
+      throw new Error(`Invalid label "${label}". Use one of: ${REVIEW_LABELS.join(', ')}`);
+    }
+
+    const queue = await this.list();
+    const entry = queue.find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new Error(`No review entry with ID ${id}`);
+    }
+
+    const labeled: LabeledSlot = {
+      id: entry.id,
+      providerId: entry.providerId,
+      label,
+      detectedStatus: entry.detectedStatus,
+      confidence: entry.confidence,
+      ruleId: entry.ruleId,
+      indicators: entry.indicators,
+      rawHtml: entry.rawHtml,
+      url: entry.url,
+      labeledAt: now.toISOString()
+    };
+
+    // A relabeled slot replaces its earlier label
+    const corpus = (await this.loadCorpus(entry.providerId)).filter(candidate => candidate.id !== id);
+    corpus.push(labeled);
+    await this.writeJson(this.getCorpusFile(entry.providerId), corpus);
+    await this.writeJson(this.config.queueFile, queue.filter(candidate => candidate.id !== id));
+
+    return labeled;
+  }
+
+  /**
+   * Drop an entry without labeling it, e.g. when it is not an appointment at all
+   */
+  async discard(id: string): Promise<boolean> {
+    const queue = await this.list();
+    const remaining = queue.filter(entry => entry.id !== id);
+    if (remaining.length === queue.length) {
+      return false;
+    }
+    await this.writeJson(this.config.queueFile, remaining);
+    return true;
+  }
+
+  async loadCorpus(providerId?: string): Promise<LabeledSlot[]> {
+    return this.readJson<LabeledSlot[]>(this.getCorpusFile(providerId), []);
+  }
+
+  /**
+   * Corpus file for a provider's slots, next to its saved timetable pages
+   */
+  getCorpusFile(providerId?: string): string {
+    return this.config.corpusFile || path.join(getProvider(providerId).fixturesDirectory, 'review-corpus.json');
+  }
+
+  /**
+   * Entry IDs change with the markup, so a slot whose card changed is reviewed again
+   */
+  static createEntryId(appointmentId: string, rawHtml: string): string {
+    return `review-${hashString(`${appointmentId}|${rawHtml}`).padStart(8, '0')}`;
+  }
+
+  private async readJson<T>(file: string, fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+    } catch {
+      // Missing or unreadable files start empty
+      return fallback;
+    }
+  }
+
+  private async writeJson(file: string, data: unknown): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to save ${path.basename(file)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
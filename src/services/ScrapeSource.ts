@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { ScrapingFilters } from './WebScraperService';
+
+/**
+ * A single page to run the status detection pipeline against
+ */
+export interface ScrapeTarget {
+  url: string; // URL reported in check results and inspection data
+  label: string; // Human-readable label for logs
+  filePath?: string; // Saved HTML to load instead of navigating to the URL
+}
+
+/**
+ * Where the scraper gets its pages from
+ */
+export interface ScrapeSource {
+  readonly kind: 'live' | 'html-fixture';
+  describe(): string;
+  resolveTargets(filters: ScrapingFilters): Promise<ScrapeTarget[]>;
+}
+
+/**
+ * Live website source: one request URL per month
+ */
+export class LiveScrapeSource implements ScrapeSource {
+  readonly kind = 'live' as const;
+
+  constructor(
+    private baseUrl: string,
+    private buildRequestUrls: (filters: ScrapingFilters) => string[]
+  ) {}
+
+  describe(): string {
+    return this.baseUrl;
+  }
+
+  async resolveTargets(filters: ScrapingFilters): Promise<ScrapeTarget[]> {
+    return this.buildRequestUrls(filters).map((url, index) => {
+      const month = filters.months[index];
+      return {
+        url,
+        label: month ? new Date(2000, month - 1, 1).toLocaleString('en-US', { month: 'long' }) : 'All months'
+      };
+    });
+  }
+}
+
+/**
+ * Offline source reading saved timetable pages from a file or a directory of
+ * .html/.htm files. Accepts plain paths and file:// URLs.
+ */
+export class HtmlFixtureSource implements ScrapeSource {
+  readonly kind = 'html-fixture' as const;
+  private fixturePath: string;
+
+  constructor(location: string) {
+    this.fixturePath = HtmlFixtureSource.toPath(location);
+  }
+
+  /**
+   * Convert a file:// URL or relative path to an absolute file system path
+   */
+  static toPath(location: string): string {
+    if (location.startsWith('file://')) {
+      return fileURLToPath(location);
+    }
+    return path.resolve(location);
+  }
+
+  describe(): string {
+    return this.fixturePath;
+  }
+
+  /**
+   * Filters do not apply to saved pages; every fixture file becomes a target
+   */
+  async resolveTargets(_filters: ScrapingFilters): Promise<ScrapeTarget[]> {
+    let stats;
+    try {
+      stats = await fs.stat(this.fixturePath);
+    } catch (error) {
+      throw new Error(`HTML fixture not found: ${this.fixturePath}`);
+    }
+
+    let files: string[];
+    if (stats.isDirectory()) {
+      const entries = await fs.readdir(this.fixturePath);
+      files = entries
+        .filter(entry => /\.html?$/i.test(entry))
+        .sort()
+        .map(entry => path.join(this.fixturePath, entry));
+
+      if (files.length === 0) {
+        throw new Error(`No .html files found in fixture directory: ${this.fixturePath}`);
+      }
+    } else {
+      files = [this.fixturePath];
+    }
+
+    return files.map(filePath => ({
+      url: pathToFileURL(filePath).href,
+      label: path.basename(filePath),
+      filePath
+    }));
+  }
+}
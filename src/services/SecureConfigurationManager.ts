@@ -1,5 +1,11 @@
 import * as fs from 'fs-extra';
-import { MonitorConfig, TelegramConfig, EnvironmentConfig, ValidationResult } from '../models/types';
+import { MonitorConfig, TelegramConfig, EnvironmentConfig, ValidationResult, ScraperBackend, MonthCalendar, ProxyRotation } from '../models/types';
+import { getProvider, getProviderIds } from './providers';
+import { ProxyPool } from './ProxyPool';
+import { BLOCKABLE_RESOURCE_TYPES } from './ResourcePolicy';
+import { DEFAULT_ADAPTIVE_MAX_INTERVAL_MS, DEFAULT_ADAPTIVE_MIN_INTERVAL_MS } from './AdaptiveCheckScheduler';
+import { validateAttributeFilter, validateDateFilter, validateMonitorSchedule, validateWatchProfiles } from '../models/validation';
+import { parseDateFilterExpression } from '../models/dateFilters';
 
 /**
  * Secure Configuration Manager handles loading configuration from environment variables
@@ -111,6 +117,27 @@ export class SecureConfigurationManager {
     if (process.env.MONITOR_BASE_URL) {
       config.monitorBaseUrl = process.env.MONITOR_BASE_URL;
     }
+    if (process.env.MONITOR_PROVIDER) {
+      config.monitorProvider = process.env.MONITOR_PROVIDER;
+    }
+    if (process.env.MONITOR_MONTH_CALENDAR) {
+      config.monitorMonthCalendar = process.env.MONITOR_MONTH_CALENDAR;
+    }
+    if (process.env.MONITOR_SCRAPER_BACKEND) {
+      config.monitorScraperBackend = process.env.MONITOR_SCRAPER_BACKEND;
+    }
+    if (process.env.MONITOR_SCRAPE_CONCURRENCY) {
+      config.monitorScrapeConcurrency = parseInt(process.env.MONITOR_SCRAPE_CONCURRENCY);
+    }
+    if (process.env.MONITOR_PROXIES) {
+      config.monitorProxies = process.env.MONITOR_PROXIES.split(',').map(proxy => proxy.trim()).filter(Boolean);
+    }
+    if (process.env.MONITOR_PROXY_ROTATION) {
+      config.monitorProxyRotation = process.env.MONITOR_PROXY_ROTATION;
+    }
+    if (process.env.MONITOR_DATE_FILTER) {
+      config.monitorDateFilter = process.env.MONITOR_DATE_FILTER;
+    }
     if (process.env.LOG_LEVEL) {
       config.logLevel = process.env.LOG_LEVEL;
     }
@@ -166,7 +193,21 @@ export class SecureConfigurationManager {
     if (fileConfig.examModel) mergedConfig.examModel = fileConfig.examModel;
     if (fileConfig.months) mergedConfig.months = fileConfig.months;
     if (fileConfig.checkInterval) mergedConfig.checkInterval = fileConfig.checkInterval;
+    if (fileConfig.adaptiveInterval) mergedConfig.adaptiveInterval = { ...fileConfig.adaptiveInterval };
+    if (fileConfig.schedule) mergedConfig.schedule = { ...fileConfig.schedule };
+    if (fileConfig.provider) mergedConfig.provider = fileConfig.provider;
     if (fileConfig.baseUrl) mergedConfig.baseUrl = fileConfig.baseUrl;
+    if (fileConfig.monthCalendar) mergedConfig.monthCalendar = fileConfig.monthCalendar;
+    if (fileConfig.scraperBackend) mergedConfig.scraperBackend = fileConfig.scraperBackend;
+    if (fileConfig.scrapeConcurrency) mergedConfig.scrapeConcurrency = { ...fileConfig.scrapeConcurrency };
+    if (fileConfig.proxy) mergedConfig.proxy = { ...fileConfig.proxy };
+    if (fileConfig.attributeFilters) mergedConfig.attributeFilters = { ...fileConfig.attributeFilters };
+    if (fileConfig.dateFilters) mergedConfig.dateFilters = { ...fileConfig.dateFilters };
+    if (fileConfig.profiles) mergedConfig.profiles = fileConfig.profiles.map(profile => ({ ...profile }));
+    if (fileConfig.review) mergedConfig.review = { ...fileConfig.review };
+    if (fileConfig.browserRecycling) mergedConfig.browserRecycling = { ...fileConfig.browserRecycling };
+    if (fileConfig.resourcePolicy) mergedConfig.resourcePolicy = { ...fileConfig.resourcePolicy };
+    if (fileConfig.evidence) mergedConfig.evidence = { ...fileConfig.evidence };
     
     if (fileConfig.notificationSettings) {
       mergedConfig.notificationSettings = { ...mergedConfig.notificationSettings, ...fileConfig.notificationSettings };
@@ -185,7 +226,33 @@ export class SecureConfigurationManager {
     if (envConfig.monitorExamModels) mergedConfig.examModel = envConfig.monitorExamModels;
     if (envConfig.monitorMonths) mergedConfig.months = envConfig.monitorMonths;
     if (envConfig.monitorCheckInterval) mergedConfig.checkInterval = envConfig.monitorCheckInterval;
+    if (envConfig.monitorProvider) mergedConfig.provider = envConfig.monitorProvider;
     if (envConfig.monitorBaseUrl) mergedConfig.baseUrl = envConfig.monitorBaseUrl;
+
+    // Without an explicit base URL, watch the configured provider's own timetable
+    if (mergedConfig.provider && !fileConfig.baseUrl && !envConfig.monitorBaseUrl && getProviderIds().includes(mergedConfig.provider)) {
+      mergedConfig.baseUrl = getProvider(mergedConfig.provider).defaultBaseUrl;
+    }
+    if (envConfig.monitorMonthCalendar) mergedConfig.monthCalendar = envConfig.monitorMonthCalendar as MonthCalendar;
+    if (envConfig.monitorScraperBackend) mergedConfig.scraperBackend = envConfig.monitorScraperBackend as ScraperBackend;
+    if (envConfig.monitorScrapeConcurrency !== undefined) {
+      mergedConfig.scrapeConcurrency = { ...mergedConfig.scrapeConcurrency, maxPages: envConfig.monitorScrapeConcurrency };
+    }
+    // Proxy credentials are best kept out of the config file
+    if (envConfig.monitorProxies) {
+      mergedConfig.proxy = { ...mergedConfig.proxy, proxies: envConfig.monitorProxies };
+    }
+    if (envConfig.monitorProxyRotation && mergedConfig.proxy) {
+      mergedConfig.proxy = { ...mergedConfig.proxy, rotation: envConfig.monitorProxyRotation as ProxyRotation };
+    }
+    // Replaces the dateFilters of the config file, e.g. "2026-11-10..2026-12-05; thu,fri; 08:00-12:00"
+    if (envConfig.monitorDateFilter) {
+      try {
+        mergedConfig.dateFilters = parseDateFilterExpression(envConfig.monitorDateFilter);
+      } catch (error) {
+        throw new Error(`Invalid MONITOR_DATE_FILTER: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
     
     // Enable Telegram if credentials are provided
     if (envConfig.telegramBotToken && envConfig.telegramChatId) {
@@ -247,6 +314,133 @@ export class SecureConfigurationManager {
       }
     }
 
+    if (config.provider !== undefined && !getProviderIds().includes(config.provider)) {
+      errors.push(`provider must be one of: ${getProviderIds().join(', ')}`);
+    }
+
+    if (config.monthCalendar !== undefined && !['gregorian', 'jalali'].includes(config.monthCalendar)) {
+      errors.push('monthCalendar must be one of: gregorian, jalali');
+    }
+
+    if (config.scraperBackend !== undefined && !['puppeteer', 'http'].includes(config.scraperBackend)) {
+      errors.push('scraperBackend must be one of: puppeteer, http');
+    }
+
+    if (config.scrapeConcurrency) {
+      const { maxPages, maxPerHost, hostIntervalMs } = config.scrapeConcurrency;
+      if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > 10)) {
+        errors.push('scrapeConcurrency.maxPages must be an integer between 1 and 10');
+      }
+      if (maxPerHost !== undefined && (!Number.isInteger(maxPerHost) || maxPerHost < 1 || maxPerHost > 10)) {
+        errors.push('scrapeConcurrency.maxPerHost must be an integer between 1 and 10');
+      }
+      if (hostIntervalMs !== undefined && (!Number.isInteger(hostIntervalMs) || hostIntervalMs < 0 || hostIntervalMs > 60000)) {
+        errors.push('scrapeConcurrency.hostIntervalMs must be an integer between 0 and 60000');
+      }
+    }
+
+    if (config.proxy) {
+      const { proxies, rotation, maxConsecutiveFailures, evictionMs } = config.proxy;
+      if (!Array.isArray(proxies) || proxies.length === 0) {
+        errors.push('proxy.proxies must be a non-empty array of proxy URLs');
+      } else {
+        proxies.forEach((proxyUrl, index) => {
+          const error = ProxyPool.validate(proxyUrl);
+          if (error) {
+            errors.push(`proxy.proxies[${index}]: ${error}`);
+          }
+        });
+      }
+      if (rotation !== undefined && !['per-check', 'per-url'].includes(rotation)) {
+        errors.push('proxy.rotation must be one of: per-check, per-url');
+      }
+      if (maxConsecutiveFailures !== undefined && (!Number.isInteger(maxConsecutiveFailures) || maxConsecutiveFailures < 1)) {
+        errors.push('proxy.maxConsecutiveFailures must be a positive integer');
+      }
+      if (evictionMs !== undefined && (!Number.isInteger(evictionMs) || evictionMs < 0)) {
+        errors.push('proxy.evictionMs must be a non-negative integer');
+      }
+    }
+
+    errors.push(...validateAttributeFilter(config.attributeFilters).errors);
+    errors.push(...validateDateFilter(config.dateFilters).errors);
+    errors.push(...validateMonitorSchedule(config.schedule).errors);
+    errors.push(...validateWatchProfiles(config.profiles).errors);
+
+    if (config.review) {
+      const { confidenceThreshold, maxEntries } = config.review;
+      if (confidenceThreshold !== undefined && (typeof confidenceThreshold !== 'number' || confidenceThreshold < 0 || confidenceThreshold > 1)) {
+        errors.push('review.confidenceThreshold must be a number between 0 and 1');
+      }
+      if (maxEntries !== undefined && (!Number.isInteger(maxEntries) || maxEntries < 1 || maxEntries > 10000)) {
+        errors.push('review.maxEntries must be an integer between 1 and 10000');
+      }
+    }
+
+    if (config.browserRecycling) {
+      const { maxPagesPerBrowser, maxMemoryMb } = config.browserRecycling;
+      if (maxPagesPerBrowser !== undefined && (!Number.isInteger(maxPagesPerBrowser) || maxPagesPerBrowser < 0 || maxPagesPerBrowser > 100000)) {
+        errors.push('browserRecycling.maxPagesPerBrowser must be an integer between 0 and 100000');
+      }
+      if (maxMemoryMb !== undefined && (!Number.isInteger(maxMemoryMb) || maxMemoryMb < 0 || maxMemoryMb > 65536)) {
+        errors.push('browserRecycling.maxMemoryMb must be an integer between 0 and 65536');
+      }
+    }
+
+    if (config.resourcePolicy) {
+      const { blockResourceTypes, blockThirdParty, allowHosts, readiness, readinessTimeoutMs } = config.resourcePolicy;
+      if (blockResourceTypes !== undefined && (!Array.isArray(blockResourceTypes) || blockResourceTypes.some(type => !BLOCKABLE_RESOURCE_TYPES.includes(type)))) {
+        errors.push(`resourcePolicy.blockResourceTypes must only contain: ${BLOCKABLE_RESOURCE_TYPES.join(', ')}`);
+      }
+      if (blockThirdParty !== undefined && typeof blockThirdParty !== 'boolean') {
+        errors.push('resourcePolicy.blockThirdParty must be a boolean');
+      }
+      if (allowHosts !== undefined && (!Array.isArray(allowHosts) || allowHosts.some(host => typeof host !== 'string'))) {
+        errors.push('resourcePolicy.allowHosts must be an array of host names');
+      }
+      if (readiness !== undefined && !['content', 'network-idle'].includes(readiness)) {
+        errors.push('resourcePolicy.readiness must be "content" or "network-idle"');
+      }
+      if (readinessTimeoutMs !== undefined && (!Number.isInteger(readinessTimeoutMs) || readinessTimeoutMs < 0 || readinessTimeoutMs > 60000)) {
+        errors.push('resourcePolicy.readinessTimeoutMs must be an integer between 0 and 60000');
+      }
+    }
+
+    if (config.adaptiveInterval) {
+      const { enabled, minIntervalMs, maxIntervalMs, lookbackDays } = config.adaptiveInterval;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        errors.push('adaptiveInterval.enabled must be a boolean');
+      }
+      if (minIntervalMs !== undefined && (!Number.isInteger(minIntervalMs) || minIntervalMs < 5000 || minIntervalMs > 3600000)) {
+        errors.push('adaptiveInterval.minIntervalMs must be an integer between 5000 and 3600000');
+      }
+      if (maxIntervalMs !== undefined && (!Number.isInteger(maxIntervalMs) || maxIntervalMs < 5000 || maxIntervalMs > 21600000)) {
+        errors.push('adaptiveInterval.maxIntervalMs must be an integer between 5000 and 21600000');
+      }
+      // A missing bound falls back to its default, which the other bound must not cross
+      const effectiveMin = minIntervalMs ?? DEFAULT_ADAPTIVE_MIN_INTERVAL_MS;
+      const effectiveMax = maxIntervalMs ?? DEFAULT_ADAPTIVE_MAX_INTERVAL_MS;
+      if (effectiveMin > effectiveMax) {
+        errors.push(`adaptiveInterval.minIntervalMs (${effectiveMin}) must not be greater than adaptiveInterval.maxIntervalMs (${effectiveMax})`);
+      }
+      if (lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > 365)) {
+        errors.push('adaptiveInterval.lookbackDays must be an integer between 1 and 365');
+      }
+    }
+
+    if (config.evidence) {
+      const { enabled, maxEntries, maxSizeMb } = config.evidence;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        errors.push('evidence.enabled must be a boolean');
+      }
+      if (maxEntries !== undefined && (!Number.isInteger(maxEntries) || maxEntries < 1 || maxEntries > 1000)) {
+        errors.push('evidence.maxEntries must be an integer between 1 and 1000');
+      }
+      if (maxSizeMb !== undefined && (!Number.isInteger(maxSizeMb) || maxSizeMb < 1 || maxSizeMb > 10000)) {
+        errors.push('evidence.maxSizeMb must be an integer between 1 and 10000');
+      }
+    }
+
     // Validate security config
     if (config.security) {
       if (typeof config.security.enableSecureLogging !== 'boolean') {
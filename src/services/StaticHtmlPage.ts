@@ -0,0 +1,34 @@
+import { parseHTML } from 'linkedom';
+
+/**
+ * Minimal page surface the status detection pipeline needs.
+ * Implemented by Puppeteer pages and by StaticHtmlPage.
+ */
+export interface DetectionPage {
+  evaluate(script: string): Promise<unknown>;
+  title(): Promise<string>;
+}
+
+/**
+ * Server-side DOM for HTML fetched over plain HTTP.
+ *
+ * Runs the same in-page detection script the Puppeteer backend evaluates, against
+ * a lightweight parsed document. Page scripts are never executed, so content
+ * rendered client-side is not visible to this backend.
+ */
+export class StaticHtmlPage implements DetectionPage {
+  private readonly window: ReturnType<typeof parseHTML>;
+
+  constructor(html: string) {
+    this.window = parseHTML(html);
+  }
+
+  async evaluate(script: string): Promise<unknown> {
+    const run = new Function('window', 'document', 'performance', 'console', `return ${script};`);
+    return run(this.window, this.window.document, performance, console);
+  }
+
+  async title(): Promise<string> {
+    return this.window.document.title || '';
+  }
+}
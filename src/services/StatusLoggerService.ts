@@ -1,6 +1,6 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { MonitoringSession, ErrorLog, NotificationRecord, Appointment, CheckResult } from '../models/types';
+import { MonitoringSession, ErrorLog, NotificationRecord, Appointment, CheckResult, CheckResultType, PageIssue, PolitenessRate, StaleMonth } from '../models/types';
 
 /**
  * Statistics for monitoring session
@@ -32,7 +32,7 @@ export interface LogEntry {
  * Enhanced appointment logging details
  */
 export interface AppointmentLogDetails {
-  checkType: 'available' | 'filled' | 'no-slots';
+  checkType: CheckResultType;
   totalAppointments: number;
   availableAppointments: number;
   filledAppointments: number;
@@ -46,6 +46,10 @@ export interface AppointmentLogDetails {
   }>;
   url: string;
   checkDuration?: number; // in milliseconds
+  effectiveRate?: PolitenessRate; // Present while the server has asked us to slow down
+  pageIssues?: PageIssue[]; // Evidence for blocked, maintenance or error pages
+  unchanged?: boolean; // The timetable matched the previous check and was not parsed again
+  staleMonths?: StaleMonth[]; // Months that could not be read in this check
 }
 
 /**
@@ -169,7 +173,11 @@ export class StatusLoggerService {
         status: apt.status
       })),
       url: checkResult.url,
-      ...(checkDuration !== undefined && { checkDuration })
+      ...(checkDuration !== undefined && { checkDuration }),
+      ...(checkResult.pageIssues && checkResult.pageIssues.length > 0 && { pageIssues: checkResult.pageIssues }),
+      ...(checkResult.politeness && checkResult.politeness.level > 0 && { effectiveRate: checkResult.politeness }),
+      ...(checkResult.unchanged && { unchanged: true }),
+      ...(checkResult.staleMonths && checkResult.staleMonths.length > 0 && { staleMonths: checkResult.staleMonths })
     };
 
     // Log at different levels based on result type
@@ -180,8 +188,8 @@ export class StatusLoggerService {
       checkNumber: this.currentSession.checksPerformed
     });
 
-    // Log individual appointments if detailed logging is enabled
-    if (this.config.enableDetailedAppointmentLogging && checkResult.appointments.length > 0) {
+    // Log individual appointments if detailed logging is enabled; unchanged appointments were logged before
+    if (this.config.enableDetailedAppointmentLogging && checkResult.appointments.length > 0 && !checkResult.unchanged) {
       await this.logAppointmentDetails(checkResult.appointments, checkResult.type);
     }
 
@@ -191,7 +199,7 @@ export class StatusLoggerService {
   /**
    * Log detailed information about individual appointments
    */
-  async logAppointmentDetails(appointments: Appointment[], checkType: 'available' | 'filled' | 'no-slots'): Promise<void> {
+  async logAppointmentDetails(appointments: Appointment[], checkType: CheckResultType): Promise<void> {
     for (const appointment of appointments) {
       const logLevel = appointment.status === 'available' ? 'info' : 'debug';
       
@@ -205,6 +213,11 @@ export class StatusLoggerService {
         status: appointment.status,
         checkType,
         price: appointment.price,
+        priceCurrency: appointment.priceCurrency,
+        module: appointment.module,
+        testFormat: appointment.testFormat,
+        ukvi: appointment.ukvi,
+        seatsLeft: appointment.seatsLeft,
         registrationUrl: appointment.registrationUrl ? 'present' : 'not_present'
       });
     }
@@ -311,6 +324,22 @@ export class StatusLoggerService {
     await this.saveStatistics();
   }
 
+  /**
+   * Log a change of the effective request rate after server slow-down signals
+   */
+  async logEffectiveRate(rate: PolitenessRate, checkIntervalMs: number): Promise<void> {
+    const details = {
+      ...rate,
+      effectiveCheckIntervalMs: checkIntervalMs * rate.slowdownFactor
+    };
+
+    if (rate.level > 0) {
+      await this.logEvent('warn', `Request rate reduced to ${rate.requestsPerMinute}/min (1/${rate.slowdownFactor} of normal) after ${rate.lastSignal || 'server slow-down signal'}`, details);
+    } else {
+      await this.logEvent('info', `Request rate recovered to ${rate.requestsPerMinute}/min`, details);
+    }
+  }
+
   /**
    * Log an info message
    */
@@ -463,7 +492,7 @@ export class StatusLoggerService {
     return events.length > 0 ? events[0].timestamp : undefined;
   }
 
-  private getLogLevelForCheckType(checkType: 'available' | 'filled' | 'no-slots'): 'info' | 'warn' | 'debug' {
+  private getLogLevelForCheckType(checkType: CheckResultType): 'info' | 'warn' | 'debug' {
     switch (checkType) {
       case 'available':
         return 'info'; // Available appointments are important
@@ -471,6 +500,10 @@ export class StatusLoggerService {
         return 'debug'; // Filled appointments are less critical for notifications
       case 'no-slots':
         return 'debug'; // No slots is informational
+      case 'blocked':
+      case 'maintenance':
+      case 'error':
+        return 'warn'; // The site did not show a timetable
       default:
         return 'debug';
     }
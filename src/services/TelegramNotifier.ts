@@ -1,5 +1,8 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { Appointment, TelegramConfig } from '../models/types';
+import { AdminAlert, Appointment, TelegramConfig } from '../models/types';
+import { formatDualCalendarDate } from '../models/jalali';
+import { describeAppointmentAttributes, formatFee } from '../models/attributes';
+import { getProviderName } from './providers';
 
 /**
  * Telegram notification service for sending appointment alerts
@@ -105,6 +108,64 @@ export class TelegramNotifier {
     return false;
   }
 
+  /**
+   * Send an operational alert to the admin chat (falls back to the notification chat)
+   */
+  async sendAdminAlert(alert: AdminAlert): Promise<boolean> {
+    if (!this.bot) {
+      console.error('Telegram bot not initialized. Check your bot token and chat ID.');
+      return false;
+    }
+
+    const chatId = this.config.adminChatId || this.config.chatId;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        await this.bot.sendMessage(chatId, this.formatAdminAlert(alert), {
+          parse_mode: 'HTML',
+          disable_web_page_preview: true
+        });
+
+        console.log(`Telegram admin alert sent successfully (attempt ${attempt})`);
+        return true;
+      } catch (error) {
+        console.error(`Telegram admin alert attempt ${attempt} failed:`, error);
+
+        if (attempt < this.maxRetries) {
+          await this.delay(this.retryDelay * attempt);
+        }
+      }
+    }
+
+    console.error(`Failed to send Telegram admin alert after ${this.maxRetries} attempts`);
+    return false;
+  }
+
+  /**
+   * Format an admin alert for Telegram
+   */
+  private formatAdminAlert(alert: AdminAlert): string {
+    const icon = alert.kind === 'layout-recovered' ? '✅' : '🛠️';
+    const details = alert.details.map(detail => `• ${this.escapeHtml(detail)}`).join('\n');
+    const timestamp = alert.timestamp.toLocaleString('en-US', {
+      timeZone: 'Asia/Tehran',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+    return `${icon} <b>Admin alert: ${this.escapeHtml(alert.title)}</b>\n\n${this.escapeHtml(alert.message)}\n\n${details}\n\n🕒 <i>${timestamp} (Tehran time)</i>`;
+  }
+
+  /**
+   * Escape text for Telegram HTML messages
+   */
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
   /**
    * Format appointment information for Telegram message
    */
@@ -127,7 +188,7 @@ export class TelegramNotifier {
   private formatSimpleMessage(title: string, appointments: Appointment[]): string {
     const appointmentList = appointments
       .slice(0, 5) // Limit to first 5 appointments to avoid message length issues
-      .map(apt => `📅 ${apt.date} at ${apt.time} - ${apt.location}`)
+      .map(apt => `📅 ${formatDualCalendarDate(apt.date, 'fa')} at ${apt.time} - ${apt.location}${apt.providerId ? ` [${getProviderName(apt.providerId)}]` : ''}`)
       .join('\n');
 
     const additionalCount = appointments.length > 5 ? `\n\n... and ${appointments.length - 5} more appointments` : '';
@@ -166,15 +227,25 @@ export class TelegramNotifier {
    */
   private formatAppointmentDetails(appointment: Appointment): string {
     const details = [
-      `📅 <b>Date:</b> ${appointment.date}`,
+      `📅 <b>Date:</b> ${formatDualCalendarDate(appointment.date, 'fa')}`,
       `🕐 <b>Time:</b> ${appointment.time}`,
       `📍 <b>Location:</b> ${appointment.location}`,
       `📝 <b>Exam Type:</b> ${appointment.examType}`,
       `🏙️ <b>City:</b> ${appointment.city}`
     ];
 
-    if (appointment.price) {
-      details.push(`💰 <b>Price:</b> ${appointment.price.toLocaleString()} Toman`);
+    if (appointment.providerId) {
+      details.push(`🏢 <b>Provider:</b> ${getProviderName(appointment.providerId)}`);
+    }
+
+    const attributes = describeAppointmentAttributes(appointment);
+    if (attributes.length > 0) {
+      details.push(`🎓 <b>Format:</b> ${attributes.join(' · ')}`);
+    }
+
+    const fee = formatFee(appointment);
+    if (fee) {
+      details.push(`💰 <b>Price:</b> ${fee}`);
     }
 
     return details.join('\n');
@@ -0,0 +1,298 @@
+import path from 'path';
+import {
+  Appointment,
+  CheckResult,
+  MonitorConfig,
+  MonthCalendar,
+  NotificationSettings,
+  QuietHoursMode,
+  WatchProfile,
+  WatchProfileStatus
+} from '../models/types';
+import {
+  WatchFilters,
+  getActiveProfiles,
+  getCombinedScrapeFilters,
+  getProfileNotificationSettings,
+  matchesWatchFilters
+} from '../models/profiles';
+import { formatDualCalendarDate } from '../models/jalali';
+import { AppointmentDetectionService } from './AppointmentDetectionService';
+import { NotificationService } from './NotificationService';
+import { EnvironmentConfigManager } from './EnvironmentConfigManager';
+
+export const DEFAULT_PROFILE_DATA_DIRECTORY = path.join('data', 'profiles');
+
+/**
+ * Configuration for watch profiles
+ */
+export interface WatchProfileServiceConfig {
+  dataDirectory: string; // Tracking files of a profile are kept in <dataDirectory>/<name>/
+  logDirectory: string; // Notification log of a profile is kept in <logDirectory>/<name>/
+}
+
+/**
+ * Quiet hours in effect during a check
+ */
+export interface ActiveQuietHours {
+  name: string;
+  notifications: QuietHoursMode;
+}
+
+/**
+ * What one check meant for one profile
+ */
+export interface ProfileCheckOutcome {
+  profile: string;
+  matchingAppointments: number;
+  newAvailableAppointments: Appointment[];
+  notifiedAppointments: Appointment[];
+  channels: string[];
+  heldNotifications: number;
+}
+
+/**
+ * Creates the notification service that delivers a profile's notifications
+ */
+export type ProfileNotificationFactory = (profile: WatchProfile, logDirectory: string) => NotificationService;
+
+/**
+ * Tracking, notification channels and counters of one profile
+ */
+interface ProfileWatcher {
+  profile: WatchProfile;
+  detection: AppointmentDetectionService;
+  notifications: NotificationService;
+  notificationSettings: NotificationSettings;
+  heldNotifications: Map<string, Appointment>;
+  matchingAppointments: number;
+  availableAppointments: number;
+  notificationsSent: number;
+}
+
+/**
+ * Fans the result of one scrape out to the watch profiles of the configuration.
+ * Each profile sees only the slots matching its cities, exam models, months,
+ * attribute and date filters, tracks them in its own data directory (so a slot
+ * is notified once per profile, not once overall) and is notified through its
+ * own channels and Telegram chat. The top-level configuration is not a profile;
+ * MonitorController keeps handling it as before.
+ */
+export class WatchProfileService {
+  private config: WatchProfileServiceConfig;
+  private watchers: ProfileWatcher[] = [];
+
+  constructor(
+    private monitorConfig: MonitorConfig,
+    config?: Partial<WatchProfileServiceConfig>,
+    private createNotificationService: ProfileNotificationFactory = createProfileNotificationService
+  ) {
+    this.config = {
+      dataDirectory: DEFAULT_PROFILE_DATA_DIRECTORY,
+      logDirectory: path.join('logs', 'profiles'),
+      ...config
+    };
+  }
+
+  /**
+   * Load the tracking data of every enabled profile
+   */
+  async initialize(): Promise<void> {
+    this.watchers = [];
+
+    for (const profile of getActiveProfiles(this.monitorConfig)) {
+      const dataDirectory = WatchProfileService.getProfileDataDirectory(profile.name, this.config.dataDirectory);
+      const detection = new AppointmentDetectionService({
+        trackingDataFile: path.join(dataDirectory, 'appointment-tracking.json'),
+        notificationTrackingFile: path.join(dataDirectory, 'notified-appointments.json')
+      });
+      await detection.initialize();
+
+      const notifications = this.createNotificationService(profile, path.join(this.config.logDirectory, profile.name.toLowerCase()));
+      const notificationSettings = getProfileNotificationSettings(profile, this.monitorConfig.notificationSettings);
+      if (notificationSettings.telegram && !notifications.isTelegramConfigured()) {
+        console.warn(`⚠️  Profile "${profile.name}": Telegram is enabled but TELEGRAM_BOT_TOKEN or a chat ID is missing`);
+      }
+
+      this.watchers.push({
+        profile,
+        detection,
+        notifications,
+        notificationSettings,
+        heldNotifications: new Map(),
+        matchingAppointments: 0,
+        availableAppointments: 0,
+        notificationsSent: 0
+      });
+    }
+
+    if (this.watchers.length > 0) {
+      console.log(`👥 Watching ${this.watchers.length} profile(s): ${this.watchers.map(watcher => watcher.profile.name).join(', ')}`);
+    }
+  }
+
+  /**
+   * Directory holding the tracking and notified-appointment files of a profile
+   */
+  static getProfileDataDirectory(name: string, dataDirectory: string = DEFAULT_PROFILE_DATA_DIRECTORY): string {
+    return path.join(dataDirectory, name.toLowerCase());
+  }
+
+  /**
+   * Whether any profile is being watched
+   */
+  hasProfiles(): boolean {
+    return this.watchers.length > 0;
+  }
+
+  /**
+   * Track the slots of a check that match each profile and notify the new
+   * available ones. Quiet hours hold notifications until they end, or send them
+   * without desktop and audio alerts. A profile that fails is logged and skipped.
+   */
+  async processCheck(
+    checkResult: CheckResult,
+    options: { skipRemovalDetection?: boolean; quietHours?: ActiveQuietHours | null } = {}
+  ): Promise<ProfileCheckOutcome[]> {
+    const scrapedExamModels = getCombinedScrapeFilters(this.monitorConfig).examModel;
+    const outcomes: ProfileCheckOutcome[] = [];
+
+    for (const watcher of this.watchers) {
+      try {
+        const profileResult = filterCheckResult(checkResult, watcher.profile, {
+          monthCalendar: this.monitorConfig.monthCalendar,
+          scrapedExamModels
+        });
+        outcomes.push(await this.processProfileCheck(watcher, profileResult, options));
+      } catch (error) {
+        console.error(`❌ Profile "${watcher.profile.name}": Failed to process check: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Counters of every watched profile, for status output
+   */
+  getStatuses(): WatchProfileStatus[] {
+    return this.watchers.map(watcher => ({
+      name: watcher.profile.name,
+      matchingAppointments: watcher.matchingAppointments,
+      availableAppointments: watcher.availableAppointments,
+      trackedAppointments: watcher.detection.getTrackingStatistics().totalTracked,
+      notificationsSent: watcher.notificationsSent,
+      heldNotifications: watcher.heldNotifications.size
+    }));
+  }
+
+  private async processProfileCheck(
+    watcher: ProfileWatcher,
+    checkResult: CheckResult,
+    options: { skipRemovalDetection?: boolean; quietHours?: ActiveQuietHours | null }
+  ): Promise<ProfileCheckOutcome> {
+    const { profile } = watcher;
+    const { appointments } = checkResult;
+    const available = appointments.filter(appointment => appointment.status === 'available');
+    watcher.matchingAppointments = appointments.length;
+    watcher.availableAppointments = available.length;
+
+    // An unchanged timetable has nothing new to track, but held notifications may be due
+    let newAvailableAppointments: Appointment[] = [];
+    if (!checkResult.unchanged) {
+      const detectionResult = await watcher.detection.processAppointments(checkResult, {
+        skipRemovalDetection: options.skipRemovalDetection === true
+      });
+      newAvailableAppointments = detectionResult.newAvailableAppointments;
+    }
+
+    const outcome: ProfileCheckOutcome = {
+      profile: profile.name,
+      matchingAppointments: appointments.length,
+      newAvailableAppointments,
+      notifiedAppointments: [],
+      channels: [],
+      heldNotifications: 0
+    };
+    const notifiable = watcher.detection.getNotifiableAppointments(newAvailableAppointments);
+
+    if (options.quietHours && options.quietHours.notifications === 'hold') {
+      notifiable.forEach(appointment => watcher.heldNotifications.set(appointment.id, appointment));
+      if (notifiable.length > 0) {
+        console.log(`🌙 Profile "${profile.name}": holding notifications for ${notifiable.length} appointment(s) during quiet hours (${options.quietHours.name})`);
+      }
+      outcome.heldNotifications = watcher.heldNotifications.size;
+      return outcome;
+    }
+
+    const released = this.releaseHeldNotifications(watcher, checkResult, available, notifiable);
+    const toNotify = [...released, ...notifiable];
+    if (toNotify.length === 0) {
+      return outcome;
+    }
+
+    console.log(`🎉 Profile "${profile.name}": ${toNotify.length} appointment(s) to notify`);
+    toNotify.forEach((appointment, index) => {
+      console.log(`   ${index + 1}. ${formatDualCalendarDate(appointment.date)} ${appointment.time} - ${appointment.city} (${appointment.examType})`);
+    });
+
+    const record = await watcher.notifications.sendNotification(
+      toNotify,
+      options.quietHours ? { ...watcher.notificationSettings, desktop: false, audio: false } : watcher.notificationSettings
+    );
+    await watcher.detection.markAsNotified(toNotify);
+    watcher.notificationsSent++;
+    console.log(`📧 Profile "${profile.name}": notification sent for ${toNotify.length} appointment(s) via ${record.channels.join(', ')}`);
+
+    outcome.notifiedAppointments = toNotify;
+    outcome.channels = record.channels;
+    return outcome;
+  }
+
+  /**
+   * Held appointments of a profile that are still available and notifiable. Checks
+   * that could not read every page keep them held.
+   */
+  private releaseHeldNotifications(
+    watcher: ProfileWatcher,
+    checkResult: CheckResult,
+    available: Appointment[],
+    alreadyIncluded: Appointment[]
+  ): Appointment[] {
+    if (watcher.heldNotifications.size === 0 || (checkResult.pageIssues || []).length > 0 || (checkResult.staleMonths || []).length > 0) {
+      return [];
+    }
+
+    const stillAvailable = available.filter(appointment => watcher.heldNotifications.has(appointment.id) &&
+      !alreadyIncluded.some(included => included.id === appointment.id));
+    watcher.heldNotifications.clear();
+    return watcher.detection.getNotifiableAppointments(stillAvailable);
+  }
+}
+
+/**
+ * A check result reduced to the appointments matching the filters of one watch
+ */
+export function filterCheckResult(
+  checkResult: CheckResult,
+  filters: WatchFilters,
+  options: { monthCalendar?: MonthCalendar | undefined; scrapedExamModels?: string[] | undefined } = {}
+): CheckResult {
+  const appointments = checkResult.appointments.filter(appointment => matchesWatchFilters(appointment, filters, options));
+  return {
+    ...checkResult,
+    appointments,
+    appointmentCount: appointments.length,
+    availableCount: appointments.filter(appointment => appointment.status === 'available').length,
+    filledCount: appointments.filter(appointment => appointment.status === 'filled' || appointment.status === 'pending').length
+  };
+}
+
+/**
+ * Notification service of a profile: its own log directory, and the bot of
+ * TELEGRAM_BOT_TOKEN sending to the profile's chat (or TELEGRAM_CHAT_ID)
+ */
+function createProfileNotificationService(profile: WatchProfile, logDirectory: string): NotificationService {
+  const telegramConfig = EnvironmentConfigManager.createTelegramConfig(profile.telegramChatId || process.env.TELEGRAM_CHAT_ID);
+  return new NotificationService(logDirectory, telegramConfig || undefined);
+}
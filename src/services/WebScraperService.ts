@@ -1,12 +1,84 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
+import { promises as fs } from 'fs';
 import { 
   Appointment, 
   CheckResult, 
   EnhancedInspectionData,
-  DetectionStrategy
+  DetectionStrategy,
+  MonthCalendar,
+  ScrapeConcurrencyConfig,
+  ScraperBackend,
+  UrlCheckResult,
+  LayoutObservation,
+  ProxyConfig,
+  PolitenessRate,
+  AppointmentAttributeFilter,
+  AppointmentDateFilter,
+  LowConfidenceSlot,
+  CircuitBreakerStatus,
+  StaleMonth,
+  BrowserMetrics,
+  BrowserRecyclingSettings,
+  PageLoadMetrics,
+  ResourcePolicySettings,
+  EvidenceSettings
 } from '../models/types';
+import { matchesAttributeFilter, withParsedAttributes } from '../models/attributes';
+import { matchesDateFilter } from '../models/dateFilters';
+import { assignStableAppointmentIds } from '../models/identity';
+import { formatDualCalendarDate, isDateInJalaliMonths, jalaliMonthsToGregorianMonths, toGregorianIsoDate } from '../models/jalali';
 import { DataInspectionService } from './DataInspectionService';
 import { EnhancedInspectionService } from './EnhancedInspectionService';
+import { DetectionRuleService, DetectionRuleSetInfo } from './DetectionRuleService';
+import { LiveScrapeSource, ScrapeSource, ScrapeTarget } from './ScrapeSource';
+import { DetectionPage, StaticHtmlPage } from './StaticHtmlPage';
+import { PagePool } from './PagePool';
+import { HostThrottle } from './HostThrottle';
+import { PolitenessScheduler } from './PolitenessScheduler';
+import { PageClassifier } from './PageClassifier';
+import { FINGERPRINT_SCRIPT, PageFingerprintCache } from './PageFingerprintCache';
+import { CircuitBreaker, CircuitBreakerConfig } from './CircuitBreaker';
+import { BrowserLifecycle } from './BrowserLifecycle';
+import { ResourceBlocking, ResourcePolicy } from './ResourcePolicy';
+import { EvidenceArchiveService, NetworkLogRecorder, recordNetworkLog } from './EvidenceArchiveService';
+import { FILTER_OPTIONS_SCRIPT, FilterOptionDiscovery, mergeCities } from './FilterOptionDiscovery';
+import { NetworkPayloadExtractor, PayloadCapture, PayloadExtraction } from './NetworkPayloadExtractor';
+import { ProxyEndpoint, ProxyHealth, ProxyPool } from './ProxyPool';
+import { AppointmentProvider, ProviderCity, getProvider } from './providers';
+
+/**
+ * Appointment card selectors the in-page parser tries in order before falling back
+ * to content-filtered ones. Page readiness waits for the same selectors.
+ */
+const IELTS_SELECTORS = [
+  'a.exam__item.ielts',
+  'a.exam__item',
+  '.exam__item.ielts',
+  '.exam__item'
+];
+const TEST_SERVER_SELECTORS = [
+  '.appointment-card.timetable-item',
+  '.appointment-card.exam-slot',
+  '.timetable-item.exam-slot',
+  'div[data-appointment]',
+  'div[class*="appointment"][class*="card"]',
+  'div[class*="timetable"][class*="item"]'
+];
+const COMMON_SELECTORS = [
+  '.appointment-card',
+  '.timetable-item',
+  '.exam-slot',
+  '.appointment-item',
+  '[data-appointment]',
+  '[data-appointment-id]',
+  '.card.appointment',
+  '.card.exam',
+  '.exam-card',
+  '.slot-card',
+  '.appointment',
+  '.exam-time',
+  '.time-slot'
+];
 
 /**
  * Configuration for web scraping filters
@@ -15,6 +87,30 @@ export interface ScrapingFilters {
   city: string[];
   examModel: string[];
   months: number[];
+  monthCalendar?: MonthCalendar | undefined; // Calendar of the months list (defaults to 'gregorian')
+  attributes?: AppointmentAttributeFilter | undefined; // Applied to scraped slots; the site cannot filter on these
+  dates?: AppointmentDateFilter | undefined; // Date range, weekday and time-of-day filters, applied to scraped slots
+}
+
+/**
+ * Appointment as returned by the in-page extraction, before it is finalized
+ */
+type ScrapedAppointment = Appointment & { jalaliDateText?: string; cardText?: string };
+
+/**
+ * Optional scraper settings
+ */
+export interface WebScraperOptions {
+  backend?: ScraperBackend | undefined; // Defaults to 'puppeteer'
+  concurrency?: ScrapeConcurrencyConfig | undefined;
+  provider?: string | undefined; // Appointment provider id, defaults to irsafam
+  proxy?: ProxyConfig | undefined; // Egress proxies; requests go out directly without them
+  reviewConfidenceThreshold?: number | undefined; // Status detections below this confidence are reported for review
+  skipUnchangedPages?: boolean | undefined; // Reuse the last result of a live page whose timetable did not change (default true)
+  circuitBreaker?: Partial<CircuitBreakerConfig> | undefined; // Skips month URLs that keep failing
+  browserRecycling?: BrowserRecyclingSettings | undefined; // When the shared browser is replaced
+  resourcePolicy?: ResourcePolicySettings | undefined; // Requests browser pages may make and when they are ready
+  evidence?: EvidenceSettings | undefined; // Archive screenshots, DOM and network logs of anomalous page loads
 }
 
 /**
@@ -30,10 +126,30 @@ export interface RetryConfig {
  * Web scraping service for IELTS appointment monitoring
  */
 export class WebScraperService {
-  private browser: Browser | null = null;
+  private browserLifecycle: BrowserLifecycle;
   private baseUrl: string;
   private dataInspectionService: DataInspectionService;
   private enhancedInspectionService: EnhancedInspectionService;
+  private detectionRuleService: DetectionRuleService;
+  private backend: ScraperBackend;
+  private provider: AppointmentProvider;
+  private concurrency: Required<ScrapeConcurrencyConfig>;
+  private hostThrottle: HostThrottle;
+  private pageClassifier: PageClassifier;
+  private payloadExtractor: NetworkPayloadExtractor;
+  private proxyPool: ProxyPool | null;
+  private politeness: PolitenessScheduler;
+  private reviewConfidenceThreshold: number;
+  private fingerprintCache: PageFingerprintCache | null;
+  private circuitBreaker: CircuitBreaker;
+  private resourcePolicy: ResourcePolicy;
+  private evidenceArchive: EvidenceArchiveService | null;
+  private evidenceUrls = new Set<string>(); // URLs with evidence saved in the current check
+  private lastAppointmentCounts = new Map<string, number>();
+  private lastInspectionIds = new Map<string, string>();
+  private filterOptionDiscovery: FilterOptionDiscovery;
+  private cities: ProviderCity[]; // Provider cities plus cities discovered on the site's filter controls
+  private learnFilterOptions = false; // Whether the current check reads the filter controls of parsed pages
   private userAgents: string[] = [
     'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
     'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
@@ -48,67 +164,152 @@ export class WebScraperService {
     maxDelay: 60000
   };
 
-  constructor(baseUrl?: string) {
-    this.baseUrl = baseUrl || 'https://irsafam.org/ielts/timetable';
+  constructor(baseUrl?: string, options: WebScraperOptions = {}) {
+    this.provider = getProvider(options.provider);
+    this.baseUrl = baseUrl || this.provider.defaultBaseUrl;
+    this.backend = options.backend || 'puppeteer';
+    this.concurrency = {
+      maxPages: 3,
+      maxPerHost: 2,
+      hostIntervalMs: 1000,
+      ...options.concurrency
+    };
+    // Shared by all month URLs: 429/503 responses slow down and pause every request to the site
+    this.politeness = new PolitenessScheduler({
+      baseSpacingMs: this.concurrency.hostIntervalMs + 1000
+    });
+    // Random extra spacing keeps the previous 1-3 second request rhythm per host
+    this.hostThrottle = new HostThrottle({
+      maxConcurrentPerHost: this.concurrency.maxPerHost,
+      minIntervalMs: this.concurrency.hostIntervalMs,
+      jitterMs: 2000
+    }, this.politeness);
+    this.reviewConfidenceThreshold = options.reviewConfidenceThreshold ?? 0.5;
+    this.fingerprintCache = options.skipUnchangedPages === false ? null : new PageFingerprintCache();
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    this.browserLifecycle = new BrowserLifecycle(() => this.launchBrowser(), options.browserRecycling);
+    this.resourcePolicy = new ResourcePolicy(options.resourcePolicy);
+    this.evidenceArchive = options.evidence?.enabled
+      ? new EvidenceArchiveService({
+        ...(options.evidence.maxEntries !== undefined && { maxEntries: options.evidence.maxEntries }),
+        ...(options.evidence.maxSizeMb !== undefined && { maxSizeBytes: options.evidence.maxSizeMb * 1024 * 1024 })
+      })
+      : null;
+    this.filterOptionDiscovery = new FilterOptionDiscovery(this.provider);
+    this.cities = this.provider.cities;
+    this.pageClassifier = new PageClassifier();
+    this.payloadExtractor = new NetworkPayloadExtractor();
+    this.proxyPool = options.proxy && options.proxy.proxies.length > 0
+      ? new ProxyPool({
+        proxies: options.proxy.proxies,
+        rotation: options.proxy.rotation || 'per-check',
+        ...(options.proxy.maxConsecutiveFailures !== undefined && { maxConsecutiveFailures: options.proxy.maxConsecutiveFailures }),
+        ...(options.proxy.evictionMs !== undefined && { evictionMs: options.proxy.evictionMs })
+      })
+      : null;
     this.dataInspectionService = new DataInspectionService();
     this.enhancedInspectionService = new EnhancedInspectionService();
+    this.detectionRuleService = new DetectionRuleService({
+      rulesFile: this.provider.detectionRulesFile,
+      defaultRules: this.provider.defaultDetectionRules
+    });
+  }
+
+  /**
+   * Get the scraper backend used to load pages
+   */
+  getBackend(): ScraperBackend {
+    return this.backend;
+  }
+
+  /**
+   * Get the appointment provider whose timetable is scraped
+   */
+  getProvider(): AppointmentProvider {
+    return this.provider;
+  }
+
+  /**
+   * Get the effective concurrency limits for multi-URL checks
+   */
+  getConcurrencyConfig(): Required<ScrapeConcurrencyConfig> {
+    return { ...this.concurrency };
+  }
+
+  /**
+   * Get the health of each configured proxy, empty when requests go out directly
+   */
+  getProxyHealth(): ProxyHealth[] {
+    return this.proxyPool ? this.proxyPool.getHealth() : [];
+  }
+
+  /**
+   * Get the circuit breaker state of every month URL requested so far
+   */
+  getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+    return this.circuitBreaker.getStatuses();
+  }
+
+  /**
+   * Get launch, restart and page counters of the shared browser
+   */
+  getBrowserMetrics(): BrowserMetrics {
+    return this.browserLifecycle.getMetrics();
+  }
+
+  /**
+   * Get the current request pace after server slow-down signals
+   */
+  getPolitenessRate(): PolitenessRate {
+    return this.politeness.getRate();
+  }
+
+  /**
+   * Describe the status detection rule set used for the most recent check
+   */
+  getDetectionRuleSetInfo(): DetectionRuleSetInfo {
+    return this.detectionRuleService.getRuleSetInfo();
   }
 
   /**
-   * Initialize the browser instance with better error handling
+   * Initialize the browser instance with better error handling.
+   * A browser that crashed or stopped responding is replaced here.
    */
   async initialize(): Promise<void> {
-    // Check if browser is still connected
-    if (this.browser) {
-      try {
-        // Test if browser is still responsive
-        await this.browser.version();
-        return; // Browser is working, no need to reinitialize
-      } catch (error) {
-        // Browser is not responsive, close it and create a new one
-        try {
-          await this.browser.close();
-        } catch (closeError) {
-          // Ignore close errors
-        }
-        this.browser = null;
-      }
+    // The HTTP backend never needs a browser
+    if (this.backend === 'http') {
+      return;
     }
-    
-    if (!this.browser) {
-        const launchOptions = {
-          headless: 'new' as any,
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage'
-          ]
-        };
 
-        try {
-          this.browser = await puppeteer.launch(launchOptions);
-        } catch (error) {
-          console.error("!!! FAILED TO LAUNCH PUPPETEER !!!", error);
-          throw new Error("Failed to initialize browser.");
-        }
-    }
+    await this.browserLifecycle.getBrowser();
   }
 
-  
+  /**
+   * Launch a browser instance for the lifecycle manager
+   */
+  private async launchBrowser(): Promise<Browser> {
+    const launchOptions = {
+      headless: 'new' as any,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage'
+      ]
+    };
+
+    try {
+      return await puppeteer.launch(launchOptions);
+    } catch (error) {
+      console.error("!!! FAILED TO LAUNCH PUPPETEER !!!", error);
+      throw new Error("Failed to initialize browser.");
+    }
+  }
 
   /**
    * Close the browser instance
    */
   async close(): Promise<void> {
-    if (this.browser) {
-      try {
-        await this.browser.close();
-      } catch (error) {
-        // Ignore close errors
-        console.warn('Warning: Error closing browser:', error);
-      }
-      this.browser = null;
-    }
+    await this.browserLifecycle.close();
   }
 
   /**
@@ -158,51 +359,107 @@ export class WebScraperService {
    * Note: The website only accepts one month at a time, so this builds URL for single combinations
    */
   buildRequestUrl(filters: ScrapingFilters, specificMonth?: number): string {
-    const params = new URLSearchParams();
+    return this.provider.buildRequestUrl(this.baseUrl, this.toRequestFilters(filters), specificMonth);
+  }
 
-    // Add city filters
-    if (filters.city && filters.city.length > 0) {
-      filters.city.forEach(city => {
-        params.append('city[]', city.toLowerCase());
-      });
-    }
+  /**
+   * Build multiple URLs for each month combination since website only accepts one month at a time
+   */
+  buildRequestUrls(filters: ScrapingFilters): string[] {
+    return this.provider.buildRequestUrls(this.baseUrl, this.toRequestFilters(filters));
+  }
 
-    // Add exam model filters (corrected parameter name from exam_model to model)
-    if (filters.examModel && filters.examModel.length > 0) {
-      filters.examModel.forEach(model => {
-        params.append('model[]', model.toLowerCase());
-      });
+  /**
+   * Convert filters to the Gregorian months the website expects.
+   * Jalali months map to every Gregorian month they overlap; results are
+   * narrowed back to the configured Jalali months after scraping.
+   */
+  private toRequestFilters(filters: ScrapingFilters): ScrapingFilters {
+    if (filters.monthCalendar !== 'jalali') {
+      return filters;
     }
 
-    // Add month filter (only one month at a time)
-    if (specificMonth) {
-      params.append('month[]', specificMonth.toString());
-    } else if (filters.months && filters.months.length > 0) {
-      // Use the first month if no specific month is provided
-      params.append('month[]', filters.months[0].toString());
-    }
+    return {
+      ...filters,
+      months: jalaliMonthsToGregorianMonths(filters.months),
+      monthCalendar: 'gregorian'
+    };
+  }
 
-    const queryString = params.toString();
-    return queryString ? `${this.baseUrl}?${queryString}` : this.baseUrl;
+  /**
+   * Keep only appointments in the configured Jalali months and recount statuses
+   */
+  private narrowToJalaliMonths(
+    appointments: Appointment[],
+    months: number[]
+  ): { appointments: Appointment[]; availableCount: number; filledCount: number } {
+    const narrowed = appointments.filter(apt => isDateInJalaliMonths(apt.date, months));
+
+    return {
+      appointments: narrowed,
+      availableCount: narrowed.filter(apt => apt.status === 'available').length,
+      filledCount: narrowed.filter(apt => apt.status === 'filled' || apt.status === 'pending').length
+    };
   }
 
   /**
-   * Build multiple URLs for each month combination since website only accepts one month at a time
+   * Convert scraped dates to canonical Gregorian YYYY-MM-DD, including Persian
+   * digits and Solar Hijri dates
    */
-  buildRequestUrls(filters: ScrapingFilters): string[] {
-    const urls: string[] = [];
-    
-    if (filters.months && filters.months.length > 0) {
-      filters.months.forEach(month => {
-        const url = this.buildRequestUrl(filters, month);
-        urls.push(url);
-      });
-    } else {
-      // If no months specified, use the base URL
-      urls.push(this.buildRequestUrl(filters));
-    }
-    
-    return urls;
+  private normalizeScrapedDates(appointments: Array<Appointment & { jalaliDateText?: string }>): Appointment[] {
+    return appointments.map(({ jalaliDateText, ...appointment }) => {
+      const date = toGregorianIsoDate(jalaliDateText) || toGregorianIsoDate(appointment.date);
+      return date ? { ...appointment, date } : appointment;
+    });
+  }
+
+  /**
+   * Read module, test format, UKVI flag, seats and fee from the text of each scraped card
+   */
+  private readCardAttributes(appointments: ScrapedAppointment[]): Array<Appointment & { jalaliDateText?: string }> {
+    return appointments.map(({ cardText, ...appointment }) => {
+      if (cardText === undefined) {
+        return appointment;
+      }
+      // The in-page price match accepts any trailing number; the card text parser requires a currency
+      const { price, priceCurrency, ...rest } = appointment;
+      return withParsedAttributes(rest, cardText);
+    });
+  }
+
+  /**
+   * Give scraped appointments their canonical dates, extended attributes, stable IDs and provider id
+   */
+  private finalizeScrapedAppointments(appointments: ScrapedAppointment[]): Appointment[] {
+    // IDs are derived from slot content so the same slot keeps its ID across checks
+    return assignStableAppointmentIds(this.normalizeScrapedDates(this.readCardAttributes(appointments)), this.provider.idNamespace)
+      .map(appointment => ({ ...appointment, providerId: this.provider.id }));
+  }
+
+  /**
+   * Slots whose status detection confidence is below the review threshold.
+   * Scraped and finalized appointments line up one to one.
+   */
+  private findLowConfidenceSlots(url: string, scraped: any[], appointments: Appointment[]): LowConfidenceSlot[] {
+    return appointments.flatMap((appointment, index) => {
+      const detection = scraped[index];
+      if (!detection || typeof detection.confidenceScore !== 'number' || detection.confidenceScore >= this.reviewConfidenceThreshold) {
+        return [];
+      }
+
+      const { rawHtml, ...slot } = appointment;
+      const reasoning = (detection.parsingNotes || []).find((note: string) => note.startsWith('Status: '));
+      return [{
+        appointment: slot,
+        url,
+        confidence: detection.confidenceScore,
+        fallbackUsed: detection.fallbackUsed === true,
+        indicators: detection.statusIndicators || [],
+        reasoning: reasoning ? reasoning.slice('Status: '.length) : '',
+        ruleId: detection.detectionRuleId,
+        rawHtml: rawHtml || ''
+      }];
+    });
   }
 
   /**
@@ -224,6 +481,12 @@ export class WebScraperService {
    * Fetch appointments with enhanced error handling and retry logic
    */
   async fetchAppointments(filters: ScrapingFilters): Promise<Appointment[]> {
+    // The HTTP backend only implements the status-aware pipeline
+    if (this.backend === 'http') {
+      const checkResult = await this.fetchAppointmentsWithStatus(filters);
+      return checkResult.appointments;
+    }
+
     const url = this.buildRequestUrl(filters);
     
     // Log what we're about to scrape
@@ -257,17 +520,7 @@ export class WebScraperService {
       } catch (error) {
         lastError = error as Error;
         
-        // If browser initialization failed, try to close and reinitialize
-        const errorMessage = (error as Error).message;
-        if (errorMessage.includes('Browser not initialized') || 
-            errorMessage.includes('Target closed') ||
-            errorMessage.includes('Session closed')) {
-          try {
-            await this.close();
-          } catch (closeError) {
-            // Ignore close errors
-          }
-        }
+        // A crashed or unresponsive browser is replaced by initialize() on the next attempt
         
         // Enhanced error categorization
         const isNetworkError = this.isNetworkError(error as Error);
@@ -303,104 +556,160 @@ export class WebScraperService {
 
   /**
    * Enhanced method to fetch appointments with detailed status detection
-   * Handles multiple months by making separate requests for each month
+   * Handles multiple months by making separate requests for each month.
+   * An optional scrape source (e.g. saved HTML fixtures) replaces the live website.
    */
-  async fetchAppointmentsWithStatus(filters: ScrapingFilters): Promise<CheckResult> {
+  async fetchAppointmentsWithStatus(filters: ScrapingFilters, source?: ScrapeSource): Promise<CheckResult> {
     console.log(`🔍 Starting enhanced scrape operation:`);
-    console.log(`   Filters: Cities=[${filters.city.join(', ')}], Models=[${filters.examModel.join(', ')}], Months=[${filters.months.join(', ')}]`);
+    console.log(`   Filters: Cities=[${filters.city.join(', ')}], Models=[${filters.examModel.join(', ')}], Months=[${filters.months.join(', ')}]${filters.monthCalendar === 'jalali' ? ' (Jalali)' : ''}`);
     
     // Check if we're using a test server (localhost)
-    if (this.baseUrl.includes('localhost') || this.baseUrl.includes('127.0.0.1')) {
+    if (!source && (this.baseUrl.includes('localhost') || this.baseUrl.includes('127.0.0.1'))) {
       return this.fetchAppointmentsWithStatusFromAPI(filters);
     }
 
-    // Build URLs for each month (since website only accepts one month at a time)
-    const urls = this.buildRequestUrls(filters);
-    console.log(`🔍 Will check ${urls.length} URL(s) (one per month):`);
+    // Resolve targets: one URL per month for the live website (it only accepts one month at a time),
+    // or one target per saved HTML file for fixture sources
+    const scrapeSource = source || new LiveScrapeSource(this.baseUrl, f => this.buildRequestUrls(f));
+    const targets = await scrapeSource.resolveTargets(this.toRequestFilters(filters));
+    const urls = targets.map(target => target.url);
+    console.log(`🔍 Will check ${targets.length} ${scrapeSource.kind === 'live' ? 'URL(s) (one per month)' : 'HTML fixture(s)'}:`);
     urls.forEach((url, index) => {
       console.log(`   ${index + 1}. ${url}`);
     });
 
+    this.proxyPool?.startCheck();
+    this.evidenceUrls.clear();
+
+    // Centres found on the site's filter controls are mapped like built-in ones; expired options are re-read from parsed pages
+    const filterOptions = await this.filterOptionDiscovery.getCachedOptions();
+    this.cities = mergeCities(this.provider.cities, filterOptions.cities);
+    this.learnFilterOptions = scrapeSource.kind === 'live' && await this.filterOptionDiscovery.needsRefresh();
+
+    // No page is open between checks, so this is where a worn-out browser is replaced
+    if (this.backend === 'puppeteer') {
+      await this.browserLifecycle.recycleIfNeeded();
+    }
+
+    // Up to maxPages targets run at once on a shared page pool; the host throttle keeps requests to one site spaced out
+    const pagePool = this.backend === 'puppeteer' ? this.createPagePool() : null;
+    const targetResults: Array<{ checkResult: CheckResult | null; urlResult: UrlCheckResult }> = new Array(targets.length);
+    let nextTarget = 0;
+    const workers = Array.from({ length: Math.min(this.concurrency.maxPages, targets.length) }, async () => {
+      while (nextTarget < targets.length) {
+        const index = nextTarget++;
+        targetResults[index] = await this.scrapeTargetWithRetry(targets[index], index, targets.length, pagePool);
+      }
+    });
+
+    try {
+      await Promise.all(workers);
+    } finally {
+      if (pagePool) {
+        await pagePool.drain();
+      }
+    }
+
     let allAppointments: Appointment[] = [];
     let totalAvailable = 0;
     let totalFilled = 0;
     let hasAnySlots = false;
 
-    // Process each URL (month) separately
-    for (let urlIndex = 0; urlIndex < urls.length; urlIndex++) {
-      const url = urls[urlIndex];
-      const monthNumber = filters.months[urlIndex];
-      const monthName = this.getMonthName(monthNumber);
-      
-      console.log(`\n🔍 Checking ${monthName} (${urlIndex + 1}/${urls.length})...`);
-      
-      for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-        try {
-          await this.initialize();
-          
-          const checkResult = await this.scrapeAppointmentsWithStatusFromUrl(url);
-          
-          // Merge results
-          allAppointments = allAppointments.concat(checkResult.appointments);
-          totalAvailable += checkResult.availableCount;
-          totalFilled += checkResult.filledCount;
-          
-          if (checkResult.appointmentCount > 0) {
-            hasAnySlots = true;
-          }
-          
-          console.log(`   ✅ ${monthName}: ${checkResult.appointmentCount} appointments (${checkResult.availableCount} available, ${checkResult.filledCount} filled)`);
-          
-          if (attempt > 0) {
-            console.log(`   ✅ Succeeded after ${attempt + 1} attempts`);
-          }
-          
-          break; // Success, move to next URL
-          
-        } catch (error) {
-          
-          if ((error as Error).message.includes('Browser not initialized') || 
-              (error as Error).message.includes('Target closed') ||
-              (error as Error).message.includes('Session closed')) {
-            try {
-              await this.close();
-            } catch (closeError) {
-              // Ignore close errors
-            }
-          }
-          
-          const isNetworkError = this.isNetworkError(error as Error);
-          const isTimeoutError = this.isTimeoutError(error as Error);
-          const isParsingError = this.isParsingError(error as Error);
-          
-          if (attempt < this.retryConfig.maxRetries) {
-            let delay = this.retryConfig.baseDelay * Math.pow(2, attempt);
-            
-            if (isNetworkError || isTimeoutError) {
-              delay = Math.min(delay, this.retryConfig.maxDelay);
-            } else if (isParsingError) {
-              delay = Math.min(delay * 2, 30000);
-            }
-            
-            console.log(`   🔄 ${monthName} attempt ${attempt + 1} failed (${this.getErrorType(error as Error)}), retrying in ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          } else {
-            console.error(`   ❌ ${monthName} failed after all attempts. Error type: ${this.getErrorType(error as Error)}`);
-            // Continue with other months even if one fails
-          }
-        }
+    // Merge results in target order so the combined result does not depend on completion order
+    for (const { checkResult } of targetResults) {
+      if (!checkResult) {
+        continue;
+      }
+
+      allAppointments = allAppointments.concat(checkResult.appointments);
+      totalAvailable += checkResult.availableCount;
+      totalFilled += checkResult.filledCount;
+
+      if (checkResult.appointmentCount > 0) {
+        hasAnySlots = true;
+      }
+    }
+
+    // Jalali months were fetched as overlapping Gregorian months; drop the days outside them
+    if (filters.monthCalendar === 'jalali' && scrapeSource.kind === 'live') {
+      const narrowed = this.narrowToJalaliMonths(allAppointments, filters.months);
+      allAppointments = narrowed.appointments;
+      totalAvailable = narrowed.availableCount;
+      totalFilled = narrowed.filledCount;
+      hasAnySlots = allAppointments.length > 0;
+    }
+
+    // Module, format, UKVI, seat and fee filters only exist on our side
+    if (filters.attributes) {
+      const matching = allAppointments.filter(appointment => matchesAttributeFilter(appointment, filters.attributes));
+      if (matching.length < allAppointments.length) {
+        console.log(`🔎 ${allAppointments.length - matching.length} appointment(s) excluded by attribute filters`);
+      }
+      allAppointments = matching;
+      totalAvailable = matching.filter(apt => apt.status === 'available').length;
+      totalFilled = matching.filter(apt => apt.status === 'filled' || apt.status === 'pending').length;
+      hasAnySlots = hasAnySlots && matching.length > 0;
+    }
+
+    // The site only filters by month; narrower dates, weekdays and times are applied here
+    if (filters.dates) {
+      const matching = allAppointments.filter(appointment => matchesDateFilter(appointment, filters.dates));
+      if (matching.length < allAppointments.length) {
+        console.log(`🔎 ${allAppointments.length - matching.length} appointment(s) excluded by date filters`);
       }
+      allAppointments = matching;
+      totalAvailable = matching.filter(apt => apt.status === 'available').length;
+      totalFilled = matching.filter(apt => apt.status === 'filled' || apt.status === 'pending').length;
+      hasAnySlots = hasAnySlots && matching.length > 0;
+    }
+
+    const lowConfidenceSlots = targetResults.flatMap(({ checkResult }) => checkResult?.lowConfidenceSlots || []);
+
+    // Months whose page was not read; their appointments are missing from this result, not removed
+    const circuitStatuses = this.circuitBreaker.getStatuses();
+    const staleMonths: StaleMonth[] = targetResults
+      .filter(({ urlResult }) => urlResult.stale)
+      .map(({ urlResult }) => ({
+        url: urlResult.url,
+        label: urlResult.label,
+        reason: urlResult.error || 'Request failed',
+        circuitState: urlResult.circuitState || 'closed',
+        lastSuccessAt: circuitStatuses.find(status => status.url === urlResult.url)?.lastSuccessAt || null
+      }));
+    if (staleMonths.length > 0) {
+      console.log(`🕸️  ${staleMonths.length} month(s) stale: ${staleMonths.map(month => `${month.label} (${month.circuitState})`).join(', ')}`);
+    }
+
+    // Every page showed the same timetable as last time, so there is nothing new to track
+    const unchanged = targetResults.length > 0 && targetResults.every(({ checkResult }) => checkResult?.unchanged === true);
+    if (unchanged) {
+      console.log(`♻️  All ${targetResults.length} page(s) unchanged since the last check, parsing skipped`);
+    }
+
+    // Without any slots, a blocked, maintenance or error page means the timetable was not seen at all
+    const pageIssues = targetResults.flatMap(({ checkResult }) => checkResult?.pageIssues || []);
+    let resultType: CheckResult['type'] = hasAnySlots ? (totalAvailable > 0 ? 'available' : 'filled') : 'no-slots';
+    if (!hasAnySlots && pageIssues.length > 0) {
+      resultType = (['blocked', 'maintenance', 'error'] as const).find(kind => pageIssues.some(issue => issue.kind === kind))!;
     }
 
     // Create combined result
     const combinedResult: CheckResult = {
-      type: hasAnySlots ? (totalAvailable > 0 ? 'available' : 'filled') : 'no-slots',
+      type: resultType,
       appointmentCount: allAppointments.length,
       availableCount: totalAvailable,
       filledCount: totalFilled,
       timestamp: new Date(),
-      url: urls.length === 1 ? urls[0] : `${this.baseUrl} (${urls.length} requests)`,
-      appointments: allAppointments
+      url: urls.length === 1 ? urls[0] : `${scrapeSource.describe()} (${urls.length} requests)`,
+      providerId: this.provider.id,
+      appointments: allAppointments,
+      urlResults: targetResults.map(({ urlResult }) => urlResult),
+      layoutObservations: targetResults.flatMap(({ checkResult }) => checkResult?.layoutObservations || []),
+      ...(pageIssues.length > 0 && { pageIssues }),
+      ...(lowConfidenceSlots.length > 0 && { lowConfidenceSlots }),
+      ...(unchanged && { unchanged }),
+      ...(staleMonths.length > 0 && { staleMonths }),
+      politeness: this.politeness.getRate()
     };
 
     this.logEnhancedScrapingResults(combinedResult, 0);
@@ -409,93 +718,388 @@ export class WebScraperService {
   }
 
   /**
-   * Get month name from number
+   * Scrape one target with exponential-backoff retries.
+   * Failures are reported in the per-URL breakdown instead of failing the whole check.
    */
-  private getMonthName(month: number): string {
-    const months = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    return months[month - 1] || `Month ${month}`;
-  }
+  private async scrapeTargetWithRetry(
+    target: ScrapeTarget,
+    index: number,
+    total: number,
+    pagePool: PagePool | null
+  ): Promise<{ checkResult: CheckResult | null; urlResult: UrlCheckResult }> {
+    const monthName = target.label;
+    const startTime = Date.now();
+    let lastError: Error | null = null;
+    let proxy: ProxyEndpoint | null = null;
+
+    // Saved fixtures are local files, so only live URLs go through the circuit breaker
+    const useCircuit = !target.filePath;
+    if (useCircuit && !this.circuitBreaker.canRequest(target.url)) {
+      const circuit = this.circuitBreaker.getStatuses().find(status => status.url === target.url);
+      const reason = `Circuit open until ${circuit?.retryAt ? circuit.retryAt.toLocaleTimeString() : 'cooldown ends'}${circuit?.lastError ? ` (last error: ${circuit.lastError})` : ''}`;
+      console.log(`⏭️  Skipping ${monthName} (${index + 1}/${total}): ${reason}`);
+      return {
+        checkResult: null,
+        urlResult: {
+          url: target.url,
+          label: monthName,
+          success: false,
+          appointmentCount: 0,
+          availableCount: 0,
+          filledCount: 0,
+          attempts: 0,
+          durationMs: 0,
+          error: reason,
+          stale: true,
+          circuitState: 'open'
+        }
+      };
+    }
 
-  /**
-   * Create detection strategies from selector results for enhanced inspection
-   * Requirement 2.4: Provide summary of detection patterns and results
-   */
-  private createDetectionStrategies(selectorResults: any[]): DetectionStrategy[] {
-    const strategies: DetectionStrategy[] = [];
-    
-    // Group selector results by strategy
-    const strategyGroups = selectorResults.reduce((groups: Record<string, any[]>, result: any) => {
-      const strategy = result.strategy || 'unknown';
-      if (!groups[strategy]) {
-        groups[strategy] = [];
-      }
-      groups[strategy].push(result);
-      return groups;
-    }, {} as Record<string, any[]>);
-    
-    // Create detection strategy objects
-    Object.entries(strategyGroups).forEach(([strategyName, results], index) => {
-      const totalElements = results.reduce((sum: number, r: any) => sum + (r.elementCount || 0), 0);
-      const totalTime = results.reduce((sum: number, r: any) => sum + (r.processingTime || 0), 0);
-      const successfulSelectors = results.filter((r: any) => (r.elementCount || 0) > 0);
-      
-      strategies.push({
-        name: strategyName,
-        priority: index + 1,
-        selectors: results.map((r: any) => r.selector || ''),
-        elementsFound: totalElements,
-        successRate: results.length > 0 ? successfulSelectors.length / results.length : 0,
-        processingTime: totalTime
-      });
-    });
-    
-    return strategies;
-  }
+    // A half-open circuit gets a single trial request
+    const circuitState = useCircuit ? this.circuitBreaker.getState(target.url) : 'closed';
+    const maxRetries = circuitState === 'half-open' ? 0 : this.retryConfig.maxRetries;
 
-  /**
-   * Validate detection results and create validation checks
-   * Requirement 6.4: Document decision-making process and fallback logic
-   */
-  private validateDetectionResults(appointments: Appointment[], statusDecisions: any[]): {
-    check: string;
-    passed: boolean;
-    details: string;
-  }[] {
-    const validationChecks = [];
+    console.log(`🔍 Checking ${monthName} (${index + 1}/${total})...`);
 
-    // Check 1: Verify appointments have valid status
-    const validStatuses = ['available', 'filled', 'pending', 'not-registerable', 'unknown'];
-    const invalidStatusCount = appointments.filter(apt => !validStatuses.includes(apt.status)).length;
-    validationChecks.push({
-      check: 'Valid Status Assignment',
-      passed: invalidStatusCount === 0,
-      details: invalidStatusCount === 0 
-        ? 'All appointments have valid status values'
-        : `${invalidStatusCount} appointments have invalid status values`
-    });
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Saved fixtures are read locally; a retry may move to another proxy
+      proxy = this.proxyPool && !target.filePath ? this.proxyPool.select() : null;
 
-    // Check 2: Verify confidence scores are reasonable (for enhanced appointments)
-    const enhancedAppointments = appointments.filter(apt => 'confidenceScore' in apt) as any[];
-    const lowConfidenceCount = enhancedAppointments.filter(apt => apt.confidenceScore < 0.3).length;
-    validationChecks.push({
-      check: 'Confidence Score Validation',
-      passed: lowConfidenceCount === 0,
-      details: lowConfidenceCount === 0
-        ? 'All appointments have reasonable confidence scores'
-        : `${lowConfidenceCount} appointments have low confidence scores (<0.3)`
-    });
+      try {
+        await this.initialize();
 
-    // Check 3: Verify status decisions were made
-    validationChecks.push({
-      check: 'Status Decision Coverage',
-      passed: statusDecisions.length === appointments.length,
-      details: statusDecisions.length === appointments.length
-        ? 'Status decisions recorded for all appointments'
-        : `Status decisions: ${statusDecisions.length}, Appointments: ${appointments.length}`
-    });
+        const checkResult = await this.hostThrottle.schedule(target.url, () =>
+          this.scrapeAppointmentsWithStatusFromUrl(target.url, target.filePath, pagePool, proxy)
+        );
+
+        const pageIssue = checkResult.pageIssues?.[0];
+        if (proxy) {
+          // A block is aimed at the exit IP, so it counts against the proxy
+          if (pageIssue?.kind === 'blocked') {
+            this.proxyPool!.reportFailure(proxy, pageIssue.reason);
+          } else {
+            this.proxyPool!.reportSuccess(proxy);
+          }
+        }
+
+        if (pageIssue) {
+          console.log(`   ⚠️  ${monthName}: ${pageIssue.kind} page (${pageIssue.reason})`);
+        } else {
+          console.log(`   ✅ ${monthName}: ${checkResult.appointmentCount} appointments (${checkResult.availableCount} available, ${checkResult.filledCount} filled)${checkResult.unchanged ? ' (unchanged)' : ''}${proxy ? ` via ${proxy.label}` : ''}`);
+        }
+
+        if (attempt > 0) {
+          console.log(`   ✅ Succeeded after ${attempt + 1} attempts`);
+        }
+
+        if (useCircuit) {
+          this.circuitBreaker.recordSuccess(target.url, monthName);
+        }
+
+        return {
+          checkResult,
+          urlResult: {
+            url: target.url,
+            label: monthName,
+            success: true,
+            appointmentCount: checkResult.appointmentCount,
+            availableCount: checkResult.availableCount,
+            filledCount: checkResult.filledCount,
+            attempts: attempt + 1,
+            durationMs: Date.now() - startTime,
+            ...(pageIssue && { pageIssue: pageIssue.kind }),
+            ...(checkResult.extractionPath && { extractionPath: checkResult.extractionPath }),
+            ...(checkResult.unchanged && { unchanged: true }),
+            ...(proxy && { proxy: proxy.label })
+          }
+        };
+
+      } catch (error) {
+        lastError = error as Error;
+
+        // A crashed page was dropped by the page pool; a crashed browser is replaced by initialize() on the next attempt
+        if (this.isBrowserCrashError(lastError)) {
+          console.log(`   💥 ${monthName}: browser page crashed (${lastError.message})`);
+        }
+
+        const isNetworkError = this.isNetworkError(lastError);
+        const isTimeoutError = this.isTimeoutError(lastError);
+        const isParsingError = this.isParsingError(lastError);
+
+        if (proxy && (isNetworkError || isTimeoutError)) {
+          this.proxyPool!.reportFailure(proxy, this.getErrorType(lastError));
+        }
+
+        if (attempt < maxRetries) {
+          let delay = this.retryConfig.baseDelay * Math.pow(2, attempt);
+
+          if (isNetworkError || isTimeoutError) {
+            delay = Math.min(delay, this.retryConfig.maxDelay);
+          } else if (isParsingError) {
+            delay = Math.min(delay * 2, 30000);
+          }
+
+          console.log(`   🔄 ${monthName} attempt ${attempt + 1} failed (${this.getErrorType(lastError)}), retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        } else {
+          console.error(`   ❌ ${monthName} failed after all attempts. Error type: ${this.getErrorType(lastError)}`);
+          // Continue with other months even if one fails
+        }
+      }
+    }
+
+    if (useCircuit) {
+      this.circuitBreaker.recordFailure(target.url, monthName, lastError ? this.getErrorType(lastError) : 'Unknown error');
+    }
+
+    return {
+      checkResult: null,
+      urlResult: {
+        url: target.url,
+        label: monthName,
+        success: false,
+        appointmentCount: 0,
+        availableCount: 0,
+        filledCount: 0,
+        attempts: maxRetries + 1,
+        durationMs: Date.now() - startTime,
+        error: lastError?.message,
+        stale: true,
+        circuitState: useCircuit ? this.circuitBreaker.getState(target.url) : 'closed',
+        ...(proxy && { proxy: proxy.label })
+      }
+    };
+  }
+
+  /**
+   * Salt of page fingerprints: a result is only reused while the parser inputs that
+   * are not in the page (rule set and known cities, including discovered ones) are the same
+   */
+  private getFingerprintSalt(source: string, ruleSetVersion: string): string {
+    return `${source}|${ruleSetVersion}|${PageFingerprintCache.fingerprint(JSON.stringify(this.cities)).slice(0, 16)}`;
+  }
+
+  /**
+   * Fingerprint the timetable region of a loaded page, or null when it cannot be read
+   */
+  private async fingerprintPage(page: DetectionPage, salt: string): Promise<string | null> {
+    try {
+      const markup = await page.evaluate(FINGERPRINT_SCRIPT);
+      return typeof markup === 'string' ? PageFingerprintCache.fingerprint(markup, salt) : null;
+    } catch {
+      // Without a fingerprint the page is simply parsed in full
+      return null;
+    }
+  }
+
+  /**
+   * Cache the filter options read from a parsed page and map newly discovered cities from now on
+   */
+  private async recordFilterOptions(raw: unknown, url: string): Promise<void> {
+    try {
+      const discovered = await this.filterOptionDiscovery.record(raw, url);
+      if (!discovered) {
+        return;
+      }
+      this.learnFilterOptions = false;
+
+      const newCities = discovered.cities.filter(city => !this.cities.some(known => known.id === city.id));
+      this.cities = mergeCities(this.cities, discovered.cities);
+      console.log(`🔎 Filter options updated from the timetable: ${discovered.cities.length} cities, ${discovered.examModels.length} exam models, ${discovered.months.length} months`);
+      if (newCities.length > 0) {
+        console.log(`🆕 New cities on the site: ${newCities.map(city => `${city.label} (${city.id})`).join(', ')}`);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to update filter options: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Why a parsed page deserves evidence: a blocked, maintenance or error page, all
+   * slots of the URL gone since the last check, or low-confidence detections.
+   * Returns null for ordinary results.
+   */
+  private findAnomaly(url: string, checkResult: CheckResult): string | null {
+    const previousCount = this.lastAppointmentCounts.get(url);
+    this.lastAppointmentCounts.set(url, checkResult.appointmentCount);
+
+    if (checkResult.unchanged) {
+      return null;
+    }
+
+    const pageIssue = checkResult.pageIssues?.[0];
+    if (pageIssue) {
+      return `${pageIssue.kind} page`;
+    }
+    if (previousCount && checkResult.appointmentCount === 0) {
+      return `all ${previousCount} slot(s) vanished`;
+    }
+    if (checkResult.lowConfidenceSlots && checkResult.lowConfidenceSlots.length > 0) {
+      return `${checkResult.lowConfidenceSlots.length} low-confidence slot(s)`;
+    }
+    return null;
+  }
+
+  /**
+   * Save a full-page screenshot, the final DOM and the network log of an anomalous
+   * page load to the evidence archive, once per URL and check. Evidence is linked
+   * to the inspection record of the load when one was saved.
+   */
+  private async captureEvidence(
+    url: string,
+    reason: string,
+    source: { page?: Page; html?: string; networkLog?: NetworkLogRecorder | null }
+  ): Promise<void> {
+    if (!this.evidenceArchive || this.evidenceUrls.has(url)) {
+      return;
+    }
+    this.evidenceUrls.add(url);
+
+    try {
+      const screenshot = source.page ? await source.page.screenshot({ fullPage: true, type: 'png' }).catch(() => undefined) : undefined;
+      const dom = source.html ?? (source.page ? await source.page.content().catch(() => undefined) : undefined);
+      const inspectionId = this.lastInspectionIds.get(url);
+
+      const evidence = await this.evidenceArchive.save({
+        url,
+        reason,
+        inspectionId,
+        screenshot,
+        dom,
+        networkLog: source.networkLog?.stop()
+      });
+      if (inspectionId) {
+        await this.dataInspectionService.attachEvidence(inspectionId, evidence);
+      }
+      console.log(`📎 Evidence saved for ${url} (${reason}): ${evidence.files.length} file(s), see \`inspect --id ${inspectionId || evidence.id}\``);
+    } catch (error) {
+      console.warn(`⚠️  Failed to save evidence for ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read the page title, or an empty string when the page cannot report it
+   */
+  private async getPageTitle(page: DetectionPage): Promise<string> {
+    try {
+      return (await page.title()) || '';
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Create a page pool on the shared browser for one check
+   */
+  private createPagePool(): PagePool {
+    return new PagePool(async () => {
+      const browser = this.browserLifecycle.getCurrentBrowser();
+      if (!browser) {
+        throw new Error('Browser not initialized');
+      }
+      return this.browserLifecycle.trackPage(await browser.newPage());
+    }, { maxPages: this.concurrency.maxPages });
+  }
+
+  /**
+   * Summarize which selector matched and how confident status decisions were,
+   * so layout changes can be told apart from genuinely empty timetables
+   */
+  private createLayoutObservation(url: string, inspectionData: any): LayoutObservation {
+    const selectorResults: any[] = inspectionData?.selectorResults || [];
+    const statusDecisions: any[] = inspectionData?.statusDecisions || [];
+    const matched = selectorResults.find(result => (result.elementCount || 0) > 0);
+
+    return {
+      url,
+      matchedSelector: matched ? matched.selector : null,
+      matchedStrategy: matched ? matched.strategy : null,
+      elementCount: matched ? matched.elementCount : 0,
+      confidenceScores: statusDecisions
+        .map(decision => decision.confidenceScore)
+        .filter((score): score is number => typeof score === 'number'),
+      emptyState: inspectionData?.emptyState === true
+    };
+  }
+
+  /**
+   * Create detection strategies from selector results for enhanced inspection
+   * Requirement 2.4: Provide summary of detection patterns and results
+   */
+  private createDetectionStrategies(selectorResults: any[]): DetectionStrategy[] {
+    const strategies: DetectionStrategy[] = [];
+    
+    // Group selector results by strategy
+    const strategyGroups = selectorResults.reduce((groups: Record<string, any[]>, result: any) => {
+      const strategy = result.strategy || 'unknown';
+      if (!groups[strategy]) {
+        groups[strategy] = [];
+      }
+      groups[strategy].push(result);
+      return groups;
+    }, {} as Record<string, any[]>);
+    
+    // Create detection strategy objects
+    Object.entries(strategyGroups).forEach(([strategyName, results], index) => {
+      const totalElements = results.reduce((sum: number, r: any) => sum + (r.elementCount || 0), 0);
+      const totalTime = results.reduce((sum: number, r: any) => sum + (r.processingTime || 0), 0);
+      const successfulSelectors = results.filter((r: any) => (r.elementCount || 0) > 0);
+      
+      strategies.push({
+        name: strategyName,
+        priority: index + 1,
+        selectors: results.map((r: any) => r.selector || ''),
+        elementsFound: totalElements,
+        successRate: results.length > 0 ? successfulSelectors.length / results.length : 0,
+        processingTime: totalTime
+      });
+    });
+    
+    return strategies;
+  }
+
+  /**
+   * Validate detection results and create validation checks
+   * Requirement 6.4: Document decision-making process and fallback logic
+   */
+  private validateDetectionResults(appointments: Appointment[], statusDecisions: any[]): {
+    check: string;
+    passed: boolean;
+    details: string;
+  }[] {
+    const validationChecks = [];
+
+    // Check 1: Verify appointments have valid status
+    const validStatuses = ['available', 'filled', 'pending', 'not-registerable', 'unknown'];
+    const invalidStatusCount = appointments.filter(apt => !validStatuses.includes(apt.status)).length;
+    validationChecks.push({
+      check: 'Valid Status Assignment',
+      passed: invalidStatusCount === 0,
+      details: invalidStatusCount === 0 
+        ? 'All appointments have valid status values'
+        : `${invalidStatusCount} appointments have invalid status values`
+    });
+
+    // Check 2: Verify confidence scores are reasonable (for enhanced appointments)
+    const enhancedAppointments = appointments.filter(apt => 'confidenceScore' in apt) as any[];
+    const lowConfidenceCount = enhancedAppointments.filter(apt => apt.confidenceScore < 0.3).length;
+    validationChecks.push({
+      check: 'Confidence Score Validation',
+      passed: lowConfidenceCount === 0,
+      details: lowConfidenceCount === 0
+        ? 'All appointments have reasonable confidence scores'
+        : `${lowConfidenceCount} appointments have low confidence scores (<0.3)`
+    });
+
+    // Check 3: Verify status decisions were made
+    validationChecks.push({
+      check: 'Status Decision Coverage',
+      passed: statusDecisions.length === appointments.length,
+      details: statusDecisions.length === appointments.length
+        ? 'Status decisions recorded for all appointments'
+        : `Status decisions: ${statusDecisions.length}, Appointments: ${appointments.length}`
+    });
 
     // Check 4: Verify appointments have required data
     const incompleteAppointments = appointments.filter(apt => 
@@ -527,6 +1131,8 @@ export class WebScraperService {
   private async parseAppointmentData(page: Page): Promise<Appointment[]> {
     const result = await page.evaluate(`(() => {
       const appointments = [];
+      const providerCities = ${JSON.stringify(this.cities)};
+      const siteOrigin = ${JSON.stringify(this.provider.siteOrigin)};
       
       // Helper functions for data extraction
       const normalizeDate = (dateStr) => {
@@ -547,7 +1153,7 @@ export class WebScraperService {
           /location[:\\s]+([^,\\n]+)/i,
           /center[:\\s]+([^,\\n]+)/i,
           /venue[:\\s]+([^,\\n]+)/i,
-          /(isfahan|tehran|shiraz|mashhad|tabriz)/i
+          new RegExp('(' + providerCities.map(city => city.id).join('|') + ')', 'i')
         ];
         
         for (const pattern of locationPatterns) {
@@ -566,15 +1172,14 @@ export class WebScraperService {
       };
 
       const extractCity = (text) => {
-        const cities = ['isfahan', 'tehran', 'shiraz', 'mashhad', 'tabriz'];
         const lowerText = text.toLowerCase();
         
-        for (const city of cities) {
-          if (lowerText.includes(city)) {
-            return city.charAt(0).toUpperCase() + city.slice(1);
+        for (const city of providerCities) {
+          if (lowerText.includes(city.id)) {
+            return city.label;
           }
         }
-        return 'Isfahan';
+        return providerCities.length > 0 ? providerCities[0].label : 'Unknown';
       };
 
       const extractStatus = (text) => {
@@ -603,13 +1208,13 @@ export class WebScraperService {
         if (linkElement) {
           const href = linkElement.getAttribute('href');
           if (href && (href.startsWith('http') || href.startsWith('/'))) {
-            return href.startsWith('/') ? 'https://irsafam.org' + href : href;
+            return href.startsWith('/') ? siteOrigin + href : href;
           }
         }
         return undefined;
       };
 
-      const extractAppointmentFromElement = (element, index) => {
+      const extractAppointmentFromElement = (element) => {
         const textContent = element.textContent || '';
         
         const dateMatch = textContent.match(/(\\d{4}-\\d{2}-\\d{2}|\\d{2}\\/\\d{2}\\/\\d{4})/);
@@ -620,7 +1225,6 @@ export class WebScraperService {
         }
         
         return {
-          id: 'appointment-' + Date.now() + '-' + index,
           date: dateMatch ? normalizeDate(dateMatch[1]) : new Date().toISOString().split('T')[0],
           time: timeMatch ? timeMatch[1] : 'TBD',
           location: extractLocation(textContent),
@@ -628,7 +1232,8 @@ export class WebScraperService {
           city: extractCity(textContent),
           status: extractStatus(textContent),
           price: extractPrice(textContent),
-          registrationUrl: extractRegistrationUrl(element)
+          registrationUrl: extractRegistrationUrl(element),
+          cardText: textContent.replace(/\\s+/g, ' ').trim().slice(0, 1000)
         };
       };
       
@@ -783,7 +1388,7 @@ export class WebScraperService {
       appointmentElements.forEach((element, index) => {
         const parsingStart = performance.now();
         try {
-          const appointment = extractAppointmentFromElement(element, index);
+          const appointment = extractAppointmentFromElement(element);
           if (appointment) {
             appointments.push(appointment);
           }
@@ -812,16 +1417,39 @@ export class WebScraperService {
       return appointments;
     })()`);
     
-    return result as Appointment[];
+    // IDs are derived from slot content so the same slot keeps its ID across checks
+    return assignStableAppointmentIds(this.normalizeScrapedDates(this.readCardAttributes(result as ScrapedAppointment[])), this.provider.idNamespace);
   }
 
 
   /**
    * Enhanced appointment parsing with status detection and raw HTML capture
    */
-  private async parseAppointmentDataWithStatus(page: Page, url: string): Promise<CheckResult> {
+  private async parseAppointmentDataWithStatus(
+    page: DetectionPage,
+    url: string,
+    httpStatus: number | null = null,
+    reuseUnchanged: boolean = false,
+    pageLoad: PageLoadMetrics | null = null
+  ): Promise<CheckResult> {
+    const ruleSet = await this.detectionRuleService.loadRules();
+
+    // Error responses are always parsed so they get classified, and pages are parsed
+    // while filter options are due for a refresh, since only parsing reads them
+    const fingerprint = reuseUnchanged && this.fingerprintCache && !this.learnFilterOptions && (httpStatus === null || httpStatus < 400)
+      ? await this.fingerprintPage(page, this.getFingerprintSalt('dom', ruleSet.version))
+      : null;
+    const unchanged = fingerprint ? this.fingerprintCache!.lookup(url, fingerprint) : null;
+    if (unchanged) {
+      console.log(`♻️  Timetable of ${url} unchanged since the last check, reusing ${unchanged.appointmentCount} appointment(s)`);
+      return unchanged;
+    }
+    
     const result = await page.evaluate(`(() => {
       const appointments = [];
+      // Known cities and link origin of the appointment provider
+      const providerCities = ${JSON.stringify(this.cities)};
+      const siteOrigin = ${JSON.stringify(this.provider.siteOrigin)};
       const inspectionData = {
         detectedElements: [],
         parsingNotes: [],
@@ -829,6 +1457,7 @@ export class WebScraperService {
         statusDecisions: [],
         selectorResults: [],
         errorLog: [],
+        emptyState: false,
         performanceMetrics: {
           totalProcessingTime: 0,
           elementDetectionTime: 0,
@@ -858,7 +1487,7 @@ export class WebScraperService {
           /location[:\\s]+([^,\\n]+)/i,
           /center[:\\s]+([^,\\n]+)/i,
           /venue[:\\s]+([^,\\n]+)/i,
-          /(isfahan|tehran|shiraz|mashhad|tabriz)/i
+          new RegExp('(' + providerCities.map(city => city.id).join('|') + ')', 'i')
         ];
         
         for (const pattern of locationPatterns) {
@@ -877,649 +1506,100 @@ export class WebScraperService {
       };
 
       const extractCity = (text, element) => {
-        // First try to extract from h5 tag (IELTS-specific structure)
+        // First try to extract from h5 tag (IELTS-specific structure), matching English and Persian names
         const h5Element = element ? element.querySelector('h5') : null;
         if (h5Element) {
-          const h5Text = h5Element.textContent || '';
-          const cities = ['isfahan', 'tehran', 'shiraz', 'mashhad', 'tabriz', 'اصفهان', 'تهران', 'شیراز', 'مشهد', 'تبریز'];
-          const lowerH5Text = h5Text.toLowerCase();
+          const lowerH5Text = (h5Element.textContent || '').toLowerCase();
           
-          for (const city of cities) {
-            if (lowerH5Text.includes(city.toLowerCase())) {
-              // Map Persian city names to English
-              const cityMap = {
-                'اصفهان': 'Isfahan',
-                'تهران': 'Tehran', 
-                'شیراز': 'Shiraz',
-                'مشهد': 'Mashhad',
-                'تبریز': 'Tabriz'
-              };
-              const mappedCity = cityMap[city] || city.charAt(0).toUpperCase() + city.slice(1);
-              inspectionData.parsingNotes.push('Extracted city from h5 element: ' + mappedCity);
-              return mappedCity;
+          for (const city of providerCities) {
+            const names = [city.id].concat(city.aliases);
+            if (names.some(name => lowerH5Text.includes(name.toLowerCase()))) {
+              inspectionData.parsingNotes.push('Extracted city from h5 element: ' + city.label);
+              return city.label;
             }
           }
         }
         
         // Fallback to text matching
-        const cities = ['isfahan', 'tehran', 'shiraz', 'mashhad', 'tabriz'];
-        const lowerText = text.toLowerCase();
-        
-        for (const city of cities) {
-          if (lowerText.includes(city)) {
-            return city.charAt(0).toUpperCase() + city.slice(1);
-          }
-        }
-        return 'Isfahan';
-      };
-
-      // Conservative filled appointment detection - prioritizes identifying filled appointments first
-      // Requirements: 1.1, 1.2, 1.3, 1.4, 7.1, 7.2, 7.4
-      const detectAppointmentStatus = (element, elementIndex) => {
-        const statusDetectionStart = performance.now();
-        const text = element.textContent || '';
-        const html = element.innerHTML || '';
         const lowerText = text.toLowerCase();
-        const classList = element.classList || [];
-        const classNames = Array.from(classList).join(' ').toLowerCase();
-        
-        // Initialize status detection tracking
-        const statusIndicators = [];
-        let finalStatus = 'unknown';
-        let confidence = 0.0;
-        let reasoning = '';
-        let fallbackUsed = false;
-        
-        // STEP 1: PRIORITY-BASED FILLED DETECTION (HIGHEST PRIORITY)
-        // Requirement 1.2: "تکمیل ظرفیت" text detection as highest priority filled indicator
-        if (text.includes('تکمیل ظرفیت') || 
-            html.includes('تکمیل ظرفیت')) {
-          
-          statusIndicators.push({
-            type: 'text-content',
-            value: 'Persian: تکمیل ظرفیت',
-            weight: 1.0,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 1.0;
-          reasoning = 'Found highest priority filled indicator: تکمیل ظرفیت';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          // Enhanced filled status logging - Requirement 2.1, 2.2
-          const filledStatusDetails = {
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed,
-            // Additional filled status analysis
-            detectionDetails: {
-              detectedText: 'تکمیل ظرفیت',
-              detectionMethod: 'Persian text content',
-              priority: 'highest',
-              elementClasses: Array.from(element.classList || []),
-              textContent: text.substring(0, 200) + (text.length > 200 ? '...' : '')
-            }
-          };
-          
-          inspectionData.statusDecisions.push(filledStatusDetails);
-          
-          // Enhanced logging message - Requirement 2.1, 2.2
-          const filledLogMessage = 'Element ' + elementIndex + ': ' + reasoning + ' - marking as filled (HIGHEST PRIORITY) - ' +
-            'Classes: [' + Array.from(element.classList || []).join(', ') + ']';
-          
-          inspectionData.parsingNotes.push(filledLogMessage);
-          
-          // Log to console for immediate debugging - Requirement 2.2
-          console.log('✅ Filled Status Detection (Highest Priority):', {
-            elementIndex,
-            reasoning,
-            detectedText: 'تکمیل ظرفیت',
-            confidence,
-            elementClasses: Array.from(element.classList || [])
-          });
-          
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
         
-        // Requirement 1.3: Check for "disabled" CSS class
-        if (classList.contains('disabled') || 
-            classNames.includes('exam__item ielts disabled')) {
-          
-          const foundClass = classList.contains('disabled') ? 'disabled' : 'exam__item ielts disabled';
-          
-          statusIndicators.push({
-            type: 'css-class',
-            value: foundClass,
-            weight: 0.95,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.95;
-          reasoning = 'Found disabled CSS class: ' + foundClass;
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Requirement 1.4: Check for "btn disable" class in button elements
-        const hasDisableButtonClass = element.querySelector(
-          '.btn.disable, ' +
-          'span.btn.disable, ' +
-          'button.disable, ' +
-          '.disable'
-        ) !== null;
-        
-        if (hasDisableButtonClass) {
-          statusIndicators.push({
-            type: 'button-class',
-            value: 'btn disable',
-            weight: 0.95,
-            source: 'button-element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.95;
-          reasoning = 'Found btn disable class in button element';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Additional filled indicators (lower priority but still immediate)
-        if (classList.contains('inactive') ||
-            classList.contains('unavailable') ||
-            classList.contains('full') ||
-            classList.contains('closed') ||
-            classList.contains('filled') ||
-            classList.contains('sold-out') ||
-            classNames.includes('btn-disabled')) {
-          
-          const filledClasses = ['inactive', 'unavailable', 'full', 'closed', 'filled', 'sold-out'];
-          const foundClass = Array.from(classList).find(cls => filledClasses.includes(cls)) || 'btn-disabled';
-          
-          statusIndicators.push({
-            type: 'css-class',
-            value: foundClass,
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.9;
-          reasoning = 'Found filled CSS class: ' + foundClass;
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Additional Persian filled text detection
-        if (text.includes('تکمیل') || 
-            text.includes('پر شده') ||
-            text.includes('بسته شده') ||
-            text.includes('تمام شده') ||
-            text.includes('موجود نیست') ||
-            text.includes('پر') ||
-            html.includes('تکمیل')) {
-          
-          const persianFilledTexts = ['تکمیل', 'پر شده', 'بسته شده', 'تمام شده', 'موجود نیست', 'پر'];
-          const foundText = persianFilledTexts.find(t => text.includes(t) || html.includes(t));
-          
-          statusIndicators.push({
-            type: 'text-content',
-            value: 'Persian: ' + foundText,
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.9;
-          reasoning = 'Found Persian filled indicator: ' + foundText;
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // English filled indicators
-        if (lowerText.includes('full') || 
-            lowerText.includes('closed') ||
-            lowerText.includes('filled') ||
-            lowerText.includes('capacity full') ||
-            lowerText.includes('sold out') ||
-            lowerText.includes('booked') ||
-            lowerText.includes('unavailable') ||
-            lowerText.includes('no spaces') ||
-            lowerText.includes('no slots') ||
-            lowerText.includes('completed')) {
-          
-          const englishFilledTexts = ['full', 'closed', 'filled', 'capacity full', 'sold out', 'booked', 'unavailable', 'no spaces', 'no slots', 'completed'];
-          const foundText = englishFilledTexts.find(t => lowerText.includes(t));
-          
-          statusIndicators.push({
-            type: 'text-content',
-            value: 'English: ' + foundText,
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.9;
-          reasoning = 'Found English filled indicator: ' + foundText;
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Disabled button detection
-        const hasDisabledButton = element.querySelector(
-          'button[disabled], ' +
-          'button.disabled, ' +
-          '.btn[disabled], ' +
-          '.btn.disabled, ' +
-          '.btn.btn-disabled, ' +
-          '.disabled button, ' +
-          '.disabled .btn, ' +
-          'input[disabled]'
-        ) !== null;
-        
-        if (hasDisabledButton) {
-          statusIndicators.push({
-            type: 'interactive-element',
-            value: 'disabled button',
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'filled';
-          confidence = 0.9;
-          reasoning = 'Found disabled button element';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as filled');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // STEP 2: EXPLICIT AVAILABLE DETECTION (ONLY AFTER CONFIRMING NOT FILLED)
-        // Requirement 5.3, 5.4: Only check for available indicators after confirming appointment is NOT filled
-        
-        // CSS class detection for available states
-        if (classList.contains('enabled') || 
-            classList.contains('available') || 
-            classList.contains('active') ||
-            classList.contains('bookable') ||
-            classList.contains('open') ||
-            classNames.includes('enable')) {
-          
-          const foundClass = Array.from(classList).find(cls => 
-            ['enabled', 'available', 'active', 'bookable', 'open'].includes(cls)
-          ) || 'enable';
-          
-          statusIndicators.push({
-            type: 'css-class',
-            value: foundClass,
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'available';
-          confidence = 0.9;
-          reasoning = 'Found available CSS class: ' + foundClass;
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as available');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Check for near-full class (indicates available with limited capacity)
-        if (classList.contains('near-full') || 
-            classList.contains('limited') ||
-            classList.contains('few-spots')) {
-          
-          const foundClass = Array.from(classList).find(cls => 
-            ['near-full', 'limited', 'few-spots'].includes(cls)
-          );
-          
-          statusIndicators.push({
-            type: 'css-class',
-            value: foundClass,
-            weight: 0.8,
-            source: 'element'
-          });
-          
-          finalStatus = 'available';
-          confidence = 0.8;
-          reasoning = 'Found near-full/limited class: ' + foundClass + ' (available with limited capacity)';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning);
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Clickable element detection (indicates bookable appointment)
-        const hasOnclickAttribute = element.hasAttribute('onclick') || 
-                                   element.hasAttribute('data-onclick') ||
-                                   element.hasAttribute('data-action');
-        
-        // Active registration button detection (without disabled attributes)
-        const hasRegistrationButton = element.querySelector(
-          'button:not([disabled]):not(.disabled):not(.btn-disabled), ' +
-          '.btn:not([disabled]):not(.disabled):not(.btn-disabled), ' +
-          '.register:not([disabled]):not(.disabled), ' +
-          '.book:not([disabled]):not(.disabled), ' +
-          '.reserve:not([disabled]):not(.disabled), ' +
-          'input[type="submit"]:not([disabled]):not(.disabled), ' +
-          'input[type="button"]:not([disabled]):not(.disabled)'
-        ) !== null;
-        
-        // Registration link detection
-        const hasRegistrationLink = element.querySelector(
-          'a[href*="register"]:not(.disabled), ' +
-          'a[href*="book"]:not(.disabled), ' +
-          'a[href*="signup"]:not(.disabled), ' +
-          'a[href*="reserve"]:not(.disabled), ' +
-          'a[href*="appointment"]:not(.disabled), ' +
-          'a[onclick]:not(.disabled)'
-        ) !== null;
-        
-        // "قابل ثبت نام" text detection for available status
-        const hasPersianAvailableText = text.includes('قابل ثبت نام') ||
-                                       html.includes('قابل ثبت نام');
-        
-        // Additional Persian available text detection
-        const hasOtherPersianAvailableText = text.includes('ثبت نام') ||
-                                            text.includes('رزرو') ||
-                                            text.includes('موجود') ||
-                                            text.includes('آزاد') ||
-                                            text.includes('باز') ||
-                                            html.includes('رزرو');
-        
-        // English available text detection
-        const hasEnglishAvailableText = lowerText.includes('available') || 
-                                       lowerText.includes('register now') ||
-                                       lowerText.includes('book now') ||
-                                       lowerText.includes('reserve now') ||
-                                       lowerText.includes('sign up') ||
-                                       lowerText.includes('enroll') ||
-                                       lowerText.includes('open for registration');
-        
-        // Check for explicit available indicators (highest priority first)
-        if (hasPersianAvailableText) {
-          statusIndicators.push({
-            type: 'text-content',
-            value: 'Persian: قابل ثبت نام',
-            weight: 0.95,
-            source: 'element'
-          });
-          
-          finalStatus = 'available';
-          confidence = 0.95;
-          reasoning = 'Found قابل ثبت نام text for available status';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          // Enhanced available status logging - Requirement 2.1, 2.2
-          const availableStatusDetails = {
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed,
-            // Additional available status analysis
-            detectionDetails: {
-              detectedText: 'قابل ثبت نام',
-              detectionMethod: 'Persian text content',
-              priority: 'high',
-              elementClasses: Array.from(element.classList || []),
-              textContent: text.substring(0, 200) + (text.length > 200 ? '...' : ''),
-              hasActiveButton: hasActiveRegistrationButton,
-              hasAvailableText: hasPersianAvailableText
-            }
-          };
-          
-          inspectionData.statusDecisions.push(availableStatusDetails);
-          
-          // Enhanced logging message - Requirement 2.1, 2.2
-          const availableLogMessage = 'Element ' + elementIndex + ': ' + reasoning + ' - marking as available (EXPLICIT AVAILABLE) - ' +
-            'Classes: [' + Array.from(element.classList || []).join(', ') + '], Active button: ' + hasActiveRegistrationButton;
-          
-          inspectionData.parsingNotes.push(availableLogMessage);
-          
-          // Log to console for immediate debugging - Requirement 2.2
-          console.log('✅ Available Status Detection (Explicit):', {
-            elementIndex,
-            reasoning,
-            detectedText: 'قابل ثبت نام',
-            confidence,
-            elementClasses: Array.from(element.classList || []),
-            hasActiveButton: hasActiveRegistrationButton
-          });
-          
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        if (hasRegistrationButton) {
-          statusIndicators.push({
-            type: 'interactive-element',
-            value: 'active registration button',
-            weight: 0.9,
-            source: 'element'
-          });
-          
-          finalStatus = 'available';
-          confidence = 0.9;
-          reasoning = 'Found active registration button without disabled attributes';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as available');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        if (hasRegistrationLink || hasOtherPersianAvailableText || hasEnglishAvailableText || hasOnclickAttribute) {
-          
-          // Determine which indicator was found and add to status indicators
-          if (hasRegistrationLink) {
-            statusIndicators.push({
-              type: 'interactive-element',
-              value: 'registration link',
-              weight: 0.85,
-              source: 'element'
-            });
-            reasoning = 'Found registration link';
-          } else if (hasOtherPersianAvailableText) {
-            const persianTexts = ['ثبت نام', 'رزرو', 'موجود', 'آزاد', 'باز'];
-            const foundText = persianTexts.find(t => text.includes(t) || html.includes(t));
-            statusIndicators.push({
-              type: 'text-content',
-              value: 'Persian: ' + foundText,
-              weight: 0.8,
-              source: 'element'
-            });
-            reasoning = 'Found Persian available text: ' + foundText;
-          } else if (hasEnglishAvailableText) {
-            const englishTexts = ['available', 'register now', 'book now', 'reserve now', 'sign up', 'enroll', 'open for registration'];
-            const foundText = englishTexts.find(t => lowerText.includes(t));
-            statusIndicators.push({
-              type: 'text-content',
-              value: 'English: ' + foundText,
-              weight: 0.8,
-              source: 'element'
-            });
-            reasoning = 'Found English available text: ' + foundText;
-          } else if (hasOnclickAttribute) {
-            statusIndicators.push({
-              type: 'interactive-element',
-              value: 'onclick attribute',
-              weight: 0.75,
-              source: 'element'
-            });
-            reasoning = 'Found onclick attribute indicating clickable appointment';
-          }
-          
-          finalStatus = 'available';
-          confidence = Math.max(...statusIndicators.map(i => i.weight));
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
-            elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
-            reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as available');
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
+        for (const city of providerCities) {
+          if (lowerText.includes(city.id)) {
+            return city.label;
+          }
         }
+        return providerCities.length > 0 ? providerCities[0].label : 'Unknown';
+      };
+
+      // Declarative status detection rules, loaded and validated by DetectionRuleService
+      const detectionRules = ${JSON.stringify(ruleSet)};
+      const sortedDetectionRules = detectionRules.rules.slice().sort((a, b) => a.priority - b.priority);
+      
+      // Returns the first value of a rule's conditions found on the element, or null
+      const findRuleMatch = (rule, element, text, lowerText, html, classNames) => {
+        const match = rule.match || {};
+        const elementClasses = Array.from(element.classList || []);
+        const conditions = [
+          [match.text, (value) => text.includes(value)],
+          [match.textIgnoreCase, (value) => lowerText.includes(value.toLowerCase())],
+          [match.html, (value) => html.includes(value)],
+          [match.classes, (value) => elementClasses.includes(value)],
+          [match.classContains, (value) => classNames.includes(value.toLowerCase())],
+          [match.selectors, (value) => {
+            try {
+              return element.querySelector(value) !== null;
+            } catch (error) {
+              return false;
+            }
+          }],
+          [match.attributes, (value) => element.hasAttribute && element.hasAttribute(value)]
+        ];
         
-        // STEP 3: CONSERVATIVE UNKNOWN STATUS HANDLING
-        // If no filled or available indicators found, mark as unknown for safety
+        for (const [values, predicate] of conditions) {
+          const found = (values || []).find(predicate);
+          if (found !== undefined) {
+            return found;
+          }
+        }
+        return null;
+      };
+
+      // Conservative filled appointment detection - prioritizes identifying filled appointments first
+      // Requirements: 1.1, 1.2, 1.3, 1.4, 7.1, 7.2, 7.4
+      const detectAppointmentStatus = (element, elementIndex) => {
+        const statusDetectionStart = performance.now();
+        const text = element.textContent || '';
+        const html = element.innerHTML || '';
+        const lowerText = text.toLowerCase();
+        const classList = element.classList || [];
+        const classNames = Array.from(classList).join(' ').toLowerCase();
+        
+        // Initialize status detection tracking
+        const statusIndicators = [];
+        let finalStatus = 'unknown';
+        let confidence = 0.0;
+        let reasoning = '';
+        let fallbackUsed = false;
         
-        // Check for not-registerable status (different from filled)
-        if (lowerText.includes('not registerable') ||
-            lowerText.includes('registration closed') ||
-            lowerText.includes('expired') ||
-            lowerText.includes('deadline passed') ||
-            text.includes('قابل ثبت نام نیست') ||
-            text.includes('مهلت ثبت نام گذشته') ||
-            text.includes('منقضی شده')) {
+        // Declarative rules are evaluated in priority order; the first match decides the status.
+        // Filled rules carry the lowest priority numbers so available is only reported
+        // after confirming the appointment is not filled (Requirements 1.1, 5.3, 5.4)
+        for (const rule of sortedDetectionRules) {
+          const matchedValue = findRuleMatch(rule, element, text, lowerText, html, classNames);
+          if (matchedValue === null) {
+            continue;
+          }
           
           statusIndicators.push({
-            type: 'text-content',
-            value: 'not-registerable indicator',
-            weight: 0.9,
+            type: rule.indicatorType,
+            value: matchedValue,
+            weight: rule.weight,
             source: 'element'
           });
           
-          finalStatus = 'not-registerable';
-          confidence = 0.9;
-          reasoning = 'Found not-registerable indicator';
+          finalStatus = rule.status;
+          confidence = rule.weight;
+          reasoning = 'Rule ' + rule.id + ': ' + rule.description + ' (' + matchedValue + ')';
           
           const statusDetectionEnd = performance.now();
           inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
@@ -1531,72 +1611,55 @@ export class WebScraperService {
             reasoning,
             confidenceScore: confidence,
             rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning);
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
-        }
-        
-        // Check for pending/waiting status
-        if (lowerText.includes('pending') || 
-            lowerText.includes('waiting') ||
-            lowerText.includes('in progress') ||
-            lowerText.includes('processing') ||
-            text.includes('در انتظار') ||
-            text.includes('در حال بررسی') ||
-            text.includes('در حال پردازش')) {
-          
-          statusIndicators.push({
-            type: 'text-content',
-            value: 'pending/waiting indicator',
-            weight: 0.8,
-            source: 'element'
+            fallbackUsed,
+            ruleId: rule.id
           });
           
-          finalStatus = 'pending';
-          confidence = 0.8;
-          reasoning = 'Found pending/waiting indicator';
-          
-          const statusDetectionEnd = performance.now();
-          inspectionData.performanceMetrics.statusDetectionTime += (statusDetectionEnd - statusDetectionStart);
-          
-          inspectionData.statusDecisions.push({
+          // Filled rules run first, so a filled decision is the highest-priority one; available
+          // is only reported when a rule names an explicit indicator
+          const priorityNote = finalStatus === 'filled' ? ' (HIGHEST PRIORITY)' : finalStatus === 'available' ? ' (EXPLICIT AVAILABLE)' : '';
+          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning + ' - marking as ' + finalStatus + priorityNote +
+            ' - Classes: [' + Array.from(element.classList || []).join(', ') + ']');
+
+          // Log to console for immediate debugging - Requirement 2.2
+          const decisionDetails = {
             elementIndex,
-            finalStatus,
-            indicators: statusIndicators,
+            ruleId: rule.id,
             reasoning,
-            confidenceScore: confidence,
-            rawHtml: element.outerHTML || '',
-            fallbackUsed
-          });
-          
-          inspectionData.parsingNotes.push('Element ' + elementIndex + ': ' + reasoning);
-          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed };
+            detectedContent: matchedValue,
+            confidence,
+            elementClasses: Array.from(element.classList || [])
+          };
+          if (finalStatus === 'filled') {
+            console.log('✅ Filled Status Detection (Highest Priority):', decisionDetails);
+          } else if (finalStatus === 'available') {
+            console.log('✅ Available Status Detection (Explicit):', decisionDetails);
+          } else {
+            console.log('🔍 Rule Status Detection (' + finalStatus + '):', decisionDetails);
+          }
+
+          return { status: finalStatus, confidence, indicators: statusIndicators, reasoning, fallbackUsed, ruleId: rule.id };
         }
         
+        // CONSERVATIVE UNKNOWN STATUS HANDLING
+        // If no filled or available indicators found, mark as unknown for safety
+        
         // Conservative contextual analysis - only for appointment-like elements
-        const hasDateInfo = /\\d{4}-\\d{2}-\\d{2}|\\d{2}\\/\\d{2}\\/\\d{4}|\\d{1,2}\\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)/.test(text);
-        const hasTimeInfo = /\\d{1,2}:\\d{2}/.test(text);
-        const hasPersianDate = /\\d{4}\\/\\d{1,2}\\/\\d{1,2}|\\d{1,2}\\s+(فروردین|اردیبهشت|خرداد|تیر|مرداد|شهریور|مهر|آبان|آذر|دی|بهمن|اسفند)/.test(text);
-        const hasAppointmentContent = lowerText.includes('ielts') ||
-                                     lowerText.includes('exam') ||
-                                     lowerText.includes('test') ||
-                                     text.includes('آزمون') ||
-                                     text.includes('امتحان');
-        
-        if (hasDateInfo || hasTimeInfo || hasPersianDate || hasAppointmentContent) {
+        const matchedContextPatterns = detectionRules.contextual.patterns.filter(pattern => new RegExp(pattern).test(text));
+        const hasAppointmentContent = detectionRules.contextual.keywords.some(keyword => lowerText.includes(keyword.toLowerCase()));
+        
+        if (matchedContextPatterns.length > 0 || hasAppointmentContent) {
           // Conservative approach: Mark as unknown when no clear status indicators are found
           // Requirement 6.1, 6.2: Never default to available without explicit indicators
           statusIndicators.push({
             type: 'contextual',
             value: 'appointment data present, no clear status indicators',
-            weight: 0.1,
+            weight: detectionRules.contextual.weight,
             source: 'element'
           });
           
           finalStatus = 'unknown';
-          confidence = 0.1;
+          confidence = detectionRules.contextual.weight;
           reasoning = 'Has appointment data but no clear status indicators - conservative unknown status';
           fallbackUsed = true;
           
@@ -1614,9 +1677,7 @@ export class WebScraperService {
             fallbackUsed,
             // Additional unknown status analysis - Requirement 2.4
             detectedContent: {
-              hasDateInfo,
-              hasTimeInfo,
-              hasPersianDate,
+              matchedContextPatterns,
               hasAppointmentContent,
               textContent: text.substring(0, 200) + (text.length > 200 ? '...' : ''),
               elementClasses: Array.from(element.classList || []),
@@ -1643,8 +1704,8 @@ export class WebScraperService {
           
           // Enhanced logging for unknown appointments - Requirement 2.1, 2.2
           const unknownLogMessage = 'Element ' + elementIndex + ': ' + reasoning + ' (CONSERVATIVE UNKNOWN) - ' +
-            'Content indicators: date=' + hasDateInfo + ', time=' + hasTimeInfo + ', persian=' + hasPersianDate + 
-            ', appointment=' + hasAppointmentContent + ' - Classes: [' + Array.from(element.classList || []).join(', ') + ']';
+            'Content indicators: patterns=' + matchedContextPatterns.length + ', appointment=' + hasAppointmentContent +
+            ' - Classes: [' + Array.from(element.classList || []).join(', ') + ']';
           
           inspectionData.parsingNotes.push(unknownLogMessage);
           
@@ -1653,9 +1714,7 @@ export class WebScraperService {
             elementIndex,
             reasoning,
             detectedIndicators: {
-              hasDateInfo,
-              hasTimeInfo,
-              hasPersianDate,
+              matchedContextPatterns,
               hasAppointmentContent
             },
             elementClasses: Array.from(element.classList || []),
@@ -1762,7 +1821,7 @@ export class WebScraperService {
         if (linkElement) {
           const href = linkElement.getAttribute('href');
           if (href && (href.startsWith('http') || href.startsWith('/'))) {
-            return href.startsWith('/') ? 'https://irsafam.org' + href : href;
+            return href.startsWith('/') ? siteOrigin + href : href;
           }
         }
         return undefined;
@@ -1829,6 +1888,18 @@ export class WebScraperService {
           }
         }
         
+        // Persian (Solar Hijri) date such as "۱۴۰۴/۰۸/۰۵" or "۵ آبان ۱۴۰۴"; converted to ISO after evaluation
+        let jalaliDateText = '';
+        if (!extractedDate) {
+          const farsiDateElement = element.querySelector('.farsi_date, .persian-date, .jalali-date');
+          const jalaliSource = farsiDateElement ? (farsiDateElement.textContent || '') : textContent;
+          const jalaliMatch = jalaliSource.match(/[۰-۹0-9]{4}\\s*[\\/\\-.]\\s*[۰-۹0-9]{1,2}\\s*[\\/\\-.]\\s*[۰-۹0-9]{1,2}|[۰-۹0-9]{1,2}\\s+(فروردین|اردیبهشت|خرداد|تیر|مرداد|شهریور|مهر|آبان|آذر|دی|بهمن|اسفند)\\s+[۰-۹0-9]{4}/);
+          if (jalaliMatch) {
+            jalaliDateText = jalaliMatch[0];
+            inspectionData.parsingNotes.push('Extracted Persian date text: ' + jalaliDateText);
+          }
+        }
+
         // Fallback to regex-based extraction if structured extraction failed
         if (!extractedDate) {
           const dateMatch = textContent.match(/(\\d{4}-\\d{2}-\\d{2}|\\d{2}\\/\\d{2}\\/\\d{4})/);
@@ -1848,8 +1919,8 @@ export class WebScraperService {
         }
         
         return {
-          id: 'appointment-' + Date.now() + '-' + index,
           date: extractedDate,
+          jalaliDateText: jalaliDateText,
           time: extractedTime,
           location: extractLocation(textContent, element),
           examType: extractExamType(textContent, element),
@@ -1857,12 +1928,15 @@ export class WebScraperService {
           status: statusResult.status,
           price: extractPrice(textContent, element),
           registrationUrl: extractRegistrationUrl(element),
+          cardText: textContent.replace(/\\s+/g, ' ').trim().slice(0, 1000),
           rawHtml: rawHtml,
           // Enhanced appointment metadata
           detectionMethod: 'enhanced-multi-strategy',
           statusIndicators: statusResult.indicators.map(i => i.type + ':' + i.value),
           confidenceScore: statusResult.confidence,
+          fallbackUsed: statusResult.fallbackUsed,
           parsingNotes: ['Status: ' + statusResult.reasoning],
+          detectionRuleId: statusResult.ruleId,
           elementIndex: index
         };
       };
@@ -1870,12 +1944,13 @@ export class WebScraperService {
       // Check for "no appointments" indicators first
       const pageText = document.body.textContent || '';
       const pageHtml = document.body.innerHTML || '';
+      // Kept for telling blocked, maintenance and error pages apart from empty timetables
+      inspectionData.pageTextSample = pageText.slice(0, 2000);
       
       // Persian indicators for no appointments
-      if (pageText.includes('هیچ آزمونی پیدا نشد') || 
-          pageText.includes('آزمونی پیدا نشد') ||
-          pageText.includes('موردی یافت نشد')) {
+      if (detectionRules.noSlotsIndicators.text.some(indicator => pageText.includes(indicator))) {
         inspectionData.parsingNotes.push('Found Persian no-appointments indicator');
+        inspectionData.emptyState = true;
         return {
           type: 'no-slots',
           appointmentCount: 0,
@@ -1887,10 +1962,9 @@ export class WebScraperService {
       }
       
       // English indicators for no appointments
-      if (pageText.toLowerCase().includes('no appointments found') || 
-          pageText.toLowerCase().includes('no exams available') ||
-          pageText.toLowerCase().includes('not found')) {
+      if (detectionRules.noSlotsIndicators.textIgnoreCase.some(indicator => pageText.toLowerCase().includes(indicator.toLowerCase()))) {
         inspectionData.parsingNotes.push('Found English no-appointments indicator');
+        inspectionData.emptyState = true;
         return {
           type: 'no-slots',
           appointmentCount: 0,
@@ -1904,29 +1978,10 @@ export class WebScraperService {
       // Enhanced appointment element detection with IELTS-specific selectors and fallback chain
       const detectAppointmentElements = () => {
         // IELTS-specific selectors (highest priority) - Requirements 3.1, 4.1
-        const ieltsSelectors = [
-          'a.exam__item.ielts',
-          'a.exam__item', 
-          '.exam__item.ielts',
-          '.exam__item'
-        ];
+        const ieltsSelectors = ${JSON.stringify(IELTS_SELECTORS)};
         
         // Common appointment selectors - Requirements 3.2
-        const commonSelectors = [
-          '.appointment-card',
-          '.timetable-item', 
-          '.exam-slot',
-          '.appointment-item',
-          '[data-appointment]',
-          '[data-appointment-id]',
-          '.card.appointment',
-          '.card.exam',
-          '.exam-card',
-          '.slot-card',
-          '.appointment',
-          '.exam-time',
-          '.time-slot'
-        ];
+        const commonSelectors = ${JSON.stringify(COMMON_SELECTORS)};
         
         // Framework-based selectors - Requirements 3.2
         const frameworkSelectors = [
@@ -1938,14 +1993,7 @@ export class WebScraperService {
         ];
         
         // Test simulation server specific selectors - Requirements 4.2, 4.4
-        const testServerSelectors = [
-          '.appointment-card.timetable-item',
-          '.appointment-card.exam-slot',
-          '.timetable-item.exam-slot',
-          'div[data-appointment]',
-          'div[class*="appointment"][class*="card"]',
-          'div[class*="timetable"][class*="item"]'
-        ];
+        const testServerSelectors = ${JSON.stringify(TEST_SERVER_SELECTORS)};
         
         let detectionLog = '';
         
@@ -2173,12 +2221,16 @@ export class WebScraperService {
         availableCount: availableCount,
         filledCount: filledCount + pendingCount,
         appointments: appointments,
-        inspectionData: inspectionData
+        inspectionData: inspectionData,
+        filterOptions: ${this.learnFilterOptions ? FILTER_OPTIONS_SCRIPT : 'null'}
       };
     })()`);
     
     // Add metadata to the result
     const resultData = result as any;
+    if (resultData.filterOptions) {
+      await this.recordFilterOptions(resultData.filterOptions, url);
+    }
     const checkResult: CheckResult = {
       type: resultData.type as 'available' | 'filled' | 'no-slots',
       appointmentCount: resultData.appointmentCount,
@@ -2186,9 +2238,38 @@ export class WebScraperService {
       filledCount: resultData.filledCount,
       timestamp: new Date(),
       url: url,
-      appointments: resultData.appointments as Appointment[]
+      providerId: this.provider.id,
+      appointments: this.finalizeScrapedAppointments(resultData.appointments as ScrapedAppointment[]),
+      layoutObservations: [this.createLayoutObservation(url, resultData.inspectionData)]
     };
 
+    const lowConfidenceSlots = this.findLowConfidenceSlots(url, resultData.appointments || [], checkResult.appointments);
+    if (lowConfidenceSlots.length > 0) {
+      checkResult.lowConfidenceSlots = lowConfidenceSlots;
+    }
+
+    // A challenge, maintenance or error page is not an empty timetable
+    const pageTextSample = resultData.inspectionData?.pageTextSample;
+    const pageIssue = this.pageClassifier.classify({
+      url,
+      httpStatus,
+      title: await this.getPageTitle(page),
+      text: typeof pageTextSample === 'string' ? pageTextSample : null,
+      appointmentCount: checkResult.appointmentCount
+    });
+    if (pageIssue) {
+      console.warn(`⚠️  ${url} classified as ${pageIssue.kind}: ${pageIssue.reason}`);
+      checkResult.type = pageIssue.kind;
+      checkResult.filledCount = 0;
+      checkResult.pageIssues = [pageIssue];
+      // The page is not the timetable, so its layout says nothing about drift
+      checkResult.layoutObservations = [];
+    }
+
+    if (fingerprint) {
+      this.fingerprintCache!.store(url, fingerprint, checkResult);
+    }
+
     // Save enhanced inspection data for debugging and verification
     try {
       const pageTitle = await page.title();
@@ -2209,28 +2290,20 @@ export class WebScraperService {
         selectorResults: resultData.inspectionData?.selectorResults || [],
         validationChecks: this.validateDetectionResults(checkResult.appointments, resultData.inspectionData?.statusDecisions || []),
         errorLog: resultData.inspectionData?.errorLog || [],
-        performanceMetrics: resultData.inspectionData?.performanceMetrics || {
-          totalProcessingTime: 0,
-          elementDetectionTime: 0,
-          statusDetectionTime: 0,
-          parsingTime: 0
+        ruleSetVersion: ruleSet.version,
+        extractionPath: 'dom',
+        performanceMetrics: {
+          ...(resultData.inspectionData?.performanceMetrics || {
+            totalProcessingTime: 0,
+            elementDetectionTime: 0,
+            statusDetectionTime: 0,
+            parsingTime: 0
+          }),
+          ...(pageLoad && { pageLoad })
         }
       };
       
-      // Save both basic and enhanced inspection data
-      await this.dataInspectionService.saveInspectionData({
-        url: enhancedInspectionData.url,
-        pageTitle: enhancedInspectionData.pageTitle,
-        detectedElements: enhancedInspectionData.detectedElements,
-        parsingNotes: enhancedInspectionData.parsingNotes,
-        rawAppointmentHtml: enhancedInspectionData.rawAppointmentHtml,
-        checkResult: enhancedInspectionData.checkResult
-      });
-      
-      const enhancedInspectionId = await this.enhancedInspectionService.saveEnhancedInspectionData(enhancedInspectionData);
-      
-      console.log(`🔍 Enhanced inspection data saved (ID: ${enhancedInspectionId}) for ${checkResult.type} result with ${checkResult.appointmentCount} appointments`);
-      console.log(`📊 Detection summary: ${resultData.inspectionData?.statusDecisions?.length || 0} status decisions, ${resultData.inspectionData?.errorLog?.length || 0} errors, ${Math.round(enhancedInspectionData.performanceMetrics.totalProcessingTime)}ms total time`);
+      await this.saveInspectionRecords(enhancedInspectionData);
     } catch (inspectionError) {
       console.warn('⚠️  Failed to save inspection data:', inspectionError instanceof Error ? inspectionError.message : inspectionError);
     }
@@ -2271,6 +2344,18 @@ export class WebScraperService {
            message.includes('waiting for selector');
   }
 
+  /**
+   * Check if the browser page or the browser itself went away mid-request
+   */
+  private isBrowserCrashError(error: Error): boolean {
+    const message = error.message.toLowerCase();
+    return message.includes('target closed') ||
+           message.includes('session closed') ||
+           message.includes('page crashed') ||
+           message.includes('browser not initialized') ||
+           message.includes('browser has disconnected');
+  }
+
   /**
    * Get human-readable error type
    */
@@ -2278,6 +2363,7 @@ export class WebScraperService {
     if (this.isNetworkError(error)) return 'Network';
     if (this.isTimeoutError(error)) return 'Timeout';
     if (this.isParsingError(error)) return 'Parsing';
+    if (this.isBrowserCrashError(error)) return 'Browser crash';
     return 'Unknown';
   }
 
@@ -2331,12 +2417,17 @@ export class WebScraperService {
       }
 
       // Filter by months (check if appointment date falls in specified months)
-      if (filters.months && filters.months.length > 0) {
+      if (filters.months && filters.months.length > 0 && filters.monthCalendar === 'jalali') {
+        if (!isDateInJalaliMonths(appointment.date, filters.months)) return false;
+      } else if (filters.months && filters.months.length > 0) {
         const appointmentDate = new Date(appointment.date);
         const appointmentMonth = appointmentDate.getMonth() + 1; // getMonth() returns 0-11
         if (!filters.months.includes(appointmentMonth)) return false;
       }
 
+      // Filter by date range, weekday and time of day
+      if (!matchesDateFilter(appointment, filters.dates)) return false;
+
       return true;
     });
   }
@@ -2367,7 +2458,7 @@ export class WebScraperService {
       const sampleAppointments = appointments.slice(0, 3);
       console.log(`   Sample appointments:`);
       sampleAppointments.forEach((apt, index) => {
-        console.log(`     ${index + 1}. ${apt.date} ${apt.time} - ${apt.city} (${apt.status})`);
+        console.log(`     ${index + 1}. ${formatDualCalendarDate(apt.date)} ${apt.time} - ${apt.city} (${apt.status})`);
       });
       
       if (appointments.length > 3) {
@@ -2383,13 +2474,58 @@ export class WebScraperService {
   /**
    * Enhanced scraping method with status detection
    */
-  private async scrapeAppointmentsWithStatusFromUrl(url: string): Promise<CheckResult> {
-    if (!this.browser) {
+  private async scrapeAppointmentsWithStatusFromUrl(
+    url: string,
+    fixturePath?: string,
+    pagePool?: PagePool | null,
+    proxy: ProxyEndpoint | null = null
+  ): Promise<CheckResult> {
+    if (this.backend === 'http') {
+      return this.scrapeAppointmentsWithStatusOverHttp(url, fixturePath, proxy);
+    }
+
+    const browser = this.browserLifecycle.getCurrentBrowser();
+    if (!browser) {
       throw new Error('Browser not initialized');
     }
 
-    const page = await this.browser.newPage();
-    
+    if (proxy) {
+      // Chromium sets proxies per browser context, so proxied loads get their own short-lived context
+      const context = await browser.createBrowserContext({ proxyServer: `${proxy.protocol}://${proxy.host}:${proxy.port}` });
+      try {
+        const page = this.browserLifecycle.trackPage(await context.newPage());
+        if (proxy.username) {
+          await page.authenticate({ username: proxy.username, password: proxy.password || '' });
+        }
+        return await this.scrapeAppointmentsWithStatusOnPage(page, url, fixturePath);
+      } finally {
+        await context.close();
+      }
+    }
+
+    if (pagePool) {
+      return pagePool.withPage(page => this.scrapeAppointmentsWithStatusOnPage(page, url, fixturePath));
+    }
+
+    const page = this.browserLifecycle.trackPage(await browser.newPage());
+    try {
+      return await this.scrapeAppointmentsWithStatusOnPage(page, url, fixturePath);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Load a URL or fixture into a browser page and run status detection on it
+   */
+  private async scrapeAppointmentsWithStatusOnPage(page: Page, url: string, fixturePath?: string): Promise<CheckResult> {
+    let httpStatus: number | null = null;
+    let capture: PayloadCapture | null = null;
+    let blocking: ResourceBlocking | null = null;
+    let networkLog: NetworkLogRecorder | null = null;
+    const pageLoad: PageLoadMetrics = { navigationTime: 0, readinessTime: 0 };
+    this.lastInspectionIds.delete(url);
+
     try {
       // Set timeouts
       page.setDefaultTimeout(30000);
@@ -2401,19 +2537,40 @@ export class WebScraperService {
       // Set viewport
       await page.setViewport({ width: 1366, height: 768 });
       
-      // Add random delay before navigation
-      await this.addRandomDelay();
-      
-      // Navigate to the page with enhanced error handling
-      try {
-        await page.goto(url, { 
-          waitUntil: 'networkidle2',
-          timeout: 30000 
-        });
-      } catch (navigationError) {
-        throw new Error(`Navigation failed: ${navigationError instanceof Error ? navigationError.message : 'Unknown navigation error'}`);
+      const navigationStart = Date.now();
+      if (fixturePath) {
+        // Load saved HTML instead of navigating; the rest of the pipeline is unchanged
+        const html = await this.readHtmlFixture(fixturePath);
+        try {
+          await page.setContent(html, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        } catch (fixtureError) {
+          throw new Error(`Failed to load HTML fixture ${fixturePath}: ${fixtureError instanceof Error ? fixtureError.message : 'Unknown error'}`);
+        }
+      } else {
+        // Images, fonts and third-party scripts are not needed to read the timetable
+        blocking = await this.resourcePolicy.apply(page, url);
+
+        // Record JSON the page loads over XHR/fetch; structured slot data beats text matching
+        capture = this.payloadExtractor.capture(page);
+
+        // Requests go to the evidence archive if this load turns out to be anomalous
+        networkLog = this.evidenceArchive ? recordNetworkLog(page, url) : null;
+
+        // Navigate to the page with enhanced error handling
+        try {
+          const response = await page.goto(url, { 
+            waitUntil: this.resourcePolicy.getNavigationWaitUntil(),
+            timeout: 30000 
+          });
+          httpStatus = response ? response.status() : null;
+          this.politeness.recordResponse(httpStatus, response ? response.headers()['retry-after'] : null);
+        } catch (navigationError) {
+          throw new Error(`Navigation failed: ${navigationError instanceof Error ? navigationError.message : 'Unknown navigation error'}`);
+        }
       }
       
+      pageLoad.navigationTime = Date.now() - navigationStart;
+      
       // Wait for content to load with better error handling
       try {
         await page.waitForSelector('body', { timeout: 15000 });
@@ -2421,23 +2578,240 @@ export class WebScraperService {
       } catch (selectorError) {
         console.log('⚠️  Page load timeout, attempting to parse anyway...');
       }
+
+      // Parse as soon as the timetable (or its empty-state message) is there
+      const readinessStart = Date.now();
+      pageLoad.readySignal = fixturePath ? 'appointments' : await this.resourcePolicy.waitUntilReady(page, {
+        selectors: [...IELTS_SELECTORS, ...TEST_SERVER_SELECTORS, ...COMMON_SELECTORS],
+        noSlotsIndicators: (await this.detectionRuleService.loadRules()).noSlotsIndicators
+      });
+      pageLoad.readinessTime = Date.now() - readinessStart;
       
+      const payloads = capture ? await capture.stop() : [];
+      capture = null;
+      const extraction = this.payloadExtractor.extractAppointments(payloads, this.cities);
+
+      if (blocking) {
+        const counts = await blocking.stop();
+        blocking = null;
+        pageLoad.requestsAllowed = counts.allowed;
+        pageLoad.requestsBlocked = counts.blocked;
+      }
+      if (!fixturePath) {
+        console.log(`⏱️  Loaded in ${pageLoad.navigationTime}ms, ready after ${pageLoad.readinessTime}ms more (${pageLoad.readySignal})${pageLoad.requestsBlocked !== undefined ? `, ${pageLoad.requestsBlocked} request(s) blocked` : ''}`);
+      }
+
       // Extract appointment data with enhanced status detection
+      let checkResult: CheckResult;
       try {
-        const checkResult = await this.parseAppointmentDataWithStatus(page, url);
-        return checkResult;
+        if (extraction) {
+          checkResult = await this.createCheckResultFromPayload(page, url, extraction, !fixturePath, pageLoad);
+        } else {
+          if (payloads.length > 0) {
+            console.log(`📡 ${payloads.length} JSON response(s) captured but none contained appointments, parsing the DOM`);
+          }
+          checkResult = await this.parseAppointmentDataWithStatus(page, url, httpStatus, !fixturePath, pageLoad);
+        }
       } catch (parseError) {
         throw new Error(`Enhanced appointment parsing failed: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
       }
+
+      const anomaly = fixturePath ? null : this.findAnomaly(url, checkResult);
+      if (anomaly) {
+        await this.captureEvidence(url, anomaly, { page, networkLog });
+      }
+      return checkResult;
       
     } catch (error) {
+      if (!fixturePath) {
+        await this.captureEvidence(url, `failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { page, networkLog });
+      }
       const contextualError = new Error(`Enhanced scraping failed for URL ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       if (error instanceof Error && error.stack) {
         contextualError.stack = error.stack;
       }
       throw contextualError;
     } finally {
-      await page.close();
+      // Pooled pages are reused, so the response and request listeners must not outlive this load
+      if (capture) {
+        await capture.stop();
+      }
+      if (blocking) {
+        await blocking.stop();
+      }
+      networkLog?.stop();
+    }
+  }
+
+  /**
+   * Build the check result from appointments found in captured JSON payloads.
+   * The DOM detection script is skipped; statuses come from the structured fields.
+   */
+  private async createCheckResultFromPayload(
+    page: DetectionPage,
+    url: string,
+    extraction: PayloadExtraction,
+    reuseUnchanged: boolean = false,
+    pageLoad: PageLoadMetrics | null = null
+  ): Promise<CheckResult> {
+    const ruleSet = await this.detectionRuleService.loadRules();
+    const fingerprint = reuseUnchanged && this.fingerprintCache
+      ? PageFingerprintCache.fingerprint(JSON.stringify(extraction.appointments), this.getFingerprintSalt('network-json', ruleSet.version))
+      : null;
+    const unchanged = fingerprint ? this.fingerprintCache!.lookup(url, fingerprint) : null;
+    if (unchanged) {
+      console.log(`♻️  JSON payloads of ${url} unchanged since the last check, reusing ${unchanged.appointmentCount} appointment(s)`);
+      return unchanged;
+    }
+
+    const appointments = this.finalizeScrapedAppointments(extraction.appointments);
+    const availableCount = appointments.filter(apt => apt.status === 'available').length;
+    const filledCount = appointments.filter(apt => apt.status === 'filled' || apt.status === 'pending').length;
+
+    const checkResult: CheckResult = {
+      type: availableCount > 0 ? 'available' : filledCount > 0 ? 'filled' : 'no-slots',
+      appointmentCount: appointments.length,
+      availableCount,
+      filledCount,
+      timestamp: new Date(),
+      url,
+      providerId: this.provider.id,
+      appointments,
+      extractionPath: 'network-json'
+    };
+
+    console.log(`📡 Read ${appointments.length} appointment(s) from ${extraction.payloadUrls.length} JSON payload(s)`);
+
+    if (fingerprint) {
+      this.fingerprintCache!.store(url, fingerprint, checkResult);
+    }
+
+    await this.saveInspectionRecords({
+      url,
+      pageTitle: await this.getPageTitle(page),
+      detectedElements: extraction.payloadUrls.map(payloadUrl => `JSON payload: ${payloadUrl}`),
+      parsingNotes: ['Extraction path: network-json', ...extraction.notes].join('; '),
+      rawAppointmentHtml: [],
+      checkResult,
+      detectionStrategies: [],
+      statusDecisions: [],
+      selectorResults: [],
+      validationChecks: this.validateDetectionResults(appointments, []),
+      errorLog: [],
+      ruleSetVersion: ruleSet.version,
+      extractionPath: 'network-json',
+      networkPayloadUrls: extraction.payloadUrls,
+      performanceMetrics: {
+        totalProcessingTime: 0,
+        elementDetectionTime: 0,
+        statusDetectionTime: 0,
+        parsingTime: 0,
+        ...(pageLoad && { pageLoad })
+      }
+    });
+
+    return checkResult;
+  }
+
+  /**
+   * Save basic and enhanced inspection records for a parsed page
+   */
+  private async saveInspectionRecords(enhancedInspectionData: EnhancedInspectionData): Promise<void> {
+    try {
+      const inspectionId = await this.dataInspectionService.saveInspectionData({
+        url: enhancedInspectionData.url,
+        pageTitle: enhancedInspectionData.pageTitle,
+        detectedElements: enhancedInspectionData.detectedElements,
+        parsingNotes: enhancedInspectionData.parsingNotes,
+        rawAppointmentHtml: enhancedInspectionData.rawAppointmentHtml,
+        checkResult: enhancedInspectionData.checkResult
+      });
+      
+      this.lastInspectionIds.set(enhancedInspectionData.url, inspectionId);
+      
+      const enhancedInspectionId = await this.enhancedInspectionService.saveEnhancedInspectionData(enhancedInspectionData);
+      const checkResult = enhancedInspectionData.checkResult;
+      
+      console.log(`🔍 Enhanced inspection data saved (ID: ${enhancedInspectionId}) for ${checkResult.type} result with ${checkResult.appointmentCount} appointments (${enhancedInspectionData.extractionPath || 'dom'})`);
+      const pageLoad = enhancedInspectionData.performanceMetrics.pageLoad;
+      console.log(`📊 Detection summary: ${enhancedInspectionData.statusDecisions.length} status decisions, ${enhancedInspectionData.errorLog.length} errors, ${Math.round(enhancedInspectionData.performanceMetrics.totalProcessingTime)}ms total time${pageLoad ? ` (load ${pageLoad.navigationTime}ms + ready ${pageLoad.readinessTime}ms)` : ''}`);
+    } catch (inspectionError) {
+      console.warn('⚠️  Failed to save inspection data:', inspectionError instanceof Error ? inspectionError.message : inspectionError);
+    }
+  }
+
+  /**
+   * HTTP-only scraping: fetch the page with axios and run the same detection
+   * script against a server-side DOM instead of a browser page
+   */
+  private async scrapeAppointmentsWithStatusOverHttp(url: string, fixturePath?: string, proxy: ProxyEndpoint | null = null): Promise<CheckResult> {
+    try {
+      let html: string;
+      let httpStatus: number | null = null;
+      const navigationStart = Date.now();
+
+      if (fixturePath) {
+        html = await this.readHtmlFixture(fixturePath);
+      } else {
+        try {
+          const axios = await import('axios');
+          const response = await axios.default.get<string>(url, {
+            timeout: 30000,
+            responseType: 'text',
+            // Error pages are classified instead of thrown, so their content ends up as evidence
+            validateStatus: () => true,
+            // axios' own proxy support cannot tunnel HTTPS or speak SOCKS, so proxies go through agents
+            ...(proxy && { ...ProxyPool.createAgents(proxy), proxy: false as const }),
+            headers: {
+              'User-Agent': this.getRandomUserAgent(),
+              'Accept': 'text/html,application/xhtml+xml',
+              'Accept-Language': 'fa-IR,fa;q=0.9,en-US;q=0.8,en;q=0.7'
+            }
+          });
+          html = String(response.data);
+          httpStatus = typeof response.status === 'number' ? response.status : null;
+          this.politeness.recordResponse(httpStatus, response.headers ? response.headers['retry-after'] : null);
+        } catch (requestError) {
+          throw new Error(`HTTP request failed: ${requestError instanceof Error ? requestError.message : 'Unknown network error'}`);
+        }
+      }
+
+      const page = new StaticHtmlPage(html);
+      console.log('📄 Page loaded successfully (HTTP backend)');
+
+      // Server-side pages are parsed as fetched, so there is no readiness wait
+      const pageLoad: PageLoadMetrics = { navigationTime: Date.now() - navigationStart, readinessTime: 0 };
+
+      let checkResult: CheckResult;
+      try {
+        checkResult = await this.parseAppointmentDataWithStatus(page, url, httpStatus, !fixturePath, pageLoad);
+      } catch (parseError) {
+        throw new Error(`Enhanced appointment parsing failed: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
+      }
+
+      // Without a browser the fetched markup is the only evidence
+      const anomaly = fixturePath ? null : this.findAnomaly(url, checkResult);
+      if (anomaly) {
+        await this.captureEvidence(url, anomaly, { html });
+      }
+      return checkResult;
+    } catch (error) {
+      const contextualError = new Error(`Enhanced scraping failed for URL ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof Error && error.stack) {
+        contextualError.stack = error.stack;
+      }
+      throw contextualError;
+    }
+  }
+
+  /**
+   * Read a saved HTML page for fixture sources
+   */
+  private async readHtmlFixture(fixturePath: string): Promise<string> {
+    try {
+      return await fs.readFile(fixturePath, 'utf-8');
+    } catch (fixtureError) {
+      throw new Error(`Failed to load HTML fixture ${fixturePath}: ${fixtureError instanceof Error ? fixtureError.message : 'Unknown error'}`);
     }
   }
 
@@ -2517,7 +2891,7 @@ export class WebScraperService {
       const sampleAppointments = checkResult.appointments.slice(0, 3);
       console.log(`   Sample appointments:`);
       sampleAppointments.forEach((apt, index) => {
-        console.log(`     ${index + 1}. ${apt.date} ${apt.time} - ${apt.city} (${apt.status})`);
+        console.log(`     ${index + 1}. ${formatDualCalendarDate(apt.date)} ${apt.time} - ${apt.city} (${apt.status})`);
       });
       
       if (checkResult.appointments.length > 3) {
@@ -2528,9 +2902,30 @@ export class WebScraperService {
         console.log(`   Status: No appointment slots available`);
       } else if (checkResult.type === 'filled') {
         console.log(`   Status: All appointment slots are filled`);
+      } else {
+        console.log(`   Status: Site served a ${checkResult.type} page instead of the timetable`);
       }
     }
-    
+
+    if (checkResult.pageIssues && checkResult.pageIssues.length > 0) {
+      console.log(`   Page issues:`);
+      checkResult.pageIssues.forEach(issue => {
+        console.log(`     ${issue.kind}: ${issue.reason} - ${issue.url}`);
+      });
+    }
+
+    if (checkResult.urlResults && checkResult.urlResults.length > 1) {
+      console.log(`   Per-request breakdown:`);
+      checkResult.urlResults.forEach(urlResult => {
+        const outcome = !urlResult.success
+          ? `failed - ${urlResult.error || 'Unknown error'}`
+          : urlResult.pageIssue
+            ? `${urlResult.pageIssue} page`
+            : `${urlResult.appointmentCount} appointments (${urlResult.availableCount} available)`;
+        console.log(`     ${urlResult.label}: ${outcome} in ${urlResult.durationMs}ms`);
+      });
+    }
+
     if (attempt > 0) {
       console.log(`   Note: Retrieved after ${attempt + 1} attempts`);
     }
@@ -2540,11 +2935,12 @@ export class WebScraperService {
    * Enhanced scraping with timeout and error handling (legacy method)
    */
   private async scrapeAppointmentsFromUrl(url: string): Promise<Appointment[]> {
-    if (!this.browser) {
+    const browser = this.browserLifecycle.getCurrentBrowser();
+    if (!browser) {
       throw new Error('Browser not initialized');
     }
 
-    const page = await this.browser.newPage();
+    const page = this.browserLifecycle.trackPage(await browser.newPage());
     
     try {
       // Set timeouts
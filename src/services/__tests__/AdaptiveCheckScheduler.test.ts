@@ -0,0 +1,84 @@
+import { AdaptiveCheckScheduler } from '../AdaptiveCheckScheduler';
+import type { TrackedAppointment } from '../AppointmentDetectionService';
+
+const MINUTE = 60 * 1000;
+
+const createRecord = (id: string, firstSeen: string): TrackedAppointment => ({
+  id,
+  appointment: {
+    id,
+    date: '2026-11-07',
+    time: '09:00-12:00',
+    location: 'Test Center',
+    examType: 'CDIELTS',
+    city: 'Isfahan',
+    status: 'available'
+  },
+  firstSeen: new Date(firstSeen),
+  lastSeen: new Date(firstSeen),
+  statusHistory: [],
+  notificationsSent: 0
+});
+
+/**
+ * Monitoring started on 1 October; twelve slots appeared between 10:00 and 10:30
+ * Tehran time (06:30-07:00 UTC) and one at 15:10
+ */
+const createHistory = (): TrackedAppointment[] => [
+  createRecord('listed-at-start', '2026-10-01T00:00:00Z'),
+  ...Array.from({ length: 12 }, (_, index) =>
+    createRecord(`morning-${index}`, `2026-10-${(index + 2).toString().padStart(2, '0')}T06:${(30 + index * 2).toString()}:00Z`)),
+  createRecord('afternoon', '2026-10-05T11:40:00Z')
+];
+
+describe('AdaptiveCheckScheduler', () => {
+  const scheduler = new AdaptiveCheckScheduler({ baseIntervalMs: 5 * MINUTE, minIntervalMs: 30 * 1000, maxIntervalMs: 15 * MINUTE });
+
+  it('should keep the configured interval until enough releases were seen', () => {
+    const interval = scheduler.planInterval(createHistory().slice(0, 6), new Date('2026-10-15T06:40:00Z'));
+
+    expect(interval).toEqual({
+      intervalMs: 5 * MINUTE,
+      mode: 'learning',
+      reason: 'learning release times (5 of 10 new slots seen in the last 30 days)'
+    });
+  });
+
+  it('should check at the minimum interval in windows when slots usually appear', () => {
+    const interval = scheduler.planInterval(createHistory(), new Date('2026-10-15T06:40:00Z')); // 10:10 in Tehran
+
+    expect(interval.intervalMs).toBe(30 * 1000);
+    expect(interval.mode).toBe('busy');
+    expect(interval.reason).toBe('busy window: 12 of 13 new slots in the last 30 days appeared between 10:00 and 10:30 (Asia/Tehran)');
+  });
+
+  it('should back off in quiet windows without sleeping through the next busy one', () => {
+    const history = createHistory();
+
+    const night = scheduler.planInterval(history, new Date('2026-10-14T23:30:00Z')); // 03:00 in Tehran
+    expect(night).toEqual(expect.objectContaining({ intervalMs: 15 * MINUTE, mode: 'quiet' }));
+
+    const beforeBusy = scheduler.planInterval(history, new Date('2026-10-15T06:20:00Z')); // 09:50 in Tehran
+    expect(beforeBusy.intervalMs).toBe(10 * MINUTE);
+    expect(beforeBusy.reason).toContain('checking again when the busy window at 10:00 starts');
+
+    const justBeforeBusy = scheduler.planInterval(history, new Date('2026-10-15T06:29:50Z'));
+    expect(justBeforeBusy.intervalMs).toBe(30 * 1000);
+  });
+
+  it('should use the configured interval in windows with occasional releases', () => {
+    const interval = scheduler.planInterval(createHistory(), new Date('2026-10-15T11:35:00Z')); // 15:05 in Tehran
+
+    expect(interval.intervalMs).toBe(5 * MINUTE);
+    expect(interval.mode).toBe('normal');
+    expect(interval.reason).toContain('1 of 13 new slots');
+  });
+
+  it('should keep intervals within the bounds and forget old releases', () => {
+    const bounded = new AdaptiveCheckScheduler({ baseIntervalMs: 10 * 1000, minIntervalMs: 30 * 1000, maxIntervalMs: 15 * MINUTE, lookbackDays: 7 });
+
+    const interval = bounded.planInterval(createHistory(), new Date('2026-11-30T06:40:00Z'));
+    expect(interval.mode).toBe('learning');
+    expect(interval.intervalMs).toBe(30 * 1000);
+  });
+});
@@ -0,0 +1,89 @@
+import { WebScraperService, ScrapingFilters } from '../WebScraperService';
+import { AppointmentProvider, IrsafamProvider, getProvider, getProviderIds, getProviderName, registerProvider } from '../providers';
+import { DEFAULT_DETECTION_RULES } from '../DetectionRuleService';
+
+jest.mock('puppeteer', () => ({ launch: jest.fn() }));
+
+const testProvider: AppointmentProvider = {
+  id: 'test-centre',
+  name: 'Test Centre',
+  defaultBaseUrl: 'https://ielts.test-centre.example/exams',
+  siteOrigin: 'https://ielts.test-centre.example',
+  cities: [
+    { id: 'karaj', label: 'Karaj', aliases: ['کرج'] },
+    { id: 'qom', label: 'Qom', aliases: ['قم'] }
+  ],
+  examModels: ['ielts'],
+  detectionRulesFile: 'config/providers/test-centre/detection-rules.json',
+  defaultDetectionRules: DEFAULT_DETECTION_RULES,
+  fixturesDirectory: 'fixtures/test-centre',
+  idNamespace: 'test-centre',
+  buildRequestUrl: (baseUrl, filters, month) => `${baseUrl}?city=${filters.city.join(',')}&month=${month ?? filters.months[0]}`,
+  buildRequestUrls(baseUrl, filters) {
+    return filters.months.map(month => this.buildRequestUrl(baseUrl, filters, month));
+  }
+};
+
+describe('Appointment providers', () => {
+  const filters: ScrapingFilters = { city: ['Isfahan'], examModel: ['CDIELTS'], months: [10, 11] };
+
+  beforeAll(() => {
+    registerProvider(testProvider);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should resolve irsafam as the default provider', () => {
+    expect(getProvider().id).toBe('irsafam');
+    expect(getProviderIds()).toEqual(expect.arrayContaining(['irsafam', 'test-centre']));
+    expect(getProviderName('test-centre')).toBe('Test Centre');
+    expect(getProviderName('unknown-site')).toBe('unknown-site');
+  });
+
+  it('should reject unknown provider ids', () => {
+    expect(() => getProvider('unknown-site')).toThrow('Unknown appointment provider "unknown-site"');
+    expect(() => new WebScraperService(undefined, { provider: 'unknown-site' })).toThrow('Unknown appointment provider');
+  });
+
+  it('should build one irsafam request URL per month', () => {
+    const provider = new IrsafamProvider();
+
+    expect(provider.buildRequestUrls(provider.defaultBaseUrl, filters)).toEqual([
+      'https://irsafam.org/ielts/timetable?city%5B%5D=isfahan&model%5B%5D=cdielts&month%5B%5D=10',
+      'https://irsafam.org/ielts/timetable?city%5B%5D=isfahan&model%5B%5D=cdielts&month%5B%5D=11'
+    ]);
+    expect(provider.buildRequestUrls(provider.defaultBaseUrl, { ...filters, months: [] })).toEqual([
+      'https://irsafam.org/ielts/timetable?city%5B%5D=isfahan&model%5B%5D=cdielts'
+    ]);
+  });
+
+  it('should scrape with the configured provider URLs, cities and id namespace', async () => {
+    const axios = require('axios');
+    const getSpy = jest.spyOn(axios, 'get').mockResolvedValue({
+      data: '<html><body>' +
+        '<div class="exam__item ielts"><date><span>27 Oct</span><span>2025</span></date><em>09:00 - 12:00</em>' +
+        '<h5>مرکز کرج</h5><a class="btn register" href="/register/1">قابل ثبت نام</a></div>' +
+        '</body></html>'
+    });
+    const scraper = new WebScraperService(undefined, { backend: 'http', provider: 'test-centre' });
+    const irsafamScraper = new WebScraperService(undefined, { backend: 'http' });
+
+    const result = await scraper.fetchAppointmentsWithStatus({ ...filters, months: [10] });
+    const irsafamResult = await irsafamScraper.fetchAppointmentsWithStatus({ ...filters, months: [10] });
+
+    expect(getSpy).toHaveBeenCalledWith('https://ielts.test-centre.example/exams?city=Isfahan&month=10', expect.anything());
+    expect(scraper.getDetectionRuleSetInfo().rulesFile).toBe('config/providers/test-centre/detection-rules.json');
+    expect(result.providerId).toBe('test-centre');
+    expect(result.appointments[0]).toEqual(expect.objectContaining({
+      city: 'Karaj',
+      providerId: 'test-centre',
+      registrationUrl: 'https://ielts.test-centre.example/register/1'
+    }));
+    // The same slot on two sites must not share an ID
+    expect(result.appointments[0].id).not.toBe(irsafamResult.appointments[0].id);
+    expect(irsafamResult.appointments[0].providerId).toBe('irsafam');
+  });
+});
@@ -0,0 +1,132 @@
+import { AvailabilityAnalyticsService, computeDurationStats } from '../AvailabilityAnalyticsService';
+import type { TrackedAppointment } from '../AppointmentDetectionService';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const MONITORING_START = new Date('2026-10-10T06:00:00Z'); // Saturday 09:30 in Tehran
+
+const at = (offsetMs: number) => new Date(MONITORING_START.getTime() + offsetMs);
+
+/**
+ * Tracking record of a slot; statuses are [offset from monitoring start, new status] pairs
+ */
+const createRecord = (
+  id: string,
+  statuses: Array<[number, string]>,
+  slot: { city?: string; examType?: string; date?: string; time?: string } = {}
+): TrackedAppointment => ({
+  id,
+  appointment: {
+    id,
+    date: slot.date || '2026-11-07', // Saturday
+    time: slot.time || '09:00-12:00',
+    location: 'Test Center',
+    examType: slot.examType || 'CDIELTS',
+    city: slot.city || 'Isfahan',
+    status: 'available'
+  },
+  firstSeen: at(statuses[0]![0]),
+  lastSeen: at(statuses[statuses.length - 1]![0]),
+  statusHistory: statuses.map(([offset, newStatus], index) => ({
+    timestamp: at(offset),
+    previousStatus: index === 0 ? 'unknown' : statuses[index - 1]![1],
+    newStatus,
+    reason: index === 0 ? 'First detection' : 'Status changed'
+  })),
+  notificationsSent: 0
+});
+
+describe('AvailabilityAnalyticsService', () => {
+  const analytics = new AvailabilityAnalyticsService();
+
+  it('should measure time to fill by city, exam type, weekday and hour', () => {
+    const report = analytics.analyze([
+      createRecord('listed-at-start', [[0, 'available'], [2 * HOUR, 'filled']]),
+      createRecord('isfahan-1', [[0, 'filled'], [HOUR, 'available'], [HOUR + 30 * MINUTE, 'filled']]),
+      createRecord('isfahan-2', [[3 * HOUR, 'available'], [5 * HOUR, 'filled']]),
+      createRecord('tehran-1', [[4 * HOUR, 'available'], [4 * HOUR + 10 * MINUTE, 'filled']], {
+        city: 'Tehran', examType: 'UKVI', date: '2026-11-09', time: '14:00-17:00'
+      }),
+      createRecord('still-open', [[6 * HOUR, 'available']])
+    ], { now: at(7 * HOUR) });
+
+    expect(report.slotsAnalyzed).toBe(5);
+    expect(report.monitoringSince).toEqual(MONITORING_START);
+    expect(report.stillAvailable).toBe(1);
+    expect(report.timeToFill.overall).toEqual({
+      count: 3, medianMs: 30 * MINUTE, p90Ms: 2 * HOUR, fastestMs: 10 * MINUTE, slowestMs: 2 * HOUR
+    });
+    expect(report.timeToFill.byCity.map(({ key, stats }) => [key, stats.count, stats.medianMs])).toEqual([
+      ['Isfahan', 2, 30 * MINUTE],
+      ['Tehran', 1, 10 * MINUTE]
+    ]);
+    expect(report.timeToFill.byExamType.map(group => group.key)).toEqual(['CDIELTS', 'UKVI']);
+    expect(report.timeToFill.byWeekday.map(group => group.key)).toEqual(['Monday', 'Saturday']);
+    expect(report.timeToFill.byHour.map(group => group.key)).toEqual(['09:00', '14:00']);
+  });
+
+  it('should count slots that become available again after filling or being delisted', () => {
+    const report = analytics.analyze([
+      createRecord('refilled', [[0, 'available'], [HOUR, 'filled'], [3 * HOUR, 'available'], [4 * HOUR, 'filled']]),
+      // A removed slot is archived and starts a new record when it is listed again
+      createRecord('relisted', [[2 * HOUR, 'available'], [2 * HOUR + 20 * MINUTE, 'removed']]),
+      createRecord('relisted', [[5 * HOUR, 'available']]),
+      createRecord('never-reopened', [[0, 'filled']])
+    ], { now: at(6 * HOUR) });
+
+    expect(report.slotsAnalyzed).toBe(3);
+    expect(report.reopens).toEqual({
+      slotsClosed: 3,
+      slotsReopened: 2,
+      reopenEvents: 2,
+      reopenRate: 2 / 3,
+      medianTimeToReopenMs: 2 * HOUR
+    });
+    expect(report.delistedWhileAvailable).toBe(1);
+    expect(report.timeToFill.overall).toEqual(expect.objectContaining({ count: 1, medianMs: HOUR }));
+  });
+
+  it('should keep a slot available through a brief unknown reading', () => {
+    const report = analytics.analyze([
+      createRecord('listed-at-start', [[0, 'filled']]),
+      createRecord('blip', [[HOUR, 'available'], [2 * HOUR, 'unknown'], [2 * HOUR + 2 * MINUTE, 'available'], [3 * HOUR, 'filled']])
+    ], { now: at(4 * HOUR) });
+
+    expect(report.timeToFill.overall).toEqual(expect.objectContaining({ count: 1, medianMs: 2 * HOUR }));
+    expect(report.reopens).toEqual(expect.objectContaining({ slotsClosed: 2, slotsReopened: 0, reopenEvents: 0, reopenRate: 0 }));
+  });
+
+  it('should report when new slots are published in Tehran time', () => {
+    const report = analytics.analyze([
+      createRecord('listed-at-start', [[0, 'available']]),
+      createRecord('morning-1', [[HOUR, 'available']]), // 10:30 Saturday
+      createRecord('morning-2', [[HOUR + 15 * MINUTE, 'filled']]), // 10:45 Saturday
+      createRecord('next-day', [[24 * HOUR + 5 * HOUR, 'available']]) // 14:30 Sunday
+    ]);
+
+    expect(report.timeZone).toBe('Asia/Tehran');
+    expect(report.publication.newSlots).toBe(3);
+    expect(report.publication.byWeekday).toEqual([{ key: 'Sunday', count: 1 }, { key: 'Saturday', count: 2 }]);
+    expect(report.publication.peakHours).toEqual([{ key: '10:00', count: 2 }, { key: '14:00', count: 1 }]);
+  });
+
+  it('should only count events after the since date', () => {
+    const records = [
+      createRecord('old', [[HOUR, 'available'], [2 * HOUR, 'filled']]),
+      createRecord('recent', [[48 * HOUR, 'available'], [49 * HOUR, 'filled'], [50 * HOUR, 'available']])
+    ];
+
+    const report = analytics.analyze(records, { since: at(24 * HOUR) });
+    expect(report.slotsAnalyzed).toBe(2);
+    expect(report.timeToFill.overall?.count).toBe(1);
+    expect(report.publication.newSlots).toBe(1);
+    expect(report.reopens.slotsReopened).toBe(1);
+  });
+
+  it('should compute percentiles of durations', () => {
+    expect(computeDurationStats([])).toBeNull();
+    expect(computeDurationStats([5, 1, 4, 2, 3, 10, 9, 8, 7, 6])).toEqual({
+      count: 10, medianMs: 5, p90Ms: 9, fastestMs: 1, slowestMs: 10
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { BrowserLifecycle } from '../BrowserLifecycle';
+
+const createBrowser = () => {
+  const browser: any = new EventEmitter();
+  browser.version = jest.fn().mockResolvedValue('HeadlessChrome/140');
+  browser.close = jest.fn().mockImplementation(async () => browser.emit('disconnected'));
+  return browser;
+};
+
+const createPage = () => new EventEmitter() as any;
+
+describe('BrowserLifecycle', () => {
+  let browsers: any[];
+  let launch: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    browsers = [];
+    launch = jest.fn().mockImplementation(async () => {
+      const browser = createBrowser();
+      browsers.push(browser);
+      return browser;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should share one launch between concurrent callers', async () => {
+    const lifecycle = new BrowserLifecycle(launch, { maxMemoryMb: 0 });
+
+    const [first, second] = await Promise.all([lifecycle.getBrowser(), lifecycle.getBrowser()]);
+
+    expect(first).toBe(second);
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(lifecycle.getMetrics()).toEqual(expect.objectContaining({ running: true, launches: 1, restarts: 0 }));
+  });
+
+  it('should recycle the browser after the page limit', async () => {
+    const lifecycle = new BrowserLifecycle(launch, { maxPagesPerBrowser: 2, maxMemoryMb: 0 });
+    await lifecycle.getBrowser();
+    lifecycle.trackPage(createPage());
+
+    expect(await lifecycle.recycleIfNeeded()).toBeNull();
+
+    lifecycle.trackPage(createPage());
+    expect(await lifecycle.recycleIfNeeded()).toBe('page-limit');
+
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(lifecycle.getCurrentBrowser()).toBe(browsers[1]);
+    expect(lifecycle.getMetrics()).toEqual(expect.objectContaining({
+      launches: 2,
+      restarts: 1,
+      pagesOpened: 0,
+      totalPagesOpened: 2,
+      lastRestartReason: 'page-limit'
+    }));
+  });
+
+  it('should recycle the browser above the memory limit', async () => {
+    const measureMemory = jest.fn().mockResolvedValueOnce(300).mockResolvedValueOnce(700);
+    const lifecycle = new BrowserLifecycle(launch, { maxMemoryMb: 512 }, measureMemory);
+    await lifecycle.getBrowser();
+
+    expect(await lifecycle.recycleIfNeeded()).toBeNull();
+    expect(lifecycle.getMetrics().memoryMb).toBe(300);
+
+    expect(await lifecycle.recycleIfNeeded()).toBe('memory');
+    expect(lifecycle.getMetrics().restartReasons.memory).toBe(1);
+  });
+
+  it('should relaunch on the next request after the browser disconnects', async () => {
+    const lifecycle = new BrowserLifecycle(launch, { maxMemoryMb: 0 });
+    await lifecycle.getBrowser();
+
+    browsers[0].emit('disconnected');
+    expect(lifecycle.getCurrentBrowser()).toBeNull();
+    expect(lifecycle.getMetrics().running).toBe(false);
+
+    expect(await lifecycle.getBrowser()).toBe(browsers[1]);
+    expect(lifecycle.getMetrics()).toEqual(expect.objectContaining({
+      launches: 2,
+      restarts: 1,
+      lastRestartReason: 'disconnected'
+    }));
+  });
+
+  it('should replace an unresponsive browser and count page crashes', async () => {
+    const lifecycle = new BrowserLifecycle(launch, { maxMemoryMb: 0 });
+    await lifecycle.getBrowser();
+    const page = lifecycle.trackPage(createPage());
+    page.emit('error', new Error('Page crashed!'));
+
+    browsers[0].version.mockRejectedValue(new Error('Protocol error: Connection closed'));
+    expect(await lifecycle.getBrowser()).toBe(browsers[1]);
+
+    expect(lifecycle.getMetrics()).toEqual(expect.objectContaining({
+      restarts: 1,
+      pageCrashes: 1,
+      lastRestartReason: 'unresponsive'
+    }));
+  });
+
+  it('should not count closing the browser as a restart', async () => {
+    const lifecycle = new BrowserLifecycle(launch, { maxMemoryMb: 0 });
+    await lifecycle.getBrowser();
+    await lifecycle.close();
+    await lifecycle.getBrowser();
+
+    expect(lifecycle.getMetrics()).toEqual(expect.objectContaining({ launches: 2, restarts: 0 }));
+  });
+});
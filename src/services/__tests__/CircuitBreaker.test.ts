@@ -0,0 +1,72 @@
+import { CircuitBreaker } from '../CircuitBreaker';
+
+const URL = 'https://irsafam.org/ielts/timetable?month%5B%5D=11';
+
+describe('CircuitBreaker', () => {
+  const now = new Date('2025-10-01T08:00:00Z').getTime();
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 60000, maxCooldownMs: 180000 });
+  });
+
+  it('should open after repeated failures and skip the URL during the cooldown', () => {
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    expect(breaker.getState(URL)).toBe('closed');
+    expect(breaker.canRequest(URL, now)).toBe(true);
+
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    expect(breaker.getState(URL)).toBe('open');
+    expect(breaker.canRequest(URL, now + 59999)).toBe(false);
+    expect(breaker.getStatuses()[0]).toEqual(expect.objectContaining({
+      label: 'November',
+      state: 'open',
+      consecutiveFailures: 2,
+      retryAt: new Date(now + 60000),
+      lastError: 'Timeout'
+    }));
+  });
+
+  it('should half-open after the cooldown and close on a successful trial', () => {
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+
+    expect(breaker.canRequest(URL, now + 60000)).toBe(true);
+    expect(breaker.getState(URL)).toBe('half-open');
+
+    breaker.recordSuccess(URL, 'November', now + 61000);
+    expect(breaker.getStatuses()[0]).toEqual(expect.objectContaining({
+      state: 'closed',
+      consecutiveFailures: 0,
+      retryAt: null,
+      lastSuccessAt: new Date(now + 61000)
+    }));
+  });
+
+  it('should reopen with a longer cooldown when the trial fails', () => {
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    breaker.canRequest(URL, now + 60000);
+
+    breaker.recordFailure(URL, 'November', 'Network', now + 60000);
+    expect(breaker.getState(URL)).toBe('open');
+    expect(breaker.getStatuses()[0].retryAt).toEqual(new Date(now + 60000 + 120000));
+
+    // The cooldown keeps doubling up to the maximum
+    breaker.canRequest(URL, now + 180000);
+    breaker.recordFailure(URL, 'November', 'Network', now + 180000);
+    expect(breaker.getStatuses()[0].retryAt).toEqual(new Date(now + 180000 + 180000));
+  });
+
+  it('should keep circuits of different URLs apart', () => {
+    const other = 'https://irsafam.org/ielts/timetable?month%5B%5D=10';
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    breaker.recordFailure(URL, 'November', 'Timeout', now);
+    breaker.recordSuccess(other, 'October', now);
+
+    expect(breaker.canRequest(other, now)).toBe(true);
+    expect(breaker.getStatuses().map(status => [status.label, status.state])).toEqual([['November', 'open'], ['October', 'closed']]);
+  });
+});
@@ -229,6 +229,33 @@ describe('DataInspectionService', () => {
     });
   });
 
+  describe('attachEvidence', () => {
+    const evidence = {
+      id: 'evidence_1',
+      reason: 'all 2 slot(s) vanished',
+      directory: 'data/evidence/evidence_1',
+      files: ['data/evidence/evidence_1/page.html']
+    };
+
+    it('should link evidence to the inspection record', async () => {
+      mockFs.readFile.mockResolvedValue(JSON.stringify([{ id: 'target-id', timestamp: '2025-01-15T10:30:00Z', data: mockInspectionData }]));
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      expect(await service.attachEvidence('target-id', evidence)).toBe(true);
+
+      const written = JSON.parse((mockFs.writeFile.mock.calls[0]![1] as string));
+      expect(written[0].data.evidence).toEqual(evidence);
+      expect(service.formatInspectionSummary({ ...written[0], data: { ...mockInspectionData, evidence } })).toContain('--- EVIDENCE (all 2 slot(s) vanished) ---');
+    });
+
+    it('should return false when the record is gone', async () => {
+      mockFs.readFile.mockResolvedValue('[]');
+
+      expect(await service.attachEvidence('missing-id', evidence)).toBe(false);
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('formatInspectionSummary', () => {
     it('should format inspection summary correctly', () => {
       const mockRecord = {
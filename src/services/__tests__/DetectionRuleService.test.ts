@@ -0,0 +1,105 @@
+import { DetectionRuleService, DEFAULT_DETECTION_RULES } from '../DetectionRuleService';
+import { validateDetectionRuleSet } from '../../models/validation';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('DetectionRuleService', () => {
+  let tempDir: string;
+  let rulesFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'detection-rules-'));
+    rulesFile = path.join(tempDir, 'detection-rules.json');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const writeRules = async (rules: unknown, mtime: Date = new Date()) => {
+    await fs.writeFile(rulesFile, JSON.stringify(rules));
+    await fs.utimes(rulesFile, mtime, mtime);
+  };
+
+  it('should ship a valid built-in rule set', () => {
+    const result = validateDetectionRuleSet(DEFAULT_DETECTION_RULES);
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should keep config/detection-rules.json in sync with the built-in rules', async () => {
+    const shipped = JSON.parse(await fs.readFile(path.join(__dirname, '../../../config/detection-rules.json'), 'utf-8'));
+    expect(shipped).toEqual(JSON.parse(JSON.stringify(DEFAULT_DETECTION_RULES)));
+  });
+
+  it('should fall back to built-in rules when the file is missing', async () => {
+    const service = new DetectionRuleService({ rulesFile });
+
+    const ruleSet = await service.loadRules();
+
+    expect(ruleSet).toBe(DEFAULT_DETECTION_RULES);
+    expect(service.getRuleSetInfo()).toMatchObject({ source: 'built-in', version: DEFAULT_DETECTION_RULES.version });
+  });
+
+  it('should load a valid rule file and report its version', async () => {
+    await writeRules({ ...DEFAULT_DETECTION_RULES, version: '2.1.0' });
+    const service = new DetectionRuleService({ rulesFile });
+
+    const ruleSet = await service.loadRules();
+
+    expect(ruleSet.version).toBe('2.1.0');
+    expect(service.getRuleSetInfo()).toMatchObject({
+      source: 'file',
+      version: '2.1.0',
+      ruleCount: DEFAULT_DETECTION_RULES.rules.length
+    });
+  });
+
+  it('should reload the rule file when it changes on disk', async () => {
+    await writeRules({ ...DEFAULT_DETECTION_RULES, version: '2.1.0' }, new Date(Date.now() - 60000));
+    const service = new DetectionRuleService({ rulesFile });
+    await service.loadRules();
+
+    await writeRules({ ...DEFAULT_DETECTION_RULES, version: '2.2.0' });
+    const ruleSet = await service.loadRules();
+
+    expect(ruleSet.version).toBe('2.2.0');
+  });
+
+  it('should keep the last valid rules when the file becomes invalid', async () => {
+    await writeRules({ ...DEFAULT_DETECTION_RULES, version: '2.1.0' }, new Date(Date.now() - 60000));
+    const service = new DetectionRuleService({ rulesFile });
+    await service.loadRules();
+
+    await writeRules({ version: '3.0.0', rules: [] });
+    const ruleSet = await service.loadRules();
+
+    expect(ruleSet.version).toBe('2.1.0');
+    expect(service.getRuleSetInfo().lastError).toContain('non-empty rules array');
+  });
+
+  it('should reject rules with invalid fields', () => {
+    const result = validateDetectionRuleSet({
+      ...DEFAULT_DETECTION_RULES,
+      rules: [
+        { id: 'a', description: '', status: 'full', priority: 1, weight: 2, indicatorType: 'text-content', match: {} },
+        { id: 'a', description: '', status: 'filled', priority: 2, weight: 0.5, indicatorType: 'text-content', match: { regex: ['x'] } }
+      ],
+      contextual: { patterns: ['('], keywords: [], weight: 0.1 }
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Rule "a": status must be one of: available, filled, pending, not-registerable',
+      'Rule "a": weight must be a number between 0 and 1',
+      'Rule "a": match must define at least one condition',
+      'Rule "a": id must be unique',
+      'Rule "a": unknown match conditions: regex',
+      'contextual.patterns contains an invalid regular expression: ('
+    ]));
+  });
+});
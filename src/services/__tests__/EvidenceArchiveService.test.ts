@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EvidenceArchiveService, recordNetworkLog } from '../EvidenceArchiveService';
+
+const PAGE_URL = 'https://irsafam.org/ielts/timetable?city%5B%5D=tehran&month%5B%5D=10';
+
+const createRequest = (url: string, headers: Record<string, string> = {}) => ({
+  url: () => url,
+  method: () => 'GET',
+  headers: () => headers,
+  resourceType: () => 'document',
+  failure: () => ({ errorText: 'net::ERR_CONNECTION_RESET' })
+});
+
+describe('EvidenceArchiveService', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save the captured artifacts with a manifest', async () => {
+    const archive = new EvidenceArchiveService({ directory });
+
+    const evidence = await archive.save({
+      url: PAGE_URL,
+      reason: 'all 3 slot(s) vanished',
+      inspectionId: 'inspection_1',
+      screenshot: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      dom: '<html><body>empty</body></html>'
+    }, new Date('2026-10-19T08:00:00Z'));
+
+    expect(evidence.files.map(file => path.basename(file))).toEqual(['screenshot.png', 'page.html']);
+    expect(await fs.readFile(path.join(evidence.directory, 'page.html'), 'utf-8')).toBe('<html><body>empty</body></html>');
+
+    const manifest = await archive.get(evidence.id);
+    expect(manifest).toEqual(expect.objectContaining({
+      url: PAGE_URL,
+      reason: 'all 3 slot(s) vanished',
+      inspectionId: 'inspection_1',
+      createdAt: '2026-10-19T08:00:00.000Z',
+      sizeBytes: 35
+    }));
+    expect((await archive.findByInspectionId('inspection_1'))?.id).toBe(evidence.id);
+    expect(await archive.findByInspectionId('inspection_2')).toBeNull();
+  });
+
+  it('should delete the oldest entries beyond the count and size caps', async () => {
+    const archive = new EvidenceArchiveService({ directory, maxEntries: 2, maxSizeBytes: 25 });
+
+    const first = await archive.save({ url: PAGE_URL, reason: 'blocked', dom: '0123456789' }, new Date('2026-10-19T08:00:00Z'));
+    const second = await archive.save({ url: PAGE_URL, reason: 'blocked', dom: '0123456789' }, new Date('2026-10-19T08:05:00Z'));
+    expect((await archive.list()).map(manifest => manifest.id)).toEqual([second.id, first.id]);
+
+    const third = await archive.save({ url: PAGE_URL, reason: 'blocked', dom: '0123456789' }, new Date('2026-10-19T08:10:00Z'));
+    expect((await archive.list()).map(manifest => manifest.id)).toEqual([third.id, second.id]);
+
+    const large = await archive.save({ url: PAGE_URL, reason: 'blocked', dom: 'x'.repeat(40) }, new Date('2026-10-19T08:15:00Z'));
+    expect((await archive.list()).map(manifest => manifest.id)).toEqual([large.id]);
+
+    await archive.clear();
+    expect(await archive.list()).toEqual([]);
+  });
+
+  it('should record requests as HAR entries without credentials', () => {
+    const page: any = new EventEmitter();
+    const recorder = recordNetworkLog(page, PAGE_URL)!;
+
+    const documentRequest = createRequest(PAGE_URL, { cookie: 'session=secret', accept: 'text/html' });
+    const apiRequest = createRequest('https://irsafam.org/api/exams?month=10');
+    page.emit('request', documentRequest);
+    page.emit('request', apiRequest);
+    page.emit('response', {
+      request: () => documentRequest,
+      status: () => 403,
+      statusText: () => 'Forbidden',
+      headers: () => ({ 'content-type': 'text/html', 'set-cookie': 'cf_clearance=secret' })
+    });
+    page.emit('requestfailed', apiRequest);
+
+    const har = recorder.stop();
+    expect(page.listenerCount('request')).toBe(0);
+    expect(har.log.pages[0]!.title).toBe(PAGE_URL);
+
+    const [documentEntry, apiEntry] = har.log.entries;
+    expect(documentEntry!.request.headers).toEqual([
+      { name: 'cookie', value: '[redacted]' },
+      { name: 'accept', value: 'text/html' }
+    ]);
+    expect(documentEntry!.request.queryString).toEqual([
+      { name: 'city[]', value: 'tehran' },
+      { name: 'month[]', value: '10' }
+    ]);
+    expect(documentEntry!.response).toEqual(expect.objectContaining({ status: 403, statusText: 'Forbidden' }));
+    expect(documentEntry!.response.headers).toContainEqual({ name: 'set-cookie', value: '[redacted]' });
+    expect(apiEntry!._failure).toBe('net::ERR_CONNECTION_RESET');
+  });
+});
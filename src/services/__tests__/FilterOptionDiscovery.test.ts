@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FILTER_OPTIONS_SCRIPT, FilterOptionDiscovery, mergeCities, parseFilterOptions } from '../FilterOptionDiscovery';
+import { IrsafamProvider } from '../providers';
+import { StaticHtmlPage } from '../StaticHtmlPage';
+
+const TIMETABLE_HTML = `<html><body>
+  <form class="filters">
+    <select name="city[]" multiple>
+      <option value="">همه شهرها</option>
+      <option value="isfahan">اصفهان</option>
+      <option value="tehran">تهران</option>
+      <option value="kish">کیش</option>
+    </select>
+    <label><input type="checkbox" name="model[]" value="cdielts"> CD IELTS</label>
+    <input type="checkbox" id="model-ukvi" name="model[]" value="UKVI"><label for="model-ukvi">IELTS for UKVI</label>
+    <select name="month[]">
+      <option value="10">October</option>
+      <option value="11">November</option>
+      <option value="13">Invalid</option>
+    </select>
+  </form>
+</body></html>`;
+
+describe('FilterOptionDiscovery', () => {
+  const provider = new IrsafamProvider();
+  let directory: string;
+  let cacheFile: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'filter-options-'));
+    cacheFile = path.join(directory, 'filter-options.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read cities, exam models and months from the filter controls', async () => {
+    const raw = await new StaticHtmlPage(TIMETABLE_HTML).evaluate(FILTER_OPTIONS_SCRIPT);
+
+    expect(parseFilterOptions(raw, provider.cities)).toEqual({
+      cities: [
+        { id: 'isfahan', label: 'Isfahan', aliases: ['اصفهان'] },
+        { id: 'tehran', label: 'Tehran', aliases: ['تهران'] },
+        { id: 'kish', label: 'Kish', aliases: ['کیش'] }
+      ],
+      examModels: ['cdielts', 'ukvi'],
+      months: [10, 11]
+    });
+    expect(parseFilterOptions(await new StaticHtmlPage('<html><body>No filters</body></html>').evaluate(FILTER_OPTIONS_SCRIPT))).toBeNull();
+  });
+
+  it('should cache discovered options until the TTL expires', async () => {
+    const fetchTimetable = jest.fn().mockResolvedValue(TIMETABLE_HTML);
+    const discovery = new FilterOptionDiscovery(provider, { cacheFile, ttlMs: 60 * 60 * 1000 }, fetchTimetable);
+    const discoveredAt = new Date('2026-10-19T08:00:00Z');
+
+    const first = await discovery.getOptions(provider.defaultBaseUrl, {}, discoveredAt);
+    expect(first.source).toBe('site');
+    expect(first.cities.map(city => city.id)).toEqual(['isfahan', 'tehran', 'kish']);
+
+    // A new instance reads the cache file written by the first one
+    const cachedDiscovery = new FilterOptionDiscovery(provider, { cacheFile, ttlMs: 60 * 60 * 1000 }, fetchTimetable);
+    expect((await cachedDiscovery.getOptions(provider.defaultBaseUrl, {}, new Date('2026-10-19T08:30:00Z'))).source).toBe('cache');
+    expect(fetchTimetable).toHaveBeenCalledTimes(1);
+    expect(await cachedDiscovery.needsRefresh(new Date('2026-10-19T09:00:00Z'))).toBe(true);
+
+    expect((await cachedDiscovery.getOptions(provider.defaultBaseUrl, {}, new Date('2026-10-19T09:00:00Z'))).source).toBe('site');
+    expect((await cachedDiscovery.getOptions(provider.defaultBaseUrl, { refresh: true }, new Date('2026-10-19T09:05:00Z'))).source).toBe('site');
+    expect(fetchTimetable).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fall back to the expired cache or the built-in lists when the site cannot be read', async () => {
+    const fetchTimetable = jest.fn().mockRejectedValue(new Error('timeout of 15000ms exceeded'));
+    const discovery = new FilterOptionDiscovery(provider, { cacheFile, ttlMs: 1000 }, fetchTimetable);
+
+    const builtIn = await discovery.getOptions();
+    expect(builtIn).toEqual(expect.objectContaining({ source: 'built-in', error: 'timeout of 15000ms exceeded', months: [] }));
+    expect(builtIn.cities.map(city => city.id)).toEqual(provider.cities.map(city => city.id));
+    expect(builtIn.examModels).toEqual(provider.examModels);
+
+    await discovery.record(await new StaticHtmlPage(TIMETABLE_HTML).evaluate(FILTER_OPTIONS_SCRIPT), provider.defaultBaseUrl, new Date('2026-10-18T08:00:00Z'));
+    const stale = await discovery.getOptions(provider.defaultBaseUrl, {}, new Date('2026-10-19T08:00:00Z'));
+    expect(stale.source).toBe('stale-cache');
+    expect(stale.cities.map(city => city.id)).toContain('kish');
+    expect((await discovery.getCachedOptions()).source).toBe('cache');
+  });
+
+  it('should add discovered cities to the known ones for city mapping', () => {
+    const merged = mergeCities(provider.cities, [
+      { id: 'tehran', label: 'Tehran', aliases: ['تهران', 'طهران'] },
+      { id: 'kish', label: 'Kish', aliases: ['کیش'] }
+    ]);
+
+    expect(merged.map(city => city.id)).toEqual(['isfahan', 'tehran', 'shiraz', 'mashhad', 'tabriz', 'kish']);
+    expect(merged.find(city => city.id === 'tehran')!.aliases).toEqual(['تهران', 'طهران']);
+    expect(provider.cities.find(city => city.id === 'tehran')!.aliases).toEqual(['تهران']);
+  });
+});
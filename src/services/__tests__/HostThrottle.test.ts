@@ -0,0 +1,88 @@
+import { HostThrottle } from '../HostThrottle';
+import { PolitenessScheduler } from '../PolitenessScheduler';
+
+describe('HostThrottle', () => {
+  it('should limit concurrent requests per host but not across hosts', async () => {
+    const throttle = new HostThrottle({ maxConcurrentPerHost: 1, minIntervalMs: 0, jitterMs: 0 });
+    const active = new Map<string, number>();
+    const maxActive = new Map<string, number>();
+
+    const request = (url: string) => throttle.schedule(url, async () => {
+      const host = new URL(url).host;
+      active.set(host, (active.get(host) || 0) + 1);
+      maxActive.set(host, Math.max(maxActive.get(host) || 0, active.get(host)!));
+      await new Promise(resolve => setImmediate(resolve));
+      active.set(host, active.get(host)! - 1);
+    });
+
+    await Promise.all([
+      request('https://irsafam.org/ielts/timetable?month[]=10'),
+      request('https://irsafam.org/ielts/timetable?month[]=11'),
+      request('https://example.org/timetable?month[]=10'),
+      request('https://example.org/timetable?month[]=11')
+    ]);
+
+    expect(maxActive.get('irsafam.org')).toBe(1);
+    expect(maxActive.get('example.org')).toBe(1);
+    expect(throttle.getActiveCount('https://irsafam.org/')).toBe(0);
+  });
+
+  it('should space request starts to the same host', async () => {
+    jest.useFakeTimers();
+    try {
+      const throttle = new HostThrottle({ maxConcurrentPerHost: 3, minIntervalMs: 1000, jitterMs: 0 });
+      const startTimes: number[] = [];
+      const start = Date.now();
+
+      const requests = Promise.all([1, 2, 3].map(() =>
+        throttle.schedule('https://irsafam.org/ielts/timetable', async () => {
+          startTimes.push(Date.now() - start);
+        })
+      ));
+      await jest.advanceTimersByTimeAsync(3000);
+      await requests;
+
+      expect(startTimes).toEqual([0, 1000, 2000]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should hold requests while the server asked to slow down', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const politeness = new PolitenessScheduler();
+      const throttle = new HostThrottle({ maxConcurrentPerHost: 3, minIntervalMs: 1000, jitterMs: 0 }, politeness);
+      const startTimes: number[] = [];
+      const start = Date.now();
+      politeness.recordResponse(429, '5', start);
+
+      const requests = Promise.all([1, 2].map(() =>
+        throttle.schedule('https://irsafam.org/ielts/timetable', async () => {
+          startTimes.push(Date.now() - start);
+        })
+      ));
+      await jest.advanceTimersByTimeAsync(10000);
+      await requests;
+
+      // Paused for Retry-After, then spaced at half the normal pace
+      expect(startTimes).toEqual([5000, 7000]);
+    } finally {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should run local fixture requests without throttling', async () => {
+    const throttle = new HostThrottle({ maxConcurrentPerHost: 1, minIntervalMs: 60000 });
+
+    const results = await Promise.all([
+      throttle.schedule('file:///tmp/october.html', async () => 'october'),
+      throttle.schedule('file:///tmp/november.html', async () => 'november')
+    ]);
+
+    expect(results).toEqual(['october', 'november']);
+    expect(HostThrottle.getHost('file:///tmp/october.html')).toBeNull();
+  });
+});
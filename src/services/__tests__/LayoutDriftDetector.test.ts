@@ -0,0 +1,127 @@
+import { LayoutDriftDetector } from '../LayoutDriftDetector';
+import { LayoutObservation } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const observation = (overrides: Partial<LayoutObservation> = {}): LayoutObservation => ({
+  url: 'https://irsafam.org/ielts/timetable?month%5B%5D=10',
+  matchedSelector: 'a.exam__item.ielts',
+  matchedStrategy: 'IELTS-specific',
+  elementCount: 6,
+  confidenceScores: [0.95, 0.9, 1, 0.95],
+  ...overrides
+});
+
+const emptyPage = () => observation({ matchedSelector: null, matchedStrategy: null, elementCount: 0, confidenceScores: [] });
+const emptyStatePage = () => observation({ matchedSelector: null, matchedStrategy: null, elementCount: 0, confidenceScores: [], emptyState: true });
+
+describe('LayoutDriftDetector', () => {
+  let tempDir: string;
+  let detector: LayoutDriftDetector;
+
+  const learnBaseline = async (checks: number = 5) => {
+    for (let i = 0; i < checks; i++) {
+      await detector.recordCheck([observation(), observation()]);
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layout-drift-'));
+    detector = new LayoutDriftDetector({ stateFile: path.join(tempDir, 'layout-drift.json') });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should learn a baseline before reporting drift', async () => {
+    const first = await detector.recordCheck([emptyPage()]);
+    expect(first.status).toBe('learning');
+
+    await learnBaseline(4);
+    const stable = await detector.recordCheck([observation(), emptyPage()]);
+
+    expect(stable.status).toBe('stable');
+    expect(stable.alert).toBeNull();
+  });
+
+  it('should alert when the usual selector finds zero elements on consecutive checks', async () => {
+    await learnBaseline();
+
+    const firstDrift = await detector.recordCheck([emptyPage(), emptyPage()]);
+    expect(firstDrift.status).toBe('drifting');
+    expect(firstDrift.alert).toBeNull();
+
+    const confirmed = await detector.recordCheck([emptyPage(), emptyPage()]);
+    expect(confirmed.alert).toEqual(expect.objectContaining({ kind: 'layout-drift', title: 'Site layout change suspected' }));
+    expect(confirmed.reasons[0]).toContain('Selector "a.exam__item.ielts" found zero elements');
+
+    // One alert per drift episode
+    const ongoing = await detector.recordCheck([emptyPage(), emptyPage()]);
+    expect(ongoing.status).toBe('drifting');
+    expect(ongoing.alert).toBeNull();
+  });
+
+  it('should not report selector drift for pages showing the empty-state message', async () => {
+    await learnBaseline();
+
+    const empty = await detector.recordCheck([emptyStatePage(), emptyStatePage()]);
+    const stillEmpty = await detector.recordCheck([emptyStatePage(), emptyStatePage()]);
+    const refilled = await detector.recordCheck([observation(), observation()]);
+
+    expect([empty.status, stillEmpty.status, refilled.status]).toEqual(['stable', 'stable', 'stable']);
+    expect(stillEmpty.alert).toBeNull();
+    expect(empty.summary?.emptyStatePages).toBe(2);
+  });
+
+  it('should still report selector drift when only some pages show the empty-state message', async () => {
+    await learnBaseline();
+
+    const assessment = await detector.recordCheck([emptyStatePage(), emptyPage()]);
+
+    expect(assessment.status).toBe('drifting');
+    expect(assessment.reasons[0]).toContain('Selector "a.exam__item.ielts" found zero elements');
+  });
+
+  it('should report fallback selectors and collapsed confidence', async () => {
+    await learnBaseline();
+
+    const drifted = observation({ matchedSelector: '.row .col, .row > div', matchedStrategy: 'broad-fallback', confidenceScores: [0.2, 0.3, 0.25] });
+    const assessment = await detector.recordCheck([drifted]);
+
+    expect(assessment.reasons).toEqual([
+      expect.stringContaining('fallback selector ".row .col, .row > div" (broad-fallback)'),
+      expect.stringContaining('Average status confidence fell from 0.95 to 0.25'),
+      expect.stringContaining('100% of status decisions are below 0.5 confidence')
+    ]);
+  });
+
+  it('should send a recovery alert once the layout matches the baseline again', async () => {
+    await learnBaseline();
+    await detector.recordCheck([emptyPage()]);
+    await detector.recordCheck([emptyPage()]);
+
+    const recovered = await detector.recordCheck([observation()]);
+
+    expect(recovered.status).toBe('recovered');
+    expect(recovered.alert?.kind).toBe('layout-recovered');
+  });
+
+  it('should persist the baseline between instances', async () => {
+    await learnBaseline();
+
+    const restarted = new LayoutDriftDetector({ stateFile: path.join(tempDir, 'layout-drift.json'), confirmationChecks: 1 });
+    const assessment = await restarted.recordCheck([emptyPage()]);
+
+    expect(assessment.status).toBe('drifting');
+    expect(assessment.alert).not.toBeNull();
+  });
+
+  it('should ignore checks without layout observations', async () => {
+    const assessment = await detector.recordCheck([]);
+
+    expect(assessment.status).toBe('skipped');
+    await expect(fs.access(path.join(tempDir, 'layout-drift.json'))).rejects.toThrow();
+  });
+});
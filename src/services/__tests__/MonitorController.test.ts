@@ -73,6 +73,8 @@ describe('MonitorController', () => {
     mockWebScraper.initialize.mockResolvedValue();
     mockWebScraper.close.mockResolvedValue();
     mockWebScraper.fetchAppointments.mockResolvedValue(mockAppointments);
+    mockWebScraper.getCircuitBreakerStatuses.mockReturnValue([]);
+    mockWebScraper.getBrowserMetrics.mockReturnValue({ launches: 0 } as any);
     
     // Mock the new enhanced method
     mockWebScraper.fetchAppointmentsWithStatus = jest.fn().mockResolvedValue({
@@ -235,6 +237,29 @@ describe('MonitorController', () => {
       expect(mockStatusLogger.logAppointmentCheck).toHaveBeenCalled();
     });
 
+    test('should store only the top-level appointments of a scrape shared with watch profiles', async () => {
+      const tehranAppointment: Appointment = { ...mockAppointments[0], id: 'apt-tehran', city: 'tehran', location: 'Tehran Center' };
+      mockWebScraper.fetchAppointmentsWithStatus = jest.fn().mockResolvedValue({
+        type: 'available',
+        appointmentCount: 3,
+        availableCount: 3,
+        filledCount: 0,
+        timestamp: new Date(),
+        url: 'https://test.com',
+        appointments: [...mockAppointments, tehranAppointment]
+      });
+
+      await monitorController.startMonitoring(mockConfig);
+      const watchProfiles = { hasProfiles: () => true, processCheck: jest.fn().mockResolvedValue([]), getStatuses: () => [] };
+      (monitorController as any).watchProfiles = watchProfiles;
+
+      await (monitorController as any).triggerCheck();
+      await monitorController.stopMonitoring();
+
+      expect(mockDataStorage.saveAppointments).toHaveBeenCalledWith(mockAppointments);
+      expect(watchProfiles.processCheck.mock.calls[0][0].appointments).toHaveLength(3);
+    });
+
     test('should detect and notify about new appointments', async () => {
       const newAppointments = [mockAppointments[0]];
       
@@ -886,6 +911,40 @@ describe('MonitorController', () => {
       expect(checkEvents.length).toBeGreaterThan(0);
       expect(checkEvents[0]).toBe(mockAppointments.length);
     });
+
+    test('should send and emit admin alerts for layout drift', async () => {
+      const alert = {
+        kind: 'layout-drift' as const,
+        title: 'Site layout change suspected',
+        message: 'The timetable layout looks different',
+        details: ['Selector "a.exam__item.ielts" found zero elements'],
+        timestamp: new Date()
+      };
+      const layoutObservations = [{ url: 'https://test.com', matchedSelector: null, matchedStrategy: null, elementCount: 0, confidenceScores: [] }];
+      mockWebScraper.fetchAppointmentsWithStatus = jest.fn().mockResolvedValue({
+        type: 'no-slots',
+        appointmentCount: 0,
+        availableCount: 0,
+        filledCount: 0,
+        timestamp: new Date(),
+        url: 'https://test.com',
+        appointments: [],
+        layoutObservations
+      });
+      const recordCheck = jest.fn().mockResolvedValue({ status: 'drifting', reasons: alert.details, summary: null, alert });
+      (monitorController as any).layoutDriftDetector = { recordCheck };
+      mockNotificationService.sendAdminAlert.mockResolvedValue(['telegram']);
+      const alertEvents: any[] = [];
+      monitorController.on('admin-alert', (event) => alertEvents.push(event));
+
+      await monitorController.startMonitoring(mockConfig);
+      await (monitorController as any).triggerCheck();
+      await monitorController.stopMonitoring();
+
+      expect(recordCheck).toHaveBeenCalledWith(layoutObservations);
+      expect(mockNotificationService.sendAdminAlert).toHaveBeenCalledWith(alert, mockConfig.notificationSettings);
+      expect(alertEvents[0]).toBe(alert);
+    });
   });
 
   describe('Service Integration', () => {
@@ -953,4 +1012,64 @@ describe('MonitorController', () => {
       await monitorController.stopMonitoring();
     });
   });
+
+  describe('Schedule and Quiet Hours', () => {
+    const allDay = { start: '00:00', end: '24:00' };
+    const checkResult = {
+      type: 'available',
+      appointmentCount: 1,
+      availableCount: 1,
+      filledCount: 0,
+      timestamp: new Date(),
+      url: 'https://test.com',
+      appointments: [mockAppointments[0]]
+    };
+
+    beforeEach(() => {
+      const appointmentDetection = (monitorController as any).appointmentDetection;
+      jest.spyOn(appointmentDetection, 'getNotifiableAppointments').mockImplementation((appointments: any) => appointments);
+      jest.spyOn(appointmentDetection, 'markAsNotified').mockResolvedValue(undefined);
+      (monitorController as any).currentSession = { sessionId: 'test-session', startTime: new Date(), checksPerformed: 0, notificationsSent: 0, errors: [] };
+    });
+
+    test('should hold notifications during quiet hours and send them once they end', async () => {
+      (monitorController as any).config = { ...mockConfig, schedule: { quietHours: [{ name: 'Night', ...allDay }] } };
+
+      await (monitorController as any).notifyAppointments([mockAppointments[0]], checkResult);
+      expect(mockNotificationService.sendNotification).not.toHaveBeenCalled();
+      expect((await monitorController.getStatus()).quietHours).toEqual(expect.objectContaining({
+        name: 'Night', notifications: 'hold', heldNotifications: 1
+      }));
+
+      (monitorController as any).config = { ...mockConfig, schedule: {} };
+      await (monitorController as any).notifyAppointments([], checkResult);
+      expect(mockNotificationService.sendNotification).toHaveBeenCalledWith([mockAppointments[0]], mockConfig.notificationSettings);
+      expect((monitorController as any).heldNotifications.size).toBe(0);
+    });
+
+    test('should send notifications without desktop and audio alerts in downgrade quiet hours', async () => {
+      (monitorController as any).config = { ...mockConfig, schedule: { quietHours: [{ ...allDay, notifications: 'downgrade' }] } };
+
+      await (monitorController as any).notifyAppointments([mockAppointments[0]], checkResult);
+      expect(mockNotificationService.sendNotification).toHaveBeenCalledWith(
+        [mockAppointments[0]],
+        { ...mockConfig.notificationSettings, desktop: false, audio: false }
+      );
+    });
+
+    test('should use the interval of the active schedule rule', () => {
+      (monitorController as any).config = {
+        ...mockConfig,
+        schedule: { rules: [{ name: 'Always', ...allDay, checkInterval: 60000 }] }
+      };
+
+      const nextCheck = (monitorController as any).planNextCheck(new Date('2026-10-19T08:00:00Z'));
+      expect(nextCheck).toEqual(expect.objectContaining({ delayMs: 60000, mode: 'scheduled', rule: 'Always' }));
+
+      (monitorController as any).config = { ...mockConfig, schedule: { rules: [{ name: 'Off', ...allDay, pause: true }] } };
+      expect((monitorController as any).planNextCheck(new Date('2026-10-19T08:00:00Z'))).toEqual(expect.objectContaining({
+        delayMs: mockConfig.checkInterval, mode: 'paused', rule: 'Off'
+      }));
+    });
+  });
 });
\ No newline at end of file
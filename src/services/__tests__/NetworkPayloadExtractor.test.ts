@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { NetworkPayloadExtractor, CapturedPayload } from '../NetworkPayloadExtractor';
+import { IrsafamProvider } from '../providers';
+
+const cities = new IrsafamProvider().cities;
+
+const createResponse = (url: string, body: string, options: { resourceType?: string; contentType?: string; status?: number } = {}) => ({
+  url: () => url,
+  status: () => options.status ?? 200,
+  headers: () => ({ 'content-type': options.contentType ?? 'application/json; charset=utf-8' }),
+  request: () => ({ resourceType: () => options.resourceType ?? 'xhr' }),
+  text: async () => body
+});
+
+const payload = (body: unknown, url: string = 'https://irsafam.org/api/timetable?month=10'): CapturedPayload => ({ url, status: 200, body });
+
+describe('NetworkPayloadExtractor', () => {
+  const extractor = new NetworkPayloadExtractor();
+
+  it('should read appointments and statuses from structured fields', () => {
+    const extraction = extractor.extractAppointments([payload({
+      data: {
+        exams: [
+          { exam_date: '2025-10-27T00:00:00', start_time: '09:00', end_time: '12:00', center: 'Isfahan Safir Office', exam_model: 'CDIELTS', is_full: false, price: 291000000 },
+          { exam_date: '2025/10/28', time: '13:30-16:30', center: 'Isfahan Safir Office', exam_model: 'CDIELTS', remaining_seats: 0 },
+          { exam_date: '2025-11-03', time: '09:00-12:00', center: 'Tehran Center', city: 'تهران', status: 'تکمیل ظرفیت' },
+          { exam_date: '2025-11-04', time: '09:00-12:00', center: 'Tehran Center' }
+        ]
+      }
+    })], cities);
+
+    expect(extraction?.payloadUrls).toEqual(['https://irsafam.org/api/timetable?month=10']);
+    expect(extraction?.appointments.map(({ date, time, city, status }) => ({ date, time, city, status }))).toEqual([
+      { date: '2025-10-27', time: '09:00-12:00', city: 'Isfahan', status: 'available' },
+      { date: '2025-10-28', time: '13:30-16:30', city: 'Isfahan', status: 'filled' },
+      { date: '2025-11-03', time: '09:00-12:00', city: 'Tehran', status: 'filled' },
+      { date: '2025-11-04', time: '09:00-12:00', city: 'Tehran', status: 'unknown' }
+    ]);
+    expect(extraction?.appointments[0]).toEqual(expect.objectContaining({ examType: 'CDIELTS', price: 291000000 }));
+  });
+
+  it('should return null when no payload contains appointment lists', () => {
+    expect(extractor.extractAppointments([
+      payload({ user: null, menu: [{ title: 'Home', url: '/' }] }),
+      payload([1, 2, 3])
+    ], cities)).toBeNull();
+  });
+
+  it('should read negated and closed status text as filled', () => {
+    const extraction = extractor.extractAppointments([payload([
+      { date: '2025-10-27', time: '09:00-12:00', center: 'Isfahan Safir Office', status: 'قابل ثبت نام نیست' },
+      { date: '2025-10-28', time: '09:00-12:00', center: 'Isfahan Safir Office', status: 'Not available' },
+      { date: '2025-10-29', time: '09:00-12:00', center: 'Isfahan Safir Office', status: 'Registration closed' },
+      { date: '2025-10-30', time: '09:00-12:00', center: 'Isfahan Safir Office', status: 'قابل ثبت نام' },
+      { date: '2025-10-31', time: '09:00-12:00', center: 'Isfahan Safir Office', status: 'TBA' }
+    ])], cities);
+
+    expect(extraction?.appointments.map(apt => apt.status)).toEqual(['filled', 'filled', 'filled', 'available', 'unknown']);
+  });
+
+  it('should ignore dated lists that do not look like slots', () => {
+    expect(extractor.extractAppointments([payload({
+      news: [
+        { date: '2025-10-20', title: 'New test centre opened' },
+        { date: '2025-10-22', title: 'Holiday closure' }
+      ]
+    })], cities)).toBeNull();
+  });
+
+  it('should capture JSON responses of XHR and fetch requests only', async () => {
+    const page = new EventEmitter();
+    const capture = extractor.capture(page as any);
+
+    page.emit('response', createResponse('https://irsafam.org/api/exams', '[{"date":"2025-10-27"}]'));
+    page.emit('response', createResponse('https://irsafam.org/api/exams.js', '{}', { resourceType: 'script' }));
+    page.emit('response', createResponse('https://irsafam.org/ielts/timetable', '<html></html>', { contentType: 'text/html' }));
+    page.emit('response', createResponse('https://irsafam.org/api/broken', '{not json'));
+
+    const payloads = await capture!.stop();
+    page.emit('response', createResponse('https://irsafam.org/api/late', '[]'));
+
+    expect(payloads).toEqual([{ url: 'https://irsafam.org/api/exams', status: 200, body: [{ date: '2025-10-27' }] }]);
+    expect(page.listenerCount('response')).toBe(0);
+  });
+
+  it('should fall back when the page cannot report responses', () => {
+    expect(extractor.capture({} as any)).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { PageClassifier, PageSnapshot } from '../PageClassifier';
+
+const TIMETABLE_TEXT = 'IELTS timetable Isfahan October 2025 - no exams are scheduled for the selected filters';
+
+const snapshot = (overrides: Partial<PageSnapshot> = {}): PageSnapshot => ({
+  url: 'https://irsafam.org/ielts/timetable?month%5B%5D=10',
+  httpStatus: 200,
+  title: 'IELTS Timetable',
+  text: TIMETABLE_TEXT,
+  appointmentCount: 0,
+  ...overrides
+});
+
+describe('PageClassifier', () => {
+  const classifier = new PageClassifier();
+
+  it('should treat an empty timetable as a normal page', () => {
+    expect(classifier.classify(snapshot())).toBeNull();
+  });
+
+  it('should classify access-denied status codes and challenge pages as blocked', () => {
+    expect(classifier.classify(snapshot({ httpStatus: 403, text: 'Access denied' }))).toEqual(expect.objectContaining({
+      kind: 'blocked',
+      httpStatus: 403,
+      reason: 'HTTP 403 response'
+    }));
+
+    const challenge = classifier.classify(snapshot({ title: 'Just a moment...', text: 'Checking your browser before accessing irsafam.org' }));
+    expect(challenge?.kind).toBe('blocked');
+    expect(challenge?.indicators).toContain('cloudflare-challenge');
+  });
+
+  it('should classify maintenance notices in English and Persian', () => {
+    expect(classifier.classify(snapshot({ text: 'The site is down for maintenance. We will be back soon.' }))?.kind).toBe('maintenance');
+    expect(classifier.classify(snapshot({ text: 'سایت در حال بروزرسانی است، لطفا بعدا مراجعه کنید' }))?.kind).toBe('maintenance');
+    expect(classifier.classify(snapshot({ httpStatus: 503, text: '' }))?.kind).toBe('maintenance');
+  });
+
+  it('should classify server errors and blank pages as errors', () => {
+    expect(classifier.classify(snapshot({ httpStatus: 500, text: 'Whoops' }))?.reason).toBe('HTTP 500 response');
+    expect(classifier.classify(snapshot({ text: '502 Bad Gateway' }))?.kind).toBe('error');
+    expect(classifier.classify(snapshot({ text: '   ' }))?.kind).toBe('error');
+  });
+
+  it('should not classify pages with appointments or unreadable text', () => {
+    expect(classifier.classify(snapshot({ text: 'Access denied', appointmentCount: 3 }))).toBeNull();
+    expect(classifier.classify(snapshot({ text: null }))).toBeNull();
+  });
+});
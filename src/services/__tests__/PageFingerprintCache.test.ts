@@ -0,0 +1,76 @@
+import { FINGERPRINT_SCRIPT, PageFingerprintCache } from '../PageFingerprintCache';
+import { StaticHtmlPage } from '../StaticHtmlPage';
+import { CheckResult } from '../../models/types';
+
+const URL = 'https://irsafam.org/ielts/timetable?month%5B%5D=10';
+
+const checkResult = (overrides: Partial<CheckResult> = {}): CheckResult => ({
+  type: 'available',
+  appointmentCount: 1,
+  availableCount: 1,
+  filledCount: 0,
+  timestamp: new Date('2025-10-01T08:00:00Z'),
+  url: URL,
+  appointments: [{ id: 'slot-1', date: '2025-10-27', time: '09:00-12:00', location: 'Isfahan', examType: 'CDIELTS', city: 'Isfahan', status: 'available' }],
+  layoutObservations: [{ url: URL, matchedSelector: 'a.exam__item.ielts', matchedStrategy: 'IELTS-specific', elementCount: 1, confidenceScores: [0.95] }],
+  ...overrides
+});
+
+describe('PageFingerprintCache', () => {
+  const now = new Date('2025-10-01T08:00:00Z').getTime();
+
+  it('should ignore whitespace and comments but not content changes', () => {
+    const base = PageFingerprintCache.fingerprint('<div class="exam">\n  <a>27 Oct</a>\n</div>');
+
+    expect(PageFingerprintCache.fingerprint('<div class="exam"><a>27 Oct</a><!-- rendered 08:00 --></div>')).toBe(base);
+    expect(PageFingerprintCache.fingerprint('<div class="exam"><a>28 Oct</a></div>')).not.toBe(base);
+    expect(PageFingerprintCache.fingerprint('<div class="exam"><a>27 Oct</a></div>', 'rules-v2')).not.toBe(base);
+  });
+
+  it('should count a change in any group of appointments, not just the first', async () => {
+    const timetable = (secondGroup: string) => `<html><body><main>
+      <section class="day"><h3>27 Oct</h3><a class="exam__item ielts"><span class="btn disable">تکمیل ظرفیت</span></a></section>
+      <section class="day"><h3>28 Oct</h3>${secondGroup}</section>
+    </main><script>window.csrf = "${Math.random()}";</script></body></html>`;
+    const fingerprint = async (html: string) =>
+      PageFingerprintCache.fingerprint(await new StaticHtmlPage(html).evaluate(FINGERPRINT_SCRIPT) as string);
+
+    const filled = '<a class="exam__item ielts"><span class="btn disable">تکمیل ظرفیت</span></a>';
+    const reopened = '<a class="exam__item ielts"><span class="btn register">قابل ثبت نام</span></a>';
+    const base = await fingerprint(timetable(filled));
+
+    expect(await fingerprint(timetable(filled))).toBe(base);
+    expect(await fingerprint(timetable(reopened))).not.toBe(base);
+    expect(await fingerprint(timetable(filled + reopened))).not.toBe(base);
+  });
+
+  it('should reuse the last result of an unchanged page without re-reporting its layout', () => {
+    const cache = new PageFingerprintCache();
+    cache.store(URL, 'abc', checkResult(), now);
+
+    const reused = cache.lookup(URL, 'abc', now + 60000);
+    expect(reused).toEqual(expect.objectContaining({ unchanged: true, availableCount: 1, timestamp: new Date(now + 60000) }));
+    expect(reused!.layoutObservations).toBeUndefined();
+    expect(cache.lookup(URL, 'def', now + 60000)).toBeNull();
+    expect(cache.lookup('https://irsafam.org/ielts/timetable?month%5B%5D=11', 'abc', now)).toBeNull();
+  });
+
+  it('should parse pages again after the maximum age', () => {
+    const cache = new PageFingerprintCache({ maxAgeMs: 60000 });
+    cache.store(URL, 'abc', checkResult(), now);
+
+    expect(cache.lookup(URL, 'abc', now + 59999)).not.toBeNull();
+    expect(cache.lookup(URL, 'abc', now + 60000)).toBeNull();
+  });
+
+  it('should never reuse blocked, maintenance or error pages', () => {
+    const cache = new PageFingerprintCache();
+    cache.store(URL, 'abc', checkResult(), now);
+    cache.store(URL, 'abc', checkResult({
+      type: 'maintenance',
+      pageIssues: [{ kind: 'maintenance', url: URL, httpStatus: 503, reason: 'Maintenance notice', indicators: [], pageTitle: '', textSample: '' }]
+    }), now);
+
+    expect(cache.lookup(URL, 'abc', now)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { PagePool } from '../PagePool';
+
+const createMockPage = () => ({ close: jest.fn().mockResolvedValue(undefined) }) as any;
+
+describe('PagePool', () => {
+  it('should reuse released pages instead of opening new ones', async () => {
+    const createPage = jest.fn(async () => createMockPage());
+    const pool = new PagePool(createPage, { maxPages: 2 });
+
+    const first = await pool.acquire();
+    await pool.release(first);
+    const second = await pool.acquire();
+
+    expect(second).toBe(first);
+    expect(createPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never open more than maxPages pages at once', async () => {
+    const createPage = jest.fn(async () => createMockPage());
+    const pool = new PagePool(createPage, { maxPages: 2 });
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => pool.withPage(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setImmediate(resolve));
+      active--;
+    })));
+
+    expect(maxActive).toBe(2);
+    expect(createPage).toHaveBeenCalledTimes(2);
+    expect(pool.getStats()).toEqual({ created: 2, inUse: 0, idle: 2, waiting: 0 });
+  });
+
+  it('should close pages whose task failed and open a replacement for waiters', async () => {
+    const pages: any[] = [];
+    const pool = new PagePool(async () => {
+      const page = createMockPage();
+      pages.push(page);
+      return page;
+    }, { maxPages: 1 });
+
+    const failing = pool.withPage(async () => {
+      throw new Error('Target closed');
+    });
+    const waiting = pool.withPage(async page => page);
+
+    await expect(failing).rejects.toThrow('Target closed');
+    const usedPage = await waiting;
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].close).toHaveBeenCalled();
+    expect(usedPage).toBe(pages[1]);
+  });
+
+  it('should hand the slot to a waiter when opening a page fails', async () => {
+    const createPage = jest.fn()
+      .mockRejectedValueOnce(new Error('Browser not initialized'))
+      .mockImplementation(async () => createMockPage());
+    const pool = new PagePool(createPage, { maxPages: 1 });
+
+    const failing = pool.acquire();
+    const waiting = pool.acquire();
+
+    await expect(failing).rejects.toThrow('Browser not initialized');
+    await expect(waiting).resolves.toBeDefined();
+    expect(createPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close idle pages when drained', async () => {
+    const page = createMockPage();
+    const pool = new PagePool(async () => page);
+
+    await pool.withPage(async () => undefined);
+    await pool.drain();
+
+    expect(page.close).toHaveBeenCalledTimes(1);
+    expect(pool.getStats().idle).toBe(0);
+  });
+});
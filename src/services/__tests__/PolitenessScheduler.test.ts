@@ -0,0 +1,73 @@
+import { PolitenessScheduler } from '../PolitenessScheduler';
+
+describe('PolitenessScheduler', () => {
+  const now = Date.parse('2025-10-20T08:00:00Z');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should honour Retry-After and halve the pace on 429', () => {
+    const scheduler = new PolitenessScheduler({ baseSpacingMs: 2000 });
+
+    scheduler.recordResponse(429, '120', now);
+
+    expect(scheduler.getPausedUntil(now)).toBe(now + 120000);
+    expect(scheduler.getRate(now)).toEqual({
+      level: 1,
+      slowdownFactor: 2,
+      requestSpacingMs: 4000,
+      requestsPerMinute: 15,
+      pausedUntil: new Date(now + 120000),
+      lastSignal: 'HTTP 429 (Retry-After 120s)'
+    });
+    expect(scheduler.getPausedUntil(now + 120000)).toBe(0);
+  });
+
+  it('should back off exponentially with jitter when no Retry-After is sent', () => {
+    const scheduler = new PolitenessScheduler({ initialBackoffMs: 10000, maxBackoffMs: 30000, jitterRatio: 0.5, maxLevel: 3 });
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    scheduler.recordResponse(503, null, now);
+    expect(scheduler.getPausedUntil(now)).toBe(now + 15000);
+
+    scheduler.recordResponse(503, null, now);
+    expect(scheduler.getPausedUntil(now)).toBe(now + 30000);
+
+    scheduler.recordResponse(503, null, now);
+    scheduler.recordResponse(503, null, now);
+    expect(scheduler.getPausedUntil(now)).toBe(now + 45000);
+    expect(scheduler.getSlowdownFactor()).toBe(8);
+  });
+
+  it('should recover one level per streak of healthy responses', () => {
+    const scheduler = new PolitenessScheduler({ recoveryResponses: 2 });
+    scheduler.recordResponse(429, '1', now);
+    scheduler.recordResponse(429, '1', now);
+
+    scheduler.recordResponse(200, null, now);
+    scheduler.recordResponse(404, null, now);
+    expect(scheduler.getSlowdownFactor()).toBe(4);
+
+    scheduler.recordResponse(200, null, now);
+    expect(scheduler.getSlowdownFactor()).toBe(2);
+
+    scheduler.recordResponse(200, null, now);
+    scheduler.recordResponse(null, null, now);
+    scheduler.recordResponse(200, null, now);
+    expect(scheduler.getSlowdownFactor()).toBe(1);
+  });
+
+  it('should parse Retry-After given as seconds or an HTTP date', () => {
+    expect(PolitenessScheduler.parseRetryAfter('30', now)).toBe(30000);
+    expect(PolitenessScheduler.parseRetryAfter('Mon, 20 Oct 2025 08:05:00 GMT', now)).toBe(300000);
+    expect(PolitenessScheduler.parseRetryAfter('Mon, 20 Oct 2025 07:00:00 GMT', now)).toBe(0);
+    expect(PolitenessScheduler.parseRetryAfter('soon', now)).toBeNull();
+    expect(PolitenessScheduler.parseRetryAfter(undefined, now)).toBeNull();
+  });
+});
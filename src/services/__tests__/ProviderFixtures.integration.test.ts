@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebScraperService, ScrapingFilters } from '../WebScraperService';
+import { HtmlFixtureSource } from '../ScrapeSource';
+import { listProviders } from '../providers';
+import { ReviewQueueService, ReviewLabel } from '../ReviewQueueService';
+
+interface FixtureExpectation {
+  appointmentCount: number;
+  availableCount: number;
+  filledCount: number;
+  cities?: string[];
+}
+
+const filters: ScrapingFilters = { city: [], examModel: [], months: [] };
+
+describe('Provider fixtures', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  // Every provider ships saved timetable pages with the results they must produce
+  describe.each(listProviders().map(provider => [provider.id, provider] as const))('%s', (_id, provider) => {
+    it('should reproduce the expected results for each saved page', async () => {
+      const expectations: Record<string, FixtureExpectation> = JSON.parse(
+        await fs.readFile(path.join(provider.fixturesDirectory, 'expected.json'), 'utf-8')
+      );
+      const scraper = new WebScraperService(undefined, { backend: 'http', provider: provider.id });
+
+      for (const [fixture, expected] of Object.entries(expectations)) {
+        const result = await scraper.fetchAppointmentsWithStatus(
+          filters,
+          new HtmlFixtureSource(path.join(provider.fixturesDirectory, fixture))
+        );
+
+        expect({
+          fixture,
+          appointmentCount: result.appointmentCount,
+          availableCount: result.availableCount,
+          filledCount: result.filledCount
+        }).toEqual({
+          fixture,
+          appointmentCount: expected.appointmentCount,
+          availableCount: expected.availableCount,
+          filledCount: expected.filledCount
+        });
+        if (expected.cities) {
+          expect(result.appointments.map(appointment => appointment.city)).toEqual(expected.cities);
+        }
+        expect(result.appointments.every(appointment => appointment.providerId === provider.id)).toBe(true);
+      }
+    });
+
+    // Slots labeled through "ielts-monitor review" must keep their labeled status
+    it('should detect the labeled status of each slot in the review corpus', async () => {
+      const scraper = new WebScraperService(undefined, { backend: 'http', provider: provider.id });
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'review-corpus-'));
+
+      try {
+        // Take one slot of the saved pages through the review queue, as an operator would,
+        // so the replay also covers a slot labeled by ReviewQueueService
+        const reviewQueue = new ReviewQueueService({
+          queueFile: path.join(tempDir, 'review-queue.json'),
+          corpusFile: path.join(tempDir, 'review-corpus.json')
+        });
+        const strictScraper = new WebScraperService(undefined, { backend: 'http', provider: provider.id, reviewConfidenceThreshold: 1 });
+        const fixtures = (await fs.readdir(provider.fixturesDirectory)).filter(file => file.endsWith('.html'));
+        for (const fixture of fixtures) {
+          const result = await strictScraper.fetchAppointmentsWithStatus(
+            filters,
+            new HtmlFixtureSource(path.join(provider.fixturesDirectory, fixture))
+          );
+          await reviewQueue.enqueue(result.lowConfidenceSlots || []);
+        }
+        const queued = (await reviewQueue.list()).find(entry => entry.detectedStatus !== 'unknown');
+        expect(queued).toBeDefined();
+        await reviewQueue.label(queued!.id, queued!.detectedStatus as ReviewLabel);
+
+        const corpus = [
+          ...await new ReviewQueueService().loadCorpus(provider.id),
+          ...await reviewQueue.loadCorpus(provider.id)
+        ];
+        for (const slot of corpus) {
+          const file = path.join(tempDir, `${slot.id}.html`);
+          await fs.writeFile(file, `<html><body><div class="exam">${slot.rawHtml}</div></body></html>`, 'utf-8');
+
+          const result = await scraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(file));
+          expect({ id: slot.id, status: result.appointments[0]?.status }).toEqual({ id: slot.id, status: slot.label });
+        }
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { EventEmitter } from 'events';
+import { ReadinessMarkers, ResourcePolicy, createReadinessScript } from '../ResourcePolicy';
+import { DEFAULT_DETECTION_RULES } from '../DetectionRuleService';
+import { StaticHtmlPage } from '../StaticHtmlPage';
+
+const SITE_URL = 'https://irsafam.org/ielts/timetable?month%5B%5D=10';
+const MARKERS: ReadinessMarkers = { selectors: ['a.exam__item', '.exam__item'], noSlotsIndicators: DEFAULT_DETECTION_RULES.noSlotsIndicators };
+
+const createRequest = (url: string, resourceType: string, mainDocument: boolean = false) => ({
+  url: () => url,
+  resourceType: () => resourceType,
+  isNavigationRequest: () => mainDocument,
+  frame: () => (mainDocument ? 'main-frame' : 'sub-frame'),
+  abort: jest.fn().mockResolvedValue(undefined),
+  continue: jest.fn().mockResolvedValue(undefined)
+});
+
+describe('ResourcePolicy', () => {
+  it('should block unneeded resource types and third-party hosts', () => {
+    const policy = new ResourcePolicy({ allowHosts: ['cdn.jsdelivr.net'] });
+
+    expect(policy.shouldBlock('https://irsafam.org/images/logo.png', 'image', SITE_URL)).toBe(true);
+    expect(policy.shouldBlock('https://irsafam.org/fonts/vazir.woff2', 'font', SITE_URL)).toBe(true);
+    expect(policy.shouldBlock('https://www.googletagmanager.com/gtag/js', 'script', SITE_URL)).toBe(true);
+
+    expect(policy.shouldBlock('https://irsafam.org/js/app.js', 'script', SITE_URL)).toBe(false);
+    expect(policy.shouldBlock('https://static.irsafam.org/css/site.css', 'stylesheet', SITE_URL)).toBe(false);
+    expect(policy.shouldBlock('https://irsafam.org/api/exams?month=10', 'xhr', SITE_URL)).toBe(false);
+    expect(policy.shouldBlock('https://cdn.jsdelivr.net/npm/jquery.min.js', 'script', SITE_URL)).toBe(false);
+  });
+
+  it('should load everything third-party when only types are blocked', () => {
+    const policy = new ResourcePolicy({ blockThirdParty: false, blockResourceTypes: ['image'] });
+
+    expect(policy.shouldBlock('https://www.google-analytics.com/analytics.js', 'script', SITE_URL)).toBe(false);
+    expect(policy.shouldBlock('https://cdn.example.com/banner.jpg', 'image', SITE_URL)).toBe(true);
+  });
+
+  it('should intercept one load, count requests and always load the timetable document', async () => {
+    const page: any = new EventEmitter();
+    page.setRequestInterception = jest.fn().mockResolvedValue(undefined);
+    page.mainFrame = () => 'main-frame';
+    const policy = new ResourcePolicy();
+
+    const blocking = await policy.apply(page, SITE_URL);
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+
+    const documentRequest = createRequest(SITE_URL, 'document', true);
+    const imageRequest = createRequest('https://irsafam.org/images/logo.png', 'image');
+    const analyticsRequest = createRequest('https://www.google-analytics.com/analytics.js', 'script');
+    [documentRequest, imageRequest, analyticsRequest].forEach(request => page.emit('request', request));
+
+    expect(documentRequest.continue).toHaveBeenCalled();
+    expect(imageRequest.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(analyticsRequest.abort).toHaveBeenCalled();
+
+    expect(await blocking!.stop()).toEqual({ allowed: 1, blocked: 2 });
+    expect(page.setRequestInterception).toHaveBeenLastCalledWith(false);
+    expect(page.listenerCount('request')).toBe(0);
+  });
+
+  it('should report whether appointments or the empty-state marker are on the page', async () => {
+    const script = createReadinessScript(MARKERS);
+    const withAppointments = new StaticHtmlPage('<html><body><div class="exams"><a class="exam__item ielts" href="#">27 Oct</a></div></body></html>');
+    const empty = new StaticHtmlPage('<html><body><p>هیچ آزمونی پیدا نشد</p></body></html>');
+    const loading = new StaticHtmlPage('<html><body><div class="spinner"></div></body></html>');
+
+    expect(await withAppointments.evaluate(script)).toBe('appointments');
+    expect(await empty.evaluate(script)).toBe('empty-state');
+    expect(await loading.evaluate(script)).toBe(false);
+  });
+
+  it('should recognise every empty-state text of the rule set', async () => {
+    const script = createReadinessScript(MARKERS);
+
+    for (const text of ['موردی یافت نشد', 'No appointments found for this month', 'Page Not Found']) {
+      expect(await new StaticHtmlPage(`<html><body><p>${text}</p></body></html>`).evaluate(script)).toBe('empty-state');
+    }
+    expect(await new StaticHtmlPage('<html><body><p>بدون آزمون</p></body></html>')
+      .evaluate(createReadinessScript({ ...MARKERS, noSlotsIndicators: { text: ['بدون آزمون'], textIgnoreCase: [] } }))).toBe('empty-state');
+  });
+
+  it('should fall back to parsing after the readiness timeout', async () => {
+    const page: any = { waitForFunction: jest.fn().mockRejectedValue(new Error('Waiting failed: 10000ms exceeded')) };
+
+    expect(await new ResourcePolicy().waitUntilReady(page, MARKERS)).toBe('timeout');
+    expect(await new ResourcePolicy({ readiness: 'network-idle' }).waitUntilReady(page, MARKERS)).toBe('network-idle');
+    expect(new ResourcePolicy({ readiness: 'network-idle' }).getNavigationWaitUntil()).toBe('networkidle2');
+  });
+});
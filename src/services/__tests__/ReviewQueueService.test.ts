@@ -0,0 +1,109 @@
+import { ReviewQueueService } from '../ReviewQueueService';
+import { LowConfidenceSlot } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const slot = (overrides: Partial<LowConfidenceSlot> = {}, appointmentId: string = 'irsafam-2025-10-27-0900'): LowConfidenceSlot => ({
+  appointment: {
+    id: appointmentId,
+    providerId: 'irsafam',
+    date: '2025-10-27',
+    time: '09:00-12:00',
+    location: 'Isfahan Safir Office',
+    examType: 'CDIELTS',
+    city: 'Isfahan',
+    status: 'unknown'
+  },
+  url: 'https://irsafam.org/ielts/timetable?month%5B%5D=10',
+  confidence: 0.3,
+  fallbackUsed: true,
+  indicators: ['no-status-text'],
+  reasoning: 'No explicit status indicators found',
+  ruleId: undefined,
+  rawHtml: '<a class="exam__item ielts" href="#"><span class="btn">?</span></a>',
+  ...overrides
+});
+
+describe('ReviewQueueService', () => {
+  let tempDir: string;
+  let queue: ReviewQueueService;
+
+  const now = new Date('2025-10-01T08:00:00Z');
+  const later = new Date('2025-10-01T09:00:00Z');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'review-queue-'));
+    queue = new ReviewQueueService({
+      queueFile: path.join(tempDir, 'review-queue.json'),
+      corpusFile: path.join(tempDir, 'review-corpus.json'),
+      maxEntries: 2
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should queue a slot once and count repeat sightings', async () => {
+    expect(await queue.enqueue([slot()], now)).toBe(1);
+    expect(await queue.enqueue([slot({ confidence: 0.2 })], later)).toBe(0);
+
+    const entries = await queue.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toEqual(expect.objectContaining({
+      providerId: 'irsafam',
+      detectedStatus: 'unknown',
+      confidence: 0.2,
+      occurrences: 2,
+      firstSeenAt: now.toISOString(),
+      lastSeenAt: later.toISOString()
+    }));
+  });
+
+  it('should review a slot again when its markup changes', async () => {
+    await queue.enqueue([slot()], now);
+    await queue.enqueue([slot({ rawHtml: '<a class="exam__item ielts" href="#"><span class="btn">??</span></a>' })], later);
+
+    expect(await queue.list()).toHaveLength(2);
+  });
+
+  it('should keep only the most recently seen entries', async () => {
+    await queue.enqueue([slot({}, 'a')], now);
+    await queue.enqueue([slot({}, 'b'), slot({}, 'c')], later);
+
+    expect((await queue.list()).map(entry => entry.appointment.id)).toEqual(['b', 'c']);
+  });
+
+  it('should move labeled slots to the corpus, replacing earlier labels', async () => {
+    await queue.enqueue([slot()], now);
+    const [entry] = await queue.list();
+
+    const labeled = await queue.label(entry.id, 'filled', later);
+    expect(labeled).toEqual(expect.objectContaining({ id: entry.id, label: 'filled', detectedStatus: 'unknown', rawHtml: entry.rawHtml }));
+    expect(await queue.list()).toEqual([]);
+
+    // The same card comes back and is labeled differently
+    await queue.enqueue([slot()], later);
+    await queue.label(entry.id, 'available', later);
+
+    const corpus = await queue.loadCorpus();
+    expect(corpus).toHaveLength(1);
+    expect(corpus[0].label).toBe('available');
+  });
+
+  it('should reject unknown entries and labels', async () => {
+    await queue.enqueue([slot()], now);
+    const [entry] = await queue.list();
+
+    await expect(queue.label('review-missing', 'available')).rejects.toThrow('No review entry with ID review-missing');
+    await expect(queue.label(entry.id, 'unknown' as any)).rejects.toThrow('Invalid label "unknown"');
+    expect(await queue.discard('review-missing')).toBe(false);
+    expect(await queue.discard(entry.id)).toBe(true);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('should save labels next to the provider fixtures by default', () => {
+    expect(new ReviewQueueService().getCorpusFile('irsafam')).toBe(path.join('fixtures', 'irsafam', 'review-corpus.json'));
+  });
+});
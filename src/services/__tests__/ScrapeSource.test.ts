@@ -0,0 +1,71 @@
+import { HtmlFixtureSource, LiveScrapeSource } from '../ScrapeSource';
+import { ScrapingFilters } from '../WebScraperService';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+describe('ScrapeSource', () => {
+  const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11] };
+
+  describe('LiveScrapeSource', () => {
+    it('should create one labelled target per request URL', async () => {
+      const source = new LiveScrapeSource('https://irsafam.org/ielts/timetable', f =>
+        f.months.map(month => `https://irsafam.org/ielts/timetable?month%5B%5D=${month}`)
+      );
+
+      const targets = await source.resolveTargets(filters);
+
+      expect(source.kind).toBe('live');
+      expect(targets).toEqual([
+        { url: 'https://irsafam.org/ielts/timetable?month%5B%5D=10', label: 'October' },
+        { url: 'https://irsafam.org/ielts/timetable?month%5B%5D=11', label: 'November' }
+      ]);
+    });
+  });
+
+  describe('HtmlFixtureSource', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'html-fixtures-'));
+      await fs.writeFile(path.join(tempDir, 'b-november.html'), '<html><body></body></html>');
+      await fs.writeFile(path.join(tempDir, 'a-october.htm'), '<html><body></body></html>');
+      await fs.writeFile(path.join(tempDir, 'notes.txt'), 'not a fixture');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve a single HTML file', async () => {
+      const filePath = path.join(tempDir, 'b-november.html');
+      const targets = await new HtmlFixtureSource(filePath).resolveTargets(filters);
+
+      expect(targets).toEqual([{ url: pathToFileURL(filePath).href, label: 'b-november.html', filePath }]);
+    });
+
+    it('should resolve every HTML file in a directory in name order', async () => {
+      const targets = await new HtmlFixtureSource(tempDir).resolveTargets(filters);
+
+      expect(targets.map(t => t.label)).toEqual(['a-october.htm', 'b-november.html']);
+    });
+
+    it('should accept file:// URLs', async () => {
+      const source = new HtmlFixtureSource(pathToFileURL(tempDir).href);
+
+      expect(source.describe()).toBe(tempDir);
+      expect(await source.resolveTargets(filters)).toHaveLength(2);
+    });
+
+    it('should reject missing paths and directories without HTML files', async () => {
+      const emptyDir = path.join(tempDir, 'empty');
+      await fs.mkdir(emptyDir);
+
+      await expect(new HtmlFixtureSource(path.join(tempDir, 'missing.html')).resolveTargets(filters))
+        .rejects.toThrow('HTML fixture not found');
+      await expect(new HtmlFixtureSource(emptyDir).resolveTargets(filters))
+        .rejects.toThrow('No .html files found');
+    });
+  });
+});
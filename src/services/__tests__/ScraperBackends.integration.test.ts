@@ -0,0 +1,132 @@
+import { WebScraperService, ScrapingFilters } from '../WebScraperService';
+import { HtmlFixtureSource } from '../ScrapeSource';
+import { CheckResult } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const appointmentItem = (day: string, time: string, location: string, button: string, disabled: boolean) => `
+  <a class="exam__item ielts${disabled ? ' disabled' : ''}" href="#">
+    <time><date><span>${day}</span><span>2025</span></date></time>
+    <em>${time}</em>
+    <h5>${location}</h5>
+    <span class="exam_type">CDIELTS - Academic</span>
+    <h6>291,000,000 ریال</h6>
+    ${button}
+  </a>`;
+
+const TIMETABLE_HTML = `<!DOCTYPE html>
+<html lang="fa" dir="rtl">
+<head><meta charset="UTF-8"><title>IELTS Timetable</title></head>
+<body>
+  <div class="exam">
+    ${appointmentItem('27 Oct', 'صبح (09:00 - 12:00)', 'Isfahan Safir Office', '<span class="btn register">قابل ثبت نام</span>', false)}
+    ${appointmentItem('28 Oct', 'ظهر (13:30 - 16:30)', 'Isfahan Safir Office', '<span class="btn disable">تکمیل ظرفیت</span>', true)}
+    ${appointmentItem('03 Nov', 'صبح (09:00 - 12:00)', 'Tehran Center', '<span class="btn disable">تکمیل ظرفیت</span>', true)}
+  </div>
+</body>
+</html>`;
+
+const comparable = (result: CheckResult) => ({
+  type: result.type,
+  appointmentCount: result.appointmentCount,
+  availableCount: result.availableCount,
+  filledCount: result.filledCount,
+  url: result.url,
+  appointments: result.appointments.map(({ id, date, time, location, examType, status }) => ({ id, date, time, location, examType, status }))
+});
+
+describe('Scraper backends', () => {
+  const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10] };
+  let tempDir: string;
+  let fixtureFile: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scraper-backends-'));
+    fixtureFile = path.join(tempDir, 'timetable.html');
+    await fs.writeFile(fixtureFile, TIMETABLE_HTML);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should detect statuses with the HTTP backend without launching a browser', async () => {
+    const scraper = new WebScraperService(undefined, { backend: 'http' });
+
+    const result = await scraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(fixtureFile));
+
+    expect(result.appointmentCount).toBe(3);
+    expect(result.availableCount).toBe(1);
+    expect(result.filledCount).toBe(2);
+    expect(result.type).toBe('available');
+    expect(result.appointments.every(appointment => appointment.id.startsWith('slot-'))).toBe(true);
+    expect(result.appointments[0]).toEqual(expect.objectContaining({
+      module: 'academic',
+      testFormat: 'computer',
+      price: 291000000,
+      priceCurrency: 'IRR'
+    }));
+  });
+
+  it('should drop slots that do not match the attribute filters', async () => {
+    const scraper = new WebScraperService(undefined, { backend: 'http' });
+
+    const result = await scraper.fetchAppointmentsWithStatus(
+      { ...filters, attributes: { modules: ['general-training'] } },
+      new HtmlFixtureSource(fixtureFile)
+    );
+
+    expect(result.type).toBe('no-slots');
+    expect(result.appointmentCount).toBe(0);
+  });
+
+  it('should report a maintenance page instead of "no slots"', async () => {
+    const maintenanceFile = path.join(tempDir, 'maintenance.html');
+    await fs.writeFile(maintenanceFile, '<html><head><title>irsafam.org</title></head><body><h1>سایت در حال بروزرسانی است</h1><p>We will be back soon.</p></body></html>');
+    const scraper = new WebScraperService(undefined, { backend: 'http' });
+
+    const result = await scraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(maintenanceFile));
+
+    expect(result.type).toBe('maintenance');
+    expect(result.appointmentCount).toBe(0);
+    expect(result.pageIssues).toEqual([expect.objectContaining({ kind: 'maintenance', httpStatus: null })]);
+  });
+
+  it('should flag the layout observation of an empty-state page', async () => {
+    const emptyFile = path.join(tempDir, 'empty.html');
+    await fs.writeFile(emptyFile, '<html><head><title>IELTS Timetable</title></head><body><h1>IELTS exam timetable - Isfahan</h1><div class="exam"><p>هیچ آزمونی پیدا نشد</p></div></body></html>');
+    const scraper = new WebScraperService(undefined, { backend: 'http' });
+
+    const result = await scraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(emptyFile));
+
+    expect(result.type).toBe('no-slots');
+    expect(result.layoutObservations).toEqual([expect.objectContaining({ matchedSelector: null, emptyState: true })]);
+  });
+
+  it('should produce the same check result as the Puppeteer backend', async () => {
+    const browserCheck = await WebScraperService.checkBrowserAvailability();
+    if (!browserCheck.available) {
+      // console.warn is silenced above; the skip must still show up in the test output
+      console.info(`⏭️  Skipped Puppeteer cross-check: ${browserCheck.error}`);
+      return;
+    }
+
+    const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+    const puppeteerScraper = new WebScraperService(undefined, { backend: 'puppeteer' });
+
+    try {
+      const httpResult = await httpScraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(fixtureFile));
+      const puppeteerResult = await puppeteerScraper.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(fixtureFile));
+
+      expect(comparable(httpResult)).toEqual(comparable(puppeteerResult));
+    } finally {
+      await puppeteerScraper.close();
+    }
+  });
+});
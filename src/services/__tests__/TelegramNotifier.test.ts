@@ -1,5 +1,5 @@
 import { TelegramNotifier } from '../TelegramNotifier';
-import { TelegramConfig, Appointment } from '../../models/types';
+import { TelegramConfig, Appointment, AdminAlert } from '../../models/types';
 
 // Mock node-telegram-bot-api
 jest.mock('node-telegram-bot-api');
@@ -143,7 +143,7 @@ describe('TelegramNotifier', () => {
       await telegramNotifier.sendNotification([mockAppointments[0]]);
       
       const sentMessage = mockBot.sendMessage.mock.calls[0][1];
-      expect(sentMessage).toContain('📅 <b>Date:</b> 2024-01-15');
+      expect(sentMessage).toContain('📅 <b>Date:</b> 2024-01-15 (۲۵ دی ۱۴۰۲)');
       expect(sentMessage).toContain('🕐 <b>Time:</b> 09:00-12:00');
       expect(sentMessage).toContain('📍 <b>Location:</b> Test Center');
       expect(sentMessage).toContain('📝 <b>Exam Type:</b> Academic');
@@ -157,7 +157,7 @@ describe('TelegramNotifier', () => {
       await simpleNotifier.sendNotification([mockAppointments[0]]);
       
       const sentMessage = mockBot.sendMessage.mock.calls[0][1];
-      expect(sentMessage).toContain('📅 2024-01-15 at 09:00-12:00 - Test Center');
+      expect(sentMessage).toContain('📅 2024-01-15 (۲۵ دی ۱۴۰۲) at 09:00-12:00 - Test Center');
       expect(sentMessage).not.toContain('<b>Date:</b>');
     });
 
@@ -266,4 +266,33 @@ describe('TelegramNotifier', () => {
       expect(sentMessage).not.toContain('Join this channel');
     });
   });
+
+  describe('admin alerts', () => {
+    const alert: AdminAlert = {
+      kind: 'layout-drift',
+      title: 'Site layout change suspected',
+      message: 'The timetable layout looks different for 2 consecutive checks.',
+      details: ['Selector "a.exam__item.ielts" found zero elements on 3 page(s)', 'Confidence <0.5'],
+      timestamp: new Date('2025-10-27T08:00:00Z')
+    };
+
+    it('should send admin alerts to the admin chat with escaped details', async () => {
+      const adminNotifier = new TelegramNotifier({ ...mockConfig, adminChatId: '123456789' });
+
+      const result = await adminNotifier.sendAdminAlert(alert);
+
+      expect(result).toBe(true);
+      expect(mockBot.sendMessage).toHaveBeenCalledWith('123456789', expect.any(String), expect.objectContaining({ parse_mode: 'HTML' }));
+      const sentMessage = mockBot.sendMessage.mock.calls[0][1];
+      expect(sentMessage).toContain('Admin alert: Site layout change suspected');
+      expect(sentMessage).toContain('a.exam__item.ielts');
+      expect(sentMessage).toContain('Confidence &lt;0.5');
+    });
+
+    it('should fall back to the notification chat without an admin chat', async () => {
+      await telegramNotifier.sendAdminAlert(alert);
+
+      expect(mockBot.sendMessage).toHaveBeenCalledWith('@test_channel', expect.any(String), expect.any(Object));
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { WatchProfileService, filterCheckResult } from '../WatchProfileService';
+import { NotificationService } from '../NotificationService';
+import { Appointment, CheckResult, MonitorConfig, WatchProfile } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const appointment = (id: string, city: string, date: string, time: string, status: Appointment['status'] = 'available'): Appointment => ({
+  id,
+  date,
+  time,
+  location: `${city} Office`,
+  examType: 'CDIELTS',
+  city,
+  status
+});
+
+const checkResult = (appointments: Appointment[], overrides: Partial<CheckResult> = {}): CheckResult => ({
+  type: 'available',
+  appointmentCount: appointments.length,
+  availableCount: appointments.filter(apt => apt.status === 'available').length,
+  filledCount: appointments.filter(apt => apt.status === 'filled').length,
+  timestamp: new Date(),
+  url: 'https://irsafam.org/ielts/timetable',
+  appointments,
+  ...overrides
+});
+
+describe('WatchProfileService', () => {
+  let tempDir: string;
+  let notifiers: Map<string, { sendNotification: jest.Mock; isTelegramConfigured: jest.Mock }>;
+
+  const isfahanMorning = appointment('isf-1', 'Isfahan', '2026-11-12', '09:00-12:00');
+  const tehranMorning = appointment('teh-1', 'Tehran', '2026-11-12', '09:00-12:00');
+  const tehranAfternoon = appointment('teh-2', 'Tehran', '2026-11-13', '14:00-17:00');
+  const tehranFilled = appointment('teh-3', 'Tehran', '2026-12-03', '09:00-12:00', 'filled');
+
+  const profiles: WatchProfile[] = [
+    { name: 'sara', city: ['tehran'], examModel: ['cdielts'], months: [11, 12], dateFilters: { timeWindows: [{ start: '08:00', end: '12:00' }] }, telegramChatId: '111' },
+    { name: 'reza', city: ['tehran', 'isfahan'], examModel: ['cdielts'], months: [11], notificationSettings: { desktop: false } },
+    { name: 'paused', city: ['tehran'], examModel: ['cdielts'], months: [11], enabled: false }
+  ];
+
+  const monitorConfig: MonitorConfig = {
+    city: ['isfahan'],
+    examModel: ['cdielts'],
+    months: [11],
+    checkInterval: 30000,
+    notificationSettings: { desktop: true, audio: true, logFile: true, telegram: false },
+    profiles
+  };
+
+  const createService = () => new WatchProfileService(
+    monitorConfig,
+    { dataDirectory: path.join(tempDir, 'data'), logDirectory: path.join(tempDir, 'logs') },
+    profile => {
+      const notifier = {
+        sendNotification: jest.fn(async (appointments: Appointment[]) => ({
+          timestamp: new Date(),
+          appointmentCount: appointments.length,
+          appointments,
+          channels: ['log'],
+          deliveryStatus: 'success'
+        })),
+        isTelegramConfigured: jest.fn(() => true)
+      };
+      notifiers.set(profile.name, notifier);
+      return notifier as unknown as NotificationService;
+    }
+  );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watch-profiles-'));
+    notifiers = new Map();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should watch only enabled profiles', async () => {
+    const service = createService();
+    await service.initialize();
+
+    expect(service.hasProfiles()).toBe(true);
+    expect(service.getStatuses().map(status => status.name)).toEqual(['sara', 'reza']);
+    expect(notifiers.has('paused')).toBe(false);
+  });
+
+  it('should notify each profile of the new slots matching its own filters and channels', async () => {
+    const service = createService();
+    await service.initialize();
+
+    const outcomes = await service.processCheck(checkResult([isfahanMorning, tehranMorning, tehranAfternoon, tehranFilled]));
+
+    expect(outcomes.map(outcome => [outcome.profile, outcome.notifiedAppointments.map(apt => apt.id)])).toEqual([
+      ['sara', ['teh-1']],
+      ['reza', ['isf-1', 'teh-1', 'teh-2']]
+    ]);
+    expect(notifiers.get('sara')!.sendNotification).toHaveBeenCalledWith(
+      [tehranMorning],
+      { desktop: true, audio: true, logFile: true, telegram: true }
+    );
+    expect(notifiers.get('reza')!.sendNotification.mock.calls[0][1]).toEqual({ desktop: false, audio: true, logFile: true, telegram: false });
+
+    const sara = service.getStatuses().find(status => status.name === 'sara')!;
+    expect(sara).toEqual(expect.objectContaining({ matchingAppointments: 2, availableAppointments: 1, notificationsSent: 1 }));
+  });
+
+  it('should keep duplicate prevention per profile across restarts', async () => {
+    const first = createService();
+    await first.initialize();
+    await first.processCheck(checkResult([tehranMorning]));
+
+    const second = createService();
+    await second.initialize();
+    const outcomes = await second.processCheck(checkResult([tehranMorning]));
+
+    expect(outcomes.every(outcome => outcome.notifiedAppointments.length === 0)).toBe(true);
+    expect(notifiers.get('sara')!.sendNotification).not.toHaveBeenCalled();
+    await expect(fs.access(path.join(tempDir, 'data', 'sara', 'notified-appointments.json'))).resolves.toBeUndefined();
+  });
+
+  it('should hold notifications during quiet hours and send them once they end', async () => {
+    const service = createService();
+    await service.initialize();
+
+    const held = await service.processCheck(checkResult([tehranMorning]), { quietHours: { name: 'night', notifications: 'hold' } });
+    expect(held.map(outcome => outcome.heldNotifications)).toEqual([1, 1]);
+    expect(notifiers.get('sara')!.sendNotification).not.toHaveBeenCalled();
+
+    const released = await service.processCheck(checkResult([tehranMorning], { unchanged: true }));
+    expect(released.map(outcome => outcome.notifiedAppointments.map(apt => apt.id))).toEqual([['teh-1'], ['teh-1']]);
+  });
+
+  it('should send without desktop and audio alerts during downgrading quiet hours', async () => {
+    const service = createService();
+    await service.initialize();
+
+    await service.processCheck(checkResult([tehranMorning]), { quietHours: { name: 'night', notifications: 'downgrade' } });
+
+    expect(notifiers.get('sara')!.sendNotification.mock.calls[0][1]).toEqual(expect.objectContaining({ desktop: false, audio: false, telegram: true }));
+  });
+
+  it('should narrow a check result to one watch and recount it', () => {
+    const narrowed = filterCheckResult(checkResult([isfahanMorning, tehranMorning, tehranFilled]), monitorConfig);
+
+    expect(narrowed.appointments).toEqual([isfahanMorning]);
+    expect(narrowed).toEqual(expect.objectContaining({ appointmentCount: 1, availableCount: 1, filledCount: 0 }));
+  });
+});
@@ -1,5 +1,11 @@
 import { WebScraperService, ScrapingFilters } from '../WebScraperService';
+import { HtmlFixtureSource } from '../ScrapeSource';
+import { FilterOptionDiscovery } from '../FilterOptionDiscovery';
+import { IrsafamProvider } from '../providers';
 import { Appointment } from '../../models/types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock puppeteer
 jest.mock('puppeteer', () => ({
@@ -310,6 +316,266 @@ describe('WebScraperService', () => {
     // Test removed: Random delay functionality is no longer part of the current implementation
   });
 
+  describe('HTML fixture source', () => {
+    it('should run the detection pipeline on saved HTML without navigating', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scraper-fixture-'));
+      const fixtureFile = path.join(tempDir, 'timetable.html');
+      await fs.writeFile(fixtureFile, '<html><body><a class="exam__item ielts">تکمیل ظرفیت</a></body></html>');
+
+      mockPage.setContent = jest.fn();
+      mockPage.evaluate.mockResolvedValue({
+        type: 'filled',
+        appointmentCount: 1,
+        availableCount: 0,
+        filledCount: 1,
+        appointments: [{
+          date: '2025-10-27',
+          time: '09:00-12:00',
+          location: 'Isfahan',
+          examType: 'CDIELTS',
+          city: 'Isfahan',
+          status: 'filled'
+        }],
+        inspectionData: {}
+      });
+
+      try {
+        const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11] };
+        const result = await webScraperService.fetchAppointmentsWithStatus(filters, new HtmlFixtureSource(fixtureFile));
+
+        expect(mockPage.goto).not.toHaveBeenCalled();
+        expect(mockPage.setContent).toHaveBeenCalledWith(
+          expect.stringContaining('تکمیل ظرفیت'),
+          expect.objectContaining({ waitUntil: 'domcontentloaded' })
+        );
+        expect(result.url).toBe(`file://${fixtureFile}`);
+        expect(result.filledCount).toBe(1);
+        expect(result.appointments[0].id).toMatch(/^slot-/);
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('HTTP backend', () => {
+    it('should fetch the timetable over HTTP and parse it without a browser', async () => {
+      const axios = require('axios');
+      const getSpy = jest.spyOn(axios, 'get').mockResolvedValue({
+        data: '<html><head><title>Timetable</title></head><body>' +
+          '<a class="exam__item ielts"><date><span>27 Oct</span><span>2025</span></date><em>09:00 - 12:00</em>' +
+          '<h5>Isfahan Center</h5><span class="btn register">قابل ثبت نام</span></a>' +
+          '</body></html>'
+      });
+      const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10] };
+      const result = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      const puppeteer = require('puppeteer');
+      expect(puppeteer.launch).not.toHaveBeenCalled();
+      expect(getSpy).toHaveBeenCalledWith(
+        'https://irsafam.org/ielts/timetable?city%5B%5D=isfahan&model%5B%5D=cdielts&month%5B%5D=10',
+        expect.objectContaining({ headers: expect.objectContaining({ 'User-Agent': expect.any(String) }) })
+      );
+      expect(httpScraper.getBackend()).toBe('http');
+      expect(result.appointmentCount).toBe(1);
+      expect(result.availableCount).toBe(1);
+      expect(result.appointments[0].id).toMatch(/^slot-/);
+    });
+
+    it('should convert Persian dates and narrow results to configured Jalali months', async () => {
+      const axios = require('axios');
+      const examItem = (farsiDate: string) =>
+        '<a class="exam__item ielts"><em>صبح (۰۹:۰۰ - ۱۲:۰۰)</em><h5>Isfahan Center</h5>' +
+        `<span class="farsi_date">${farsiDate}</span><span class="btn register">قابل ثبت نام</span></a>`;
+      const getSpy = jest.spyOn(axios, 'get').mockImplementation(async (url: any) => ({
+        data: String(url).includes('month%5B%5D=10')
+          ? `<html><body>${examItem('۱۴۰۴/۰۸/۰۵')}${examItem('۱۴۰۴/۰۷/۲۸')}</body></html>`
+          : '<html><body></body></html>'
+      }));
+      const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [8], monthCalendar: 'jalali' };
+      const result = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      const requestedMonths = getSpy.mock.calls.map(call => new URL(String(call[0])).searchParams.get('month[]'));
+      expect(requestedMonths).toEqual(expect.arrayContaining(['10', '11']));
+      expect(result.appointmentCount).toBe(1);
+      expect(result.availableCount).toBe(1);
+      expect(result.appointments[0].date).toBe('2025-10-27');
+    });
+
+    it('should skip parsing and inspection writes while the timetable is unchanged', async () => {
+      const axios = require('axios');
+      const { EnhancedInspectionService } = require('../EnhancedInspectionService');
+      const saveSpy = jest.spyOn(EnhancedInspectionService.prototype, 'saveEnhancedInspectionData').mockResolvedValue('inspection-id');
+      // Cached filter options are fresh, so they need not be read from the page
+      jest.spyOn(FilterOptionDiscovery.prototype, 'needsRefresh').mockResolvedValue(false);
+      const timetable = (button: string, token: string) =>
+        `<html><body><input type="hidden" name="_token" value="${token}"><div class="exam">` +
+        '<a class="exam__item ielts"><date><span>27 Oct</span><span>2025</span></date><em>09:00 - 12:00</em>' +
+        `<h5>Isfahan Center</h5>${button}</a></div></body></html>`;
+      const available = '<span class="btn register">قابل ثبت نام</span>';
+      jest.spyOn(axios, 'get')
+        .mockResolvedValueOnce({ status: 200, data: timetable(available, 'a1') })
+        .mockResolvedValueOnce({ status: 200, data: timetable(available, 'b2') })
+        .mockResolvedValueOnce({ status: 200, data: timetable('<span class="btn disable">تکمیل ظرفیت</span>', 'c3') });
+      const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10] };
+
+      const first = await httpScraper.fetchAppointmentsWithStatus(filters);
+      const second = await httpScraper.fetchAppointmentsWithStatus(filters);
+      const third = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      expect(first.unchanged).toBeUndefined();
+      expect(second.unchanged).toBe(true);
+      expect(second.urlResults![0].unchanged).toBe(true);
+      expect(second.availableCount).toBe(1);
+      expect(second.appointments.map(appointment => appointment.id)).toEqual(first.appointments.map(appointment => appointment.id));
+      expect(third.unchanged).toBeUndefined();
+      expect(third.filledCount).toBe(1);
+      expect(saveSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should parse an unchanged timetable again when the known cities change or filter options are due', async () => {
+      const axios = require('axios');
+      const { EnhancedInspectionService } = require('../EnhancedInspectionService');
+      jest.spyOn(EnhancedInspectionService.prototype, 'saveEnhancedInspectionData').mockResolvedValue('inspection-id');
+      jest.spyOn(axios, 'get').mockResolvedValue({
+        status: 200,
+        data: '<html><body><div class="exam"><a class="exam__item ielts"><date><span>27 Oct</span><span>2025</span></date>' +
+          '<em>09:00 - 12:00</em><h5>Kish Center</h5><span class="btn register">قابل ثبت نام</span></a></div></body></html>'
+      });
+      const builtIn = await new FilterOptionDiscovery(new IrsafamProvider()).getCachedOptions();
+      const withKish = { ...builtIn, cities: [...builtIn.cities, { id: 'kish', label: 'Kish', aliases: ['کیش'] }] };
+      jest.spyOn(FilterOptionDiscovery.prototype, 'getCachedOptions')
+        .mockResolvedValueOnce(builtIn)
+        .mockResolvedValue(withKish);
+      jest.spyOn(FilterOptionDiscovery.prototype, 'needsRefresh')
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValue(false);
+      const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+      const filters: ScrapingFilters = { city: ['kish'], examModel: ['cdielts'], months: [10] };
+
+      const first = await httpScraper.fetchAppointmentsWithStatus(filters);
+      const discovered = await httpScraper.fetchAppointmentsWithStatus(filters);
+      const refreshDue = await httpScraper.fetchAppointmentsWithStatus(filters);
+      const reused = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      expect(first.appointments[0].city).not.toBe('Kish');
+      expect(discovered.unchanged).toBeUndefined();
+      expect(discovered.appointments[0].city).toBe('Kish');
+      expect(refreshDue.unchanged).toBeUndefined();
+      expect(reused.unchanged).toBe(true);
+    });
+  });
+
+  describe('concurrent multi-month scraping', () => {
+    const timetableHtml = (day: string) =>
+      '<html><body><a class="exam__item ielts"><date><span>' + day + '</span><span>2025</span></date>' +
+      '<em>09:00 - 12:00</em><h5>Isfahan Center</h5><span class="btn register">قابل ثبت نام</span></a></body></html>';
+
+    it('should limit how many month requests run at once', async () => {
+      const axios = require('axios');
+      let inFlight = 0;
+      let maxInFlight = 0;
+      jest.spyOn(axios, 'get').mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return { data: timetableHtml('27 Oct') };
+      });
+      const httpScraper = new WebScraperService(undefined, { backend: 'http', concurrency: { maxPages: 2, maxPerHost: 2, hostIntervalMs: 0 } });
+
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11, 12, 1] };
+      const result = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      expect(axios.get).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+      expect(result.appointmentCount).toBe(4);
+    });
+
+    it('should keep a per-URL breakdown and survive a failing month', async () => {
+      const axios = require('axios');
+      jest.spyOn(axios, 'get').mockImplementation(async (url: any) => {
+        if (String(url).includes('month%5B%5D=11')) {
+          throw new Error('Request failed with status code 500');
+        }
+        return { data: timetableHtml('27 Oct') };
+      });
+      const httpScraper = new WebScraperService(undefined, { backend: 'http' });
+
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11] };
+      const result = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      expect(result.availableCount).toBe(1);
+      expect(result.urlResults).toHaveLength(2);
+      expect(result.urlResults![0]).toEqual(expect.objectContaining({ label: 'October', success: true, appointmentCount: 1, attempts: 1 }));
+      expect(result.urlResults![1]).toEqual(expect.objectContaining({
+        label: 'November',
+        success: false,
+        appointmentCount: 0,
+        attempts: 4,
+        error: expect.stringContaining('status code 500')
+      }));
+    });
+
+    it('should stop requesting a month whose circuit is open and mark it stale', async () => {
+      const axios = require('axios');
+      const getSpy = jest.spyOn(axios, 'get').mockImplementation(async (url: any) => {
+        if (String(url).includes('month%5B%5D=11')) {
+          throw new Error('timeout of 30000ms exceeded');
+        }
+        return { data: timetableHtml('27 Oct') };
+      });
+      const httpScraper = new WebScraperService(undefined, { backend: 'http', circuitBreaker: { failureThreshold: 2 } });
+      const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11] };
+      const novemberRequests = () => getSpy.mock.calls.filter(call => String(call[0]).includes('month%5B%5D=11')).length;
+
+      await httpScraper.fetchAppointmentsWithStatus(filters);
+      await httpScraper.fetchAppointmentsWithStatus(filters);
+      expect(novemberRequests()).toBe(8);
+
+      const result = await httpScraper.fetchAppointmentsWithStatus(filters);
+
+      expect(novemberRequests()).toBe(8);
+      expect(result.availableCount).toBe(1);
+      expect(result.urlResults![1]).toEqual(expect.objectContaining({ label: 'November', attempts: 0, stale: true, circuitState: 'open' }));
+      expect(result.staleMonths).toEqual([expect.objectContaining({ label: 'November', circuitState: 'open', lastSuccessAt: null })]);
+      expect(httpScraper.getCircuitBreakerStatuses().map(status => [status.label, status.state])).toEqual(expect.arrayContaining([['October', 'closed'], ['November', 'open']]));
+    });
+
+    it('should reuse pooled browser pages across months and close them afterwards', async () => {
+      const pages: any[] = [];
+      mockBrowser.newPage.mockImplementation(async () => {
+        const page = {
+          ...mockPage,
+          goto: jest.fn(),
+          evaluate: jest.fn().mockResolvedValue({ type: 'no-slots', appointmentCount: 0, availableCount: 0, filledCount: 0, appointments: [], inspectionData: {} }),
+          close: jest.fn()
+        };
+        pages.push(page);
+        return page;
+      });
+      const pooledScraper = new WebScraperService(undefined, { backend: 'puppeteer', concurrency: { maxPages: 2, hostIntervalMs: 0 } });
+
+      try {
+        const filters: ScrapingFilters = { city: ['isfahan'], examModel: ['cdielts'], months: [10, 11, 12, 1, 2] };
+        const result = await pooledScraper.fetchAppointmentsWithStatus(filters);
+
+        expect(pages.length).toBeLessThanOrEqual(2);
+        expect(pages.reduce((total, page) => total + page.goto.mock.calls.length, 0)).toBe(5);
+        expect(pages.every(page => page.close.mock.calls.length === 1)).toBe(true);
+        expect(result.urlResults!.every(urlResult => urlResult.success)).toBe(true);
+      } finally {
+        await pooledScraper.close();
+      }
+    });
+  });
+
   describe('error handling', () => {
     it('should handle page navigation timeout', async () => {
       mockPage.goto.mockRejectedValue(new Error('Navigation timeout'));
@@ -8,9 +8,51 @@ export { ErrorHandlerService, ErrorType, ErrorSeverity } from './ErrorHandlerSer
 export { DataInspectionService } from './DataInspectionService';
 export { TelegramNotifier } from './TelegramNotifier';
 export { EnvironmentConfigManager } from './EnvironmentConfigManager';
-export type { ScrapingFilters, RetryConfig } from './WebScraperService';
+export { DetectionRuleService, DEFAULT_DETECTION_RULES } from './DetectionRuleService';
+export { LiveScrapeSource, HtmlFixtureSource } from './ScrapeSource';
+export { StaticHtmlPage } from './StaticHtmlPage';
+export { PagePool } from './PagePool';
+export { HostThrottle } from './HostThrottle';
+export { LayoutDriftDetector } from './LayoutDriftDetector';
+export { PageClassifier } from './PageClassifier';
+export { NetworkPayloadExtractor } from './NetworkPayloadExtractor';
+export { ProxyPool } from './ProxyPool';
+export { PolitenessScheduler } from './PolitenessScheduler';
+export { ReviewQueueService, REVIEW_LABELS } from './ReviewQueueService';
+export { PageFingerprintCache } from './PageFingerprintCache';
+export { CircuitBreaker } from './CircuitBreaker';
+export { BrowserLifecycle } from './BrowserLifecycle';
+export { ResourcePolicy, BLOCKABLE_RESOURCE_TYPES } from './ResourcePolicy';
+export { EvidenceArchiveService, recordNetworkLog } from './EvidenceArchiveService';
+export { FilterOptionDiscovery, FILTER_OPTIONS_SCRIPT, mergeCities, parseFilterOptions } from './FilterOptionDiscovery';
+export { AvailabilityAnalyticsService, computeDurationStats } from './AvailabilityAnalyticsService';
+export { AdaptiveCheckScheduler, DEFAULT_ADAPTIVE_MIN_INTERVAL_MS, DEFAULT_ADAPTIVE_MAX_INTERVAL_MS } from './AdaptiveCheckScheduler';
+export { WatchProfileService, DEFAULT_PROFILE_DATA_DIRECTORY, filterCheckResult } from './WatchProfileService';
+export { IrsafamProvider, DEFAULT_PROVIDER_ID, getProvider, getProviderIds, getProviderName, listProviders, registerProvider } from './providers';
+export type { ScrapingFilters, RetryConfig, WebScraperOptions } from './WebScraperService';
 export type { AppointmentSnapshot, DataStorageConfig } from './DataStorageService';
 export type { MonitoringStatistics, LogEntry, StatusLoggerConfig } from './StatusLoggerService';
 export type { MonitorControllerEvents } from './MonitorController';
 export type { ErrorContext, RecoveryStrategy, EnhancedError } from './ErrorHandlerService';
-export type { DataInspectionConfig, InspectionRecord } from './DataInspectionService';
\ No newline at end of file
+export type { DataInspectionConfig, InspectionRecord } from './DataInspectionService';
+export type { DetectionRuleServiceConfig, DetectionRuleSetInfo } from './DetectionRuleService';
+export type { ScrapeSource, ScrapeTarget } from './ScrapeSource';
+export type { DetectionPage } from './StaticHtmlPage';
+export type { PagePoolConfig, PagePoolStats } from './PagePool';
+export type { HostThrottleConfig } from './HostThrottle';
+export type { LayoutDriftConfig, LayoutCheckSummary, LayoutDriftAssessment } from './LayoutDriftDetector';
+export type { PageSnapshot } from './PageClassifier';
+export type { NetworkPayloadConfig, CapturedPayload, PayloadExtraction, PayloadCapture } from './NetworkPayloadExtractor';
+export type { ProxyPoolConfig, ProxyEndpoint, ProxyHealth } from './ProxyPool';
+export type { PolitenessSchedulerConfig } from './PolitenessScheduler';
+export type { ReviewQueueConfig, ReviewLabel, ReviewQueueEntry, LabeledSlot } from './ReviewQueueService';
+export type { PageFingerprintCacheConfig } from './PageFingerprintCache';
+export type { CircuitBreakerConfig } from './CircuitBreaker';
+export type { BrowserLifecycleConfig, BrowserMemoryProbe } from './BrowserLifecycle';
+export type { ResourcePolicyConfig, RequestCounts, ResourceBlocking, ReadinessMarkers } from './ResourcePolicy';
+export type { EvidenceArchiveConfig, EvidenceCapture, EvidenceManifest, HarLog, NetworkLogRecorder } from './EvidenceArchiveService';
+export type { FilterOptionDiscoveryConfig, DiscoveredFilterOptions, FilterOptions, FilterOptionsSource, TimetableFetcher } from './FilterOptionDiscovery';
+export type { AvailabilityAnalyticsConfig, AvailabilityReport, DurationStats, DurationBreakdown, CountBreakdown } from './AvailabilityAnalyticsService';
+export type { AdaptiveCheckSchedulerConfig, AdaptiveInterval } from './AdaptiveCheckScheduler';
+export type { WatchProfileServiceConfig, ActiveQuietHours, ProfileCheckOutcome, ProfileNotificationFactory } from './WatchProfileService';
+export type { AppointmentProvider, ProviderCity } from './providers';
@@ -0,0 +1,39 @@
+import { DetectionRuleSet } from '../../models/types';
+import type { ScrapingFilters } from '../WebScraperService';
+
+/**
+ * A city (test centre location) offered by a provider
+ */
+export interface ProviderCity {
+  id: string; // Filter value used in requests and configuration, e.g. 'isfahan'
+  label: string; // Display name, e.g. 'Isfahan'
+  aliases: string[]; // Other spellings found on the site, e.g. Persian names
+}
+
+/**
+ * An IELTS registration site whose timetable can be monitored.
+ * Providers describe everything site-specific: request URLs, known cities,
+ * fixtures and status detection rules. Parsing itself is shared.
+ */
+export interface AppointmentProvider {
+  readonly id: string; // Stable identifier used in configuration and notifications
+  readonly name: string; // Human-readable name
+  readonly defaultBaseUrl: string; // Timetable URL used when no baseUrl is configured
+  readonly siteOrigin: string; // Origin used to resolve relative registration links
+  readonly cities: ProviderCity[]; // Known cities; the first one is the fallback for unrecognised text
+  readonly examModels: string[]; // Exam model filter values the site accepts
+  readonly detectionRulesFile: string; // Detection rule file for this site's markup
+  readonly defaultDetectionRules: DetectionRuleSet; // Built-in rules used when the rule file is missing
+  readonly fixturesDirectory: string; // Saved timetable pages for offline checks and tests
+  readonly idNamespace?: string | undefined; // Keeps appointment IDs of different providers apart
+
+  /**
+   * Build the request URL for a single month (or the first configured month)
+   */
+  buildRequestUrl(baseUrl: string, filters: ScrapingFilters, month?: number): string;
+
+  /**
+   * Build every request URL needed to cover the filters
+   */
+  buildRequestUrls(baseUrl: string, filters: ScrapingFilters): string[];
+}
@@ -0,0 +1,66 @@
+import path from 'path';
+import { DEFAULT_DETECTION_RULES } from '../DetectionRuleService';
+import type { ScrapingFilters } from '../WebScraperService';
+import { AppointmentProvider, ProviderCity } from './AppointmentProvider';
+
+/**
+ * irsafam.org IELTS timetable
+ */
+export class IrsafamProvider implements AppointmentProvider {
+  readonly id = 'irsafam';
+  readonly name = 'Irsafam';
+  readonly defaultBaseUrl = 'https://irsafam.org/ielts/timetable';
+  readonly siteOrigin = 'https://irsafam.org';
+  readonly cities: ProviderCity[] = [
+    { id: 'isfahan', label: 'Isfahan', aliases: ['اصفهان'] },
+    { id: 'tehran', label: 'Tehran', aliases: ['تهران'] },
+    { id: 'shiraz', label: 'Shiraz', aliases: ['شیراز'] },
+    { id: 'mashhad', label: 'Mashhad', aliases: ['مشهد'] },
+    { id: 'tabriz', label: 'Tabriz', aliases: ['تبریز'] }
+  ];
+  readonly examModels = ['cdielts', 'ielts', 'ukvi'];
+  // Kept at the original location so existing rule files keep working
+  readonly detectionRulesFile = 'config/detection-rules.json';
+  readonly defaultDetectionRules = DEFAULT_DETECTION_RULES;
+  readonly fixturesDirectory = path.join('fixtures', 'irsafam');
+
+  /**
+   * The timetable only accepts one month per request, so this builds the URL for a single month
+   */
+  buildRequestUrl(baseUrl: string, filters: ScrapingFilters, month?: number): string {
+    const params = new URLSearchParams();
+
+    if (filters.city && filters.city.length > 0) {
+      filters.city.forEach(city => {
+        params.append('city[]', city.toLowerCase());
+      });
+    }
+
+    if (filters.examModel && filters.examModel.length > 0) {
+      filters.examModel.forEach(model => {
+        params.append('model[]', model.toLowerCase());
+      });
+    }
+
+    if (month) {
+      params.append('month[]', month.toString());
+    } else if (filters.months && filters.months.length > 0) {
+      // Use the first month if no specific month is provided
+      params.append('month[]', filters.months[0].toString());
+    }
+
+    const queryString = params.toString();
+    return queryString ? `${baseUrl}?${queryString}` : baseUrl;
+  }
+
+  /**
+   * Build one URL per month, or the plain filter URL when no months are configured
+   */
+  buildRequestUrls(baseUrl: string, filters: ScrapingFilters): string[] {
+    if (filters.months && filters.months.length > 0) {
+      return filters.months.map(month => this.buildRequestUrl(baseUrl, filters, month));
+    }
+
+    return [this.buildRequestUrl(baseUrl, filters)];
+  }
+}
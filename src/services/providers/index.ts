@@ -0,0 +1,57 @@
+/**
+ * Registry of supported appointment providers
+ */
+
+import { AppointmentProvider } from './AppointmentProvider';
+import { IrsafamProvider } from './IrsafamProvider';
+
+export type { AppointmentProvider, ProviderCity } from './AppointmentProvider';
+export { IrsafamProvider } from './IrsafamProvider';
+
+/**
+ * Provider used when the configuration does not name one
+ */
+export const DEFAULT_PROVIDER_ID = 'irsafam';
+
+const providers = new Map<string, AppointmentProvider>();
+
+/**
+ * Register a provider, replacing any provider with the same id
+ */
+export function registerProvider(provider: AppointmentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a provider by id (defaults to irsafam)
+ */
+export function getProvider(id: string = DEFAULT_PROVIDER_ID): AppointmentProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown appointment provider "${id}". Available providers: ${getProviderIds().join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * All registered providers
+ */
+export function listProviders(): AppointmentProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Display name of a provider, falling back to the id for unknown providers
+ */
+export function getProviderName(id: string): string {
+  return providers.get(id)?.name || id;
+}
+
+/**
+ * Ids of all registered providers
+ */
+export function getProviderIds(): string[] {
+  return Array.from(providers.keys());
+}
+
+registerProvider(new IrsafamProvider());
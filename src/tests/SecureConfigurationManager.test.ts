@@ -12,6 +12,7 @@ describe('SecureConfigurationManager', () => {
     delete process.env.TELEGRAM_BOT_TOKEN;
     delete process.env.TELEGRAM_CHAT_ID;
     delete process.env.MONITOR_CHECK_INTERVAL;
+    delete process.env.MONITOR_DATE_FILTER;
   });
 
   afterEach(async () => {
@@ -55,6 +56,33 @@ describe('SecureConfigurationManager', () => {
 
       await expect(configManager.loadSecureConfig()).rejects.toThrow('Invalid configuration');
     });
+
+    it('should read date filters from MONITOR_DATE_FILTER', async () => {
+      await fs.writeJson(testConfigPath, { dateFilters: { weekdays: ['sat'] } });
+      process.env.MONITOR_DATE_FILTER = '2026-11-10..2026-12-05; thu,fri; 08:00-12:00; !2026-11-20';
+
+      const config = await configManager.loadSecureConfig();
+
+      expect(config.dateFilters).toEqual({
+        dateRanges: [{ from: '2026-11-10', to: '2026-12-05' }],
+        excludeDates: ['2026-11-20'],
+        weekdays: ['thu', 'fri'],
+        timeWindows: [{ start: '08:00', end: '12:00' }]
+      });
+
+      process.env.MONITOR_DATE_FILTER = 'thu mornings';
+      await expect(configManager.loadSecureConfig()).rejects.toThrow('Invalid MONITOR_DATE_FILTER');
+      process.env.MONITOR_DATE_FILTER = '2026-12-05..2026-11-10';
+      await expect(configManager.loadSecureConfig()).rejects.toThrow('dateFilters.dateRanges[0].from must not be after to');
+    });
+
+    it('should check a single adaptive interval bound against the default of the other', async () => {
+      await fs.writeJson(testConfigPath, { adaptiveInterval: { enabled: true, minIntervalMs: 1200000 } });
+      await expect(configManager.loadSecureConfig()).rejects.toThrow('adaptiveInterval.minIntervalMs (1200000) must not be greater than adaptiveInterval.maxIntervalMs (900000)');
+
+      await fs.writeJson(testConfigPath, { adaptiveInterval: { enabled: true, maxIntervalMs: 10000 } });
+      await expect(configManager.loadSecureConfig()).rejects.toThrow('adaptiveInterval.minIntervalMs (30000) must not be greater than adaptiveInterval.maxIntervalMs (10000)');
+    });
   });
 
   describe('loadTelegramConfig', () => {
@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { AppointmentDetectionService } from '../../services/AppointmentDetectionService';
 import { Appointment, CheckResult } from '../../models/types';
+import { createStableAppointmentId } from '../../models/identity';
 
 describe('AppointmentDetectionService', () => {
   let service: AppointmentDetectionService;
@@ -126,6 +127,19 @@ describe('AppointmentDetectionService', () => {
       expect(result.removedAppointments[0].id).toBe('apt-2');
     });
 
+    it('should keep tracked appointments when the site served a blocked page', async () => {
+      await service.processAppointments(createMockCheckResult([
+        createMockAppointment('apt-1', 'available'),
+        createMockAppointment('apt-2', 'filled')
+      ]));
+
+      const blockedCheck: CheckResult = { ...createMockCheckResult([]), type: 'blocked' };
+      const result = await service.processAppointments(blockedCheck, { skipRemovalDetection: true });
+
+      expect(result.removedAppointments).toHaveLength(0);
+      expect(service.getTrackingStatistics().totalTracked).toBe(2);
+    });
+
     it('should not mark filled appointments as new available', async () => {
       const appointments = [
         createMockAppointment('apt-1', 'filled'),
@@ -249,5 +263,121 @@ describe('AppointmentDetectionService', () => {
       expect(stats.totalTracked).toBe(1);
       expect(stats.totalNotificationsSent).toBe(1);
     });
+
+    it('should keep the history of removed appointments for analytics', async () => {
+      await service.processAppointments(createMockCheckResult([
+        createMockAppointment('apt-1', 'available'),
+        createMockAppointment('apt-2', 'filled')
+      ]));
+      await service.processAppointments(createMockCheckResult([createMockAppointment('apt-1', 'available')]));
+
+      const newService = new AppointmentDetectionService({
+        trackingDataFile: testTrackingFile,
+        maxTrackingDays: 30,
+        statusChangeThreshold: 5
+      });
+      await newService.initialize();
+
+      expect(newService.getTrackingStatistics().totalTracked).toBe(1);
+      const removed = newService.getStatusHistoryRecords().find(record => record.id === 'apt-2')!;
+      expect(removed.statusHistory.map(change => change.newStatus)).toEqual(['filled', 'removed']);
+      expect(removed.lastSeen).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('stable identity', () => {
+    const withStableId = (appointment: Omit<Appointment, 'id'>): Appointment => ({
+      ...appointment,
+      id: createStableAppointmentId(appointment)
+    });
+
+    it('should reconcile a slot whose text changed slightly', async () => {
+      const original = withStableId({
+        date: '2024-12-15',
+        time: '09:00-12:00',
+        location: 'Isfahan Test Center',
+        examType: 'IELTS',
+        city: 'Isfahan',
+        status: 'filled'
+      });
+      const changed = withStableId({
+        ...original,
+        location: 'Isfahan Test Center (Hall B)',
+        status: 'available'
+      });
+
+      await service.processAppointments(createMockCheckResult([original]));
+      const result = await service.processAppointments(createMockCheckResult([changed]));
+
+      expect(changed.id).not.toBe(original.id);
+      expect(result.removedAppointments).toHaveLength(0);
+      expect(result.statusChangedAppointments).toHaveLength(1);
+
+      const history = service.getAppointmentHistory(changed.id);
+      expect(history?.previousIds).toEqual([original.id]);
+      expect(history?.statusHistory).toHaveLength(2);
+    });
+
+    it('should not reconcile slots with a different start time', async () => {
+      const morning = withStableId({
+        date: '2024-12-15',
+        time: '09:00-12:00',
+        location: 'Isfahan Test Center',
+        examType: 'IELTS',
+        city: 'Isfahan',
+        status: 'available'
+      });
+      const afternoon = withStableId({ ...morning, time: '13:30-16:30' });
+
+      await service.processAppointments(createMockCheckResult([morning]));
+      const result = await service.processAppointments(createMockCheckResult([afternoon]));
+
+      expect(result.newAvailableAppointments.map(apt => apt.id)).toEqual([afternoon.id]);
+      expect(result.removedAppointments.map(tracked => tracked.id)).toEqual([morning.id]);
+    });
+
+    it('should migrate timestamp-based IDs in existing tracking files', async () => {
+      const legacyAppointment = {
+        date: '2024-12-15',
+        time: '09:00-12:00',
+        location: 'Test Center',
+        examType: 'IELTS',
+        city: 'Isfahan'
+      };
+      const legacyRecord = (id: string, status: string, seen: string) => ({
+        id,
+        appointment: { ...legacyAppointment, id, status },
+        firstSeen: seen,
+        lastSeen: seen,
+        statusHistory: [{ timestamp: seen, previousStatus: 'unknown', newStatus: status, reason: 'First detection' }],
+        notificationsSent: 1
+      });
+
+      await fs.writeFile(testTrackingFile, JSON.stringify({
+        trackedAppointments: {
+          'appointment-1700000000000-0': legacyRecord('appointment-1700000000000-0', 'filled', new Date(Date.now() - 60000).toISOString()),
+          'appointment-1700000300000-0': legacyRecord('appointment-1700000300000-0', 'available', new Date().toISOString())
+        }
+      }));
+
+      const migratedService = new AppointmentDetectionService({
+        trackingDataFile: testTrackingFile,
+        notificationTrackingFile: testNotificationFile
+      });
+      await migratedService.initialize();
+
+      const stableId = createStableAppointmentId(legacyAppointment);
+      const tracked = migratedService.getAppointmentHistory(stableId);
+
+      expect(migratedService.getTrackingStatistics().totalTracked).toBe(1);
+      expect(tracked?.appointment.status).toBe('available');
+      expect(tracked?.statusHistory).toHaveLength(2);
+      expect(tracked?.notificationsSent).toBe(2);
+      expect(tracked?.previousIds).toHaveLength(2);
+
+      const saved = JSON.parse(await fs.readFile(testTrackingFile, 'utf-8'));
+      expect(saved.version).toBe('2.0');
+      expect(Object.keys(saved.trackedAppointments)).toEqual([stableId]);
+    });
   });
 });
\ No newline at end of file